@@ -0,0 +1,69 @@
+import { buildModule } from "@nomicfoundation/hardhat-ignition/modules";
+import { Future } from "@nomicfoundation/ignition-core";
+import { LP_STAKING_CIRCUITS } from "../../sdk/constants";
+
+/**
+ * Staged launch of `AIXCBLPStaking` behind an ERC1967 proxy:
+ *
+ *   AIXCBLPStakingProxy    implementation, proxy and `initialize`; stays paused
+ *   AIXCBLPStakingFunding  trips `STAKING_CIRCUIT`, unpauses (funding requires
+ *                          it) and funds the three reward pools
+ *   AIXCBLPStakingLaunch   resets `STAKING_CIRCUIT` so staking opens
+ *
+ * The contract has no funding check of its own, so `scripts/deploy.ts` checks
+ * every pool's `ratePerSecond` before it deploys Launch.
+ */
+
+const LP_STAKING_CONTRACT = "src/AIXCBLPStaking.sol:AIXCBLPStaking";
+const IERC20 = "@openzeppelin/contracts/token/ERC20/IERC20.sol:IERC20";
+
+export const LP_REWARD_TOKEN_COUNT = 3;
+
+/** Ignition parameter holding the budget of `rewardPools[rewardTokens[tokenIndex]]` */
+export function lpFundingParameter(tokenIndex: number): string {
+    return `token${tokenIndex}`;
+}
+
+export const AIXCBLPStakingProxyModule = buildModule("AIXCBLPStakingProxy", (m) => {
+    const implementation = m.contract(LP_STAKING_CONTRACT, [], { id: "AIXCBLPStakingImplementation" });
+    const initialize = m.encodeFunctionCall(implementation, "initialize", [
+        m.getParameter<string>("lpToken"),
+        m.getParameter<string[]>("rewardTokens"),
+        m.getParameter<string>("treasury")
+    ]);
+    const proxy = m.contract("ERC1967Proxy", [implementation, initialize], { id: "AIXCBLPStakingProxy" });
+    const staking = m.contractAt(LP_STAKING_CONTRACT, proxy, { id: "AIXCBLPStaking" });
+
+    return { implementation, proxy, staking };
+});
+
+export const AIXCBLPStakingFundingModule = buildModule("AIXCBLPStakingFunding", (m) => {
+    const { implementation, proxy, staking } = m.useModule(AIXCBLPStakingProxyModule);
+
+    const closeStaking = m.call(staking, "toggleCircuitBreaker", [LP_STAKING_CIRCUITS.STAKING_CIRCUIT], {
+        id: "closeStaking"
+    });
+    let previous: Future = m.call(staking, "unpause", [], { after: [closeStaking] });
+
+    for (let tokenIndex = 0; tokenIndex < LP_REWARD_TOKEN_COUNT; tokenIndex++) {
+        const address = m.staticCall(staking, "rewardTokens", [tokenIndex], 0, { id: `rewardTokens${tokenIndex}` });
+        const token = m.contractAt(IERC20, address, { id: `RewardToken${tokenIndex}` });
+
+        const pool = lpFundingParameter(tokenIndex);
+        const amount = m.getParameter<bigint>(pool);
+        const approval: Future = m.call(token, "approve", [proxy, amount], { id: `approve_${pool}`, after: [previous] });
+        previous = m.call(staking, "fundRewardPool", [token, amount], { id: `fundRewardPool_${pool}`, after: [approval] });
+    }
+
+    return { implementation, proxy, staking };
+});
+
+export default buildModule("AIXCBLPStakingLaunch", (m) => {
+    const { implementation, proxy, staking } = m.useModule(AIXCBLPStakingFundingModule);
+    m.call(staking, "toggleCircuitBreaker", [LP_STAKING_CIRCUITS.STAKING_CIRCUIT], {
+        id: "openStaking",
+        after: [AIXCBLPStakingFundingModule]
+    });
+
+    return { implementation, proxy, staking };
+});
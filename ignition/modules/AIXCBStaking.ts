@@ -0,0 +1,71 @@
+import { buildModule } from "@nomicfoundation/hardhat-ignition/modules";
+import { Future } from "@nomicfoundation/ignition-core";
+import { MAX_PERIOD_INDEX } from "../../sdk/constants";
+
+/**
+ * Staged launch of `AIXCBStaking` behind an ERC1967 proxy:
+ *
+ *   AIXCBStakingProxy    implementation, proxy and `initialize`; stays paused
+ *   AIXCBStakingFunding  approves and funds the nine period/token pools
+ *   AIXCBStakingLaunch   `startStaking`, which reverts unless `areRewardPoolsFunded()`
+ *
+ * `scripts/deploy.ts` deploys Funding, checks `areRewardPoolsFunded()` and only
+ * then deploys Launch. Parameters live in `ignition/parameters/<network>.json`.
+ */
+
+const STAKING_CONTRACT = "src/AIXCBStaking.sol:AIXCBStaking";
+const IERC20 = "@openzeppelin/contracts/token/ERC20/IERC20.sol:IERC20";
+
+/** `initialize` takes the staking token plus two more reward tokens */
+export const STAKING_REWARD_TOKEN_COUNT = 3;
+
+/** Ignition parameter holding the budget of one `rewardPools[periodIndex][rewardTokens[tokenIndex]]` */
+export function stakingFundingParameter(periodIndex: number, tokenIndex: number): string {
+    return `period${periodIndex}Token${tokenIndex}`;
+}
+
+export const AIXCBStakingProxyModule = buildModule("AIXCBStakingProxy", (m) => {
+    const implementation = m.contract(STAKING_CONTRACT, [], { id: "AIXCBStakingImplementation" });
+    const initialize = m.encodeFunctionCall(implementation, "initialize", [
+        m.getParameter<string>("stakingToken"),
+        m.getParameter<string[]>("rewardTokens"),
+        m.getParameter<string>("treasury")
+    ]);
+    const proxy = m.contract("ERC1967Proxy", [implementation, initialize], { id: "AIXCBStakingProxy" });
+    const staking = m.contractAt(STAKING_CONTRACT, proxy, { id: "AIXCBStaking" });
+
+    return { implementation, proxy, staking };
+});
+
+export const AIXCBStakingFundingModule = buildModule("AIXCBStakingFunding", (m) => {
+    const { implementation, proxy, staking } = m.useModule(AIXCBStakingProxyModule);
+
+    // Each approval is spent by the next `fundRewardPool`, so the pairs run one after another
+    let previous: Future | undefined;
+    for (let tokenIndex = 0; tokenIndex < STAKING_REWARD_TOKEN_COUNT; tokenIndex++) {
+        const address = m.staticCall(staking, "rewardTokens", [tokenIndex], 0, { id: `rewardTokens${tokenIndex}` });
+        const token = m.contractAt(IERC20, address, { id: `RewardToken${tokenIndex}` });
+
+        for (let periodIndex = 0; periodIndex <= MAX_PERIOD_INDEX; periodIndex++) {
+            const pool = stakingFundingParameter(periodIndex, tokenIndex);
+            const amount = m.getParameter<bigint>(pool);
+            const approval = m.call(token, "approve", [proxy, amount], {
+                id: `approve_${pool}`,
+                after: previous ? [previous] : []
+            });
+            previous = m.call(staking, "fundRewardPool", [periodIndex, token, amount], {
+                id: `fundRewardPool_${pool}`,
+                after: [approval]
+            });
+        }
+    }
+
+    return { implementation, proxy, staking };
+});
+
+export default buildModule("AIXCBStakingLaunch", (m) => {
+    const { implementation, proxy, staking } = m.useModule(AIXCBStakingFundingModule);
+    m.call(staking, "startStaking", [], { after: [AIXCBStakingFundingModule] });
+
+    return { implementation, proxy, staking };
+});
@@ -0,0 +1,392 @@
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from "fs";
+import path from "path";
+import hre from "hardhat";
+import { setBalance, time } from "@nomicfoundation/hardhat-network-helpers";
+import { ContractTransactionResponse, Wallet, id, toQuantity } from "ethers";
+import { AIXCBLPStaking__factory, AIXCBStaking__factory, MockERC20 } from "../typechain-types";
+import { LP_STAKING_CIRCUITS, STAKING_CIRCUITS } from "../sdk/constants";
+import { ContractName } from "../sdk/errors";
+import {
+    GasFailure,
+    GasReport,
+    GasSample,
+    ListingPoint,
+    compareGas,
+    formatGasJson,
+    formatGasMarkdown,
+    listingLimit
+} from "../sdk/gasReport";
+
+/**
+ * Gas benchmark of every user and admin entry point of both contracts, on
+ * the in-process Hardhat network:
+ *
+ *   npx hardhat run scripts/benchmarkGas.ts
+ *
+ * Sweeps the number of reward tokens (one staker), then the number of
+ * stakers in a period (three reward tokens), and measures the `eth_call` gas
+ * of `getStakersForPeriod` at each staker count. The block gas limit is raised
+ * to the largest RPC cap first, so the listing is measured up to every cap
+ * rather than extrapolated, and staker counts it fails at are reported as
+ * such. Writes `gas-report.json` and `gas-report.md` to `benchmarks/`, and
+ * compares the run with `benchmarks/gas-baseline.json`, which is created by
+ * the first run. Exits with 1 when any sample is more than the threshold
+ * above its baseline.
+ *
+ * Hardhat config:
+ *   networks.hardhat.hardfork   before "osaka", e.g. "prague"; Osaka's EIP-7825
+ *                               caps calls at 2^24 gas, so the script refuses it
+ *   networks.hardhat.blockGasLimit
+ *                               any; the script raises it to the largest RPC cap
+ *   solidity                    the compiler and optimizer settings the baseline
+ *                               was taken with, or every sample moves
+ *
+ * Environment:
+ *   GAS_TOKENS       reward token counts, default 1,2,5,10,20
+ *   GAS_STAKERS      staker counts, default 1,10,100,1000,10000
+ *   GAS_THRESHOLD    allowed increase in percent, default 2
+ *   GAS_RPC_CAPS     eth_call gas caps for the listing limit, default 16777216,30000000,50000000,550000000;
+ *                    the largest one becomes the block gas limit
+ *   GAS_UPDATE=1     overwrites the baseline with this run
+ */
+
+const OUT_DIR = path.join(hre.config.paths.root, "benchmarks");
+const BASELINE_FILE = path.join(OUT_DIR, "gas-baseline.json");
+const STAKE_AMOUNT = hre.ethers.parseEther("1000");
+const FUNDING = hre.ethers.parseEther("1000000");
+/** Reward tokens of the staker sweep, as at launch */
+const STAKER_SWEEP_TOKENS = 3;
+const DAY = 24 * 60 * 60;
+
+function numbers(value: string | undefined, fallback: number[]): number[] {
+    if (value === undefined) return fallback;
+    const list = value.split(",").map(Number);
+    if (list.some((n) => !Number.isSafeInteger(n) || n <= 0)) throw new Error(`Expected positive integers, got ${value}`);
+    return list;
+}
+
+const TOKEN_COUNTS = numbers(process.env.GAS_TOKENS, [1, 2, 5, 10, 20]);
+const STAKER_COUNTS = numbers(process.env.GAS_STAKERS, [1, 10, 100, 1000, 10000]).sort((a, b) => a - b);
+const THRESHOLD_PERCENT = Number(process.env.GAS_THRESHOLD ?? "2");
+const RPC_CAPS = numbers(process.env.GAS_RPC_CAPS, [16_777_216, 30_000_000, 50_000_000, 550_000_000]);
+/** Block gas limit of the run, and so the most gas a measured `eth_call` may use */
+const CALL_GAS_CEILING = Math.max(...RPC_CAPS);
+/** EIP-7825 per-transaction gas cap, which Hardhat also applies to calls from the Osaka hardfork */
+const TX_GAS_CAP = 16_777_216;
+const TX_GAS_CAP_HARDFORKS = ["osaka"];
+
+class Recorder {
+    readonly samples: GasSample[] = [];
+
+    constructor(
+        private readonly contract: ContractName,
+        private readonly rewardTokens: number,
+        private readonly stakers: number
+    ) {}
+
+    async measure(entryPoint: string, send: Promise<ContractTransactionResponse>) {
+        const receipt = await (await send).wait();
+        this.samples.push({
+            contract: this.contract,
+            entryPoint,
+            rewardTokens: this.rewardTokens,
+            stakers: this.stakers,
+            gas: Number(receipt!.gasUsed),
+        });
+    }
+}
+
+async function deployTokens(count: number, prefix: string): Promise<MockERC20[]> {
+    const MockToken = await hre.ethers.getContractFactory("MockERC20");
+    const tokens: MockERC20[] = [];
+    for (let i = 0; i < count; i++) tokens.push(await MockToken.deploy(`${prefix} ${i}`, `${prefix}${i}`));
+    return tokens;
+}
+
+async function deployProxy(contractName: string, initArgs: unknown[]): Promise<string> {
+    const Implementation = await hre.ethers.getContractFactory(contractName);
+    const implementation = await Implementation.deploy();
+    const initialize = Implementation.interface.encodeFunctionData("initialize", initArgs);
+    const Proxy = await hre.ethers.getContractFactory("ERC1967Proxy");
+    const proxy = await Proxy.deploy(await implementation.getAddress(), initialize);
+    return proxy.getAddress();
+}
+
+/** `rewardTokenCount` includes the staking token, which is reward token 0 */
+async function deployStaking(rewardTokenCount: number) {
+    const [owner, treasury] = await hre.ethers.getSigners();
+    const [stakingToken, ...others] = await deployTokens(rewardTokenCount, "RWD");
+    const rewardTokens = [stakingToken, ...others];
+    const proxy = await deployProxy("src/AIXCBStaking.sol:AIXCBStaking", [
+        await stakingToken.getAddress(),
+        await Promise.all(rewardTokens.map((token) => token.getAddress())),
+        treasury.address,
+    ]);
+    const staking = AIXCBStaking__factory.connect(proxy, owner);
+    for (const token of rewardTokens) {
+        await token.mint(owner.address, FUNDING * 4n);
+        await token.approve(await staking.getAddress(), FUNDING * 4n);
+    }
+    return { staking, stakingToken, rewardTokens };
+}
+
+async function deployLPStaking(rewardTokenCount: number) {
+    const [owner, treasury] = await hre.ethers.getSigners();
+    const [lpToken] = await deployTokens(1, "LP");
+    const rewardTokens = await deployTokens(rewardTokenCount, "RWD");
+    const proxy = await deployProxy("src/AIXCBLPStaking.sol:AIXCBLPStaking", [
+        await lpToken.getAddress(),
+        await Promise.all(rewardTokens.map((token) => token.getAddress())),
+        treasury.address,
+    ]);
+    const staking = AIXCBLPStaking__factory.connect(proxy, owner);
+    for (const token of rewardTokens) {
+        await token.mint(owner.address, FUNDING * 2n);
+        await token.approve(await staking.getAddress(), FUNDING * 2n);
+    }
+    return { staking, lpToken, rewardTokens };
+}
+
+/** Every entry point of AIXCBStaking, with one staker */
+async function benchmarkStakingEntryPoints(rewardTokenCount: number): Promise<GasSample[]> {
+    const [owner, treasury, user] = await hre.ethers.getSigners();
+    const { staking, stakingToken, rewardTokens } = await deployStaking(rewardTokenCount);
+    const address = await staking.getAddress();
+    const recorder = new Recorder("AIXCBStaking", rewardTokenCount, 1);
+    const stake = (periodIndex: number) =>
+        staking.connect(user).stake({ amount: STAKE_AMOUNT, periodIndex, deadline: 2n ** 48n });
+
+    await recorder.measure("unpause", staking.unpause());
+    for (let periodIndex = 0; periodIndex <= 2; periodIndex++) {
+        for (const token of rewardTokens) {
+            const funding = staking.fundRewardPool(periodIndex, await token.getAddress(), FUNDING);
+            if (periodIndex === 0 && token === rewardTokens[0]) await recorder.measure("fundRewardPool (new pool)", funding);
+            else await (await funding).wait();
+        }
+    }
+    await stakingToken.mint(user.address, STAKE_AMOUNT * 10n);
+    await stakingToken.connect(user).approve(address, STAKE_AMOUNT * 10n);
+
+    await recorder.measure("stake (new)", stake(0));
+    await time.increase(DAY);
+    await recorder.measure("stake (top-up)", stake(0));
+    await time.increase(DAY);
+    await recorder.measure("claimRewards", staking.connect(user).claimRewards(0));
+    await time.increase(DAY);
+    await recorder.measure("fundRewardPool (running pool)", staking.fundRewardPool(0, await stakingToken.getAddress(), FUNDING));
+    await recorder.measure("upgradeStakePeriod", staking.connect(user).upgradeStakePeriod(0, 1));
+    await time.increase(180 * DAY);
+    await recorder.measure("withdraw", staking.connect(user).withdraw(1));
+    await stake(2);
+
+    await recorder.measure("toggleCircuitBreaker", staking.toggleCircuitBreaker(STAKING_CIRCUITS.STAKING_CIRCUIT));
+    await staking.toggleCircuitBreaker(STAKING_CIRCUITS.STAKING_CIRCUIT);
+    const [extra, stray] = await deployTokens(2, "XTR");
+    await recorder.measure("addRewardToken", staking.addRewardToken(await extra.getAddress()));
+    await recorder.measure("removeRewardToken", staking.removeRewardToken(await extra.getAddress()));
+    await stray.mint(address, STAKE_AMOUNT);
+    await recorder.measure("recoverERC20", staking.recoverERC20(await stray.getAddress(), STAKE_AMOUNT));
+
+    await recorder.measure("enableEmergencyMode", staking.enableEmergencyMode());
+    await recorder.measure("emergencyWithdraw", staking.connect(user).emergencyWithdraw(2));
+    await recorder.measure(
+        "emergencyWithdrawRewardToken",
+        staking.emergencyWithdrawRewardToken(await rewardTokens[rewardTokens.length - 1].getAddress(), FUNDING / 10n, treasury.address)
+    );
+    await recorder.measure("disableEmergencyMode", staking.disableEmergencyMode());
+    await recorder.measure("pause", staking.connect(owner).pause());
+    return recorder.samples;
+}
+
+/** Every entry point of AIXCBLPStaking, with one staker */
+async function benchmarkLPStakingEntryPoints(rewardTokenCount: number): Promise<GasSample[]> {
+    const [, , user] = await hre.ethers.getSigners();
+    const { staking, lpToken, rewardTokens } = await deployLPStaking(rewardTokenCount);
+    const address = await staking.getAddress();
+    const recorder = new Recorder("AIXCBLPStaking", rewardTokenCount, 1);
+
+    await recorder.measure("unpause", staking.unpause());
+    for (const token of rewardTokens) {
+        const funding = staking.fundRewardPool(await token.getAddress(), FUNDING);
+        if (token === rewardTokens[0]) await recorder.measure("fundRewardPool (new pool)", funding);
+        else await (await funding).wait();
+    }
+    await lpToken.mint(user.address, STAKE_AMOUNT * 10n);
+    await lpToken.connect(user).approve(address, STAKE_AMOUNT * 10n);
+
+    await recorder.measure("stake (new)", staking.connect(user).stake(STAKE_AMOUNT));
+    await time.increase(DAY);
+    await recorder.measure("stake (top-up)", staking.connect(user).stake(STAKE_AMOUNT));
+    await time.increase(DAY);
+    await recorder.measure("claimRewards", staking.connect(user).claimRewards());
+    await time.increase(DAY);
+    await recorder.measure("fundRewardPool (running pool)", staking.fundRewardPool(await rewardTokens[0].getAddress(), FUNDING));
+    await recorder.measure("withdraw", staking.connect(user).withdraw(STAKE_AMOUNT));
+
+    await recorder.measure("toggleCircuitBreaker", staking.toggleCircuitBreaker(LP_STAKING_CIRCUITS.STAKING_CIRCUIT));
+    await staking.toggleCircuitBreaker(LP_STAKING_CIRCUITS.STAKING_CIRCUIT);
+    const [extra, stray] = await deployTokens(2, "XTR");
+    await recorder.measure("addRewardToken", staking.addRewardToken(await extra.getAddress()));
+    await recorder.measure("removeRewardToken", staking.removeRewardToken(await extra.getAddress()));
+    await stray.mint(address, STAKE_AMOUNT);
+    await recorder.measure("recoverERC20", staking.recoverERC20(await stray.getAddress(), STAKE_AMOUNT));
+
+    await recorder.measure("enableEmergencyMode", staking.enableEmergencyMode());
+    await recorder.measure("emergencyWithdraw", staking.connect(user).emergencyWithdraw());
+    await recorder.measure("disableEmergencyMode", staking.disableEmergencyMode());
+    await recorder.measure("pause", staking.pause());
+    return recorder.samples;
+}
+
+/**
+ * Smallest gas limit under which an `eth_call` succeeds, found by bisection:
+ * Hardhat's `eth_estimateGas` probes above the block gas limit and fails for
+ * large calls. Undefined when the call fails even at `CALL_GAS_CEILING`.
+ */
+async function callGas(to: string, data: string): Promise<number | undefined> {
+    const succeeds = (gasLimit: number) =>
+        hre.ethers.provider.call({ to, data, gasLimit }).then(
+            () => true,
+            () => false
+        );
+    if (!(await succeeds(CALL_GAS_CEILING))) return undefined;
+    let [low, high] = [21_000, CALL_GAS_CEILING];
+    while (high - low > 1) {
+        const middle = Math.floor((low + high) / 2);
+        if (await succeeds(middle)) high = middle;
+        else low = middle;
+    }
+    return high;
+}
+
+/** Funded wallets with approved tokens, derived from a fixed seed so reruns use the same addresses */
+async function fundStakers(count: number, offset: number, token: MockERC20, spender: string): Promise<Wallet[]> {
+    const wallets: Wallet[] = [];
+    for (let i = offset; i < offset + count; i++) {
+        const wallet = new Wallet(id(`gas-benchmark-staker-${i}`), hre.ethers.provider);
+        await setBalance(wallet.address, hre.ethers.parseEther("1"));
+        await token.mint(wallet.address, STAKE_AMOUNT);
+        await token.connect(wallet).approve(spender, STAKE_AMOUNT);
+        wallets.push(wallet);
+    }
+    return wallets;
+}
+
+/**
+ * Grows period 0 of AIXCBStaking one staker at a time. At each staker count
+ * the last staker's `stake` and a `claimRewards` are measured, together
+ * with `getStakersForPeriod`.
+ */
+async function benchmarkStakingStakers(): Promise<{ samples: GasSample[]; listing: ListingPoint[]; failures: GasFailure[] }> {
+    const { staking, stakingToken, rewardTokens } = await deployStaking(STAKER_SWEEP_TOKENS);
+    const address = await staking.getAddress();
+    await staking.unpause();
+    for (const token of rewardTokens) await staking.fundRewardPool(0, await token.getAddress(), FUNDING);
+
+    const samples: GasSample[] = [];
+    const listing: ListingPoint[] = [];
+    const failures: GasFailure[] = [];
+    let stakers = 0;
+    for (const target of STAKER_COUNTS) {
+        const wallets = await fundStakers(target - stakers, stakers, stakingToken, address);
+        const last = wallets.pop()!;
+        for (const wallet of wallets) await staking.connect(wallet).stake({ amount: STAKE_AMOUNT, periodIndex: 0, deadline: 2n ** 48n });
+
+        const recorder = new Recorder("AIXCBStaking", STAKER_SWEEP_TOKENS, target);
+        await recorder.measure("stake (new)", staking.connect(last).stake({ amount: STAKE_AMOUNT, periodIndex: 0, deadline: 2n ** 48n }));
+        await time.increase(60 * 60);
+        await recorder.measure("claimRewards", staking.connect(last).claimRewards(0));
+        const gas = await callGas(address, staking.interface.encodeFunctionData("getStakersForPeriod", [0]));
+        if (gas !== undefined) {
+            recorder.samples.push({ contract: "AIXCBStaking", entryPoint: "getStakersForPeriod", rewardTokens: STAKER_SWEEP_TOKENS, stakers: target, gas });
+            listing.push({ stakers: target, gas });
+        } else {
+            const reason = `needs more than ${CALL_GAS_CEILING} gas`;
+            failures.push({ contract: "AIXCBStaking", entryPoint: "getStakersForPeriod", rewardTokens: STAKER_SWEEP_TOKENS, stakers: target, reason });
+            listing.push({ stakers: target });
+            console.log(`getStakersForPeriod ${reason} with ${target} stakers`);
+        }
+        samples.push(...recorder.samples);
+        stakers = target;
+        console.log(`AIXCBStaking: ${target} stakers`);
+    }
+    return { samples, listing, failures };
+}
+
+/** AIXCBLPStaking keeps no staker list; checks that stake and claim costs do not grow with stakers */
+async function benchmarkLPStakingStakers(): Promise<GasSample[]> {
+    const { staking, lpToken, rewardTokens } = await deployLPStaking(STAKER_SWEEP_TOKENS);
+    const address = await staking.getAddress();
+    await staking.unpause();
+    for (const token of rewardTokens) await staking.fundRewardPool(await token.getAddress(), FUNDING);
+
+    const samples: GasSample[] = [];
+    let stakers = 0;
+    for (const target of STAKER_COUNTS) {
+        const wallets = await fundStakers(target - stakers, stakers, lpToken, address);
+        const last = wallets.pop()!;
+        for (const wallet of wallets) await staking.connect(wallet).stake(STAKE_AMOUNT);
+
+        const recorder = new Recorder("AIXCBLPStaking", STAKER_SWEEP_TOKENS, target);
+        await recorder.measure("stake (new)", staking.connect(last).stake(STAKE_AMOUNT));
+        await time.increase(60 * 60);
+        await recorder.measure("claimRewards", staking.connect(last).claimRewards());
+        samples.push(...recorder.samples);
+        stakers = target;
+        console.log(`AIXCBLPStaking: ${target} stakers`);
+    }
+    return samples;
+}
+
+async function main() {
+    if (hre.network.name !== "hardhat") throw new Error("Run the benchmark on the in-process hardhat network");
+    await hre.run("compile", { quiet: true });
+    const { hardfork } = hre.config.networks.hardhat;
+    if (CALL_GAS_CEILING > TX_GAS_CAP && TX_GAS_CAP_HARDFORKS.includes(hardfork)) {
+        throw new Error(
+            `Hardfork ${hardfork} caps calls at ${TX_GAS_CAP} gas (EIP-7825); set networks.hardhat.hardfork to "prague" to measure up to ${CALL_GAS_CEILING}`
+        );
+    }
+    // `eth_call` may not use more gas than a block holds
+    await hre.network.provider.send("evm_setBlockGasLimit", [toQuantity(CALL_GAS_CEILING)]);
+    await hre.network.provider.send("evm_mine", []);
+
+    const samples: GasSample[] = [];
+    for (const count of TOKEN_COUNTS) {
+        samples.push(...(await benchmarkStakingEntryPoints(count)));
+        samples.push(...(await benchmarkLPStakingEntryPoints(count)));
+        console.log(`${count} reward tokens`);
+    }
+    const stakerSweep = await benchmarkStakingStakers();
+    samples.push(...stakerSweep.samples, ...(await benchmarkLPStakingStakers()));
+
+    const report: GasReport = {
+        generatedAt: new Date().toISOString(),
+        samples,
+        failures: stakerSweep.failures,
+        listingLimits: RPC_CAPS.map((cap) => listingLimit(stakerSweep.listing, cap)),
+    };
+    const baseline: GasReport | undefined =
+        existsSync(BASELINE_FILE) && process.env.GAS_UPDATE !== "1" ? JSON.parse(readFileSync(BASELINE_FILE, "utf8")) : undefined;
+    const comparison = baseline && compareGas(baseline, report, THRESHOLD_PERCENT);
+
+    mkdirSync(OUT_DIR, { recursive: true });
+    const markdown = formatGasMarkdown(report, comparison);
+    writeFileSync(path.join(OUT_DIR, "gas-report.json"), formatGasJson(report) + "\n");
+    writeFileSync(path.join(OUT_DIR, "gas-report.md"), markdown);
+    if (!baseline) writeFileSync(BASELINE_FILE, formatGasJson(report) + "\n");
+    console.log(markdown);
+
+    if (comparison && comparison.regressions.length > 0) {
+        for (const { sample, baselineGas, deltaPercent } of comparison.regressions) {
+            console.error(`${sample.contract}.${sample.entryPoint} (${sample.rewardTokens} tokens, ${sample.stakers} stakers): ` +
+                `${baselineGas} -> ${sample.gas} gas (+${deltaPercent!.toFixed(2)}%)`);
+        }
+        process.exitCode = 1;
+    }
+}
+
+main().catch((error) => {
+    console.error(error);
+    process.exitCode = 1;
+});
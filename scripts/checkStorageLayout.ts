@@ -0,0 +1,65 @@
+import { readFileSync, writeFileSync } from "fs";
+import hre from "hardhat";
+import {
+    SolcStorageLayout,
+    compareStorageLayouts,
+    formatLayoutReport,
+    formatStorageLayout,
+    readStorageLayout
+} from "../sdk/storageLayout";
+
+/**
+ * Checks that each implementation can replace the previous one behind the
+ * same proxy.
+ *
+ *   npx hardhat run scripts/checkStorageLayout.ts
+ *       checks every pair in UPGRADE_PAIRS
+ *   npx ts-node scripts/checkStorageLayout.ts <old> <new>
+ *       checks one pair; each side is a fully qualified contract name or a
+ *       layout JSON exported with --export
+ *   npx ts-node scripts/checkStorageLayout.ts --export <contract> <file.json>
+ *       saves the layout of a deployed implementation for later checks
+ *
+ * Exits with 1 when any pair is incompatible.
+ */
+
+const UPGRADE_PAIRS: [string, string][] = [
+    ["src/legacy/AIXCBStaking.v1.sol:AIXCBStaking", "src/AIXCBStaking.sol:AIXCBStaking"],
+    ["src/legacy/AIXCBLPStaking.v1.sol:AIXCBLPStaking", "src/AIXCBLPStaking.sol:AIXCBLPStaking"]
+];
+
+async function load(source: string): Promise<SolcStorageLayout> {
+    if (source.endsWith(".json")) return JSON.parse(readFileSync(source, "utf8"));
+    return readStorageLayout(hre.artifacts, source);
+}
+
+async function main() {
+    const args = process.argv.slice(2);
+    await hre.run("compile", { quiet: true });
+
+    if (args[0] === "--export") {
+        const [, contract, file] = args;
+        if (!contract || !file) throw new Error("Usage: --export <contract> <file.json>");
+        const layout = await load(contract);
+        writeFileSync(file, JSON.stringify(layout, null, 2) + "\n");
+        console.log(`${contract}\n${formatStorageLayout(layout)}\nwritten to ${file}`);
+        return;
+    }
+
+    if (args.length !== 0 && args.length !== 2) throw new Error("Usage: [<old> <new>] | --export <contract> <file.json>");
+    const pairs = args.length === 2 ? [[args[0], args[1]] as [string, string]] : UPGRADE_PAIRS;
+
+    let compatible = true;
+    for (const [oldName, newName] of pairs) {
+        const report = compareStorageLayouts(await load(oldName), await load(newName), { oldName, newName });
+        console.log(formatLayoutReport(report));
+        compatible &&= report.compatible;
+    }
+
+    if (!compatible) process.exitCode = 1;
+}
+
+main().catch((error) => {
+    console.error(error);
+    process.exitCode = 1;
+});
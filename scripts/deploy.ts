@@ -0,0 +1,186 @@
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from "fs";
+import path from "path";
+import hre from "hardhat";
+import { ZeroAddress, isAddress } from "ethers";
+import { DeploymentParameters } from "@nomicfoundation/ignition-core";
+import AIXCBStakingLaunchModule, {
+    AIXCBStakingFundingModule,
+    STAKING_REWARD_TOKEN_COUNT,
+    stakingFundingParameter
+} from "../ignition/modules/AIXCBStaking";
+import AIXCBLPStakingLaunchModule, {
+    AIXCBLPStakingFundingModule,
+    LP_REWARD_TOKEN_COUNT,
+    lpFundingParameter
+} from "../ignition/modules/AIXCBLPStaking";
+import { AIXCBStaking__factory } from "../typechain-types";
+import { MAX_PERIOD_INDEX, SECONDS_PER_YEAR } from "../sdk/constants";
+import { DeploymentManifest, readLPStakingManifest, readStakingManifest } from "../sdk/deployment";
+import { LPStakingClient } from "../sdk/LPStakingClient";
+
+/**
+ * Staged launch of both contracts with Hardhat Ignition.
+ *
+ *   npx hardhat run scripts/deploy.ts --network <network>
+ *
+ * Deploys the proxies and funds every reward pool, checks the funding, then
+ * starts staking and writes `deployments/<network>.json`. Ignition journals
+ * each step in `ignition/deployments/chain-<id>`, so a rerun resumes where a
+ * failed one stopped.
+ *
+ * Parameters come from `ignition/parameters/<network>.json`. On `localhost`
+ * (`npx hardhat node`) a missing file is generated after deploying mock
+ * tokens minted to the first account; after restarting the node, delete it
+ * together with `ignition/deployments/chain-31337`. The in-process `hardhat`
+ * network is refused because Ignition keeps no journal there, so the launch
+ * stage would deploy a second set of contracts.
+ */
+
+const LOCAL_REWARD_AMOUNT = hre.ethers.parseEther("1000000");
+
+function parametersFile(network: string): string {
+    return path.join(hre.config.paths.root, "ignition", "parameters", `${network}.json`);
+}
+
+/** Same encoding as `ignition deploy --parameters`: bigints are strings ending in `n` */
+function readParameters(file: string): DeploymentParameters {
+    return JSON.parse(readFileSync(file, "utf8"), (_, value) =>
+        typeof value === "string" && /^\d+n$/.test(value) ? BigInt(value.slice(0, -1)) : value
+    );
+}
+
+function writeParameters(file: string, parameters: DeploymentParameters) {
+    const json = JSON.stringify(parameters, (_, value) => (typeof value === "bigint" ? `${value}n` : value), 2);
+    writeFileSync(file, json + "\n");
+}
+
+async function localParameters(): Promise<DeploymentParameters> {
+    const [deployer, treasury] = await hre.ethers.getSigners();
+    const MockToken = await hre.ethers.getContractFactory("MockERC20");
+    const deploy = async (name: string, symbol: string) => {
+        const token = await MockToken.deploy(name, symbol);
+        await token.mint(deployer.address, 10n * LOCAL_REWARD_AMOUNT);
+        return token.getAddress();
+    };
+
+    const aixcb = await deploy("AIXCB Token", "AIXCB");
+    const lpToken = await deploy("Aerodrome LP", "aLP");
+    const rewardTokens = [await deploy("Token A", "TKA"), await deploy("Token B", "TKB"), await deploy("Token C", "TKC")];
+
+    const stakingFunding: Record<string, bigint> = {};
+    for (let tokenIndex = 0; tokenIndex < STAKING_REWARD_TOKEN_COUNT; tokenIndex++) {
+        for (let periodIndex = 0; periodIndex <= MAX_PERIOD_INDEX; periodIndex++) {
+            stakingFunding[stakingFundingParameter(periodIndex, tokenIndex)] = LOCAL_REWARD_AMOUNT;
+        }
+    }
+    const lpFunding: Record<string, bigint> = {};
+    for (let tokenIndex = 0; tokenIndex < LP_REWARD_TOKEN_COUNT; tokenIndex++) {
+        lpFunding[lpFundingParameter(tokenIndex)] = LOCAL_REWARD_AMOUNT;
+    }
+
+    return {
+        AIXCBStakingProxy: { stakingToken: aixcb, rewardTokens: [aixcb, ...rewardTokens.slice(1)], treasury: treasury.address },
+        AIXCBStakingFunding: stakingFunding,
+        AIXCBLPStakingProxy: { lpToken, rewardTokens, treasury: treasury.address },
+        AIXCBLPStakingFunding: lpFunding
+    };
+}
+
+/** Catches the placeholders of a parameter file before anything is deployed */
+function checkParameters(parameters: DeploymentParameters) {
+    const problems: string[] = [];
+    const address = (module: string, name: string, value: unknown) => {
+        if (typeof value !== "string" || !isAddress(value) || value === ZeroAddress) {
+            problems.push(`${module}.${name} must be a non-zero address`);
+        }
+    };
+    // `fundRewardPool` spreads an amount over a year; anything smaller leaves a zero rate
+    const amount = (module: string, name: string) => {
+        const value = parameters[module]?.[name];
+        if (typeof value !== "bigint" || value < BigInt(SECONDS_PER_YEAR)) {
+            problems.push(`${module}.${name} must be at least ${SECONDS_PER_YEAR}n wei`);
+        }
+    };
+
+    for (const [module, stakedToken] of [
+        ["AIXCBStakingProxy", "stakingToken"],
+        ["AIXCBLPStakingProxy", "lpToken"]
+    ]) {
+        const values = parameters[module] ?? {};
+        address(module, stakedToken, values[stakedToken]);
+        address(module, "treasury", values.treasury);
+        const rewardTokens = values.rewardTokens;
+        if (!Array.isArray(rewardTokens) || rewardTokens.length !== 3) {
+            problems.push(`${module}.rewardTokens must list 3 tokens`);
+        } else {
+            rewardTokens.forEach((token, i) => address(module, `rewardTokens[${i}]`, token));
+        }
+    }
+    for (let tokenIndex = 0; tokenIndex < STAKING_REWARD_TOKEN_COUNT; tokenIndex++) {
+        for (let periodIndex = 0; periodIndex <= MAX_PERIOD_INDEX; periodIndex++) {
+            amount("AIXCBStakingFunding", stakingFundingParameter(periodIndex, tokenIndex));
+        }
+    }
+    for (let tokenIndex = 0; tokenIndex < LP_REWARD_TOKEN_COUNT; tokenIndex++) {
+        amount("AIXCBLPStakingFunding", lpFundingParameter(tokenIndex));
+    }
+
+    if (problems.length > 0) throw new Error(`Invalid deployment parameters:\n  ${problems.join("\n  ")}`);
+}
+
+async function main() {
+    const network = hre.network.name;
+    if (network === "hardhat") {
+        throw new Error("Run `npx hardhat node` and deploy with --network localhost; the in-process network keeps no journal");
+    }
+
+    const file = parametersFile(network);
+    if (!existsSync(file)) {
+        if (network !== "localhost") throw new Error(`No deployment parameters at ${file}`);
+        writeParameters(file, await localParameters());
+        console.log(`Deployed mock tokens and wrote ${file}`);
+    }
+    const parameters = readParameters(file);
+    checkParameters(parameters);
+
+    const [deployer] = await hre.ethers.getSigners();
+    const { staking } = await hre.ignition.deploy(AIXCBStakingFundingModule, { parameters });
+    const { staking: lpStaking } = await hre.ignition.deploy(AIXCBLPStakingFundingModule, { parameters });
+    const stakingAddress = await staking.getAddress();
+    const lpStakingAddress = await lpStaking.getAddress();
+
+    // Launch gate: neither contract opens until every pool pays a non-zero rate
+    if (!(await AIXCBStaking__factory.connect(stakingAddress, deployer).areRewardPoolsFunded())) {
+        throw new Error("AIXCBStaking: areRewardPoolsFunded() is false; not starting staking");
+    }
+    const unfunded = (await new LPStakingClient(lpStakingAddress, deployer).getRewardPools()).filter(
+        (pool) => pool.ratePerSecond === 0n
+    );
+    if (unfunded.length > 0) {
+        throw new Error(`AIXCBLPStaking: no reward rate for ${unfunded.map((pool) => pool.token).join(", ")}; not opening staking`);
+    }
+
+    await hre.ignition.deploy(AIXCBStakingLaunchModule, { parameters });
+    await hre.ignition.deploy(AIXCBLPStakingLaunchModule, { parameters });
+
+    const manifest: DeploymentManifest = {
+        network,
+        chainId: Number((await hre.ethers.provider.getNetwork()).chainId),
+        deployer: deployer.address,
+        contracts: {
+            AIXCBStaking: await readStakingManifest(deployer, stakingAddress, [deployer.address]),
+            AIXCBLPStaking: await readLPStakingManifest(deployer, lpStakingAddress, [deployer.address])
+        }
+    };
+
+    const directory = path.join(hre.config.paths.root, "deployments");
+    mkdirSync(directory, { recursive: true });
+    const output = path.join(directory, `${network}.json`);
+    writeFileSync(output, JSON.stringify(manifest, null, 2) + "\n");
+    console.log(`AIXCBStaking    ${stakingAddress}\nAIXCBLPStaking  ${lpStakingAddress}\nManifest written to ${output}`);
+}
+
+main().catch((error) => {
+    console.error(error);
+    process.exitCode = 1;
+});
@@ -0,0 +1,73 @@
+import { readFileSync, writeFileSync } from "fs";
+import { JsonRpcProvider } from "ethers";
+import { DeploymentManifest } from "../sdk/deployment";
+import { SolvencyOptions, checkSolvency, formatSolvencyJson, formatSolvencyMarkdown } from "../sdk/solvency";
+
+/**
+ * Solvency check against any JSON-RPC endpoint, for cron or a long-running
+ * process:
+ *
+ *   npx ts-node scripts/monitorSolvency.ts --rpc <url> --deployment deployments/base.json
+ *   npx ts-node scripts/monitorSolvency.ts --rpc http://127.0.0.1:8545 --staking 0x… --lp 0x… \
+ *       --lp-from-block 1234567 --format json --out report.json --interval 300
+ *
+ * `--rpc` defaults to $RPC_URL. `--lp-from-block` is where to start scanning
+ * `StakeDeposited` logs (the proxy's deployment block). Prints Markdown unless
+ * `--format json`; `--out` also writes the report to a file. With
+ * `--interval <seconds>` it checks repeatedly. Exits with 2 as soon as a
+ * check finds a contract insolvent, with 1 on errors.
+ */
+
+const EXIT_INSOLVENT = 2;
+
+function parseArgs(argv: string[]): Record<string, string> {
+    const args: Record<string, string> = {};
+    for (let i = 0; i < argv.length; i += 2) {
+        const [flag, value] = [argv[i], argv[i + 1]];
+        if (!flag.startsWith("--") || value === undefined) throw new Error(`Expected --<name> <value>, got ${flag}`);
+        args[flag.slice(2)] = value;
+    }
+    return args;
+}
+
+async function main() {
+    const args = parseArgs(process.argv.slice(2));
+    const rpc = args.rpc ?? process.env.RPC_URL;
+    if (!rpc) throw new Error("Pass --rpc or set RPC_URL");
+
+    const options: SolvencyOptions = {
+        staking: args.staking,
+        lp: args.lp,
+        lpFromBlock: args["lp-from-block"] === undefined ? undefined : Number(args["lp-from-block"]),
+        logBatchSize: args["log-batch-size"] === undefined ? undefined : Number(args["log-batch-size"]),
+    };
+    if (args.deployment !== undefined) {
+        const manifest: DeploymentManifest = JSON.parse(readFileSync(args.deployment, "utf8"));
+        options.staking ??= manifest.contracts.AIXCBStaking?.proxy;
+        options.lp ??= manifest.contracts.AIXCBLPStaking?.proxy;
+    }
+    const format = args.format ?? "markdown";
+    if (format !== "markdown" && format !== "json") throw new Error("--format must be markdown or json");
+    const interval = args.interval === undefined ? undefined : Number(args.interval);
+
+    const provider = new JsonRpcProvider(rpc);
+    for (;;) {
+        const report = await checkSolvency(provider, options);
+        const output = format === "json" ? formatSolvencyJson(report) + "\n" : formatSolvencyMarkdown(report);
+        process.stdout.write(output);
+        if (args.out !== undefined) writeFileSync(args.out, output);
+
+        if (report.severity === "critical") {
+            process.exitCode = EXIT_INSOLVENT;
+            break;
+        }
+        if (interval === undefined) break;
+        await new Promise((resolve) => setTimeout(resolve, interval * 1000));
+    }
+    provider.destroy();
+}
+
+main().catch((error) => {
+    console.error(error);
+    process.exitCode = 1;
+});
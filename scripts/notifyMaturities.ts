@@ -0,0 +1,79 @@
+import { existsSync, readFileSync, writeFileSync } from "fs";
+import { JsonRpcProvider } from "ethers";
+import { DeploymentManifest } from "../sdk/deployment";
+import { MaturityNotifier, MaturityScheduler } from "../sdk/unlockCalendar";
+
+/**
+ * Posts unlock reminders and early unlocks to a webhook, for cron or a
+ * long-running process:
+ *
+ *   npx ts-node scripts/notifyMaturities.ts --rpc <url> --deployment deployments/base.json \
+ *       --webhook https://hooks.example.com/unlocks --days 7,1 --state maturities.state.json --interval 3600
+ *
+ * `--rpc` defaults to $RPC_URL and `--webhook` to $MATURITY_WEBHOOK_URL.
+ * `--from-block` is where to start replaying stake events (the proxy's
+ * deployment block). The ids of delivered notifications are kept in
+ * `--state` (default `maturities.state.json`), so each reminder is posted
+ * once; failed posts are retried on the next check. Exits with 1 on errors
+ * or when a post failed.
+ */
+
+interface NotifierState {
+    sent: string[];
+}
+
+function parseArgs(argv: string[]): Record<string, string> {
+    const args: Record<string, string> = {};
+    for (let i = 0; i < argv.length; i += 2) {
+        const [flag, value] = [argv[i], argv[i + 1]];
+        if (!flag.startsWith("--") || value === undefined) throw new Error(`Expected --<name> <value>, got ${flag}`);
+        args[flag.slice(2)] = value;
+    }
+    return args;
+}
+
+async function main() {
+    const args = parseArgs(process.argv.slice(2));
+    const rpc = args.rpc ?? process.env.RPC_URL;
+    if (!rpc) throw new Error("Pass --rpc or set RPC_URL");
+    const webhookUrl = args.webhook ?? process.env.MATURITY_WEBHOOK_URL;
+    if (!webhookUrl) throw new Error("Pass --webhook or set MATURITY_WEBHOOK_URL");
+
+    let staking = args.staking;
+    if (args.deployment !== undefined) {
+        const manifest: DeploymentManifest = JSON.parse(readFileSync(args.deployment, "utf8"));
+        staking ??= manifest.contracts.AIXCBStaking?.proxy;
+    }
+    if (staking === undefined) throw new Error("Pass --staking or a --deployment with AIXCBStaking");
+    const daysBefore = (args.days ?? "7,1").split(",").map(Number);
+    const interval = args.interval === undefined ? undefined : Number(args.interval);
+    const stateFile = args.state ?? "maturities.state.json";
+
+    const provider = new JsonRpcProvider(rpc);
+    const scheduler = new MaturityScheduler(provider, {
+        staking,
+        fromBlock: args["from-block"] === undefined ? undefined : Number(args["from-block"]),
+        logBatchSize: args["log-batch-size"] === undefined ? undefined : Number(args["log-batch-size"]),
+    });
+    const notifier = new MaturityNotifier({ webhookUrl, daysBefore });
+    for (;;) {
+        const state: NotifierState = existsSync(stateFile) ? JSON.parse(readFileSync(stateFile, "utf8")) : { sent: [] };
+        const sent = new Set(state.sent);
+        const schedule = await scheduler.schedule();
+        const result = await notifier.notify(schedule, sent);
+        const next: NotifierState = { sent: [...sent] };
+        writeFileSync(stateFile, JSON.stringify(next, null, 2) + "\n");
+
+        console.log(`Block ${schedule.blockNumber}: ${result.sent.length} sent, ${result.failed.length} failed`);
+        for (const { notification, error } of result.failed) console.error(`  ${notification.id}: ${error}`);
+        if (result.failed.length > 0) process.exitCode = 1;
+        if (interval === undefined) break;
+        await new Promise((resolve) => setTimeout(resolve, interval * 1000));
+    }
+    provider.destroy();
+}
+
+main().catch((error) => {
+    console.error(error);
+    process.exitCode = 1;
+});
@@ -0,0 +1,170 @@
+import { ContractRunner, ContractTransactionResponse, Signer } from "ethers";
+import { AIXCBLPStaking, AIXCBLPStaking__factory, IERC20Metadata, IERC20Metadata__factory } from "../typechain-types";
+import { ensureAllowance, latestTimestamp, requireSigner } from "./utils";
+
+export interface RewardPool {
+    token: string;
+    totalReward: bigint;
+    distributed: bigint;
+    ratePerSecond: bigint;
+    lastUpdate: number;
+    /** `totalRewardAmount - totalDistributedAmount`, the most any claim can pay out */
+    remaining: bigint;
+}
+
+export interface LPPendingReward {
+    token: string;
+    /** Amount reported by `getPendingRewards` */
+    pending: bigint;
+    /** Amount a claim would transfer after `_updateUserRewards` caps it at the pool's remaining budget */
+    payable: bigint;
+    /** Part of `pending` that would be forfeited by a claim right now */
+    shortfall: bigint;
+    isCapped: boolean;
+}
+
+/** A user's LP position together with per-token reward accounting */
+export interface LPPosition {
+    user: string;
+    stakedAmount: bigint;
+    initialStakeTime: number;
+    lastUpdateTime: number;
+    rewards: LPPendingReward[];
+    /** Further amount the user may stake before hitting `MAX_STAKE_AMOUNT` */
+    remainingCapacity: bigint;
+    evaluatedAt: number;
+}
+
+export interface LPStakingClientOptions {
+    /** Approve `MaxUint256` instead of the exact missing amount */
+    infiniteApproval?: boolean;
+}
+
+/**
+ * Typed client for `AIXCBLPStaking` that loads all reward tokens and folds the
+ * per-token views into a single position
+ */
+export class LPStakingClient {
+    readonly contract: AIXCBLPStaking;
+    private readonly runner: ContractRunner;
+    private readonly infiniteApproval: boolean;
+
+    constructor(address: string, runner: ContractRunner, options: LPStakingClientOptions = {}) {
+        this.contract = AIXCBLPStaking__factory.connect(address, runner);
+        this.runner = runner;
+        this.infiniteApproval = options.infiniteApproval ?? false;
+    }
+
+    async lpToken(): Promise<IERC20Metadata> {
+        return IERC20Metadata__factory.connect(await this.contract.lpToken(), this.runner);
+    }
+
+    async getRewardTokens(): Promise<string[]> {
+        return [...(await this.contract.getRewardTokens())];
+    }
+
+    async getRewardPool(token: string): Promise<RewardPool> {
+        const pool = await this.contract.getRewardPool(token);
+        return {
+            token,
+            totalReward: pool.totalReward,
+            distributed: pool.distributed,
+            ratePerSecond: pool.ratePerSecond,
+            lastUpdate: Number(pool.lastUpdate),
+            remaining: pool.totalReward - pool.distributed,
+        };
+    }
+
+    async getRewardPools(): Promise<RewardPool[]> {
+        const tokens = await this.getRewardTokens();
+        return Promise.all(tokens.map((token) => this.getRewardPool(token)));
+    }
+
+    async getPosition(user: string): Promise<LPPosition> {
+        const [userStake, pools, maxStake, evaluatedAt] = await Promise.all([
+            this.contract.userStakes(user),
+            this.getRewardPools(),
+            this.contract.MAX_STAKE_AMOUNT(),
+            latestTimestamp(this.runner),
+        ]);
+
+        const rewards = await Promise.all(
+            pools.map(async (pool) => {
+                const pending = await this.contract.getPendingRewards(user, pool.token);
+                const payable = pending > pool.remaining ? pool.remaining : pending;
+                return {
+                    token: pool.token,
+                    pending,
+                    payable,
+                    shortfall: pending - payable,
+                    isCapped: pending > payable,
+                };
+            })
+        );
+
+        return {
+            user,
+            stakedAmount: userStake.stakedAmount,
+            initialStakeTime: Number(userStake.initialStakeTime),
+            lastUpdateTime: Number(userStake.lastUpdateTime),
+            rewards,
+            remainingCapacity: maxStake > userStake.stakedAmount ? maxStake - userStake.stakedAmount : 0n,
+            evaluatedAt,
+        };
+    }
+
+    /** Approves the LP token if needed and stakes after checking `MAX_STAKE_AMOUNT` */
+    async stake(amount: bigint): Promise<ContractTransactionResponse> {
+        if (amount <= 0n) throw new Error("Stake amount must be greater than zero");
+
+        const signer = this.signer();
+        const [userStake, maxStake] = await Promise.all([
+            this.contract.userStakes(await signer.getAddress()),
+            this.contract.MAX_STAKE_AMOUNT(),
+        ]);
+        if (userStake.stakedAmount + amount > maxStake) {
+            throw new Error(
+                `Stake of ${amount} exceeds MAX_STAKE_AMOUNT (${maxStake}) with ${userStake.stakedAmount} already staked`
+            );
+        }
+
+        await ensureAllowance(
+            await this.lpToken(),
+            signer,
+            await this.contract.getAddress(),
+            amount,
+            this.infiniteApproval
+        );
+        return this.contract.connect(signer).stake(amount);
+    }
+
+    /** Withdraws part or all of the stake; pending rewards are claimed by the contract */
+    async withdraw(amount: bigint): Promise<ContractTransactionResponse> {
+        if (amount <= 0n) throw new Error("Withdraw amount must be greater than zero");
+
+        const signer = this.signer();
+        const userStake = await this.contract.userStakes(await signer.getAddress());
+        if (amount > userStake.stakedAmount) {
+            throw new Error(`Withdraw of ${amount} exceeds staked amount ${userStake.stakedAmount}`);
+        }
+        return this.contract.connect(signer).withdraw(amount);
+    }
+
+    async withdrawAll(): Promise<ContractTransactionResponse> {
+        const signer = this.signer();
+        const userStake = await this.contract.userStakes(await signer.getAddress());
+        return this.withdraw(userStake.stakedAmount);
+    }
+
+    async claimRewards(): Promise<ContractTransactionResponse> {
+        return this.contract.connect(this.signer()).claimRewards();
+    }
+
+    async emergencyWithdraw(): Promise<ContractTransactionResponse> {
+        return this.contract.connect(this.signer()).emergencyWithdraw();
+    }
+
+    private signer(): Signer {
+        return requireSigner(this.runner, "LPStakingClient");
+    }
+}
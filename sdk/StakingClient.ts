@@ -0,0 +1,169 @@
+import { ContractRunner, ContractTransactionResponse, Signer } from "ethers";
+import { AIXCBStaking, AIXCBStaking__factory, IERC20Metadata, IERC20Metadata__factory } from "../typechain-types";
+import { PERIOD_LABELS, PeriodLabel, periodIndexOf } from "./constants";
+import { ensureAllowance, isRevert, latestTimestamp, requireSigner } from "./utils";
+
+export interface StakeRequest {
+    amount: bigint;
+    period: PeriodLabel;
+    /** Absolute deadline in seconds; defaults to latest block time + `deadlineSeconds` */
+    deadline?: number;
+}
+
+export interface PendingReward {
+    token: string;
+    amount: bigint;
+}
+
+/** A user's lock-period stake combined with everything needed to render it */
+export interface Position {
+    user: string;
+    period: PeriodLabel;
+    periodIndex: number;
+    amount: bigint;
+    startTime: number;
+    endTime: number;
+    initialized: boolean;
+    pendingRewards: PendingReward[];
+    /** Unix time at which the lock ends (`endTime`) */
+    unlockTime: number;
+    /** True while the lock period is still running */
+    isLocked: boolean;
+    /** True once every reward pool of the period has passed `periodFinish` */
+    rewardPoolsFinished: boolean;
+    /** Locked, but `withdraw` is allowed because all reward pools finished */
+    canExitEarly: boolean;
+    canWithdraw: boolean;
+    /** Block timestamp the position was evaluated at */
+    evaluatedAt: number;
+}
+
+export interface StakingClientOptions {
+    /** Seconds added to the latest block time when no deadline is given */
+    deadlineSeconds?: number;
+    /** Approve `MaxUint256` instead of the exact missing amount */
+    infiniteApproval?: boolean;
+}
+
+const DEFAULT_DEADLINE_SECONDS = 3600;
+const MAX_REWARD_TOKENS = 256;
+
+/**
+ * Typed client for `AIXCBStaking` that hides period indices, deadlines and
+ * allowance handling from integrators
+ */
+export class StakingClient {
+    readonly contract: AIXCBStaking;
+    private readonly runner: ContractRunner;
+    private readonly deadlineSeconds: number;
+    private readonly infiniteApproval: boolean;
+
+    constructor(address: string, runner: ContractRunner, options: StakingClientOptions = {}) {
+        this.contract = AIXCBStaking__factory.connect(address, runner);
+        this.runner = runner;
+        this.deadlineSeconds = options.deadlineSeconds ?? DEFAULT_DEADLINE_SECONDS;
+        this.infiniteApproval = options.infiniteApproval ?? false;
+    }
+
+    async stakingToken(): Promise<IERC20Metadata> {
+        return IERC20Metadata__factory.connect(await this.contract.stakingToken(), this.runner);
+    }
+
+    /** Reads the public `rewardTokens` array, which has no length getter, at `blockTag` or the latest block */
+    async getRewardTokens(blockTag?: number): Promise<string[]> {
+        const tokens: string[] = [];
+        for (let i = 0; i < MAX_REWARD_TOKENS; i++) {
+            try {
+                tokens.push(await this.contract.rewardTokens(i, { blockTag }));
+            } catch (error) {
+                if (isRevert(error)) break;
+                throw error;
+            }
+        }
+        return tokens;
+    }
+
+    async getPosition(user: string, period: PeriodLabel): Promise<Position> {
+        const periodIndex = periodIndexOf(period);
+        const [userStake, rewardTokens, rewardPoolsFinished, evaluatedAt] = await Promise.all([
+            this.contract.getUserStake(user, periodIndex),
+            this.getRewardTokens(),
+            this.contract.isAllRewardPoolsFinished(periodIndex),
+            latestTimestamp(this.runner),
+        ]);
+
+        const pendingRewards = await Promise.all(
+            rewardTokens.map(async (token) => ({
+                token,
+                amount: await this.contract.pendingRewards(user, periodIndex, token),
+            }))
+        );
+
+        const endTime = Number(userStake.endTime);
+        const isLocked = userStake.initialized && evaluatedAt < endTime;
+
+        return {
+            user,
+            period,
+            periodIndex,
+            amount: userStake.amount,
+            startTime: Number(userStake.startTime),
+            endTime,
+            initialized: userStake.initialized,
+            pendingRewards,
+            unlockTime: endTime,
+            isLocked,
+            rewardPoolsFinished,
+            canExitEarly: isLocked && rewardPoolsFinished,
+            canWithdraw: userStake.initialized && (!isLocked || rewardPoolsFinished),
+            evaluatedAt,
+        };
+    }
+
+    /** Returns the user's initialized positions across all lock periods */
+    async getPositions(user: string): Promise<Position[]> {
+        const positions = await Promise.all(PERIOD_LABELS.map((period) => this.getPosition(user, period)));
+        return positions.filter((position) => position.initialized);
+    }
+
+    /** Approves the staking token if needed and stakes with a computed deadline */
+    async stake(request: StakeRequest): Promise<ContractTransactionResponse> {
+        const signer = this.signer();
+        const periodIndex = periodIndexOf(request.period);
+        await ensureAllowance(
+            await this.stakingToken(),
+            signer,
+            await this.contract.getAddress(),
+            request.amount,
+            this.infiniteApproval
+        );
+
+        const deadline = request.deadline ?? (await latestTimestamp(this.runner)) + this.deadlineSeconds;
+        return this.contract.connect(signer).stake({ amount: request.amount, periodIndex, deadline });
+    }
+
+    async withdraw(period: PeriodLabel): Promise<ContractTransactionResponse> {
+        return this.contract.connect(this.signer()).withdraw(periodIndexOf(period));
+    }
+
+    async claimRewards(period: PeriodLabel): Promise<ContractTransactionResponse> {
+        return this.contract.connect(this.signer()).claimRewards(periodIndexOf(period));
+    }
+
+    async upgradeStakePeriod(from: PeriodLabel, to: PeriodLabel): Promise<ContractTransactionResponse> {
+        return this.contract.connect(this.signer()).upgradeStakePeriod(periodIndexOf(from), periodIndexOf(to));
+    }
+
+    async emergencyWithdraw(period: PeriodLabel): Promise<ContractTransactionResponse> {
+        return this.contract.connect(this.signer()).emergencyWithdraw(periodIndexOf(period));
+    }
+
+    /** Lock duration in seconds as stored on-chain in `lockPeriods` */
+    async lockPeriod(period: PeriodLabel | number): Promise<number> {
+        return Number(await this.contract.lockPeriods(periodIndexOf(period)));
+    }
+
+    private signer(): Signer {
+        return requireSigner(this.runner, "StakingClient");
+    }
+}
@@ -0,0 +1,461 @@
+import {
+    AbiCoder,
+    BaseContract,
+    ContractRunner,
+    ContractTransactionResponse,
+    Provider,
+    Signer,
+    formatUnits,
+    getAddress,
+    isHexString,
+    keccak256,
+    toBeHex,
+} from "ethers";
+import { AIXCBLPStaking__factory, AIXCBStaking__factory, IERC20Metadata__factory } from "../typechain-types";
+import { LP_STAKING_CIRCUITS, PERIOD_LABELS, PeriodLabel, ROLES, SECONDS_PER_YEAR, STAKING_CIRCUITS, periodIndexOf } from "./constants";
+import { RoleName, readImplementation } from "./deployment";
+import { ContractName, withDecodedRevert } from "./errors";
+import { RpcProvider, ensureAllowance, latestTimestamp, requireSigner } from "./utils";
+
+/**
+ * Admin operations on either staking contract, planned before they are sent:
+ * each `AdminCall` names the role it needs and the state it changes, so a
+ * caller can check the role, simulate with a static call and show current vs
+ * resulting state. Toggles (`toggleCircuitBreaker`) are only planned when the
+ * circuit is not already in the requested state.
+ */
+
+/**
+ * Storage slots of the `allowance` mapping tried when a `fundRewardPool` is
+ * simulated before its approval: the first ten plain slots (OpenZeppelin
+ * `ERC20` uses 1, solmate 4) and the namespaced `ERC20Upgradeable` one
+ */
+const ALLOWANCE_MAPPING_SLOTS = [
+    ...Array.from({ length: 10 }, (_, slot) => BigInt(slot)),
+    0x52c63247e1f47db19d5ce0460030c497f067ca4cebf71ba98eeadabe20bace01n,
+];
+
+/** `eth_call` state override: storage slots replaced per address for one call */
+type StateOverride = Record<string, { stateDiff: Record<string, string> }>;
+
+/** What a circuit guards; each contract spells the identifiers differently */
+export type CircuitPurpose = "staking" | "withdraw" | "rewards";
+
+export interface Circuit {
+    purpose: CircuitPurpose;
+    /** Constant name on the contract, e.g. `WITHDRAWAL_CIRCUIT` */
+    name: string;
+    id: string;
+    /** Function that reverts while the circuit breaker is tripped */
+    guards: string;
+}
+
+const CIRCUIT_NAMES: Record<ContractName, Record<CircuitPurpose, string>> = {
+    AIXCBStaking: { staking: "STAKING_CIRCUIT", withdraw: "WITHDRAWAL_CIRCUIT", rewards: "REWARDS_CIRCUIT" },
+    AIXCBLPStaking: { staking: "STAKING_CIRCUIT", withdraw: "WITHDRAW_CIRCUIT", rewards: "REWARD_CIRCUIT" },
+};
+
+const CIRCUIT_IDS: Record<ContractName, Record<string, string>> = {
+    AIXCBStaking: STAKING_CIRCUITS,
+    AIXCBLPStaking: LP_STAKING_CIRCUITS,
+};
+
+const GUARDED_FUNCTIONS: Record<CircuitPurpose, string> = {
+    staking: "stake",
+    withdraw: "withdraw",
+    rewards: "claimRewards",
+};
+
+export function circuitsOf(contract: ContractName): Circuit[] {
+    return (Object.entries(CIRCUIT_NAMES[contract]) as [CircuitPurpose, string][]).map(([purpose, name]) => ({
+        purpose,
+        name,
+        id: CIRCUIT_IDS[contract][name],
+        guards: GUARDED_FUNCTIONS[purpose],
+    }));
+}
+
+/**
+ * Resolves a circuit by purpose (`staking`, `withdraw`, `rewards`), constant
+ * name or id. Names and ids of the other contract are rejected: toggling an
+ * identifier the contract never checks succeeds but guards nothing.
+ */
+export function resolveCircuit(contract: ContractName, circuit: string): Circuit {
+    const circuits = circuitsOf(contract);
+    const input = circuit.trim();
+    const match = circuits.find(
+        (candidate) =>
+            candidate.purpose === input.toLowerCase() ||
+            candidate.name === input.toUpperCase() ||
+            (isHexString(input, 32) && candidate.id === input.toLowerCase())
+    );
+    if (match) return match;
+
+    const valid = circuits.map((candidate) => `${candidate.purpose} (${candidate.name})`).join(", ");
+    const other: ContractName = contract === "AIXCBStaking" ? "AIXCBLPStaking" : "AIXCBStaking";
+    const foreign = circuitsOf(other).find(
+        (candidate) => candidate.name === input.toUpperCase() || candidate.id === input.toLowerCase()
+    );
+    const hint = foreign
+        ? ` ${foreign.name} is ${other}'s spelling; ${contract} uses ${CIRCUIT_NAMES[contract][foreign.purpose]}.`
+        : "";
+    throw new Error(`${input} is not a circuit of ${contract}.${hint} Valid circuits: ${valid}`);
+}
+
+export interface StateChange {
+    label: string;
+    current: string;
+    resulting: string;
+}
+
+/**
+ * Allowance a `fundRewardPool` call spends. While it is missing the call is
+ * simulated with the allowance overridden, and approved only before sending.
+ */
+export interface RequiredApproval {
+    token: string;
+    amount: bigint;
+    allowance: bigint;
+}
+
+export interface AdminCall {
+    contract: ContractName;
+    /** Function and readable arguments, e.g. `toggleCircuitBreaker(WITHDRAW_CIRCUIT)` */
+    description: string;
+    method: string;
+    args: unknown[];
+    role: RoleName;
+    changes: StateChange[];
+    /** False when the contract is already in the requested state; nothing is sent */
+    required: boolean;
+    approval?: RequiredApproval;
+}
+
+export interface AdminResult {
+    call: AdminCall;
+    /** False when the call was not required */
+    simulated: boolean;
+    tx?: ContractTransactionResponse;
+}
+
+export interface CircuitStatus extends Circuit {
+    tripped: boolean;
+}
+
+export class MissingRoleError extends Error {
+    readonly account: string;
+    readonly role: RoleName;
+
+    constructor(call: AdminCall, account: string) {
+        super(`${account} does not hold ${call.role} on ${call.contract}, required by ${call.description}`);
+        this.name = "MissingRoleError";
+        this.account = account;
+        this.role = call.role;
+    }
+}
+
+/** Plans, checks, simulates and sends admin calls on one staking proxy */
+export class AdminClient {
+    readonly contractName: ContractName;
+    readonly contract: BaseContract;
+    private readonly runner: ContractRunner;
+
+    constructor(contractName: ContractName, address: string, runner: ContractRunner) {
+        this.contractName = contractName;
+        this.runner = runner;
+        this.contract =
+            contractName === "AIXCBStaking"
+                ? AIXCBStaking__factory.connect(address, runner)
+                : AIXCBLPStaking__factory.connect(address, runner);
+    }
+
+    /** Functions shared by both contracts, called without a typed union */
+    private read<T>(method: string, ...args: unknown[]): Promise<T> {
+        return this.contract.getFunction(method).staticCall(...args);
+    }
+
+    private call(
+        method: string,
+        args: unknown[],
+        role: RoleName,
+        changes: StateChange[],
+        description = `${method}()`
+    ): AdminCall {
+        return {
+            contract: this.contractName,
+            description,
+            method,
+            args,
+            role,
+            changes,
+            required: changes.some((change) => change.current !== change.resulting),
+        };
+    }
+
+    private staking() {
+        if (this.contractName !== "AIXCBStaking") {
+            throw new Error(`${this.contractName} has no startStaking/stopStaking; use pause/unpause or the staking circuit`);
+        }
+        return AIXCBStaking__factory.connect(this.contract.target as string, this.runner);
+    }
+
+    async circuitStatus(): Promise<CircuitStatus[]> {
+        return Promise.all(
+            circuitsOf(this.contractName).map(async (circuit) => ({
+                ...circuit,
+                tripped: await this.read<boolean>("circuitBreakers", circuit.id),
+            }))
+        );
+    }
+
+    /** Trips (`tripped = true`, blocking the guarded function) or resets a circuit breaker */
+    async setCircuit(circuit: string, tripped: boolean): Promise<AdminCall> {
+        const resolved = resolveCircuit(this.contractName, circuit);
+        const current = await this.read<boolean>("circuitBreakers", resolved.id);
+        const state = (value: boolean) => (value ? `tripped (${resolved.guards} blocked)` : "reset");
+        return this.call(
+            "toggleCircuitBreaker",
+            [resolved.id],
+            "EMERGENCY_ADMIN_ROLE",
+            [{ label: resolved.name, current: state(current), resulting: state(tripped) }],
+            `toggleCircuitBreaker(${resolved.name})`
+        );
+    }
+
+    async setEmergencyMode(enabled: boolean): Promise<AdminCall> {
+        const current = await this.read<boolean>("emergencyMode");
+        return this.call(enabled ? "enableEmergencyMode" : "disableEmergencyMode", [], "EMERGENCY_ADMIN_ROLE", [
+            { label: "emergencyMode", current: String(current), resulting: String(enabled) },
+        ]);
+    }
+
+    async setPaused(paused: boolean): Promise<AdminCall> {
+        const current = await this.read<boolean>("paused");
+        return this.call(paused ? "pause" : "unpause", [], "EMERGENCY_ADMIN_ROLE", [
+            { label: "paused", current: String(current), resulting: String(paused) },
+        ]);
+    }
+
+    /** `AIXCBStaking` only: unpauses once `areRewardPoolsFunded()` */
+    async startStaking(): Promise<AdminCall> {
+        const staking = this.staking();
+        const [paused, funded] = await Promise.all([staking.paused(), staking.areRewardPoolsFunded()]);
+        return this.call("startStaking", [], "ADMIN_ROLE", [
+            { label: "paused", current: String(paused), resulting: "false" },
+            { label: "areRewardPoolsFunded", current: String(funded), resulting: String(funded) },
+        ]);
+    }
+
+    /** `AIXCBStaking` only: pauses, emitting `StakingStopped` */
+    async stopStaking(): Promise<AdminCall> {
+        const paused = await this.staking().paused();
+        return this.call("stopStaking", [], "EMERGENCY_ADMIN_ROLE", [
+            { label: "paused", current: String(paused), resulting: "true" },
+        ]);
+    }
+
+    /**
+     * Funds a reward pool from the signer's balance. `AIXCBStaking` needs the
+     * lock period of the pool; `AIXCBLPStaking` has one pool per token. The
+     * resulting rate is predicted for the next block.
+     */
+    async fundPool(from: string, token: string, amount: bigint, period?: PeriodLabel): Promise<AdminCall> {
+        if (amount <= 0n) throw new Error("Funding amount must be greater than zero");
+        const address = getAddress(token);
+        const erc20 = IERC20Metadata__factory.connect(address, this.runner);
+        const [symbol, decimals, allowance] = await Promise.all([
+            erc20.symbol(),
+            erc20.decimals(),
+            erc20.allowance(from, this.contract.target as string),
+        ]);
+        const format = (value: bigint) => `${formatUnits(value, decimals)} ${symbol}`;
+        const now = BigInt(await latestTimestamp(this.runner)) + 1n;
+        const year = BigInt(SECONDS_PER_YEAR);
+
+        let call: AdminCall;
+        if (this.contractName === "AIXCBStaking") {
+            if (period === undefined) throw new Error(`AIXCBStaking pools are per lock period; pass one of ${PERIOD_LABELS.join(", ")}`);
+            const periodIndex = periodIndexOf(period);
+            const pool = await this.staking().rewardPools(periodIndex, address);
+            // Mirrors `fundRewardPool`: a finished pool restarts for a year, a running one spreads over what is left
+            const rewardRate =
+                now >= pool.periodFinish
+                    ? amount / year
+                    : ((pool.periodFinish - now) * pool.rewardRate + amount) / (pool.periodFinish - now);
+            call = this.call(
+                "fundRewardPool",
+                [periodIndex, address, amount],
+                "REWARD_MANAGER_ROLE",
+                [
+                    { label: `${period} ${symbol} totalReward`, current: format(pool.totalReward), resulting: format(pool.totalReward + amount) },
+                    { label: `${period} ${symbol} rewardRate`, current: `${pool.rewardRate}/s`, resulting: `${rewardRate}/s` },
+                ],
+                `fundRewardPool(${period}, ${symbol}, ${format(amount)})`
+            );
+        } else {
+            if (period !== undefined) throw new Error("AIXCBLPStaking has one pool per token; drop the period");
+            const pool = await AIXCBLPStaking__factory.connect(this.contract.target as string, this.runner).getRewardPool(address);
+            const rewardRate = (pool.totalReward + amount - pool.distributed) / year;
+            call = this.call(
+                "fundRewardPool",
+                [address, amount],
+                "REWARD_MANAGER_ROLE",
+                [
+                    { label: `${symbol} totalReward`, current: format(pool.totalReward), resulting: format(pool.totalReward + amount) },
+                    { label: `${symbol} ratePerSecond`, current: `${pool.ratePerSecond}/s`, resulting: `${rewardRate}/s` },
+                ],
+                `fundRewardPool(${symbol}, ${format(amount)})`
+            );
+        }
+        call.approval = { token: address, amount, allowance };
+        return call;
+    }
+
+    async addRewardToken(token: string): Promise<AdminCall> {
+        const address = getAddress(token);
+        const current = await this.read<boolean>("isRewardToken", address);
+        return this.call(
+            "addRewardToken",
+            [address],
+            "REWARD_MANAGER_ROLE",
+            [{ label: `isRewardToken(${address})`, current: String(current), resulting: "true" }],
+            `addRewardToken(${address})`
+        );
+    }
+
+    async removeRewardToken(token: string): Promise<AdminCall> {
+        const address = getAddress(token);
+        const current = await this.read<boolean>("isRewardToken", address);
+        return this.call(
+            "removeRewardToken",
+            [address],
+            "ADMIN_ROLE",
+            [{ label: `isRewardToken(${address})`, current: String(current), resulting: "false" }],
+            `removeRewardToken(${address})`
+        );
+    }
+
+    /** UUPS upgrade through `upgradeToAndCall`; `_authorizeUpgrade` requires `ADMIN_ROLE` */
+    async upgradeTo(implementation: string, data = "0x"): Promise<AdminCall> {
+        const address = getAddress(implementation);
+        if (!this.runner.provider) throw new Error("A runner with a provider is required");
+        if ((await this.runner.provider.getCode(address)) === "0x") throw new Error(`No contract deployed at ${address}`);
+        const current = await readImplementation(this.runner, this.contract.target as string);
+        return this.call(
+            "upgradeToAndCall",
+            [address, data],
+            "ADMIN_ROLE",
+            [{ label: "implementation", current, resulting: address }],
+            data === "0x" ? `upgradeToAndCall(${address})` : `upgradeToAndCall(${address}, ${data})`
+        );
+    }
+
+    /** Sends `amount` of a stray token to the treasury */
+    async recoverERC20(token: string, amount: bigint): Promise<AdminCall> {
+        const address = getAddress(token);
+        const erc20 = IERC20Metadata__factory.connect(address, this.runner);
+        const [symbol, decimals, balance] = await Promise.all([
+            erc20.symbol(),
+            erc20.decimals(),
+            erc20.balanceOf(this.contract.target as string),
+        ]);
+        const format = (value: bigint) => `${formatUnits(value, decimals)} ${symbol}`;
+        if (amount > balance) {
+            throw new Error(`${this.contractName} holds ${format(balance)}, less than the ${format(amount)} to recover`);
+        }
+        return this.call(
+            "recoverERC20",
+            [address, amount],
+            "ADMIN_ROLE",
+            [{ label: `${symbol} held by ${this.contractName}`, current: format(balance), resulting: format(balance - amount) }],
+            `recoverERC20(${symbol}, ${format(amount)})`
+        );
+    }
+
+    async hasRole(role: RoleName, account: string): Promise<boolean> {
+        return this.read<boolean>("hasRole", ROLES[role], account);
+    }
+
+    /**
+     * Runs the call as a static call from `from`, throwing a
+     * `ContractRevertError` if it would revert. A missing `fundRewardPool`
+     * approval is supplied through an `eth_call` state override.
+     */
+    async simulate(call: AdminCall, from: string): Promise<void> {
+        const approval = call.approval;
+        if (!approval || approval.allowance >= approval.amount) {
+            await withDecodedRevert(
+                this.contract.getFunction(call.method).staticCall(...call.args, { from }),
+                this.contractName
+            );
+            return;
+        }
+
+        const override = await this.allowanceOverride(approval, from);
+        const data = this.contract.interface.encodeFunctionData(call.method, call.args);
+        await withDecodedRevert(
+            this.rpc().send("eth_call", [{ from, to: this.contract.target as string, data }, "latest", override]),
+            this.contractName
+        );
+    }
+
+    /**
+     * Locates `allowance[owner][proxy]` in the token's storage by overriding
+     * each candidate mapping slot with `approval.amount` and reading
+     * `allowance` back
+     */
+    private async allowanceOverride(approval: RequiredApproval, owner: string): Promise<StateOverride> {
+        const coder = AbiCoder.defaultAbiCoder();
+        const spender = this.contract.target as string;
+        const data = IERC20Metadata__factory.createInterface().encodeFunctionData("allowance", [owner, spender]);
+        const value = toBeHex(approval.amount, 32);
+
+        for (const mappingSlot of ALLOWANCE_MAPPING_SLOTS) {
+            const inner = keccak256(coder.encode(["address", "uint256"], [owner, mappingSlot]));
+            const slot = keccak256(coder.encode(["address", "bytes32"], [spender, inner]));
+            const override: StateOverride = { [approval.token]: { stateDiff: { [slot]: value } } };
+            const result = await this.rpc().send("eth_call", [{ to: approval.token, data }, "latest", override]);
+            if (typeof result === "string" && result.toLowerCase() === value) return override;
+        }
+        throw new Error(
+            `Cannot find the allowance slot of ${approval.token} to simulate without approving; approve ${approval.amount} first`
+        );
+    }
+
+    /** The runner's provider as a JSON-RPC endpoint, for `eth_call` with a state override */
+    private rpc(): RpcProvider {
+        const provider = this.runner.provider as (Provider & Partial<RpcProvider>) | null;
+        if (typeof provider?.send !== "function") throw new Error("A JSON-RPC provider is required to simulate before approving");
+        return provider as RpcProvider;
+    }
+
+    /**
+     * Checks the signer's role and simulates the call, then sends it unless
+     * `dryRun`. A `fundRewardPool` approval is only sent once the simulation
+     * passed, right before the call itself.
+     */
+    async execute(call: AdminCall, options: { dryRun?: boolean } = {}): Promise<AdminResult> {
+        const signer: Signer = requireSigner(this.runner, "AdminClient");
+        const account = await signer.getAddress();
+        if (!(await this.hasRole(call.role, account))) throw new MissingRoleError(call, account);
+        if (!call.required) return { call, simulated: false };
+
+        await this.simulate(call, account);
+        if (options.dryRun) return { call, simulated: true };
+
+        if (call.approval) {
+            await ensureAllowance(
+                IERC20Metadata__factory.connect(call.approval.token, signer),
+                signer,
+                this.contract.target as string,
+                call.approval.amount
+            );
+        }
+
+        const tx = await withDecodedRevert(
+            (this.contract.connect(signer) as BaseContract).getFunction(call.method).send(...call.args),
+            this.contractName
+        );
+        return { call, simulated: true, tx };
+    }
+}
@@ -0,0 +1,458 @@
+import { Contract, ContractRunner, Interface, getAddress, parseUnits } from "ethers";
+import { AIXCBLPStaking__factory, AIXCBStaking__factory, IERC20Metadata__factory } from "../typechain-types";
+import { MAX_PERIOD_INDEX, PRECISION, PeriodLabel, SECONDS_PER_YEAR, periodLabelOf } from "./constants";
+import { ContractName } from "./errors";
+import { StakingClient } from "./StakingClient";
+import { getLogs } from "./utils";
+
+/**
+ * USD-denominated APR and TVL for both contracts.
+ *
+ * `AIXCBStaking.getAPR` divides reward token units by staking token units, so
+ * it only means something when both are the same token at the same price,
+ * and `AIXCBLPStaking` has no APR view. Here every amount is valued through a
+ * `PriceSource` first:
+ *
+ *   apr = rate * SECONDS_PER_YEAR * rewardPrice / (totalStaked * stakePrice) * 100
+ *
+ * Prices and USD values are scaled by 1e18, APRs are percent scaled by 1e18
+ * like `getAPR`. A pool counts as emitting until `periodFinish`
+ * (`AIXCBStaking`) or while budget is left (`AIXCBLPStaking`).
+ *
+ * Realized APR is what was actually paid over a block range, from
+ * `RewardPaid` / `RewardsClaimed` logs, against the time-weighted USD value of
+ * the stake. Rewards count when they are paid, not when they accrue, so a
+ * range that starts long after the last claim overstates it.
+ */
+
+const YEAR = BigInt(SECONDS_PER_YEAR);
+
+/** When a price is wanted; sources use whichever field they can */
+export interface PriceTime {
+    timestamp: number;
+    blockNumber: number;
+}
+
+export interface PriceSource {
+    /** USD price of one whole token, scaled by 1e18; throws when the token has no price */
+    getPrice(token: string, at?: PriceTime): Promise<bigint>;
+}
+
+export interface PricePoint {
+    /** Unix time from which the price applies */
+    from: number;
+    price: bigint;
+}
+
+/**
+ * Fixed prices, or price series where each point applies from its `from`
+ * time until the next one. Without a time, the latest point is used.
+ */
+export class StaticPriceSource implements PriceSource {
+    private readonly prices = new Map<string, PricePoint[]>();
+
+    constructor(prices: Record<string, bigint | PricePoint[]>) {
+        for (const [token, price] of Object.entries(prices)) {
+            const points = typeof price === "bigint" ? [{ from: 0, price }] : [...price].sort((a, b) => a.from - b.from);
+            if (points.length === 0) throw new Error(`No price points for ${token}`);
+            this.prices.set(getAddress(token), points);
+        }
+    }
+
+    async getPrice(token: string, at?: PriceTime): Promise<bigint> {
+        const points = this.prices.get(getAddress(token));
+        if (!points) throw new Error(`No price for ${token}`);
+        if (at === undefined) return points[points.length - 1].price;
+
+        const point = points.filter((candidate) => candidate.from <= at.timestamp).pop();
+        if (!point) throw new Error(`No price for ${token} at ${new Date(at.timestamp * 1000).toISOString()}`);
+        return point.price;
+    }
+}
+
+/**
+ * Parses a JSON price file keyed by token address. A value is a decimal USD
+ * price or a list of `{ from, price }` points, `from` being a Unix time or an
+ * ISO date:
+ *
+ *   {
+ *     "0x…": "0.0125",
+ *     "0x…": [{ "from": "2026-01-01T00:00:00Z", "price": "1.02" }, { "from": 1775001600, "price": "0.97" }]
+ *   }
+ */
+export function parsePriceFile(text: string): StaticPriceSource {
+    const raw: unknown = JSON.parse(text);
+    if (typeof raw !== "object" || raw === null || Array.isArray(raw)) throw new Error("A price file must be an object keyed by token address");
+
+    const price = (value: unknown, where: string): bigint => {
+        if (typeof value !== "string" && typeof value !== "number") throw new Error(`${where} must be a decimal price`);
+        const parsed = parseUnits(String(value), 18);
+        if (parsed <= 0n) throw new Error(`${where} must be positive`);
+        return parsed;
+    };
+    const prices: Record<string, bigint | PricePoint[]> = {};
+    for (const [token, value] of Object.entries(raw)) {
+        if (!Array.isArray(value)) {
+            prices[token] = price(value, token);
+            continue;
+        }
+        prices[token] = value.map((point: { from?: unknown; price?: unknown }, i) => {
+            const from = typeof point.from === "number" ? point.from : Math.floor(Date.parse(String(point.from)) / 1000);
+            if (!Number.isSafeInteger(from) || from < 0) throw new Error(`${token}[${i}].from must be a Unix time or an ISO date`);
+            return { from, price: price(point.price, `${token}[${i}].price`) };
+        });
+    }
+    return new StaticPriceSource(prices);
+}
+
+const AGGREGATOR_ABI = [
+    "function decimals() view returns (uint8)",
+    "function latestRoundData() view returns (uint80 roundId, int256 answer, uint256 startedAt, uint256 updatedAt, uint80 answeredInRound)",
+];
+
+export interface OraclePriceSourceOptions {
+    /** Rejects answers older than this many seconds at the queried time */
+    maxAgeSeconds?: number;
+}
+
+/**
+ * Prices from Chainlink-style `AggregatorV3Interface` feeds, one USD feed per
+ * token. With a time, the feed is read at that block, which needs an archive
+ * node for old blocks.
+ */
+export class OraclePriceSource implements PriceSource {
+    private readonly feeds = new Map<string, Contract>();
+    private readonly decimals = new Map<string, Promise<number>>();
+    private readonly runner: ContractRunner;
+    private readonly maxAgeSeconds?: number;
+
+    constructor(feeds: Record<string, string>, runner: ContractRunner, options: OraclePriceSourceOptions = {}) {
+        for (const [token, feed] of Object.entries(feeds)) this.feeds.set(getAddress(token), new Contract(feed, AGGREGATOR_ABI, runner));
+        this.runner = runner;
+        this.maxAgeSeconds = options.maxAgeSeconds;
+    }
+
+    async getPrice(token: string, at?: PriceTime): Promise<bigint> {
+        const key = getAddress(token);
+        const feed = this.feeds.get(key);
+        if (!feed) throw new Error(`No price feed for ${token}`);
+        if (!this.decimals.has(key)) this.decimals.set(key, feed.decimals().then(Number));
+
+        const blockTag = at?.blockNumber ?? "latest";
+        const [decimals, round] = await Promise.all([this.decimals.get(key)!, feed.latestRoundData({ blockTag })]);
+        const answer: bigint = round.answer;
+        if (answer <= 0n) throw new Error(`Feed for ${token} returned a non-positive answer: ${answer}`);
+
+        if (this.maxAgeSeconds !== undefined) {
+            let now = at?.timestamp;
+            if (now === undefined) {
+                const block = await this.runner.provider?.getBlock(blockTag);
+                if (!block) throw new Error("A runner with a provider is required");
+                now = block.timestamp;
+            }
+            const age = now - Number(round.updatedAt);
+            if (age > this.maxAgeSeconds) throw new Error(`Feed for ${token} is stale: updated ${age}s before the queried time`);
+        }
+        return decimals <= 18 ? answer * 10n ** BigInt(18 - decimals) : answer / 10n ** BigInt(decimals - 18);
+    }
+}
+
+/** USD value, scaled by 1e18, of `amount` base units priced at `price` per whole token */
+export function usdValue(amount: bigint, decimals: number, price: bigint): bigint {
+    return (amount * price) / 10n ** BigInt(decimals);
+}
+
+/** Percent scaled by 1e18; zero without stake */
+export function usdApr(annualRewardsUsd: bigint, stakedUsd: bigint): bigint {
+    return stakedUsd === 0n ? 0n : (annualRewardsUsd * 100n * PRECISION) / stakedUsd;
+}
+
+export interface TokenInfo {
+    token: string;
+    symbol: string;
+    decimals: number;
+}
+
+export interface PoolApr extends TokenInfo {
+    ratePerSecond: bigint;
+    /** False once `periodFinish` passed or the budget is spent */
+    emitting: boolean;
+    annualRewardsUsd: bigint;
+    apr: bigint;
+    /** What `AIXCBStaking.getAPR` reports for the same pool */
+    onChainApr?: bigint;
+}
+
+/** One lock period of `AIXCBStaking`, or the whole of `AIXCBLPStaking` */
+export interface PeriodAnalytics {
+    period?: PeriodLabel;
+    staked: bigint;
+    stakedUsd: bigint;
+    /** Sum of the pool APRs */
+    apr: bigint;
+    pools: PoolApr[];
+}
+
+export interface ContractAnalytics {
+    contract: ContractName;
+    address: string;
+    blockNumber: number;
+    timestamp: number;
+    stakingToken: TokenInfo;
+    stakingTokenPrice: bigint;
+    tvlUsd: bigint;
+    periods: PeriodAnalytics[];
+}
+
+export interface RealizedApr extends TokenInfo {
+    contract: ContractName;
+    period?: PeriodLabel;
+    fromBlock: number;
+    toBlock: number;
+    fromTime: number;
+    toTime: number;
+    payments: number;
+    paid: bigint;
+    /** Each payment valued at the price of its block */
+    paidUsd: bigint;
+    /** Staked USD value averaged over the range, re-priced at every stake change */
+    averageStakedUsd: bigint;
+    apr: bigint;
+}
+
+export interface RealizedAprOptions {
+    fromBlock: number;
+    /** Defaults to the latest block */
+    toBlock?: number;
+    /** Largest `eth_getLogs` block range; defaults to `DEFAULT_LOG_BATCH_SIZE` */
+    logBatchSize?: number;
+}
+
+const STAKING_INTERFACE = AIXCBStaking__factory.createInterface();
+const LP_STAKING_INTERFACE = AIXCBLPStaking__factory.createInterface();
+
+const INTERFACES: Record<ContractName, Interface> = {
+    AIXCBStaking: STAKING_INTERFACE,
+    AIXCBLPStaking: LP_STAKING_INTERFACE,
+};
+
+const STAKE_TOPICS: Record<ContractName, string[]> = {
+    AIXCBStaking: (["Staked", "Withdrawn", "StakeUpgraded", "EmergencyWithdraw"] as const).map(
+        (name) => STAKING_INTERFACE.getEvent(name).topicHash
+    ),
+    AIXCBLPStaking: (["StakeDeposited", "StakeWithdrawn", "EmergencyWithdraw"] as const).map(
+        (name) => LP_STAKING_INTERFACE.getEvent(name).topicHash
+    ),
+};
+
+const REWARD_TOPICS: Record<ContractName, string> = {
+    AIXCBStaking: STAKING_INTERFACE.getEvent("RewardPaid").topicHash,
+    AIXCBLPStaking: LP_STAKING_INTERFACE.getEvent("RewardsClaimed").topicHash,
+};
+
+export class StakingAnalytics {
+    private readonly runner: ContractRunner;
+    private readonly prices: PriceSource;
+    private readonly tokens = new Map<string, Promise<TokenInfo>>();
+    private readonly blocks = new Map<number, Promise<PriceTime>>();
+
+    constructor(runner: ContractRunner, prices: PriceSource) {
+        this.runner = runner;
+        this.prices = prices;
+    }
+
+    private tokenInfo(address: string): Promise<TokenInfo> {
+        const token = getAddress(address);
+        if (!this.tokens.has(token)) {
+            const erc20 = IERC20Metadata__factory.connect(token, this.runner);
+            this.tokens.set(
+                token,
+                Promise.all([erc20.symbol(), erc20.decimals()]).then(([symbol, decimals]) => ({ token, symbol, decimals: Number(decimals) }))
+            );
+        }
+        return this.tokens.get(token)!;
+    }
+
+    private priceTime(blockNumber?: number): Promise<PriceTime> {
+        const provider = this.runner.provider;
+        if (!provider) throw new Error("A runner with a provider is required");
+        const load = async (): Promise<PriceTime> => {
+            const block = await provider.getBlock(blockNumber ?? "latest");
+            if (!block) throw new Error(`Unable to fetch block ${blockNumber ?? "latest"}`);
+            return { timestamp: block.timestamp, blockNumber: block.number };
+        };
+        if (blockNumber === undefined) return load();
+        if (!this.blocks.has(blockNumber)) this.blocks.set(blockNumber, load());
+        return this.blocks.get(blockNumber)!;
+    }
+
+    /** Current USD APR of every `AIXCBStaking` pool and the TVL of each lock period */
+    async staking(address: string, blockNumber?: number): Promise<ContractAnalytics> {
+        const at = await this.priceTime(blockNumber);
+        const blockTag = at.blockNumber;
+        const staking = AIXCBStaking__factory.connect(address, this.runner);
+        const [stakingToken, rewardTokens] = await Promise.all([
+            staking.stakingToken({ blockTag }).then((token) => this.tokenInfo(token)),
+            new StakingClient(address, this.runner).getRewardTokens(blockTag),
+        ]);
+        const stakingTokenPrice = await this.prices.getPrice(stakingToken.token, at);
+
+        const periods: PeriodAnalytics[] = [];
+        for (let periodIndex = 0; periodIndex <= MAX_PERIOD_INDEX; periodIndex++) {
+            const staked = await staking.totalStakedForPeriod(periodIndex, { blockTag });
+            const stakedUsd = usdValue(staked, stakingToken.decimals, stakingTokenPrice);
+            const pools: PoolApr[] = [];
+            for (const rewardToken of rewardTokens) {
+                const [info, pool, onChainApr, price] = await Promise.all([
+                    this.tokenInfo(rewardToken),
+                    staking.rewardPools(periodIndex, rewardToken, { blockTag }),
+                    staking.getAPR(periodIndex, rewardToken, { blockTag }),
+                    this.prices.getPrice(rewardToken, at),
+                ]);
+                const emitting = pool.periodFinish > BigInt(at.timestamp) && pool.rewardRate > 0n;
+                const annualRewardsUsd = emitting ? usdValue(pool.rewardRate * YEAR, info.decimals, price) : 0n;
+                pools.push({
+                    ...info,
+                    ratePerSecond: pool.rewardRate,
+                    emitting,
+                    annualRewardsUsd,
+                    apr: usdApr(annualRewardsUsd, stakedUsd),
+                    onChainApr,
+                });
+            }
+            periods.push({
+                period: periodLabelOf(periodIndex),
+                staked,
+                stakedUsd,
+                apr: pools.reduce((sum, pool) => sum + pool.apr, 0n),
+                pools,
+            });
+        }
+
+        return {
+            contract: "AIXCBStaking",
+            address: getAddress(address),
+            ...at,
+            stakingToken,
+            stakingTokenPrice,
+            tvlUsd: periods.reduce((sum, period) => sum + period.stakedUsd, 0n),
+            periods,
+        };
+    }
+
+    /** Current USD APR of every `AIXCBLPStaking` pool and its TVL; the LP token needs a price too */
+    async lp(address: string, blockNumber?: number): Promise<ContractAnalytics> {
+        const at = await this.priceTime(blockNumber);
+        const blockTag = at.blockNumber;
+        const lpStaking = AIXCBLPStaking__factory.connect(address, this.runner);
+        const [lpToken, rewardTokens, staked] = await Promise.all([
+            lpStaking.lpToken({ blockTag }).then((token) => this.tokenInfo(token)),
+            lpStaking.getRewardTokens({ blockTag }),
+            lpStaking.totalStakedAmount({ blockTag }),
+        ]);
+        const lpPrice = await this.prices.getPrice(lpToken.token, at);
+        const stakedUsd = usdValue(staked, lpToken.decimals, lpPrice);
+
+        const pools: PoolApr[] = [];
+        for (const rewardToken of rewardTokens) {
+            const [info, pool, price] = await Promise.all([
+                this.tokenInfo(rewardToken),
+                lpStaking.getRewardPool(rewardToken, { blockTag }),
+                this.prices.getPrice(rewardToken, at),
+            ]);
+            // Accrual beyond the remaining budget is never paid, so the rate only counts while budget is left
+            const emitting = pool.totalReward > pool.distributed && pool.ratePerSecond > 0n;
+            const annualRewardsUsd = emitting ? usdValue(pool.ratePerSecond * YEAR, info.decimals, price) : 0n;
+            pools.push({ ...info, ratePerSecond: pool.ratePerSecond, emitting, annualRewardsUsd, apr: usdApr(annualRewardsUsd, stakedUsd) });
+        }
+
+        return {
+            contract: "AIXCBLPStaking",
+            address: getAddress(address),
+            ...at,
+            stakingToken: lpToken,
+            stakingTokenPrice: lpPrice,
+            tvlUsd: stakedUsd,
+            periods: [{ staked, stakedUsd, apr: pools.reduce((sum, pool) => sum + pool.apr, 0n), pools }],
+        };
+    }
+
+    /**
+     * Realized USD APR per pool over `[fromBlock, toBlock]`. The stake is read
+     * at `fromBlock` and at every block with a stake change, so old ranges
+     * need an archive node. Pools that paid nothing in the range are left out.
+     */
+    async realized(contract: ContractName, address: string, options: RealizedAprOptions): Promise<RealizedApr[]> {
+        const provider = this.runner.provider;
+        if (!provider) throw new Error("A runner with a provider is required");
+        const toBlock = options.toBlock ?? (await provider.getBlockNumber());
+        const { fromBlock } = options;
+        const [from, to] = await Promise.all([this.priceTime(fromBlock), this.priceTime(toBlock)]);
+        if (to.timestamp <= from.timestamp) throw new Error("The block range must span some time");
+        const iface = INTERFACES[contract];
+
+        // Time-weighted USD stake per period (one entry for AIXCBLPStaking)
+        const staking = AIXCBStaking__factory.connect(address, this.runner);
+        const lpStaking = AIXCBLPStaking__factory.connect(address, this.runner);
+        const stakingToken = await this.tokenInfo(
+            contract === "AIXCBStaking" ? await staking.stakingToken({ blockTag: toBlock }) : await lpStaking.lpToken({ blockTag: toBlock })
+        );
+        const changes = await getLogs(this.runner, { address, topics: [STAKE_TOPICS[contract]] }, fromBlock + 1, toBlock, options.logBatchSize);
+        const points = [fromBlock, ...new Set(changes.map((log) => log.blockNumber))].sort((a, b) => a - b);
+        const periodCount = contract === "AIXCBStaking" ? MAX_PERIOD_INDEX + 1 : 1;
+        const stakeSeconds: bigint[] = new Array(periodCount).fill(0n);
+
+        for (let i = 0; i < points.length; i++) {
+            const at = await this.priceTime(points[i]);
+            const until = i + 1 < points.length ? (await this.priceTime(points[i + 1])).timestamp : to.timestamp;
+            const price = await this.prices.getPrice(stakingToken.token, at);
+            for (let periodIndex = 0; periodIndex < periodCount; periodIndex++) {
+                const staked =
+                    contract === "AIXCBStaking"
+                        ? await staking.totalStakedForPeriod(periodIndex, { blockTag: at.blockNumber })
+                        : await lpStaking.totalStakedAmount({ blockTag: at.blockNumber });
+                stakeSeconds[periodIndex] += usdValue(staked, stakingToken.decimals, price) * BigInt(until - at.timestamp);
+            }
+        }
+
+        // Payments, each valued at its own block
+        const payments = await getLogs(this.runner, { address, topics: [REWARD_TOPICS[contract]] }, fromBlock, toBlock, options.logBatchSize);
+        const pools = new Map<string, { periodIndex: number; token: string; payments: number; paid: bigint; paidUsd: bigint }>();
+        for (const log of payments) {
+            const event = iface.parseLog(log);
+            if (!event) continue;
+            const { args } = event;
+            const token = getAddress(args.token);
+            const periodIndex = contract === "AIXCBStaking" ? Number(args.periodIndex) : 0;
+            const key = `${periodIndex}:${token}`;
+            const pool = pools.get(key) ?? { periodIndex, token, payments: 0, paid: 0n, paidUsd: 0n };
+            const { decimals } = await this.tokenInfo(token);
+            pool.payments++;
+            pool.paid += args.amount;
+            pool.paidUsd += usdValue(args.amount, decimals, await this.prices.getPrice(token, await this.priceTime(log.blockNumber)));
+            pools.set(key, pool);
+        }
+
+        const duration = BigInt(to.timestamp - from.timestamp);
+        const results: RealizedApr[] = [];
+        const sorted = [...pools.values()].sort((a, b) => a.periodIndex - b.periodIndex);
+        for (const pool of sorted) {
+            const weighted = stakeSeconds[pool.periodIndex];
+            results.push({
+                ...(await this.tokenInfo(pool.token)),
+                contract,
+                period: contract === "AIXCBStaking" ? periodLabelOf(pool.periodIndex) : undefined,
+                fromBlock,
+                toBlock,
+                fromTime: from.timestamp,
+                toTime: to.timestamp,
+                payments: pool.payments,
+                paid: pool.paid,
+                paidUsd: pool.paidUsd,
+                averageStakedUsd: weighted / duration,
+                apr: weighted === 0n ? 0n : (pool.paidUsd * YEAR * 100n * PRECISION) / weighted,
+            });
+        }
+        return results;
+    }
+}
@@ -0,0 +1,65 @@
+import { ZeroHash, id } from "ethers";
+
+/** Lock periods accepted by `AIXCBStaking.stake`, keyed by their UI label */
+export const PERIODS = {
+    "90d": 0,
+    "180d": 1,
+    "360d": 2,
+} as const;
+
+export type PeriodLabel = keyof typeof PERIODS;
+export type PeriodIndex = (typeof PERIODS)[PeriodLabel];
+
+export const PERIOD_LABELS: readonly PeriodLabel[] = ["90d", "180d", "360d"];
+
+/** Mirrors `lockPeriods` as set by `AIXCBStaking.initialize` */
+export const LOCK_PERIOD_SECONDS: Record<PeriodLabel, number> = {
+    "90d": 90 * 24 * 60 * 60,
+    "180d": 180 * 24 * 60 * 60,
+    "360d": 360 * 24 * 60 * 60,
+};
+
+export const MAX_PERIOD_INDEX = 2;
+export const PRECISION = 10n ** 18n;
+export const SECONDS_PER_YEAR = 365 * 24 * 60 * 60;
+
+/** Mirrors `AIXCBLPStaking.MAX_STAKE_AMOUNT` */
+export const LP_MAX_STAKE_AMOUNT = 10_000_000n * PRECISION;
+/** Fee taken by `AIXCBLPStaking.emergencyWithdraw`, in basis points */
+export const LP_EMERGENCY_WITHDRAW_FEE_BPS = 2000n;
+
+export function periodIndexOf(period: PeriodLabel | number): PeriodIndex {
+    const index = typeof period === "number" ? period : PERIODS[period];
+    if (!Number.isInteger(index) || index < 0 || index > MAX_PERIOD_INDEX) {
+        throw new Error(`Invalid staking period: ${period}`);
+    }
+    return index as PeriodIndex;
+}
+
+export function periodLabelOf(periodIndex: number | bigint): PeriodLabel {
+    const label = PERIOD_LABELS[Number(periodIndex)];
+    if (label === undefined) throw new Error(`Invalid period index: ${periodIndex}`);
+    return label;
+}
+
+/** Access control roles shared by both staking contracts */
+export const ROLES = {
+    DEFAULT_ADMIN_ROLE: ZeroHash,
+    ADMIN_ROLE: id("ADMIN_ROLE"),
+    EMERGENCY_ADMIN_ROLE: id("EMERGENCY_ADMIN_ROLE"),
+    REWARD_MANAGER_ROLE: id("REWARD_MANAGER_ROLE"),
+} as const;
+
+/** Circuit breaker identifiers used by `AIXCBStaking` */
+export const STAKING_CIRCUITS = {
+    STAKING_CIRCUIT: id("STAKING_CIRCUIT"),
+    WITHDRAWAL_CIRCUIT: id("WITHDRAWAL_CIRCUIT"),
+    REWARDS_CIRCUIT: id("REWARDS_CIRCUIT"),
+} as const;
+
+/** Circuit breaker identifiers used by `AIXCBLPStaking` */
+export const LP_STAKING_CIRCUITS = {
+    STAKING_CIRCUIT: id("STAKING_CIRCUIT"),
+    WITHDRAW_CIRCUIT: id("WITHDRAW_CIRCUIT"),
+    REWARD_CIRCUIT: id("REWARD_CIRCUIT"),
+} as const;
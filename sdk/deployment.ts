@@ -0,0 +1,126 @@
+import { ContractRunner, getAddress } from "ethers";
+import { AIXCBLPStaking__factory, AIXCBStaking__factory } from "../typechain-types";
+import { MAX_PERIOD_INDEX, ROLES } from "./constants";
+import { LPStakingClient } from "./LPStakingClient";
+import { StakingClient } from "./StakingClient";
+
+/**
+ * Deployment manifest: proxy and implementation addresses, role holders and
+ * pool funding, read back from the chain after a launch. Amounts are decimal
+ * strings so the manifest round-trips through JSON.
+ */
+
+/** ERC-1967 implementation slot, `bytes32(uint256(keccak256("eip1967.proxy.implementation")) - 1)` */
+export const IMPLEMENTATION_SLOT = "0x360894a13ba1a3210667c828492db98dca3e2076cc3735a920a3ca505d382bbc";
+
+export type RoleName = keyof typeof ROLES;
+
+export interface PoolFunding {
+    /** Lock period of the pool; absent for `AIXCBLPStaking`, which has one pool per token */
+    periodIndex?: number;
+    token: string;
+    totalReward: string;
+    rewardRate: string;
+}
+
+export interface ContractManifest {
+    proxy: string;
+    implementation: string;
+    /** `stakingToken` or `lpToken` */
+    stakedToken: string;
+    treasury: string;
+    rewardTokens: string[];
+    /** Accounts holding each role, among those passed to the reader (roles are not enumerable on-chain) */
+    roles: Record<RoleName, string[]>;
+    funding: PoolFunding[];
+    paused: boolean;
+}
+
+export interface DeploymentManifest {
+    network: string;
+    chainId: number;
+    deployer: string;
+    contracts: {
+        AIXCBStaking?: ContractManifest;
+        AIXCBLPStaking?: ContractManifest;
+    };
+}
+
+/** Reads the implementation a proxy currently delegates to */
+export async function readImplementation(runner: ContractRunner, proxy: string): Promise<string> {
+    if (!runner.provider) throw new Error("A runner with a provider is required");
+    const slot = await runner.provider.getStorage(proxy, IMPLEMENTATION_SLOT);
+    return getAddress(`0x${slot.slice(-40)}`);
+}
+
+async function readRoles(
+    hasRole: (role: string, account: string) => Promise<boolean>,
+    accounts: string[]
+): Promise<Record<RoleName, string[]>> {
+    const candidates = [...new Set(accounts.map((account) => getAddress(account)))];
+    const roles = {} as Record<RoleName, string[]>;
+    for (const [name, role] of Object.entries(ROLES) as [RoleName, string][]) {
+        roles[name] = [];
+        for (const account of candidates) {
+            if (await hasRole(role, account)) roles[name].push(account);
+        }
+    }
+    return roles;
+}
+
+export async function readStakingManifest(
+    runner: ContractRunner,
+    proxy: string,
+    accounts: string[]
+): Promise<ContractManifest> {
+    const staking = AIXCBStaking__factory.connect(proxy, runner);
+    const rewardTokens = await new StakingClient(proxy, runner).getRewardTokens();
+
+    const funding: PoolFunding[] = [];
+    for (let periodIndex = 0; periodIndex <= MAX_PERIOD_INDEX; periodIndex++) {
+        for (const token of rewardTokens) {
+            const pool = await staking.rewardPools(periodIndex, token);
+            funding.push({
+                periodIndex,
+                token,
+                totalReward: pool.totalReward.toString(),
+                rewardRate: pool.rewardRate.toString()
+            });
+        }
+    }
+
+    return {
+        proxy: getAddress(proxy),
+        implementation: await readImplementation(runner, proxy),
+        stakedToken: await staking.stakingToken(),
+        treasury: await staking.treasury(),
+        rewardTokens,
+        roles: await readRoles((role, account) => staking.hasRole(role, account), [...accounts, await staking.treasury()]),
+        funding,
+        paused: await staking.paused()
+    };
+}
+
+export async function readLPStakingManifest(
+    runner: ContractRunner,
+    proxy: string,
+    accounts: string[]
+): Promise<ContractManifest> {
+    const staking = AIXCBLPStaking__factory.connect(proxy, runner);
+    const pools = await new LPStakingClient(proxy, runner).getRewardPools();
+
+    return {
+        proxy: getAddress(proxy),
+        implementation: await readImplementation(runner, proxy),
+        stakedToken: await staking.lpToken(),
+        treasury: await staking.treasury(),
+        rewardTokens: pools.map((pool) => pool.token),
+        roles: await readRoles((role, account) => staking.hasRole(role, account), [...accounts, await staking.treasury()]),
+        funding: pools.map((pool) => ({
+            token: pool.token,
+            totalReward: pool.totalReward.toString(),
+            rewardRate: pool.ratePerSecond.toString()
+        })),
+        paused: await staking.paused()
+    };
+}
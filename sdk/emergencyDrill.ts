@@ -0,0 +1,377 @@
+import { Interface, Provider, formatUnits, getAddress, toBeHex } from "ethers";
+import { AIXCBLPStaking__factory, AIXCBStaking__factory, IERC20Metadata__factory } from "../typechain-types";
+import { TokenInfo } from "./analytics";
+import { MAX_PERIOD_INDEX, PeriodLabel, ROLES, periodLabelOf } from "./constants";
+import { ContractName, decodeRevert } from "./errors";
+import { LPStakingClient } from "./LPStakingClient";
+import { StakingClient } from "./StakingClient";
+import { RpcProvider, findLPStakers, sendImpersonated, takeSnapshot } from "./utils";
+
+/**
+ * Rehearses a full emergency wind-down on a Hardhat node, usually one forking
+ * mainnet at a block: enables emergency mode, exits every staker through
+ * `emergencyWithdraw` from the impersonated address, then sweeps what is left
+ * with `emergencyWithdrawRewardToken` and `recoverERC20`.
+ *
+ * The contracts differ on purpose. v2 `AIXCBStaking.emergencyWithdraw` returns
+ * the whole stake and drops the accrued `userRewards`; `AIXCBLPStaking` still
+ * sends `EMERGENCY_WITHDRAW_FEE` to the treasury. `AIXCBLPStaking` has no
+ * `emergencyWithdrawRewardToken` and refuses to recover active reward tokens,
+ * so its reward balances are reported as left over.
+ *
+ * `AIXCBStaking` stakers come from `getStakersForPeriod`, `AIXCBLPStaking`
+ * stakers from `StakeDeposited` logs. The node is reverted afterwards unless
+ * `keepState` is set.
+ */
+
+export type DrillProvider = RpcProvider & Provider;
+
+export interface EmergencyDrillOptions {
+    staking?: string;
+    lp?: string;
+    /** Holder of `ADMIN_ROLE` on both contracts, e.g. the Safe */
+    admin: string;
+    /** Holder of `EMERGENCY_ADMIN_ROLE`; defaults to `admin` */
+    emergencyAdmin?: string;
+    /** Receives `emergencyWithdrawRewardToken` sweeps; defaults to the treasury */
+    rewardRecipient?: string;
+    /** Stray tokens to pull out with `recoverERC20` */
+    recoverTokens?: string[];
+    /** First block to scan for LP stakers, e.g. the proxy deployment block */
+    lpFromBlock?: number;
+    /** Largest `eth_getLogs` block range; defaults to `DEFAULT_LOG_BATCH_SIZE` */
+    logBatchSize?: number;
+    /** Leave the node in its wound-down state */
+    keepState?: boolean;
+}
+
+export interface DrillReward {
+    token: string;
+    amount: bigint;
+}
+
+export interface DrillExit {
+    contract: ContractName;
+    user: string;
+    /** `undefined` for `AIXCBLPStaking` */
+    period?: PeriodLabel;
+    staked: bigint;
+    /** Staked token received by the user */
+    received: bigint;
+    /** Staked token received by the treasury */
+    fee: bigint;
+    /** Pending rewards lost by the exit */
+    forfeited: DrillReward[];
+    error?: string;
+}
+
+export interface DrillSweep {
+    contract: ContractName;
+    method: "emergencyWithdrawRewardToken" | "recoverERC20";
+    token: string;
+    amount: bigint;
+    recipient: string;
+    error?: string;
+}
+
+export interface DrillBalance {
+    contract: ContractName;
+    token: string;
+    balance: bigint;
+}
+
+export interface DrillContract {
+    contract: ContractName;
+    address: string;
+    /** Staking token or LP token */
+    stakedToken: string;
+    treasury: string;
+}
+
+export interface EmergencyDrillReport {
+    blockNumber: number;
+    contracts: DrillContract[];
+    tokens: TokenInfo[];
+    exits: DrillExit[];
+    sweeps: DrillSweep[];
+    /** Balances the contracts still hold at the end */
+    leftovers: DrillBalance[];
+}
+
+const GAS_ALLOWANCE = 10n ** 18n;
+
+class Drill {
+    private readonly impersonated = new Set<string>();
+    readonly tokens = new Map<string, TokenInfo>();
+
+    constructor(readonly provider: DrillProvider) {}
+
+    async token(address: string): Promise<TokenInfo> {
+        const token = getAddress(address);
+        if (!this.tokens.has(token)) {
+            const erc20 = IERC20Metadata__factory.connect(token, this.provider);
+            const [symbol, decimals] = await Promise.all([erc20.symbol(), erc20.decimals()]);
+            this.tokens.set(token, { token, symbol, decimals: Number(decimals) });
+        }
+        return this.tokens.get(token)!;
+    }
+
+    balanceOf(token: string, account: string): Promise<bigint> {
+        return IERC20Metadata__factory.connect(token, this.provider).balanceOf(account);
+    }
+
+    /** Sends from an impersonated account; returns the decoded revert, if any */
+    async send(from: string, to: string, data: string, contract: ContractName): Promise<string | undefined> {
+        if (!this.impersonated.has(from)) {
+            await this.provider.send("hardhat_impersonateAccount", [from]);
+            await this.provider.send("hardhat_setBalance", [from, toBeHex(GAS_ALLOWANCE)]);
+            this.impersonated.add(from);
+        }
+        try {
+            const receipt = await sendImpersonated(this.provider, { from, to, data });
+            return receipt?.status === "0x1" ? undefined : "Transaction failed";
+        } catch (error) {
+            const revert = decodeRevert(error, contract);
+            return revert ? `${revert.name}: ${revert.message}` : String(error);
+        }
+    }
+
+    async release(): Promise<void> {
+        for (const account of this.impersonated) {
+            await this.provider.send("hardhat_stopImpersonatingAccount", [account]);
+        }
+    }
+}
+
+async function requireRole(
+    contract: { hasRole(role: string, account: string): Promise<boolean> },
+    name: ContractName,
+    role: keyof typeof ROLES,
+    account: string
+): Promise<void> {
+    if (!(await contract.hasRole(ROLES[role], account))) throw new Error(`${account} does not hold ${role} on ${name}`);
+}
+
+function forfeitedRewards(tokens: string[], before: bigint[], after: bigint[]): DrillReward[] {
+    return tokens.map((token, i) => ({ token, amount: before[i] - after[i] })).filter((reward) => reward.amount > 0n);
+}
+
+/** Exits every staker and sweeps the contract; returns the tokens it holds */
+async function drillStaking(drill: Drill, address: string, options: EmergencyDrillOptions, report: EmergencyDrillReport): Promise<string[]> {
+    const staking = AIXCBStaking__factory.connect(address, drill.provider);
+    const iface = staking.interface;
+    const emergencyAdmin = options.emergencyAdmin ?? options.admin;
+    await requireRole(staking, "AIXCBStaking", "EMERGENCY_ADMIN_ROLE", emergencyAdmin);
+    await requireRole(staking, "AIXCBStaking", "ADMIN_ROLE", options.admin);
+
+    const [stakedToken, treasury, rewardTokens] = await Promise.all([
+        staking.stakingToken(),
+        staking.treasury(),
+        new StakingClient(address, drill.provider).getRewardTokens(),
+    ]);
+    report.contracts.push({ contract: "AIXCBStaking", address, stakedToken, treasury });
+    const pending = (user: string, periodIndex: number) =>
+        Promise.all(rewardTokens.map((token) => staking.pendingRewards(user, periodIndex, token)));
+
+    if (!(await staking.emergencyMode())) {
+        const error = await drill.send(emergencyAdmin, address, iface.encodeFunctionData("enableEmergencyMode"), "AIXCBStaking");
+        if (error) throw new Error(`enableEmergencyMode failed on AIXCBStaking: ${error}`);
+    }
+
+    for (let periodIndex = 0; periodIndex <= MAX_PERIOD_INDEX; periodIndex++) {
+        // The list never shrinks, so most entries may have exited already
+        for (const user of await staking.getStakersForPeriod(periodIndex)) {
+            const stake = await staking.getUserStake(user, periodIndex);
+            if (!stake.initialized) continue;
+
+            const [rewardsBefore, userBefore, treasuryBefore] = await Promise.all([
+                pending(user, periodIndex),
+                drill.balanceOf(stakedToken, user),
+                drill.balanceOf(stakedToken, treasury),
+            ]);
+            const error = await drill.send(user, address, iface.encodeFunctionData("emergencyWithdraw", [periodIndex]), "AIXCBStaking");
+            const [rewardsAfter, userAfter, treasuryAfter] = await Promise.all([
+                pending(user, periodIndex),
+                drill.balanceOf(stakedToken, user),
+                drill.balanceOf(stakedToken, treasury),
+            ]);
+            report.exits.push({
+                contract: "AIXCBStaking",
+                user,
+                period: periodLabelOf(periodIndex),
+                staked: stake.amount,
+                received: userAfter - userBefore,
+                fee: treasuryAfter - treasuryBefore,
+                forfeited: forfeitedRewards(rewardTokens, rewardsBefore, rewardsAfter),
+                error,
+            });
+        }
+    }
+
+    const recipient = options.rewardRecipient ?? treasury;
+    for (const token of rewardTokens) {
+        // The staking token can be a reward token too; never sweep principal of a failed exit
+        const principal = token === stakedToken ? await staking.getTotalStaked() : 0n;
+        const amount = (await drill.balanceOf(token, address)) - principal;
+        if (amount <= 0n) continue;
+        const data = iface.encodeFunctionData("emergencyWithdrawRewardToken", [token, amount, recipient]);
+        const error = await drill.send(emergencyAdmin, address, data, "AIXCBStaking");
+        report.sweeps.push({ contract: "AIXCBStaking", method: "emergencyWithdrawRewardToken", token, amount, recipient, error });
+    }
+    const stray = (options.recoverTokens ?? []).filter((token) => token !== stakedToken && !rewardTokens.includes(token));
+    await recover(drill, report.contracts[report.contracts.length - 1], iface, options.admin, stray, report);
+    return [stakedToken, ...rewardTokens, ...stray];
+}
+
+/** Exits every LP staker and sweeps the contract; returns the tokens it holds */
+async function drillLP(drill: Drill, address: string, options: EmergencyDrillOptions, report: EmergencyDrillReport): Promise<string[]> {
+    const lpStaking = AIXCBLPStaking__factory.connect(address, drill.provider);
+    const iface = lpStaking.interface;
+    const emergencyAdmin = options.emergencyAdmin ?? options.admin;
+    await requireRole(lpStaking, "AIXCBLPStaking", "EMERGENCY_ADMIN_ROLE", emergencyAdmin);
+    await requireRole(lpStaking, "AIXCBLPStaking", "ADMIN_ROLE", options.admin);
+
+    const [lpToken, treasury, rewardTokens] = await Promise.all([
+        lpStaking.lpToken(),
+        lpStaking.treasury(),
+        new LPStakingClient(address, drill.provider).getRewardTokens(),
+    ]);
+    report.contracts.push({ contract: "AIXCBLPStaking", address, stakedToken: lpToken, treasury });
+    const stakers = await findLPStakers(
+        drill.provider,
+        address,
+        options.lpFromBlock ?? 0,
+        report.blockNumber,
+        options.logBatchSize
+    );
+    const pending = (user: string) => Promise.all(rewardTokens.map((token) => lpStaking.getPendingRewards(user, token)));
+
+    if (!(await lpStaking.emergencyMode())) {
+        const error = await drill.send(emergencyAdmin, address, iface.encodeFunctionData("enableEmergencyMode"), "AIXCBLPStaking");
+        if (error) throw new Error(`enableEmergencyMode failed on AIXCBLPStaking: ${error}`);
+    }
+
+    for (const user of stakers) {
+        const { stakedAmount } = await lpStaking.userStakes(user);
+        if (stakedAmount === 0n) continue;
+
+        const [rewardsBefore, userBefore, treasuryBefore] = await Promise.all([
+            pending(user),
+            drill.balanceOf(lpToken, user),
+            drill.balanceOf(lpToken, treasury),
+        ]);
+        const error = await drill.send(user, address, iface.encodeFunctionData("emergencyWithdraw"), "AIXCBLPStaking");
+        const [rewardsAfter, userAfter, treasuryAfter] = await Promise.all([
+            pending(user),
+            drill.balanceOf(lpToken, user),
+            drill.balanceOf(lpToken, treasury),
+        ]);
+        report.exits.push({
+            contract: "AIXCBLPStaking",
+            user,
+            staked: stakedAmount,
+            received: userAfter - userBefore,
+            fee: treasuryAfter - treasuryBefore,
+            forfeited: forfeitedRewards(rewardTokens, rewardsBefore, rewardsAfter),
+            error,
+        });
+    }
+
+    // Active reward tokens revert with CannotRecoverRewardToken; the report shows why they stay
+    const stray = (options.recoverTokens ?? []).filter((token) => token !== lpToken && !rewardTokens.includes(token));
+    await recover(drill, report.contracts[report.contracts.length - 1], iface, options.admin, [...rewardTokens, ...stray], report);
+    return [lpToken, ...rewardTokens, ...stray];
+}
+
+/** `recoverERC20` of each token's full balance to the treasury */
+async function recover(
+    drill: Drill,
+    target: DrillContract,
+    iface: Interface,
+    admin: string,
+    tokens: string[],
+    report: EmergencyDrillReport
+): Promise<void> {
+    for (const token of tokens) {
+        const amount = await drill.balanceOf(token, target.address);
+        if (amount === 0n) continue;
+        const data = iface.encodeFunctionData("recoverERC20", [token, amount]);
+        const error = await drill.send(admin, target.address, data, target.contract);
+        report.sweeps.push({ contract: target.contract, method: "recoverERC20", token, amount, recipient: target.treasury, error });
+    }
+}
+
+export async function runEmergencyDrill(provider: DrillProvider, options: EmergencyDrillOptions): Promise<EmergencyDrillReport> {
+    if (options.staking === undefined && options.lp === undefined) throw new Error("Give a staking or an LP staking address");
+    options = { ...options, recoverTokens: options.recoverTokens?.map((token) => getAddress(token)) };
+    const drill = new Drill(provider);
+    const report: EmergencyDrillReport = {
+        blockNumber: await provider.getBlockNumber(),
+        contracts: [],
+        tokens: [],
+        exits: [],
+        sweeps: [],
+        leftovers: [],
+    };
+    const snapshot = options.keepState ? undefined : await takeSnapshot(provider);
+
+    try {
+        const held: string[][] = [];
+        if (options.staking !== undefined) held.push(await drillStaking(drill, getAddress(options.staking), options, report));
+        if (options.lp !== undefined) held.push(await drillLP(drill, getAddress(options.lp), options, report));
+
+        for (const [i, { contract, address }] of report.contracts.entries()) {
+            for (const token of held[i]) {
+                await drill.token(token);
+                report.leftovers.push({ contract, token, balance: await drill.balanceOf(token, address) });
+            }
+        }
+        for (const reward of report.exits.flatMap((exit) => exit.forfeited)) await drill.token(reward.token);
+        report.tokens = [...drill.tokens.values()];
+    } finally {
+        await drill.release();
+        if (snapshot !== undefined) await provider.send("evm_revert", [snapshot]);
+    }
+    return report;
+}
+
+export function formatDrillJson(report: EmergencyDrillReport): string {
+    return JSON.stringify(report, (_, value) => (typeof value === "bigint" ? value.toString() : value), 2);
+}
+
+export function formatDrillMarkdown(report: EmergencyDrillReport): string {
+    const tokens = new Map(report.tokens.map((token) => [token.token, token]));
+    const amount = (token: string, value: bigint) => `${formatUnits(value, tokens.get(token)?.decimals ?? 18)} ${tokens.get(token)?.symbol ?? token}`;
+
+    const lines = [`# Emergency drill at block ${report.blockNumber}`];
+    for (const { contract, address, stakedToken: staked } of report.contracts) {
+        const exits = report.exits.filter((exit) => exit.contract === contract);
+        const leftovers = report.leftovers.filter((leftover) => leftover.contract === contract);
+        const received = exits.reduce((sum, exit) => sum + exit.received, 0n);
+        const fees = exits.reduce((sum, exit) => sum + exit.fee, 0n);
+
+        lines.push("", `## ${contract} ${address}`, "");
+        lines.push(`${exits.length} emergency exits paid ${amount(staked, received)} to users and ${amount(staked, fees)} in fees`, "");
+        lines.push("| User | Period | Staked | Received | Fee | Forfeited rewards | Result |");
+        lines.push("|------|--------|--------|----------|-----|-------------------|--------|");
+        for (const exit of exits) {
+            const forfeited = exit.forfeited.map((reward) => amount(reward.token, reward.amount)).join(", ") || "-";
+            lines.push(
+                `| ${exit.user} | ${exit.period ?? "-"} | ${amount(staked, exit.staked)} | ${amount(staked, exit.received)} | ` +
+                    `${amount(staked, exit.fee)} | ${forfeited} | ${exit.error ?? "ok"} |`
+            );
+        }
+        const sweeps = report.sweeps.filter((sweep) => sweep.contract === contract);
+        if (sweeps.length > 0) {
+            lines.push("", "| Sweep | Token | Amount | Recipient | Result |", "|-------|-------|--------|-----------|--------|");
+            for (const sweep of sweeps) {
+                lines.push(
+                    `| ${sweep.method} | ${tokens.get(sweep.token)?.symbol ?? sweep.token} | ${amount(sweep.token, sweep.amount)} | ` +
+                        `${sweep.recipient} | ${sweep.error ?? "ok"} |`
+                );
+            }
+        }
+        lines.push("", "Left in the contract:", ...leftovers.map((leftover) => `- ${amount(leftover.token, leftover.balance)}`));
+    }
+    return lines.join("\n") + "\n";
+}
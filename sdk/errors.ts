@@ -0,0 +1,392 @@
+import { AbiCoder, ErrorDescription, Interface, dataSlice } from "ethers";
+import { ROLES } from "./constants";
+import { revertDataOf } from "./utils";
+
+export type ContractName = "AIXCBStaking" | "AIXCBLPStaking";
+export type ContractVersion = "v1" | "v2";
+
+/**
+ * Where a revert is declared: by the staking contract itself, by an inherited
+ * OpenZeppelin base, by a token it called into, or by the compiler (panics)
+ */
+export type RevertOrigin = "contract" | "openzeppelin" | "token" | "compiler";
+
+interface RevertSource {
+    contract: ContractName;
+    versions: ContractVersion[];
+}
+
+interface RevertDefinition {
+    code: string;
+    message: string;
+    origin: RevertOrigin;
+    /** Custom error signature, e.g. `StakeLocked()` */
+    signature?: string;
+    /** `require` reason string */
+    reason?: string;
+    sources: RevertSource[];
+}
+
+const BOTH_VERSIONS: ContractVersion[] = ["v1", "v2"];
+const STAKING: RevertSource[] = [{ contract: "AIXCBStaking", versions: BOTH_VERSIONS }];
+const STAKING_V1: RevertSource[] = [{ contract: "AIXCBStaking", versions: ["v1"] }];
+const STAKING_V2: RevertSource[] = [{ contract: "AIXCBStaking", versions: ["v2"] }];
+const LP_STAKING: RevertSource[] = [{ contract: "AIXCBLPStaking", versions: BOTH_VERSIONS }];
+const LP_STAKING_V2: RevertSource[] = [{ contract: "AIXCBLPStaking", versions: ["v2"] }];
+const ALL: RevertSource[] = [...STAKING, ...LP_STAKING];
+
+const DEFINITIONS = [
+    // AIXCBStaking custom errors
+    { code: "DEADLINE_EXPIRED", signature: "DeadlineExpired()", origin: "contract", sources: STAKING, message: "The stake deadline has passed" },
+    { code: "INVALID_PERIOD", signature: "InvalidPeriod()", origin: "contract", sources: STAKING, message: "The staking period index is out of range" },
+    { code: "STAKE_EXISTS", signature: "StakeExists()", origin: "contract", sources: STAKING, message: "A stake already exists for this period" },
+    { code: "STAKE_EXPIRED", signature: "StakeExpired()", origin: "contract", sources: STAKING, message: "The existing stake in this period has expired and cannot be topped up" },
+    { code: "NOT_VIP", signature: "NotVIP()", origin: "contract", sources: STAKING, message: "The account does not have VIP status" },
+    { code: "STAKE_LOCKED", signature: "StakeLocked()", origin: "contract", sources: STAKING, message: "The stake is still locked" },
+    { code: "STAKE_NOT_FOUND", signature: "StakeNotFound()", origin: "contract", sources: STAKING, message: "No stake exists for this period" },
+    { code: "UNAUTHORIZED", signature: "Unauthorized()", origin: "contract", sources: STAKING, message: "The caller is not authorized" },
+    { code: "NOT_IN_EMERGENCY_MODE", signature: "NotInEmergencyMode()", origin: "contract", sources: STAKING, message: "The action is disabled while emergency mode is active" },
+    { code: "CANNOT_RECOVER_STAKING_TOKEN", signature: "CannotRecoverStakingToken()", origin: "contract", sources: STAKING, message: "The staking token cannot be recovered" },
+    { code: "INVALID_UPGRADE_PATH", signature: "InvalidUpgradePath()", origin: "contract", sources: STAKING_V2, message: "The stake cannot be moved to this period" },
+
+    // AIXCBLPStaking custom errors
+    { code: "INSUFFICIENT_REWARDS", signature: "InsufficientRewards()", origin: "contract", sources: LP_STAKING, message: "The reward pool has insufficient rewards" },
+    { code: "NO_STAKE_FOUND", signature: "NoStakeFound()", origin: "contract", sources: LP_STAKING, message: "The account has no LP stake" },
+    { code: "EXCEEDS_MAX_STAKE", signature: "ExceedsMaxStake()", origin: "contract", sources: LP_STAKING, message: "The stake would exceed MAX_STAKE_AMOUNT" },
+    { code: "INVALID_AMOUNT", signature: "InvalidAmount()", origin: "contract", sources: LP_STAKING, message: "The amount exceeds the staked balance" },
+    { code: "TRANSFER_FAILED", signature: "TransferFailed()", origin: "contract", sources: LP_STAKING, message: "The token transfer failed" },
+    { code: "EMERGENCY_MODE_ACTIVE", signature: "EmergencyModeActive()", origin: "contract", sources: LP_STAKING, message: "The action is disabled while emergency mode is active" },
+    { code: "NOT_EMERGENCY_MODE", signature: "NotEmergencyMode()", origin: "contract", sources: LP_STAKING, message: "The action is only available in emergency mode" },
+    { code: "INVALID_TOKEN", signature: "InvalidToken()", origin: "contract", sources: LP_STAKING, message: "The token is not a reward token" },
+    { code: "CANNOT_RECOVER_LP_TOKEN", signature: "CannotRecoverLPToken()", origin: "contract", sources: LP_STAKING, message: "The LP token cannot be recovered" },
+    { code: "INVALID_DECIMALS", signature: "InvalidDecimals()", origin: "contract", sources: LP_STAKING_V2, message: "Reward tokens must have 18 decimals" },
+
+    // Declared by both contracts
+    { code: "ZERO_AMOUNT", signature: "ZeroAmount()", origin: "contract", sources: ALL, message: "The amount must be greater than zero" },
+    { code: "CIRCUIT_BREAKER_ACTIVE", signature: "CircuitBreakerActive()", origin: "contract", sources: ALL, message: "A circuit breaker is blocking this action" },
+    { code: "CANNOT_RECOVER_REWARD_TOKEN", signature: "CannotRecoverRewardToken()", origin: "contract", sources: ALL, message: "Active reward tokens cannot be recovered" },
+    { code: "TOKEN_NOT_REWARD_TOKEN", signature: "TokenNotRewardToken()", origin: "contract", sources: ALL, message: "The token is not a reward token" },
+    { code: "HAS_PENDING_REWARDS", signature: "HasPendingRewards()", origin: "contract", sources: ALL, message: "The reward token still has undistributed rewards" },
+
+    // AIXCBStaking require strings
+    { code: "INVALID_STAKING_TOKEN_ADDRESS", reason: "Invalid staking token address", origin: "contract", sources: STAKING, message: "The staking token address is zero" },
+    { code: "INVALID_TOKEN_DECIMALS", reason: "Invalid token decimals", origin: "contract", sources: STAKING_V2, message: "Reward tokens must have 18 decimals" },
+    { code: "EMERGENCY_MODE_REQUIRED", reason: "Not in emergency mode", origin: "contract", sources: STAKING, message: "The action is only available in emergency mode" },
+    { code: "INVALID_RECIPIENT", reason: "Invalid recipient", origin: "contract", sources: STAKING, message: "The recipient address is zero" },
+    { code: "REWARD_POOLS_NOT_FUNDED", reason: "Reward pools not funded", origin: "contract", sources: STAKING, message: "Every period and reward token pool must be funded before staking starts" },
+    { code: "INVALID_PERIOD_INDEX", reason: "Invalid period index", origin: "contract", sources: STAKING, message: "The staking period index is out of range" },
+    { code: "TOKEN_NOT_ACCEPTED", reason: "Token not accepted as reward", origin: "contract", sources: STAKING, message: "The token is not a reward token" },
+    { code: "UPGRADE_REQUIRES_LONGER_LOCK", reason: "Can only upgrade to longer lock", origin: "contract", sources: STAKING_V2, message: "A stake can only be upgraded to a longer lock period" },
+    { code: "AMOUNT_NOT_POSITIVE", reason: "Amount must be greater than zero", origin: "contract", sources: STAKING_V1, message: "The amount must be greater than zero" },
+    { code: "AMOUNT_NOT_POSITIVE", reason: "Amount must be greater than 0", origin: "contract", sources: STAKING_V1, message: "The amount must be greater than zero" },
+    { code: "INSUFFICIENT_REWARD_BALANCE", reason: "Insufficient reward balance", origin: "contract", sources: STAKING_V1, message: "The contract holds too few reward tokens to pay the claim" },
+    { code: "NOT_A_REWARD_TOKEN", reason: "Not a reward token", origin: "contract", sources: STAKING_V1, message: "The token is not a reward token" },
+
+    // AIXCBLPStaking require strings
+    { code: "INVALID_LP_TOKEN_ADDRESS", reason: "Invalid LP token address", origin: "contract", sources: LP_STAKING, message: "The LP token address is zero" },
+    { code: "NO_REWARD_TOKENS", reason: "No reward tokens", origin: "contract", sources: LP_STAKING, message: "At least one reward token is required" },
+    { code: "TOKEN_ALREADY_ADDED", reason: "Token already added", origin: "contract", sources: LP_STAKING, message: "The token is already a reward token" },
+
+    // Shared require strings
+    { code: "INVALID_TREASURY_ADDRESS", reason: "Invalid treasury address", origin: "contract", sources: ALL, message: "The treasury address is zero" },
+    { code: "INVALID_TOKEN_ADDRESS", reason: "Invalid token address", origin: "contract", sources: ALL, message: "The token address is zero" },
+
+    // Inherited OpenZeppelin errors
+    { code: "PAUSED", signature: "EnforcedPause()", origin: "openzeppelin", sources: ALL, message: "The contract is paused" },
+    { code: "NOT_PAUSED", signature: "ExpectedPause()", origin: "openzeppelin", sources: ALL, message: "The contract is not paused" },
+    { code: "MISSING_ROLE", signature: "AccessControlUnauthorizedAccount(address,bytes32)", origin: "openzeppelin", sources: ALL, message: "The caller is missing the required role" },
+    { code: "BAD_ROLE_CONFIRMATION", signature: "AccessControlBadConfirmation()", origin: "openzeppelin", sources: ALL, message: "Roles can only be renounced by their holder" },
+    { code: "REENTRANT_CALL", signature: "ReentrancyGuardReentrantCall()", origin: "openzeppelin", sources: ALL, message: "Reentrant call" },
+    { code: "INVALID_INITIALIZATION", signature: "InvalidInitialization()", origin: "openzeppelin", sources: ALL, message: "The contract is already initialized" },
+    { code: "NOT_INITIALIZING", signature: "NotInitializing()", origin: "openzeppelin", sources: ALL, message: "The function can only be called during initialization" },
+    { code: "UUPS_UNAUTHORIZED_CALL_CONTEXT", signature: "UUPSUnauthorizedCallContext()", origin: "openzeppelin", sources: ALL, message: "Upgrades must be called through the proxy" },
+    { code: "UUPS_UNSUPPORTED_PROXIABLE_UUID", signature: "UUPSUnsupportedProxiableUUID(bytes32)", origin: "openzeppelin", sources: ALL, message: "The new implementation is not UUPS compatible" },
+    { code: "INVALID_IMPLEMENTATION", signature: "ERC1967InvalidImplementation(address)", origin: "openzeppelin", sources: ALL, message: "The new implementation has no code" },
+    { code: "NON_PAYABLE_UPGRADE", signature: "ERC1967NonPayable()", origin: "openzeppelin", sources: ALL, message: "The upgrade call must not send ETH" },
+    { code: "SAFE_ERC20_FAILED", signature: "SafeERC20FailedOperation(address)", origin: "openzeppelin", sources: ALL, message: "A token transfer failed" },
+    { code: "ADDRESS_EMPTY_CODE", signature: "AddressEmptyCode(address)", origin: "openzeppelin", sources: ALL, message: "The target address has no code" },
+    { code: "ADDRESS_INSUFFICIENT_BALANCE", signature: "AddressInsufficientBalance(address)", origin: "openzeppelin", sources: ALL, message: "The contract holds too little ETH for the call" },
+    { code: "FAILED_INNER_CALL", signature: "FailedInnerCall()", origin: "openzeppelin", sources: ALL, message: "A low-level call failed" },
+
+    // ERC20 errors bubbled up from token transfers
+    { code: "INSUFFICIENT_BALANCE", signature: "ERC20InsufficientBalance(address,uint256,uint256)", origin: "token", sources: ALL, message: "The token balance is too low" },
+    { code: "INSUFFICIENT_ALLOWANCE", signature: "ERC20InsufficientAllowance(address,uint256,uint256)", origin: "token", sources: ALL, message: "The token allowance is too low" },
+] as const satisfies readonly RevertDefinition[];
+
+type DefinedCode = (typeof DEFINITIONS)[number]["code"];
+export type RevertCode = DefinedCode | "PANIC" | "EMPTY_REVERT" | "UNKNOWN_REASON" | "UNKNOWN_ERROR";
+
+/** Contextual data attached to specific revert codes */
+export interface RevertDataMap {
+    DEADLINE_EXPIRED: { deadline?: number; blockTimestamp?: number };
+    STAKE_LOCKED: { periodIndex?: number; endTime?: number; secondsRemaining?: number };
+    STAKE_EXPIRED: { periodIndex?: number; endTime?: number };
+    STAKE_NOT_FOUND: { periodIndex?: number };
+    EXCEEDS_MAX_STAKE: { maxStake?: bigint; stakedAmount?: bigint; amount?: bigint };
+    INVALID_AMOUNT: { stakedAmount?: bigint; amount?: bigint };
+    CIRCUIT_BREAKER_ACTIVE: { circuit?: string };
+    INVALID_DECIMALS: { token?: string; decimals?: number };
+    INVALID_TOKEN_DECIMALS: { token?: string; decimals?: number };
+    MISSING_ROLE: { account: string; neededRole: string; roleName?: string };
+    UUPS_UNSUPPORTED_PROXIABLE_UUID: { slot: string };
+    INVALID_IMPLEMENTATION: { implementation: string };
+    SAFE_ERC20_FAILED: { token: string };
+    ADDRESS_EMPTY_CODE: { target: string };
+    ADDRESS_INSUFFICIENT_BALANCE: { account: string };
+    INSUFFICIENT_BALANCE: { sender: string; balance: bigint; needed: bigint };
+    INSUFFICIENT_ALLOWANCE: { spender: string; allowance: bigint; needed: bigint };
+    PANIC: { panicCode: bigint; description: string };
+    UNKNOWN_REASON: { reason: string };
+    UNKNOWN_ERROR: { selector: string; raw: string };
+}
+
+type DataFor<C extends RevertCode> = C extends keyof RevertDataMap ? RevertDataMap[C] : Record<string, never>;
+
+/** A decoded revert; discriminate on `code` to access the typed `data` */
+export type DecodedRevert = {
+    [C in RevertCode]: {
+        code: C;
+        /** Solidity error name or require reason */
+        name: string;
+        message: string;
+        origin: RevertOrigin;
+        /** Contract that produced the revert */
+        contract: ContractName;
+        /** Implementation versions of `contract` that can produce this revert */
+        versions: ContractVersion[];
+        data: DataFor<C>;
+        raw: string;
+    };
+}[RevertCode];
+
+/** Caller-supplied state used to enrich decoded reverts */
+export interface RevertContext {
+    periodIndex?: number;
+    stake?: { endTime: number | bigint };
+    deadline?: number | bigint;
+    blockTimestamp?: number;
+    amount?: bigint;
+    stakedAmount?: bigint;
+    maxStake?: bigint;
+    circuit?: string;
+    token?: string;
+    decimals?: number;
+}
+
+export class ContractRevertError extends Error {
+    readonly revert: DecodedRevert;
+    readonly cause: unknown;
+
+    constructor(revert: DecodedRevert, cause?: unknown) {
+        super(`${revert.contract}: ${revert.message} (${revert.code})`);
+        this.name = "ContractRevertError";
+        this.revert = revert;
+        this.cause = cause;
+    }
+}
+
+const ERROR_STRING_SELECTOR = "0x08c379a0";
+const PANIC_SELECTOR = "0x4e487b71";
+
+const PANIC_DESCRIPTIONS: Record<number, string> = {
+    0x01: "Assertion failed",
+    0x11: "Arithmetic overflow or underflow",
+    0x12: "Division by zero",
+    0x21: "Invalid enum value",
+    0x22: "Invalid storage byte array",
+    0x31: "pop() on an empty array",
+    0x32: "Array index out of bounds",
+    0x41: "Out of memory",
+    0x51: "Call to an uninitialized function",
+};
+
+const ROLE_NAMES = new Map<string, string>(Object.entries(ROLES).map(([name, role]) => [role, name]));
+
+const definitions: readonly RevertDefinition[] = DEFINITIONS;
+const customErrors = new Interface(
+    [...new Set(definitions.filter((d) => d.signature).map((d) => `error ${d.signature}`))]
+);
+
+function versionsFor(definition: RevertDefinition, contract: ContractName): ContractVersion[] | undefined {
+    return definition.sources.find((source) => source.contract === contract)?.versions;
+}
+
+function findDefinition(contract: ContractName, match: (d: RevertDefinition) => boolean): RevertDefinition | undefined {
+    return definitions.find((d) => match(d) && versionsFor(d, contract) !== undefined);
+}
+
+function toNumber(value: number | bigint | undefined): number | undefined {
+    return value === undefined ? undefined : Number(value);
+}
+
+function contextData(code: RevertCode, args: ErrorDescription["args"] | undefined, context: RevertContext): object {
+    switch (code) {
+        case "DEADLINE_EXPIRED":
+            return { deadline: toNumber(context.deadline), blockTimestamp: context.blockTimestamp };
+        case "STAKE_LOCKED": {
+            const endTime = toNumber(context.stake?.endTime);
+            const secondsRemaining = endTime !== undefined && context.blockTimestamp !== undefined
+                ? Math.max(endTime - context.blockTimestamp, 0)
+                : undefined;
+            return { periodIndex: context.periodIndex, endTime, secondsRemaining };
+        }
+        case "STAKE_EXPIRED":
+            return { periodIndex: context.periodIndex, endTime: toNumber(context.stake?.endTime) };
+        case "STAKE_NOT_FOUND":
+            return { periodIndex: context.periodIndex };
+        case "EXCEEDS_MAX_STAKE":
+            return { maxStake: context.maxStake, stakedAmount: context.stakedAmount, amount: context.amount };
+        case "INVALID_AMOUNT":
+            return { stakedAmount: context.stakedAmount, amount: context.amount };
+        case "CIRCUIT_BREAKER_ACTIVE":
+            return { circuit: context.circuit };
+        case "INVALID_DECIMALS":
+        case "INVALID_TOKEN_DECIMALS":
+            return { token: context.token, decimals: context.decimals };
+        case "MISSING_ROLE":
+            return { account: args![0], neededRole: args![1], roleName: ROLE_NAMES.get(args![1]) };
+        case "UUPS_UNSUPPORTED_PROXIABLE_UUID":
+            return { slot: args![0] };
+        case "INVALID_IMPLEMENTATION":
+            return { implementation: args![0] };
+        case "SAFE_ERC20_FAILED":
+            return { token: args![0] };
+        case "ADDRESS_EMPTY_CODE":
+            return { target: args![0] };
+        case "ADDRESS_INSUFFICIENT_BALANCE":
+            return { account: args![0] };
+        case "INSUFFICIENT_BALANCE":
+            return { sender: args![0], balance: args![1], needed: args![2] };
+        case "INSUFFICIENT_ALLOWANCE":
+            return { spender: args![0], allowance: args![1], needed: args![2] };
+        default:
+            return {};
+    }
+}
+
+function contextMessage(revert: DecodedRevert): string {
+    switch (revert.code) {
+        case "STAKE_LOCKED":
+            return revert.data.endTime !== undefined
+                ? `${revert.message} until ${new Date(revert.data.endTime * 1000).toISOString()}`
+                : revert.message;
+        case "STAKE_EXPIRED":
+            return revert.data.endTime !== undefined
+                ? `${revert.message} (ended ${new Date(revert.data.endTime * 1000).toISOString()})`
+                : revert.message;
+        case "EXCEEDS_MAX_STAKE":
+            return revert.data.maxStake !== undefined
+                ? `${revert.message} (${revert.data.maxStake})`
+                : revert.message;
+        case "MISSING_ROLE":
+            return `${revert.message}: ${revert.data.account} lacks ${revert.data.roleName ?? revert.data.neededRole}`;
+        default:
+            return revert.message;
+    }
+}
+
+function build(
+    code: RevertCode,
+    name: string,
+    message: string,
+    origin: RevertOrigin,
+    contract: ContractName,
+    versions: ContractVersion[],
+    data: object,
+    raw: string
+): DecodedRevert {
+    const revert = { code, name, message, origin, contract, versions, data, raw } as DecodedRevert;
+    revert.message = contextMessage(revert);
+    return revert;
+}
+
+/**
+ * Decodes revert data (or an error carrying it) produced by `contract` into a
+ * `DecodedRevert`. Returns `undefined` when the input carries no revert data.
+ */
+export function decodeRevert(
+    errorOrData: unknown,
+    contract: ContractName,
+    context: RevertContext = {}
+): DecodedRevert | undefined {
+    const raw = typeof errorOrData === "string" ? errorOrData : revertDataOf(errorOrData);
+    if (raw === undefined) return undefined;
+
+    if (raw === "0x") {
+        return build("EMPTY_REVERT", "", "The call reverted without data", "compiler", contract, BOTH_VERSIONS, {}, raw);
+    }
+
+    const selector = dataSlice(raw, 0, 4);
+
+    if (selector === ERROR_STRING_SELECTOR) {
+        const [reason] = AbiCoder.defaultAbiCoder().decode(["string"], dataSlice(raw, 4));
+        const definition = findDefinition(contract, (d) => d.reason === reason);
+        if (!definition) {
+            return build("UNKNOWN_REASON", reason, reason, "contract", contract, BOTH_VERSIONS, { reason }, raw);
+        }
+        return build(
+            definition.code as RevertCode,
+            reason,
+            definition.message,
+            definition.origin,
+            contract,
+            versionsFor(definition, contract)!,
+            contextData(definition.code as RevertCode, undefined, context),
+            raw
+        );
+    }
+
+    if (selector === PANIC_SELECTOR) {
+        const [panicCode] = AbiCoder.defaultAbiCoder().decode(["uint256"], dataSlice(raw, 4));
+        const description = PANIC_DESCRIPTIONS[Number(panicCode)] ?? "Unknown panic";
+        return build("PANIC", "Panic", description, "compiler", contract, BOTH_VERSIONS, { panicCode, description }, raw);
+    }
+
+    const parsed = customErrors.parseError(raw);
+    const definition = parsed && findDefinition(contract, (d) => d.signature === parsed.signature);
+    if (!parsed || !definition) {
+        return build(
+            "UNKNOWN_ERROR",
+            parsed?.name ?? "",
+            `Unrecognized error ${parsed?.signature ?? selector}`,
+            "contract",
+            contract,
+            BOTH_VERSIONS,
+            { selector, raw },
+            raw
+        );
+    }
+
+    return build(
+        definition.code as RevertCode,
+        parsed.name,
+        definition.message,
+        definition.origin,
+        contract,
+        versionsFor(definition, contract)!,
+        contextData(definition.code as RevertCode, parsed.args, context),
+        raw
+    );
+}
+
+/** Re-throws contract reverts as `ContractRevertError`, leaving other errors untouched */
+export async function withDecodedRevert<T>(
+    action: Promise<T>,
+    contract: ContractName,
+    context: RevertContext = {}
+): Promise<T> {
+    try {
+        return await action;
+    } catch (error) {
+        const revert = decodeRevert(error, contract, context);
+        throw revert ? new ContractRevertError(revert, error) : error;
+    }
+}
+
+/** Lists the contracts (and versions) that declare a given revert code */
+export function revertSources(code: RevertCode): { contract: ContractName; versions: ContractVersion[] }[] {
+    return definitions
+        .filter((d) => d.code === code)
+        .flatMap((d) => d.sources)
+        .map((source) => ({ contract: source.contract, versions: [...source.versions] }));
+}
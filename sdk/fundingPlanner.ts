@@ -0,0 +1,325 @@
+import { ContractRunner, formatUnits, parseUnits } from "ethers";
+import { AIXCBLPStaking__factory, AIXCBStaking__factory, IERC20Metadata__factory } from "../typechain-types";
+import { PERIOD_LABELS, PRECISION, PeriodLabel, SECONDS_PER_YEAR, periodIndexOf } from "./constants";
+import { ContractName } from "./errors";
+import { latestTimestamp } from "./utils";
+import {
+    ActionPlan,
+    PlanAction,
+    PlanContract,
+    PlanError,
+    PlanHeader,
+    expectAddress,
+    expectAmount,
+    expectOneOf,
+    parsePlanDocument,
+    parsePlanHeader,
+} from "./safeBatch";
+
+/**
+ * Sizes `fundRewardPool` amounts for a target reward rate. The two contracts
+ * set the rate differently:
+ *
+ *   AIXCBStaking    a finished pool restarts at `amount / SECONDS_PER_YEAR` for
+ *                   a year; a running one blends `leftover + amount` over the
+ *                   time left until `periodFinish`
+ *   AIXCBLPStaking  `(totalRewardAmount - totalDistributedAmount) / SECONDS_PER_YEAR`,
+ *                   with no finish; rewards stop when the budget runs out
+ *
+ * Targets are a rate, an annual emission or an APR in the unit `getAPR` uses:
+ * reward tokens per 100 staked tokens per year, ignoring prices.
+ *
+ * A target file is an action plan header plus `targets`, and the planner
+ * writes the matching `fund-pool` actions for `safe-batch`:
+ *
+ *   name: April funding
+ *   chainId: 8453
+ *   safe: "0x…"
+ *   contracts: { staking: "0x…", lp: "0x…" }
+ *   fundAt: "2026-11-01T00:00:00Z"
+ *   targets:
+ *     - { contract: staking, period: [90d, 180d, 360d], token: "0x…", apr: "12.5" }
+ *     - { contract: lp, token: "0x…", annualEmission: "500000" }
+ */
+
+const YEAR = BigInt(SECONDS_PER_YEAR);
+
+export type FundingTarget =
+    /** Percent, e.g. `"12.5"`; sized on the current stake unless `totalStaked` is given */
+    | { apr: string; totalStaked?: bigint }
+    | { ratePerSecond: bigint }
+    /** Token units per year */
+    | { annualEmission: string };
+
+export interface PoolTarget {
+    contract: PlanContract;
+    token: string;
+    /** `AIXCBStaking` only */
+    period?: PeriodLabel;
+    target: FundingTarget;
+}
+
+export interface FundingTargets extends PlanHeader {
+    /** Unix time the funding is expected to execute; defaults to the latest block */
+    fundAt?: number;
+    targets: PoolTarget[];
+}
+
+export interface PoolFundingPlan {
+    contract: ContractName;
+    token: string;
+    symbol: string;
+    decimals: number;
+    period?: PeriodLabel;
+    /** Amount to pass to `fundRewardPool`; zero when the pool already pays the target */
+    amount: bigint;
+    fundAt: number;
+    totalStaked: bigint;
+    currentRate: bigint;
+    targetRate: bigint;
+    /** Rate after funding at `fundAt` */
+    resultingRate: bigint;
+    /** `getAPR` after funding, scaled by 1e18 (percent); zero without stake */
+    resultingApr: bigint;
+    /** `periodFinish` for `AIXCBStaking`; for `AIXCBLPStaking`, when the remaining budget runs out at the new rate */
+    finish: number;
+    notes: string[];
+}
+
+/** Current state of an `AIXCBStaking` pool, as returned by `getRewardPoolInfo` */
+export interface StakingPoolState {
+    rewardRate: bigint;
+    periodFinish: bigint;
+}
+
+/** Current state of an `AIXCBLPStaking` pool, as returned by `getRewardPool` */
+export interface LPPoolState {
+    totalReward: bigint;
+    distributed: bigint;
+}
+
+export interface FundingAmount {
+    amount: bigint;
+    resultingRate: bigint;
+    finish: bigint;
+}
+
+function ceilDiv(a: bigint, b: bigint): bigint {
+    return (a + b - 1n) / b;
+}
+
+/** Smallest rate whose `getAPR` is at least `aprPercent` (scaled by 1e18) */
+export function rateForApr(aprPercent: bigint, totalStaked: bigint): bigint {
+    if (totalStaked === 0n) throw new Error("An APR target needs stake; pass totalStaked for an empty pool");
+    return ceilDiv(aprPercent * totalStaked, YEAR * 100n * PRECISION);
+}
+
+/** `AIXCBStaking.getAPR` for a rate and stake */
+export function aprOf(rate: bigint, totalStaked: bigint): bigint {
+    return totalStaked === 0n ? 0n : (rate * YEAR * 100n * PRECISION) / totalStaked;
+}
+
+/**
+ * `AIXCBStaking.fundRewardPool` solved for the amount that reaches `targetRate`
+ * at `fundAt`. Mid-stream the amount shrinks by `targetRate - rewardRate` per
+ * second of delay, so executing later than `fundAt` overshoots slightly and
+ * executing earlier falls short.
+ */
+export function stakingFundingAmount(pool: StakingPoolState, targetRate: bigint, fundAt: bigint): FundingAmount {
+    if (fundAt >= pool.periodFinish) {
+        return { amount: targetRate * YEAR, resultingRate: targetRate, finish: fundAt + YEAR };
+    }
+    const remaining = pool.periodFinish - fundAt;
+    const leftover = remaining * pool.rewardRate;
+    const needed = targetRate * remaining - leftover;
+    const amount = needed > 0n ? needed : 0n;
+    return { amount, resultingRate: amount === 0n ? pool.rewardRate : (leftover + amount) / remaining, finish: pool.periodFinish };
+}
+
+/** `AIXCBLPStaking.fundRewardPool` solved for the amount that sets `targetRate` */
+export function lpFundingAmount(pool: LPPoolState, currentRate: bigint, targetRate: bigint, fundAt: bigint): FundingAmount {
+    const remaining = pool.totalReward - pool.distributed;
+    const needed = targetRate * YEAR - remaining;
+    const amount = needed > 0n ? needed : 0n;
+    const resultingRate = amount === 0n ? currentRate : (remaining + amount) / YEAR;
+    const budget = remaining + amount;
+    return { amount, resultingRate, finish: resultingRate === 0n ? fundAt : fundAt + budget / resultingRate };
+}
+
+export class FundingPlanner {
+    private readonly contracts: PlanHeader["contracts"];
+    private readonly runner: ContractRunner;
+
+    constructor(contracts: PlanHeader["contracts"], runner: ContractRunner) {
+        this.contracts = contracts;
+        this.runner = runner;
+    }
+
+    private address(contract: PlanContract): string {
+        const address = this.contracts[contract];
+        if (address === undefined) throw new Error(`No ${contract} contract address`);
+        return address;
+    }
+
+    private targetRate(target: FundingTarget, decimals: number, totalStaked: bigint): bigint {
+        if ("ratePerSecond" in target) return target.ratePerSecond;
+        if ("annualEmission" in target) return ceilDiv(parseUnits(target.annualEmission, decimals), YEAR);
+        return rateForApr(parseUnits(target.apr, 18), target.totalStaked ?? totalStaked);
+    }
+
+    async planPool(target: PoolTarget, fundAt?: number): Promise<PoolFundingPlan> {
+        const at = fundAt ?? (await latestTimestamp(this.runner));
+        const token = IERC20Metadata__factory.connect(target.token, this.runner);
+        const [symbol, decimals] = await Promise.all([token.symbol(), token.decimals().then(Number)]);
+        const notes: string[] = [];
+        const sizedOn = (staked: bigint) =>
+            "apr" in target.target && target.target.totalStaked !== undefined ? target.target.totalStaked : staked;
+
+        if (target.contract === "staking") {
+            if (target.period === undefined) throw new Error(`AIXCBStaking pools are per lock period; give one of ${PERIOD_LABELS.join(", ")}`);
+            const periodIndex = periodIndexOf(target.period);
+            const staking = AIXCBStaking__factory.connect(this.address("staking"), this.runner);
+            const [info, staked] = await Promise.all([
+                staking.getRewardPoolInfo(periodIndex, target.token),
+                staking.totalStakedForPeriod(periodIndex),
+            ]);
+            const totalStaked = sizedOn(staked);
+            const targetRate = this.targetRate(target.target, decimals, totalStaked);
+            const funding = stakingFundingAmount(info, targetRate, BigInt(at));
+
+            if (BigInt(at) < info.periodFinish) {
+                if (funding.amount === 0n) notes.push("already at or above the target until periodFinish; the rate cannot be lowered mid-stream");
+                else notes.push("mid-stream: blended over the time left; execute at or after fundAt");
+            }
+            return {
+                contract: "AIXCBStaking",
+                token: target.token,
+                symbol,
+                decimals,
+                period: target.period,
+                amount: funding.amount,
+                fundAt: at,
+                totalStaked,
+                currentRate: info.rewardRate,
+                targetRate,
+                resultingRate: funding.resultingRate,
+                resultingApr: aprOf(funding.resultingRate, totalStaked),
+                finish: Number(funding.finish),
+                notes,
+            };
+        }
+
+        if (target.period !== undefined) throw new Error("AIXCBLPStaking has one pool per token; drop the period");
+        const lpStaking = AIXCBLPStaking__factory.connect(this.address("lp"), this.runner);
+        const [pool, staked] = await Promise.all([lpStaking.getRewardPool(target.token), lpStaking.totalStakedAmount()]);
+        const totalStaked = sizedOn(staked);
+        const targetRate = this.targetRate(target.target, decimals, totalStaked);
+        const funding = lpFundingAmount(pool, pool.ratePerSecond, targetRate, BigInt(at));
+
+        if (funding.amount === 0n) notes.push("the remaining budget already pays the target; the rate only changes when the pool is funded");
+        notes.push("finish ignores rewards accrued but not yet claimed");
+        return {
+            contract: "AIXCBLPStaking",
+            token: target.token,
+            symbol,
+            decimals,
+            amount: funding.amount,
+            fundAt: at,
+            totalStaked,
+            currentRate: pool.ratePerSecond,
+            targetRate,
+            resultingRate: funding.resultingRate,
+            resultingApr: aprOf(funding.resultingRate, totalStaked),
+            finish: Number(funding.finish),
+            notes,
+        };
+    }
+
+    /** Plans every target at the same `fundAt`; pools that need nothing keep a zero amount */
+    async plan(targets: PoolTarget[], fundAt?: number): Promise<PoolFundingPlan[]> {
+        const at = fundAt ?? (await latestTimestamp(this.runner));
+        const seen = new Set<string>();
+        const plans: PoolFundingPlan[] = [];
+        for (const target of targets) {
+            const pool = `${target.contract}:${target.period ?? ""}:${target.token.toLowerCase()}`;
+            if (seen.has(pool)) throw new Error(`Two targets for the same pool: ${target.contract} ${target.period ?? ""} ${target.token}`);
+            seen.add(pool);
+            plans.push(await this.planPool(target, at));
+        }
+        return plans;
+    }
+}
+
+function parseTarget(raw: unknown, where: string): PoolTarget[] {
+    if (typeof raw !== "object" || raw === null) throw new PlanError(`${where} must be an object`);
+    const entry = raw as Record<string, unknown>;
+    const contract = expectOneOf(entry.contract, ["staking", "lp"] as const, `${where}.contract`);
+    const token = expectAddress(entry.token, `${where}.token`);
+
+    const kinds = ["apr", "ratePerSecond", "annualEmission"].filter((kind) => entry[kind] !== undefined);
+    if (kinds.length !== 1) throw new PlanError(`${where} needs exactly one of apr, ratePerSecond, annualEmission`);
+    let target: FundingTarget;
+    if (entry.apr !== undefined) {
+        const totalStaked = entry.totalStaked === undefined ? undefined : parseUnits(expectAmount(entry.totalStaked, `${where}.totalStaked`), 18);
+        target = { apr: expectAmount(entry.apr, `${where}.apr`), totalStaked };
+    } else if (entry.ratePerSecond !== undefined) {
+        target = { ratePerSecond: BigInt(expectAmount(entry.ratePerSecond, `${where}.ratePerSecond`)) };
+    } else {
+        target = { annualEmission: expectAmount(entry.annualEmission, `${where}.annualEmission`) };
+    }
+
+    if (contract === "lp") {
+        if (entry.period !== undefined) throw new PlanError(`${where}.period: AIXCBLPStaking has one pool per token`);
+        return [{ contract, token, target }];
+    }
+    const periods = Array.isArray(entry.period) ? entry.period : [entry.period];
+    return periods.map((period, i) => ({
+        contract,
+        token,
+        period: expectOneOf(period, PERIOD_LABELS, `${where}.period${Array.isArray(entry.period) ? `[${i}]` : ""}`),
+        target,
+    }));
+}
+
+/** Parses a YAML or JSON target file; `totalStaked` is in staked token units */
+export function parseFundingTargets(text: string): FundingTargets {
+    const raw = parsePlanDocument(text);
+    const header = parsePlanHeader(raw);
+    if (!Array.isArray(raw.targets) || raw.targets.length === 0) throw new PlanError("targets must list at least one pool");
+
+    let fundAt: number | undefined;
+    if (raw.fundAt !== undefined) {
+        fundAt = typeof raw.fundAt === "number" ? raw.fundAt : Math.floor(Date.parse(String(raw.fundAt)) / 1000);
+        if (!Number.isSafeInteger(fundAt) || fundAt <= 0) throw new PlanError("fundAt must be a Unix time or an ISO date");
+    }
+    return { ...header, fundAt, targets: raw.targets.flatMap((target, i) => parseTarget(target, `targets[${i}]`)) };
+}
+
+/** `fund-pool` actions for `safe-batch`, one per pool with a non-zero amount */
+export function toActionPlan(header: PlanHeader, plans: PoolFundingPlan[]): ActionPlan {
+    const actions: PlanAction[] = plans
+        .filter((plan) => plan.amount > 0n)
+        .map((plan) => {
+            const contract: PlanContract = plan.contract === "AIXCBStaking" ? "staking" : "lp";
+            const amount = formatUnits(plan.amount, plan.decimals);
+            return plan.period === undefined
+                ? { type: "fund-pool", contract, token: plan.token, amount }
+                : { type: "fund-pool", contract, period: plan.period, token: plan.token, amount };
+        });
+    const { name, description, chainId, safe, contracts } = header;
+    return { name, ...(description === undefined ? {} : { description }), chainId, safe, contracts, actions };
+}
+
+export function formatFundingPlan(plans: PoolFundingPlan[]): string {
+    const date = (timestamp: number) => new Date(timestamp * 1000).toISOString();
+    const lines: string[] = [];
+    for (const plan of plans) {
+        const pool = plan.period === undefined ? `${plan.contract} ${plan.symbol}` : `${plan.contract} ${plan.period} ${plan.symbol}`;
+        lines.push(`${pool} (${plan.token})`);
+        lines.push(`  fund ${formatUnits(plan.amount, plan.decimals)} ${plan.symbol} at ${date(plan.fundAt)}`);
+        lines.push(`  rate ${plan.currentRate}/s -> ${plan.resultingRate}/s (target ${plan.targetRate}/s) until ${date(plan.finish)}`);
+        lines.push(`  APR ${formatUnits(plan.resultingApr, 18)}% on ${formatUnits(plan.totalStaked, 18)} staked`);
+        for (const note of plan.notes) lines.push(`  note: ${note}`);
+    }
+    return lines.join("\n");
+}
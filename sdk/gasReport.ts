@@ -0,0 +1,168 @@
+import { ContractName } from "./errors";
+
+/**
+ * Gas benchmark results and regression checks, produced by
+ * `scripts/benchmarkGas.ts`. Each sample is the gas used by one entry point
+ * at one point of the sweep (number of reward tokens, number of stakers in
+ * the period). `getStakersForPeriod` is a view, so its samples are the gas of
+ * an `eth_call`, which RPC nodes cap; `listingLimits` is the largest staker
+ * count that stays under each cap. Points that could not be measured are kept
+ * in `failures`.
+ */
+
+export interface GasSample {
+    contract: ContractName;
+    entryPoint: string;
+    rewardTokens: number;
+    stakers: number;
+    gas: number;
+}
+
+/** A sweep point whose entry point could not be measured */
+export interface GasFailure {
+    contract: ContractName;
+    entryPoint: string;
+    rewardTokens: number;
+    stakers: number;
+    reason: string;
+}
+
+/** `getStakersForPeriod` gas at one staker count; undefined when the call failed at every gas limit tried */
+export interface ListingPoint {
+    stakers: number;
+    gas?: number;
+}
+
+/**
+ * `measured` when the limit lies between two measured staker counts,
+ * `extrapolated` when it lies beyond the largest one, and `not callable` when
+ * even the smallest measured count needs more than the cap
+ */
+export type ListingLimitStatus = "measured" | "extrapolated" | "not callable";
+
+export interface ListingLimit {
+    /** `eth_call` gas cap, e.g. 50M for geth's default `--rpc.gascap` */
+    gasCap: number;
+    /** Largest number of stakers whose `getStakersForPeriod` call fits in `gasCap`; unset when not callable */
+    maxStakers?: number;
+    status: ListingLimitStatus;
+}
+
+export interface GasReport {
+    generatedAt: string;
+    samples: GasSample[];
+    failures: GasFailure[];
+    listingLimits: ListingLimit[];
+}
+
+export interface GasDelta {
+    sample: GasSample;
+    /** Undefined when the baseline has no sample for this entry point and sweep point */
+    baselineGas?: number;
+    /** Change relative to the baseline, in percent */
+    deltaPercent?: number;
+    regressed: boolean;
+}
+
+export interface GasComparison {
+    thresholdPercent: number;
+    deltas: GasDelta[];
+    regressions: GasDelta[];
+    /** Baseline samples that were not measured this time */
+    missing: GasSample[];
+}
+
+/** Identifies an entry point at one point of the sweep */
+export function sampleKey(sample: GasSample): string {
+    return `${sample.contract}.${sample.entryPoint} tokens=${sample.rewardTokens} stakers=${sample.stakers}`;
+}
+
+/** Flags every sample that uses more than `thresholdPercent` above its baseline */
+export function compareGas(baseline: GasReport, current: GasReport, thresholdPercent: number): GasComparison {
+    const previous = new Map(baseline.samples.map((sample) => [sampleKey(sample), sample]));
+    const deltas = current.samples.map((sample): GasDelta => {
+        const baselineSample = previous.get(sampleKey(sample));
+        previous.delete(sampleKey(sample));
+        if (!baselineSample) return { sample, regressed: false };
+        const deltaPercent = ((sample.gas - baselineSample.gas) / baselineSample.gas) * 100;
+        return { sample, baselineGas: baselineSample.gas, deltaPercent, regressed: deltaPercent > thresholdPercent };
+    });
+    return {
+        thresholdPercent,
+        deltas,
+        regressions: deltas.filter((delta) => delta.regressed),
+        missing: [...previous.values()],
+    };
+}
+
+/**
+ * Largest staker count whose listing gas stays within `gasCap`, from
+ * `(stakers, gas)` points of one listing sweep. Between two points, and
+ * beyond the largest one, the cost per staker is interpolated linearly;
+ * listing also pays for memory, which grows quadratically, so an
+ * extrapolated limit is an upper bound. A point whose call failed outright
+ * has no cost to interpolate towards; the limit stays at the point before it.
+ */
+export function listingLimit(points: ListingPoint[], gasCap: number): ListingLimit {
+    const sorted = [...points].sort((a, b) => a.stakers - b.stakers);
+    if (sorted.length === 0) throw new Error("No listing samples");
+    const gasOf = (point: ListingPoint) => point.gas ?? Infinity;
+    const firstOver = sorted.findIndex((point) => gasOf(point) > gasCap);
+    if (firstOver === 0) return { gasCap, status: "not callable" };
+
+    // With a single point, the cost per staker is taken from zero stakers at zero gas
+    const [low, high] =
+        firstOver > 0 ? [sorted[firstOver - 1], sorted[firstOver]] : sorted.length > 1 ? sorted.slice(-2) : [{ stakers: 0, gas: 0 }, sorted[0]];
+    const perStaker = (gasOf(high) - gasOf(low)) / (high.stakers - low.stakers);
+    const maxStakers = perStaker <= 0 ? Number.MAX_SAFE_INTEGER : Math.floor(low.stakers + (gasCap - gasOf(low)) / perStaker);
+    return { gasCap, maxStakers, status: firstOver > 0 ? "measured" : "extrapolated" };
+}
+
+export function formatGasJson(report: GasReport): string {
+    return JSON.stringify(report, null, 2);
+}
+
+function formatDelta(delta: GasDelta): string {
+    if (delta.deltaPercent === undefined) return "new";
+    const sign = delta.deltaPercent > 0 ? "+" : "";
+    return `${sign}${delta.deltaPercent.toFixed(2)}%${delta.regressed ? " REGRESSED" : ""}`;
+}
+
+/** One table per contract; with a comparison, adds baseline and delta columns */
+export function formatGasMarkdown(report: GasReport, comparison?: GasComparison): string {
+    const lines = ["# Gas benchmark", "", `Generated ${report.generatedAt}`];
+    if (comparison) {
+        lines.push(
+            "",
+            `${comparison.regressions.length} regression(s) above ${comparison.thresholdPercent}%` +
+                (comparison.missing.length > 0 ? `, ${comparison.missing.length} baseline sample(s) not measured` : ""),
+        );
+    }
+    const deltas = new Map(comparison?.deltas.map((delta) => [sampleKey(delta.sample), delta]));
+
+    for (const contract of [...new Set(report.samples.map((sample) => sample.contract))]) {
+        lines.push("", `## ${contract}`, "");
+        lines.push(comparison ? "| Entry point | Reward tokens | Stakers | Gas | Baseline | Change |" : "| Entry point | Reward tokens | Stakers | Gas |");
+        lines.push(comparison ? "|-------------|---------------|---------|-----|----------|--------|" : "|-------------|---------------|---------|-----|");
+        for (const sample of report.samples.filter((candidate) => candidate.contract === contract)) {
+            const row = `| ${sample.entryPoint} | ${sample.rewardTokens} | ${sample.stakers} | ${sample.gas} |`;
+            const delta = deltas.get(sampleKey(sample));
+            lines.push(delta ? `${row} ${delta.baselineGas ?? ""} | ${formatDelta(delta)} |` : row);
+        }
+    }
+
+    if (report.listingLimits.length > 0) {
+        lines.push("", "## getStakersForPeriod", "", "| eth_call gas cap | Max stakers | |", "|------------------|-------------|-|");
+        for (const limit of report.listingLimits) {
+            lines.push(`| ${limit.gasCap} | ${limit.maxStakers ?? "-"} | ${limit.status} |`);
+        }
+    }
+
+    if (report.failures.length > 0) {
+        lines.push("", "## Not measured", "", "| Contract | Entry point | Reward tokens | Stakers | Reason |", "|----------|-------------|---------------|---------|--------|");
+        for (const failure of report.failures) {
+            lines.push(`| ${failure.contract} | ${failure.entryPoint} | ${failure.rewardTokens} | ${failure.stakers} | ${failure.reason} |`);
+        }
+    }
+    return lines.join("\n") + "\n";
+}
@@ -0,0 +1,807 @@
+import Database from "better-sqlite3";
+import { Block, Interface, Log, LogDescription, Provider, getAddress } from "ethers";
+import { AIXCBLPStaking__factory, AIXCBStaking__factory } from "../typechain-types";
+import { ContractName } from "./errors";
+import { logBatches } from "./utils";
+
+/**
+ * Event indexer for `AIXCBStaking` and `AIXCBLPStaking` backed by SQLite.
+ *
+ * Raw logs are stored in `events`; positions, claims, pool history, reward
+ * tokens and circuit breaker history are derived from them. Each contract has
+ * its own checkpoint and a window of recent block hashes, so a sync resumes
+ * where the last one stopped and rolls back any blocks that were reorganised
+ * away before indexing forward again.
+ */
+
+export interface IndexedContract {
+    address: string;
+    contract: ContractName;
+    /** First block to index, usually the proxy deployment block */
+    fromBlock?: number;
+}
+
+export interface IndexerOptions {
+    /** Blocks to stay behind the head */
+    confirmations?: number;
+    /** Maximum block range per `eth_getLogs` request */
+    batchSize?: number;
+    /** Number of recent block hashes kept per contract to find a common ancestor after a reorg */
+    reorgDepth?: number;
+}
+
+export interface SyncResult {
+    contract: string;
+    fromBlock: number;
+    toBlock: number;
+    events: number;
+    /** Block the contract was rolled back to, when a reorg was detected */
+    rolledBackTo?: number;
+}
+
+export interface Checkpoint {
+    contract: string;
+    blockNumber: number;
+    blockHash: string;
+}
+
+export type PositionStatus = "active" | "withdrawn" | "upgraded" | "emergency";
+
+export interface StakePositionRow {
+    contract: string;
+    user: string;
+    periodIndex: number;
+    amount: bigint;
+    startTime: number;
+    endTime: number;
+    status: PositionStatus;
+    updatedBlock: number;
+}
+
+export interface LPPositionRow {
+    contract: string;
+    user: string;
+    amount: bigint;
+    initialStakeTime: number;
+    status: PositionStatus;
+    updatedBlock: number;
+}
+
+export interface ClaimRow {
+    contract: string;
+    blockNumber: number;
+    logIndex: number;
+    txHash: string;
+    user: string;
+    token: string;
+    /** `null` for `AIXCBLPStaking`, which has no lock periods */
+    periodIndex: number | null;
+    amount: bigint;
+    timestamp: number;
+}
+
+export interface PoolHistoryRow {
+    contract: string;
+    blockNumber: number;
+    logIndex: number;
+    token: string;
+    accumulatedPerShare: bigint;
+    totalDistributed: bigint;
+    timestamp: number;
+}
+
+const INDEXED_EVENTS = {
+    AIXCBStaking: [
+        "Staked",
+        "Withdrawn",
+        "RewardPaid",
+        "StakeUpgraded",
+        "EmergencyWithdraw",
+        "RewardTokenAdded",
+        "RewardTokenRemoved",
+        "CircuitBreakerToggled",
+    ] as const,
+    AIXCBLPStaking: [
+        "StakeDeposited",
+        "StakeWithdrawn",
+        "RewardsClaimed",
+        "RewardPoolUpdated",
+        "EmergencyWithdraw",
+        "RewardTokenAdded",
+        "RewardTokenRemoved",
+        "CircuitBreakerToggled",
+    ] as const,
+};
+
+const STAKING_INTERFACE = AIXCBStaking__factory.createInterface();
+const LP_STAKING_INTERFACE = AIXCBLPStaking__factory.createInterface();
+
+const INTERFACES: Record<ContractName, Interface> = {
+    AIXCBStaking: STAKING_INTERFACE,
+    AIXCBLPStaking: LP_STAKING_INTERFACE,
+};
+
+const INDEXED_TOPICS: Record<ContractName, string[]> = {
+    AIXCBStaking: INDEXED_EVENTS.AIXCBStaking.map((name) => STAKING_INTERFACE.getEvent(name).topicHash),
+    AIXCBLPStaking: INDEXED_EVENTS.AIXCBLPStaking.map((name) => LP_STAKING_INTERFACE.getEvent(name).topicHash),
+};
+
+const SCHEMA_VERSION = 1;
+
+const SCHEMA = `
+CREATE TABLE IF NOT EXISTS checkpoints (
+    contract TEXT PRIMARY KEY,
+    kind TEXT NOT NULL,
+    block_number INTEGER NOT NULL,
+    block_hash TEXT NOT NULL
+);
+CREATE TABLE IF NOT EXISTS blocks (
+    contract TEXT NOT NULL,
+    number INTEGER NOT NULL,
+    hash TEXT NOT NULL,
+    PRIMARY KEY (contract, number)
+);
+CREATE TABLE IF NOT EXISTS events (
+    contract TEXT NOT NULL,
+    block_number INTEGER NOT NULL,
+    log_index INTEGER NOT NULL,
+    block_hash TEXT NOT NULL,
+    tx_hash TEXT NOT NULL,
+    name TEXT NOT NULL,
+    args TEXT NOT NULL,
+    timestamp INTEGER NOT NULL,
+    PRIMARY KEY (contract, block_number, log_index)
+);
+CREATE TABLE IF NOT EXISTS stake_positions (
+    contract TEXT NOT NULL,
+    user TEXT NOT NULL,
+    period_index INTEGER NOT NULL,
+    amount TEXT NOT NULL,
+    start_time INTEGER NOT NULL,
+    end_time INTEGER NOT NULL,
+    status TEXT NOT NULL,
+    updated_block INTEGER NOT NULL,
+    PRIMARY KEY (contract, user, period_index)
+);
+CREATE TABLE IF NOT EXISTS lp_positions (
+    contract TEXT NOT NULL,
+    user TEXT NOT NULL,
+    amount TEXT NOT NULL,
+    initial_stake_time INTEGER NOT NULL,
+    status TEXT NOT NULL,
+    updated_block INTEGER NOT NULL,
+    PRIMARY KEY (contract, user)
+);
+CREATE TABLE IF NOT EXISTS claims (
+    contract TEXT NOT NULL,
+    block_number INTEGER NOT NULL,
+    log_index INTEGER NOT NULL,
+    tx_hash TEXT NOT NULL,
+    user TEXT NOT NULL,
+    token TEXT NOT NULL,
+    period_index INTEGER,
+    amount TEXT NOT NULL,
+    timestamp INTEGER NOT NULL,
+    PRIMARY KEY (contract, block_number, log_index)
+);
+CREATE INDEX IF NOT EXISTS claims_by_user ON claims (contract, user);
+CREATE TABLE IF NOT EXISTS pool_history (
+    contract TEXT NOT NULL,
+    block_number INTEGER NOT NULL,
+    log_index INTEGER NOT NULL,
+    token TEXT NOT NULL,
+    accumulated_per_share TEXT NOT NULL,
+    total_distributed TEXT NOT NULL,
+    timestamp INTEGER NOT NULL,
+    PRIMARY KEY (contract, block_number, log_index)
+);
+CREATE TABLE IF NOT EXISTS reward_tokens (
+    contract TEXT NOT NULL,
+    token TEXT NOT NULL,
+    active INTEGER NOT NULL,
+    added_block INTEGER NOT NULL,
+    removed_block INTEGER,
+    PRIMARY KEY (contract, token)
+);
+CREATE TABLE IF NOT EXISTS circuit_breakers (
+    contract TEXT NOT NULL,
+    block_number INTEGER NOT NULL,
+    log_index INTEGER NOT NULL,
+    circuit TEXT NOT NULL,
+    active INTEGER NOT NULL,
+    timestamp INTEGER NOT NULL,
+    PRIMARY KEY (contract, block_number, log_index)
+);
+`;
+
+const DERIVED_TABLES = ["stake_positions", "lp_positions", "claims", "pool_history", "reward_tokens", "circuit_breakers"];
+
+/** Opens (or creates) an indexer database and applies the schema */
+export function openIndexerDatabase(filename: string): Database.Database {
+    const db = new Database(filename);
+    db.pragma("journal_mode = WAL");
+    const version = db.pragma("user_version", { simple: true }) as number;
+    if (version > SCHEMA_VERSION) {
+        throw new Error(`Indexer database ${filename} has schema version ${version}, expected ${SCHEMA_VERSION}`);
+    }
+    db.exec(SCHEMA);
+    db.pragma(`user_version = ${SCHEMA_VERSION}`);
+    return db;
+}
+
+interface StoredEvent {
+    contract: string;
+    blockNumber: number;
+    logIndex: number;
+    blockHash: string;
+    txHash: string;
+    name: string;
+    args: Record<string, string | number | boolean | null>;
+    timestamp: number;
+}
+
+interface EventRow {
+    contract: string;
+    block_number: number;
+    log_index: number;
+    block_hash: string;
+    tx_hash: string;
+    name: string;
+    args: string;
+    timestamp: number;
+}
+
+interface StakePositionTableRow {
+    contract: string;
+    user: string;
+    period_index: number;
+    amount: string;
+    start_time: number;
+    end_time: number;
+    status: PositionStatus;
+    updated_block: number;
+}
+
+interface LPPositionTableRow {
+    contract: string;
+    user: string;
+    amount: string;
+    initial_stake_time: number;
+    status: PositionStatus;
+    updated_block: number;
+}
+
+interface ClaimTableRow {
+    contract: string;
+    block_number: number;
+    log_index: number;
+    tx_hash: string;
+    user: string;
+    token: string;
+    period_index: number | null;
+    amount: string;
+    timestamp: number;
+}
+
+interface PoolHistoryTableRow {
+    contract: string;
+    block_number: number;
+    log_index: number;
+    token: string;
+    accumulated_per_share: string;
+    total_distributed: string;
+    timestamp: number;
+}
+
+function argsOf(event: LogDescription): StoredEvent["args"] {
+    const args: StoredEvent["args"] = {};
+    event.fragment.inputs.forEach((input, i) => {
+        const value = event.args[i];
+        args[input.name] = typeof value === "bigint" ? value.toString() : value;
+    });
+    return args;
+}
+
+export class StakingIndexer {
+    readonly db: Database.Database;
+    private readonly provider: Provider;
+    private readonly contracts: Required<IndexedContract>[];
+    private readonly confirmations: number;
+    private readonly batchSize: number;
+    private readonly reorgDepth: number;
+
+    constructor(db: Database.Database, provider: Provider, contracts: IndexedContract[], options: IndexerOptions = {}) {
+        this.db = db;
+        this.provider = provider;
+        this.contracts = contracts.map((c) => ({ ...c, address: getAddress(c.address), fromBlock: c.fromBlock ?? 0 }));
+        this.confirmations = options.confirmations ?? 0;
+        this.batchSize = options.batchSize ?? 2000;
+        this.reorgDepth = options.reorgDepth ?? 64;
+    }
+
+    /** Indexes every contract up to `head - confirmations` */
+    async sync(): Promise<SyncResult[]> {
+        const head = (await this.provider.getBlockNumber()) - this.confirmations;
+        const results: SyncResult[] = [];
+        for (const contract of this.contracts) {
+            results.push(await this.syncContract(contract, head));
+        }
+        return results;
+    }
+
+    getCheckpoint(address: string): Checkpoint | undefined {
+        const row = this.db
+            .prepare("SELECT contract, block_number, block_hash FROM checkpoints WHERE contract = ?")
+            .get(getAddress(address)) as { contract: string; block_number: number; block_hash: string } | undefined;
+        return row && { contract: row.contract, blockNumber: row.block_number, blockHash: row.block_hash };
+    }
+
+    getStakePositions(address: string, user?: string): StakePositionRow[] {
+        const rows = this.db
+            .prepare(
+                `SELECT * FROM stake_positions WHERE contract = @contract AND (@user IS NULL OR user = @user)
+                 ORDER BY user, period_index`
+            )
+            .all({ contract: getAddress(address), user: user ? getAddress(user) : null }) as StakePositionTableRow[];
+        return rows.map((row) => ({
+            contract: row.contract,
+            user: row.user,
+            periodIndex: row.period_index,
+            amount: BigInt(row.amount),
+            startTime: row.start_time,
+            endTime: row.end_time,
+            status: row.status,
+            updatedBlock: row.updated_block,
+        }));
+    }
+
+    getLPPositions(address: string, user?: string): LPPositionRow[] {
+        const rows = this.db
+            .prepare(`SELECT * FROM lp_positions WHERE contract = @contract AND (@user IS NULL OR user = @user) ORDER BY user`)
+            .all({ contract: getAddress(address), user: user ? getAddress(user) : null }) as LPPositionTableRow[];
+        return rows.map((row) => ({
+            contract: row.contract,
+            user: row.user,
+            amount: BigInt(row.amount),
+            initialStakeTime: row.initial_stake_time,
+            status: row.status,
+            updatedBlock: row.updated_block,
+        }));
+    }
+
+    getClaims(address: string, user?: string): ClaimRow[] {
+        const rows = this.db
+            .prepare(
+                `SELECT * FROM claims WHERE contract = @contract AND (@user IS NULL OR user = @user)
+                 ORDER BY block_number, log_index`
+            )
+            .all({ contract: getAddress(address), user: user ? getAddress(user) : null }) as ClaimTableRow[];
+        return rows.map((row) => ({
+            contract: row.contract,
+            blockNumber: row.block_number,
+            logIndex: row.log_index,
+            txHash: row.tx_hash,
+            user: row.user,
+            token: row.token,
+            periodIndex: row.period_index,
+            amount: BigInt(row.amount),
+            timestamp: row.timestamp,
+        }));
+    }
+
+    getPoolHistory(address: string, token: string): PoolHistoryRow[] {
+        const rows = this.db
+            .prepare("SELECT * FROM pool_history WHERE contract = ? AND token = ? ORDER BY block_number, log_index")
+            .all(getAddress(address), getAddress(token)) as PoolHistoryTableRow[];
+        return rows.map((row) => ({
+            contract: row.contract,
+            blockNumber: row.block_number,
+            logIndex: row.log_index,
+            token: row.token,
+            accumulatedPerShare: BigInt(row.accumulated_per_share),
+            totalDistributed: BigInt(row.total_distributed),
+            timestamp: row.timestamp,
+        }));
+    }
+
+    getRewardTokens(address: string): string[] {
+        const rows = this.db
+            .prepare("SELECT token FROM reward_tokens WHERE contract = ? AND active = 1 ORDER BY added_block, rowid")
+            .all(getAddress(address)) as { token: string }[];
+        return rows.map((row) => row.token);
+    }
+
+    /** Latest state of every circuit seen, keyed by the raw bytes32 id */
+    getCircuitBreakers(address: string): Record<string, boolean> {
+        const rows = this.db
+            .prepare("SELECT circuit, active FROM circuit_breakers WHERE contract = ? ORDER BY block_number, log_index")
+            .all(getAddress(address)) as { circuit: string; active: number }[];
+        return Object.fromEntries(rows.map((row) => [row.circuit, row.active === 1]));
+    }
+
+    private async syncContract(contract: Required<IndexedContract>, head: number): Promise<SyncResult> {
+        let rolledBackTo: number | undefined;
+        let checkpoint = this.getCheckpoint(contract.address);
+
+        if (checkpoint) {
+            const block = await this.provider.getBlock(checkpoint.blockNumber);
+            if (block?.hash !== checkpoint.blockHash) {
+                rolledBackTo = await this.findCommonAncestor(contract);
+                this.rollback(contract, rolledBackTo);
+                checkpoint = this.getCheckpoint(contract.address);
+            }
+        }
+
+        const fromBlock = checkpoint ? checkpoint.blockNumber + 1 : contract.fromBlock;
+        let events = 0;
+        let indexedTo = fromBlock - 1;
+
+        const iface = INTERFACES[contract.contract];
+        const topics = INDEXED_TOPICS[contract.contract];
+
+        const batches = logBatches(this.provider, { address: contract.address, topics: [topics] }, fromBlock, head, this.batchSize);
+        for await (const { toBlock: end, logs } of batches) {
+            const blocks = await this.fetchBlocks([...new Set([...logs.map((log) => log.blockNumber), end])]);
+            // A reorg between getLogs and getBlock leaves mismatching hashes; the next sync rolls it back
+            if (logs.some((log) => blocks.get(log.blockNumber)?.hash !== log.blockHash)) break;
+
+            // Skip logs the interface cannot parse rather than fail on them; the topic filter should leave none
+            const parsed = logs.flatMap((log) => {
+                const event = iface.parseLog({ topics: [...log.topics], data: log.data });
+                return event ? [{ log, event }] : [];
+            });
+            const stored = await Promise.all(
+                parsed.map(({ log, event }) => this.decode(contract, iface, log, event, blocks.get(log.blockNumber)!))
+            );
+            this.commit(contract, stored, blocks, blocks.get(end)!);
+            events += stored.length;
+            indexedTo = end;
+        }
+
+        return { contract: contract.address, fromBlock, toBlock: indexedTo, events, rolledBackTo };
+    }
+
+    private async fetchBlocks(numbers: number[]): Promise<Map<number, Block>> {
+        const blocks = await Promise.all(numbers.map((number) => this.provider.getBlock(number)));
+        const byNumber = new Map<number, Block>();
+        blocks.forEach((block, i) => {
+            if (!block) throw new Error(`Block ${numbers[i]} not found`);
+            byNumber.set(block.number, block);
+        });
+        return byNumber;
+    }
+
+    private async decode(
+        contract: Required<IndexedContract>,
+        iface: Interface,
+        log: Log,
+        event: LogDescription,
+        block: Block
+    ): Promise<StoredEvent> {
+        const args = argsOf(event);
+
+        // The staking contract's EmergencyWithdraw carries no period index
+        if (contract.contract === "AIXCBStaking" && event.name === "EmergencyWithdraw") {
+            args.periodIndex = await this.emergencyWithdrawPeriod(contract, iface, log, args);
+        }
+
+        return {
+            contract: contract.address,
+            blockNumber: log.blockNumber,
+            logIndex: log.index,
+            blockHash: log.blockHash,
+            txHash: log.transactionHash,
+            name: event.name,
+            args,
+            timestamp: block.timestamp,
+        };
+    }
+
+    /**
+     * Reads the period from the calldata when the user called the contract
+     * directly, otherwise falls back to the only active position holding
+     * exactly the withdrawn amount. Returns `null` when neither is conclusive.
+     */
+    private async emergencyWithdrawPeriod(
+        contract: Required<IndexedContract>,
+        iface: Interface,
+        log: Log,
+        args: StoredEvent["args"]
+    ): Promise<number | null> {
+        const tx = await this.provider.getTransaction(log.transactionHash);
+        if (tx?.to && getAddress(tx.to) === contract.address) {
+            const call = iface.parseTransaction({ data: tx.data });
+            if (call?.name === "emergencyWithdraw") return Number(call.args[0]);
+        }
+
+        const candidates = this.db
+            .prepare(
+                "SELECT period_index FROM stake_positions WHERE contract = ? AND user = ? AND status = 'active' AND amount = ?"
+            )
+            .all(contract.address, args.user, args.amount) as { period_index: number }[];
+        return candidates.length === 1 ? candidates[0].period_index : null;
+    }
+
+    private commit(contract: Required<IndexedContract>, events: StoredEvent[], blocks: Map<number, Block>, checkpoint: Block) {
+        const insertEvent = this.db.prepare(
+            `INSERT INTO events (contract, block_number, log_index, block_hash, tx_hash, name, args, timestamp)
+             VALUES (@contract, @blockNumber, @logIndex, @blockHash, @txHash, @name, @args, @timestamp)`
+        );
+        const insertBlock = this.db.prepare("INSERT OR REPLACE INTO blocks (contract, number, hash) VALUES (?, ?, ?)");
+
+        this.db.transaction(() => {
+            for (const event of events) {
+                insertEvent.run({ ...event, args: JSON.stringify(event.args) });
+                this.apply(event);
+            }
+            for (const block of blocks.values()) {
+                insertBlock.run(contract.address, block.number, block.hash);
+            }
+            this.db
+                .prepare(
+                    `INSERT INTO checkpoints (contract, kind, block_number, block_hash) VALUES (?, ?, ?, ?)
+                     ON CONFLICT (contract) DO UPDATE SET block_number = excluded.block_number, block_hash = excluded.block_hash`
+                )
+                .run(contract.address, contract.contract, checkpoint.number, checkpoint.hash);
+            this.db
+                .prepare("DELETE FROM blocks WHERE contract = ? AND number < ?")
+                .run(contract.address, checkpoint.number - this.reorgDepth);
+        })();
+    }
+
+    /** Walks the stored block hashes back until one is still on the canonical chain */
+    private async findCommonAncestor(contract: Required<IndexedContract>): Promise<number> {
+        const stored = this.db
+            .prepare("SELECT number, hash FROM blocks WHERE contract = ? ORDER BY number DESC")
+            .all(contract.address) as { number: number; hash: string }[];
+
+        for (const { number, hash } of stored) {
+            const block = await this.provider.getBlock(number);
+            if (block?.hash === hash) return number;
+        }
+        return contract.fromBlock - 1;
+    }
+
+    /** Drops everything above `blockNumber` and rebuilds the derived tables from the remaining events */
+    private rollback(contract: Required<IndexedContract>, blockNumber: number) {
+        this.db.transaction(() => {
+            this.db.prepare("DELETE FROM events WHERE contract = ? AND block_number > ?").run(contract.address, blockNumber);
+            this.db.prepare("DELETE FROM blocks WHERE contract = ? AND number > ?").run(contract.address, blockNumber);
+            for (const table of DERIVED_TABLES) {
+                this.db.prepare(`DELETE FROM ${table} WHERE contract = ?`).run(contract.address);
+            }
+
+            const ancestor = this.db
+                .prepare("SELECT hash FROM blocks WHERE contract = ? AND number = ?")
+                .get(contract.address, blockNumber) as { hash: string } | undefined;
+            if (ancestor) {
+                this.db
+                    .prepare("UPDATE checkpoints SET block_number = ?, block_hash = ? WHERE contract = ?")
+                    .run(blockNumber, ancestor.hash, contract.address);
+            } else {
+                this.db.prepare("DELETE FROM checkpoints WHERE contract = ?").run(contract.address);
+            }
+
+            const rows = this.db
+                .prepare("SELECT * FROM events WHERE contract = ? ORDER BY block_number, log_index")
+                .all(contract.address) as EventRow[];
+            for (const row of rows) {
+                this.apply({
+                    contract: row.contract,
+                    blockNumber: row.block_number,
+                    logIndex: row.log_index,
+                    blockHash: row.block_hash,
+                    txHash: row.tx_hash,
+                    name: row.name,
+                    args: JSON.parse(row.args),
+                    timestamp: row.timestamp,
+                });
+            }
+        })();
+    }
+
+    /** Folds one event into the derived tables */
+    private apply(event: StoredEvent) {
+        const { contract, blockNumber, logIndex, args } = event;
+        const kind = this.contracts.find((c) => c.address === contract)!.contract;
+
+        switch (kind === "AIXCBStaking" ? `staking:${event.name}` : `lp:${event.name}`) {
+            case "staking:Staked": {
+                const existing = this.stakePosition(contract, args.user as string, Number(args.periodIndex));
+                if (existing?.status === "active") {
+                    this.updateStakePosition(contract, args.user as string, Number(args.periodIndex), {
+                        amount: BigInt(existing.amount) + BigInt(args.amount as string),
+                        blockNumber,
+                    });
+                } else {
+                    this.putStakePosition(contract, args.user as string, Number(args.periodIndex), {
+                        amount: BigInt(args.amount as string),
+                        startTime: Number(args.startTime),
+                        endTime: Number(args.endTime),
+                        blockNumber,
+                    });
+                }
+                break;
+            }
+            case "staking:Withdrawn":
+                this.updateStakePosition(contract, args.user as string, Number(args.periodIndex), {
+                    amount: 0n,
+                    status: "withdrawn",
+                    blockNumber,
+                });
+                break;
+            case "staking:StakeUpgraded": {
+                const user = args.user as string;
+                const to = Number(args.newPeriodIndex);
+                this.updateStakePosition(contract, user, Number(args.oldPeriodIndex), { amount: 0n, status: "upgraded", blockNumber });
+                // Mirrors the contract: an active target keeps its endTime and only grows
+                const target = this.stakePosition(contract, user, to);
+                if (target?.status === "active") {
+                    this.updateStakePosition(contract, user, to, {
+                        amount: BigInt(target.amount) + BigInt(args.amount as string),
+                        blockNumber,
+                    });
+                } else {
+                    this.putStakePosition(contract, user, to, {
+                        amount: BigInt(args.amount as string),
+                        startTime: event.timestamp,
+                        // Emitted as `newEndTime` although the event names the field `timestamp`
+                        endTime: Number(args.timestamp),
+                        blockNumber,
+                    });
+                }
+                break;
+            }
+            case "staking:EmergencyWithdraw":
+                if (args.periodIndex !== null) {
+                    this.updateStakePosition(contract, args.user as string, Number(args.periodIndex), {
+                        amount: 0n,
+                        status: "emergency",
+                        blockNumber,
+                    });
+                }
+                break;
+            case "staking:RewardPaid":
+            case "lp:RewardsClaimed":
+                this.db
+                    .prepare(
+                        `INSERT INTO claims (contract, block_number, log_index, tx_hash, user, token, period_index, amount, timestamp)
+                         VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`
+                    )
+                    .run(
+                        contract,
+                        blockNumber,
+                        logIndex,
+                        event.txHash,
+                        args.user,
+                        args.token,
+                        args.periodIndex === undefined ? null : Number(args.periodIndex),
+                        args.amount,
+                        event.timestamp
+                    );
+                break;
+            case "lp:StakeDeposited":
+                this.adjustLPPosition(contract, args.user as string, BigInt(args.amount as string), event);
+                break;
+            case "lp:StakeWithdrawn":
+                this.adjustLPPosition(contract, args.user as string, -BigInt(args.amount as string), event);
+                break;
+            case "lp:EmergencyWithdraw":
+                this.db
+                    .prepare(
+                        "UPDATE lp_positions SET amount = '0', status = 'emergency', updated_block = ? WHERE contract = ? AND user = ?"
+                    )
+                    .run(blockNumber, contract, args.user);
+                break;
+            case "lp:RewardPoolUpdated":
+                this.db
+                    .prepare(
+                        `INSERT INTO pool_history (contract, block_number, log_index, token, accumulated_per_share, total_distributed, timestamp)
+                         VALUES (?, ?, ?, ?, ?, ?, ?)`
+                    )
+                    .run(
+                        contract,
+                        blockNumber,
+                        logIndex,
+                        args.token,
+                        args.newAccumulatedPerShare,
+                        args.totalDistributed,
+                        event.timestamp
+                    );
+                break;
+            case "staking:RewardTokenAdded":
+            case "lp:RewardTokenAdded":
+                this.db
+                    .prepare(
+                        `INSERT INTO reward_tokens (contract, token, active, added_block, removed_block) VALUES (?, ?, 1, ?, NULL)
+                         ON CONFLICT (contract, token) DO UPDATE SET active = 1, added_block = excluded.added_block, removed_block = NULL`
+                    )
+                    .run(contract, args.token, blockNumber);
+                break;
+            case "staking:RewardTokenRemoved":
+            case "lp:RewardTokenRemoved":
+                this.db
+                    .prepare("UPDATE reward_tokens SET active = 0, removed_block = ? WHERE contract = ? AND token = ?")
+                    .run(blockNumber, contract, args.token);
+                break;
+            case "staking:CircuitBreakerToggled":
+            case "lp:CircuitBreakerToggled":
+                this.db
+                    .prepare(
+                        `INSERT INTO circuit_breakers (contract, block_number, log_index, circuit, active, timestamp)
+                         VALUES (?, ?, ?, ?, ?, ?)`
+                    )
+                    .run(contract, blockNumber, logIndex, args.circuit, (args.active ?? args.status) ? 1 : 0, event.timestamp);
+                break;
+        }
+    }
+
+    /**
+     * `initialStakeTime` survives a full withdrawal but not an emergency
+     * withdrawal, which deletes the stake
+     */
+    private adjustLPPosition(contract: string, user: string, delta: bigint, event: StoredEvent) {
+        const existing = this.db
+            .prepare("SELECT amount, initial_stake_time, status FROM lp_positions WHERE contract = ? AND user = ?")
+            .get(contract, user) as { amount: string; initial_stake_time: number; status: PositionStatus } | undefined;
+
+        const fresh = !existing || existing.status === "emergency";
+        const amount = (fresh ? 0n : BigInt(existing.amount)) + delta;
+        this.db
+            .prepare(
+                `INSERT OR REPLACE INTO lp_positions (contract, user, amount, initial_stake_time, status, updated_block)
+                 VALUES (?, ?, ?, ?, ?, ?)`
+            )
+            .run(
+                contract,
+                user,
+                amount.toString(),
+                fresh ? event.timestamp : existing.initial_stake_time,
+                amount === 0n ? "withdrawn" : "active",
+                event.blockNumber
+            );
+    }
+
+    private stakePosition(contract: string, user: string, periodIndex: number) {
+        return this.db
+            .prepare("SELECT amount, status FROM stake_positions WHERE contract = ? AND user = ? AND period_index = ?")
+            .get(contract, user, periodIndex) as { amount: string; status: PositionStatus } | undefined;
+    }
+
+    private putStakePosition(
+        contract: string,
+        user: string,
+        periodIndex: number,
+        position: { amount: bigint; startTime: number; endTime: number; blockNumber: number }
+    ) {
+        this.db
+            .prepare(
+                `INSERT OR REPLACE INTO stake_positions
+                    (contract, user, period_index, amount, start_time, end_time, status, updated_block)
+                 VALUES (?, ?, ?, ?, ?, ?, 'active', ?)`
+            )
+            .run(
+                contract,
+                user,
+                periodIndex,
+                position.amount.toString(),
+                position.startTime,
+                position.endTime,
+                position.blockNumber
+            );
+    }
+
+    private updateStakePosition(
+        contract: string,
+        user: string,
+        periodIndex: number,
+        update: { amount: bigint; status?: PositionStatus; blockNumber: number }
+    ) {
+        this.db
+            .prepare(
+                `UPDATE stake_positions SET amount = ?, status = COALESCE(?, status), updated_block = ?
+                 WHERE contract = ? AND user = ? AND period_index = ?`
+            )
+            .run(update.amount.toString(), update.status ?? null, update.blockNumber, contract, user, periodIndex);
+    }
+}
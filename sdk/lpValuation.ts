@@ -0,0 +1,207 @@
+import { Contract, ContractRunner, getAddress } from "ethers";
+import { AIXCBLPStaking__factory, IERC20Metadata__factory } from "../typechain-types";
+import { PriceSource, PriceTime, TokenInfo, usdValue } from "./analytics";
+
+/**
+ * Values Aerodrome vAMM LP tokens, such as the vAMM-aixCB/WETH tokens staked
+ * in `AIXCBLPStaking`, from the pool's `getReserves` and `totalSupply`.
+ *
+ * An LP amount is redeemable for `amount * reserve / totalSupply` of each
+ * token, as `Pool.burn` pays out. A volatile pool holds equal value on both
+ * sides at its spot price, so in terms of either token the LP amount is worth
+ * twice that token's share. USD values need a `PriceSource`; with a
+ * `quoteToken`, only that token is priced and the other follows at the spot
+ * ratio. Reserves can be moved within a block, so this is for reporting,
+ * not for anything that settles funds.
+ */
+
+const POOL_ABI = [
+    "function token0() view returns (address)",
+    "function token1() view returns (address)",
+    "function stable() view returns (bool)",
+    "function getReserves() view returns (uint256 reserve0, uint256 reserve1, uint256 blockTimestampLast)",
+];
+
+export interface PoolReserve extends TokenInfo {
+    reserve: bigint;
+}
+
+export interface AerodromePoolState extends TokenInfo {
+    stable: boolean;
+    totalSupply: bigint;
+    /** `token0` and `token1`, in the pool's order */
+    reserves: [PoolReserve, PoolReserve];
+    blockNumber: number;
+    timestamp: number;
+}
+
+export interface UnderlyingAmount extends TokenInfo {
+    /** What burning the LP amount returns of this token */
+    amount: bigint;
+    /** The LP amount valued in this token at the pool's spot price */
+    value: bigint;
+}
+
+export interface LPValue {
+    lpAmount: bigint;
+    underlying: [UnderlyingAmount, UnderlyingAmount];
+    /** Scaled by 1e18; undefined without a price source */
+    usd?: bigint;
+}
+
+export interface LPPositionValue extends LPValue {
+    user: string;
+}
+
+export interface AerodromeLPValuationOptions {
+    prices?: PriceSource;
+    /** The only token priced through `prices`, e.g. WETH when aixCB has no price feed */
+    quoteToken?: string;
+}
+
+/** Splits `lpAmount` into the pool's tokens; `usdPrices` follow the pool's token order */
+export function valueLP(pool: AerodromePoolState, lpAmount: bigint, usdPrices?: [bigint, bigint]): LPValue {
+    if (pool.totalSupply === 0n) throw new Error(`${pool.symbol} has no supply`);
+    const underlying = pool.reserves.map(({ reserve, ...token }) => {
+        const amount = (lpAmount * reserve) / pool.totalSupply;
+        return { ...token, amount, value: 2n * amount };
+    }) as [UnderlyingAmount, UnderlyingAmount];
+    const usd =
+        usdPrices &&
+        usdValue(underlying[0].amount, underlying[0].decimals, usdPrices[0]) + usdValue(underlying[1].amount, underlying[1].decimals, usdPrices[1]);
+    return { lpAmount, underlying, usd };
+}
+
+/** USD price of the other token from the quote token's price and the pool's reserves */
+export function spotUsdPrice(quote: PoolReserve, other: PoolReserve, quotePrice: bigint): bigint {
+    if (other.reserve === 0n) throw new Error(`The pool holds no ${other.symbol}`);
+    return (quotePrice * quote.reserve * 10n ** BigInt(other.decimals)) / (other.reserve * 10n ** BigInt(quote.decimals));
+}
+
+export class AerodromeLPValuation {
+    readonly pool: Contract;
+    private readonly address: string;
+    private readonly runner: ContractRunner;
+    private readonly prices?: PriceSource;
+    private readonly quoteToken?: string;
+
+    constructor(pool: string, runner: ContractRunner, options: AerodromeLPValuationOptions = {}) {
+        this.pool = new Contract(pool, POOL_ABI, runner);
+        this.address = getAddress(pool);
+        this.runner = runner;
+        this.prices = options.prices;
+        this.quoteToken = options.quoteToken === undefined ? undefined : getAddress(options.quoteToken);
+        if (this.quoteToken !== undefined && this.prices === undefined) throw new Error("A quoteToken needs a price source");
+    }
+
+    private async tokenInfo(address: string, blockTag: number): Promise<TokenInfo> {
+        const erc20 = IERC20Metadata__factory.connect(address, this.runner);
+        const [symbol, decimals] = await Promise.all([erc20.symbol({ blockTag }), erc20.decimals({ blockTag })]);
+        return { token: getAddress(address), symbol, decimals: Number(decimals) };
+    }
+
+    async state(blockNumber?: number): Promise<AerodromePoolState> {
+        const block = await this.runner.provider?.getBlock(blockNumber ?? "latest");
+        if (!block) throw new Error(`Unable to fetch block ${blockNumber ?? "latest"}`);
+        const blockTag = block.number;
+        const lp = IERC20Metadata__factory.connect(this.address, this.runner);
+        const [info, totalSupply, token0, token1, stable, reserves] = await Promise.all([
+            this.tokenInfo(this.address, blockTag),
+            lp.totalSupply({ blockTag }),
+            this.pool.token0({ blockTag }),
+            this.pool.token1({ blockTag }),
+            this.pool.stable({ blockTag }),
+            this.pool.getReserves({ blockTag }),
+        ]);
+        // Stable pools price along x³y + y³x = k, where equal value on both sides does not hold
+        if (stable) throw new Error(`${info.symbol} is a stable pool; only volatile (vAMM) pools are supported`);
+        const [info0, info1] = await Promise.all([this.tokenInfo(token0, blockTag), this.tokenInfo(token1, blockTag)]);
+        return {
+            ...info,
+            stable,
+            totalSupply,
+            reserves: [
+                { ...info0, reserve: reserves.reserve0 },
+                { ...info1, reserve: reserves.reserve1 },
+            ],
+            blockNumber: block.number,
+            timestamp: block.timestamp,
+        };
+    }
+
+    private async usdPrices(state: AerodromePoolState): Promise<[bigint, bigint] | undefined> {
+        if (!this.prices) return undefined;
+        const at: PriceTime = { timestamp: state.timestamp, blockNumber: state.blockNumber };
+        const [reserve0, reserve1] = state.reserves;
+        if (this.quoteToken === undefined) {
+            return Promise.all([this.prices.getPrice(reserve0.token, at), this.prices.getPrice(reserve1.token, at)]);
+        }
+        const quoteIndex = state.reserves.findIndex((reserve) => reserve.token === this.quoteToken);
+        if (quoteIndex === -1) throw new Error(`${this.quoteToken} is not a token of ${state.symbol}`);
+        const quote = state.reserves[quoteIndex];
+        const quotePrice = await this.prices.getPrice(quote.token, at);
+        const otherPrice = spotUsdPrice(quote, state.reserves[1 - quoteIndex], quotePrice);
+        return quoteIndex === 0 ? [quotePrice, otherPrice] : [otherPrice, quotePrice];
+    }
+
+    /** `AIXCBLPStaking` at `lpStaking`, checked to stake this pool's LP token */
+    private async lpStaking(lpStaking: string, state: AerodromePoolState) {
+        const staking = AIXCBLPStaking__factory.connect(lpStaking, this.runner);
+        const lpToken = await staking.lpToken({ blockTag: state.blockNumber });
+        if (getAddress(lpToken) !== state.token) throw new Error(`${lpStaking} does not stake ${state.symbol}`);
+        return staking;
+    }
+
+    async value(lpAmount: bigint, blockNumber?: number): Promise<LPValue> {
+        const state = await this.state(blockNumber);
+        return valueLP(state, lpAmount, await this.usdPrices(state));
+    }
+
+    /** One whole LP token in each underlying token and in USD */
+    async price(blockNumber?: number): Promise<LPValue> {
+        const state = await this.state(blockNumber);
+        return valueLP(state, 10n ** BigInt(state.decimals), await this.usdPrices(state));
+    }
+
+    /** Each user's `stakedAmount` in `AIXCBLPStaking`, broken into the pool's tokens */
+    async positions(lpStaking: string, users: string[], blockNumber?: number): Promise<LPPositionValue[]> {
+        const state = await this.state(blockNumber);
+        const blockTag = state.blockNumber;
+        const staking = await this.lpStaking(lpStaking, state);
+        const usdPrices = await this.usdPrices(state);
+        const positions: LPPositionValue[] = [];
+        for (const user of users) {
+            const { stakedAmount } = await staking.userStakes(user, { blockTag });
+            positions.push({ user: getAddress(user), ...valueLP(state, stakedAmount, usdPrices) });
+        }
+        return positions;
+    }
+
+    /** `totalStakedAmount` of `AIXCBLPStaking`, broken into the pool's tokens */
+    async staked(lpStaking: string, blockNumber?: number): Promise<LPValue> {
+        const state = await this.state(blockNumber);
+        const staking = await this.lpStaking(lpStaking, state);
+        return valueLP(state, await staking.totalStakedAmount({ blockTag: state.blockNumber }), await this.usdPrices(state));
+    }
+}
+
+/**
+ * Prices the pool's LP token through `AerodromeLPValuation` and every other
+ * token through `prices`, so `StakingAnalytics.lp` can value the stake
+ */
+export class AerodromeLPPriceSource implements PriceSource {
+    private readonly valuation: AerodromeLPValuation;
+    private readonly prices: PriceSource;
+    private readonly pool: string;
+
+    constructor(pool: string, runner: ContractRunner, prices: PriceSource, quoteToken?: string) {
+        this.valuation = new AerodromeLPValuation(pool, runner, { prices, quoteToken });
+        this.prices = prices;
+        this.pool = getAddress(pool);
+    }
+
+    async getPrice(token: string, at?: PriceTime): Promise<bigint> {
+        if (getAddress(token) !== this.pool) return this.prices.getPrice(token, at);
+        return (await this.valuation.price(at?.blockNumber)).usd!;
+    }
+}
@@ -0,0 +1,376 @@
+import { Contract, ContractRunner, Interface, Result, getAddress } from "ethers";
+import { AIXCBLPStaking__factory, AIXCBStaking__factory } from "../typechain-types";
+import { LP_STAKING_CIRCUITS, PERIOD_LABELS, PeriodLabel, STAKING_CIRCUITS } from "./constants";
+import { ContractName, decodeRevert } from "./errors";
+
+/**
+ * Everything a dashboard shows for one or many addresses, read from both
+ * contracts through Multicall3 `aggregate3` at one block. A typical read is
+ * two round trips: contract state and reward tokens first, then every pool
+ * and user view. Each call may fail on its own, e.g. `getRewardPoolInfo`
+ * reverting when a pool's balance is below `totalDistributed`; the failure
+ * lands in that field's `CallResult` and the rest of the snapshot is intact.
+ */
+
+/** Canonical Multicall3 deployment, the same address on Base and most EVM chains */
+export const MULTICALL3_ADDRESS = "0xcA11bde05977b3631167028862bE2a173976CA11";
+
+const MULTICALL3_ABI = [
+    "function aggregate3((address target, bool allowFailure, bytes callData)[] calls) payable returns ((bool success, bytes returnData)[] returnData)",
+    "function getCurrentBlockTimestamp() view returns (uint256 timestamp)",
+];
+
+export type CallResult<T> = { ok: true; value: T } | { ok: false; error: string };
+
+export interface PortfolioOptions {
+    staking?: string;
+    lp?: string;
+    /** Defaults to `MULTICALL3_ADDRESS` */
+    multicall?: string;
+    /** Calls per `aggregate3`; large batches can hit the RPC's gas cap for `eth_call` */
+    maxCallsPerBatch?: number;
+}
+
+export interface StakingPoolInfo {
+    totalReward: bigint;
+    rewardRate: bigint;
+    periodFinish: number;
+    totalDistributed: bigint;
+    remainingRewards: bigint;
+}
+
+export interface LPPoolInfo {
+    totalReward: bigint;
+    distributed: bigint;
+    ratePerSecond: bigint;
+    lastUpdate: number;
+}
+
+export interface StakingOverview {
+    address: string;
+    paused: CallResult<boolean>;
+    emergencyMode: CallResult<boolean>;
+    circuitBreakers: Record<keyof typeof STAKING_CIRCUITS, CallResult<boolean>>;
+    rewardTokens: CallResult<string[]>;
+    totalStaked: Record<PeriodLabel, CallResult<bigint>>;
+    pools: { period: PeriodLabel; token: string; info: CallResult<StakingPoolInfo> }[];
+}
+
+export interface LPOverview {
+    address: string;
+    paused: CallResult<boolean>;
+    emergencyMode: CallResult<boolean>;
+    circuitBreakers: Record<keyof typeof LP_STAKING_CIRCUITS, CallResult<boolean>>;
+    rewardTokens: CallResult<string[]>;
+    totalStaked: CallResult<bigint>;
+    pools: { token: string; info: CallResult<LPPoolInfo> }[];
+}
+
+export interface TokenAmount {
+    token: string;
+    amount: CallResult<bigint>;
+}
+
+export interface StakingHolding {
+    period: PeriodLabel;
+    stake: CallResult<{ amount: bigint; startTime: number; endTime: number; initialized: boolean }>;
+    pendingRewards: TokenAmount[];
+}
+
+export interface AccountPortfolio {
+    address: string;
+    staking?: { totalStake: CallResult<bigint>; holdings: StakingHolding[] };
+    lp?: {
+        stake: CallResult<{ stakedAmount: bigint; initialStakeTime: number; lastUpdateTime: number }>;
+        pendingRewards: TokenAmount[];
+    };
+}
+
+export interface PortfolioSnapshot {
+    blockNumber: number;
+    blockTimestamp: number;
+    staking?: StakingOverview;
+    lp?: LPOverview;
+    accounts: AccountPortfolio[];
+    /** Reads made and `aggregate3` round trips used */
+    calls: number;
+    batches: number;
+}
+
+const DEFAULT_MAX_CALLS_PER_BATCH = 500;
+/** `rewardTokens(i)` indices probed per round; the array has no length getter */
+const REWARD_TOKEN_PROBE = 16;
+
+interface QueuedCall {
+    target: string;
+    iface: Interface;
+    /** Decodes the contract's custom errors on failure */
+    contract?: ContractName;
+    method: string;
+    args: unknown[];
+}
+
+/** Queues reads, runs them through `aggregate3` and hands out typed results */
+class CallBatch {
+    private readonly queued: QueuedCall[] = [];
+    private results: CallResult<Result>[] = [];
+
+    add<T>(call: QueuedCall, map: (result: Result) => T): () => CallResult<T> {
+        const index = this.queued.push(call) - 1;
+        return () => {
+            const result = this.results[index];
+            if (!result.ok) return result;
+            try {
+                return { ok: true, value: map(result.value) };
+            } catch (error) {
+                return { ok: false, error: `Cannot decode ${call.method}: ${String(error)}` };
+            }
+        };
+    }
+
+    get size(): number {
+        return this.queued.length;
+    }
+
+    async execute(multicall: Contract, blockTag: number, maxCalls: number): Promise<number> {
+        let batches = 0;
+        for (let start = 0; start < this.queued.length; start += maxCalls) {
+            const chunk = this.queued.slice(start, start + maxCalls);
+            const calls = chunk.map((call) => ({
+                target: call.target,
+                allowFailure: true,
+                callData: call.iface.encodeFunctionData(call.method, call.args),
+            }));
+            const returned: { success: boolean; returnData: string }[] = await multicall.aggregate3.staticCall(calls, { blockTag });
+            batches++;
+            returned.forEach(({ success, returnData }, i) => {
+                const call = chunk[i];
+                if (success) {
+                    this.results[start + i] = { ok: true, value: call.iface.decodeFunctionResult(call.method, returnData) };
+                } else {
+                    const revert = call.contract && decodeRevert(returnData, call.contract);
+                    this.results[start + i] = { ok: false, error: revert ? `${revert.name}: ${revert.message}` : `${call.method} reverted` };
+                }
+            });
+        }
+        return batches;
+    }
+}
+
+const first = (result: Result) => result[0];
+const asNumber = (result: Result) => Number(result[0]);
+
+export class PortfolioReader {
+    private readonly runner: ContractRunner;
+    private readonly options: PortfolioOptions;
+    private readonly multicall: Contract;
+    private readonly stakingIface = AIXCBStaking__factory.createInterface();
+    private readonly lpIface = AIXCBLPStaking__factory.createInterface();
+
+    constructor(runner: ContractRunner, options: PortfolioOptions) {
+        if (options.staking === undefined && options.lp === undefined) throw new Error("Give a staking or an LP staking address");
+        this.runner = runner;
+        this.options = options;
+        this.multicall = new Contract(options.multicall ?? MULTICALL3_ADDRESS, MULTICALL3_ABI, runner);
+    }
+
+    private stakingCall(method: string, args: unknown[] = []): QueuedCall {
+        return { target: this.options.staking!, iface: this.stakingIface, contract: "AIXCBStaking", method, args };
+    }
+
+    private lpCall(method: string, args: unknown[] = []): QueuedCall {
+        return { target: this.options.lp!, iface: this.lpIface, contract: "AIXCBLPStaking", method, args };
+    }
+
+    /** Reads both contracts and every account at `blockNumber`, the latest block by default */
+    async read(accounts: string[], blockNumber?: number): Promise<PortfolioSnapshot> {
+        const provider = this.runner.provider;
+        if (!provider) throw new Error("A runner with a provider is required");
+        const blockTag = blockNumber ?? (await provider.getBlockNumber());
+        const multicall = await this.multicall.getAddress();
+        if ((await provider.getCode(multicall, blockTag)) === "0x") throw new Error(`No Multicall3 at ${multicall} at block ${blockTag}`);
+        const maxCalls = this.options.maxCallsPerBatch ?? DEFAULT_MAX_CALLS_PER_BATCH;
+        const users = accounts.map((account) => getAddress(account));
+        let batches = 0;
+        let calls = 0;
+        const run = async (batch: CallBatch) => {
+            batches += await batch.execute(this.multicall, blockTag, maxCalls);
+            calls += batch.size;
+        };
+
+        // Contract state and reward tokens
+        const state = new CallBatch();
+        const multicallIface = this.multicall.interface;
+        const timestamp = state.add(
+            { target: multicall, iface: multicallIface, method: "getCurrentBlockTimestamp", args: [] },
+            asNumber
+        );
+        const staking = this.options.staking === undefined ? undefined : this.queueStakingState(state);
+        const lp = this.options.lp === undefined ? undefined : this.queueLPState(state);
+        await run(state);
+
+        // Probe rewardTokens(i) until one reverts past the end of the array
+        const stakingTokens: string[] = [];
+        if (staking) {
+            let probe = staking.rewardTokens;
+            for (;;) {
+                const found = probe.map((read) => read()).filter((read): read is { ok: true; value: string } => read.ok);
+                stakingTokens.push(...found.map((read) => read.value));
+                if (found.length < probe.length) break;
+                const next = new CallBatch();
+                probe = this.probeRewardTokens(next, stakingTokens.length);
+                await run(next);
+            }
+        }
+        const lpTokens = lp?.rewardTokens();
+        const lpRewardTokens = lpTokens?.ok ? lpTokens.value : [];
+
+        // Pools and accounts
+        const reads = new CallBatch();
+        const stakingPools = staking
+            ? PERIOD_LABELS.flatMap((period, periodIndex) =>
+                  stakingTokens.map((token) => ({
+                      period,
+                      token,
+                      info: reads.add(this.stakingCall("getRewardPoolInfo", [periodIndex, token]), (result) => ({
+                          totalReward: result.totalReward as bigint,
+                          rewardRate: result.rewardRate as bigint,
+                          periodFinish: Number(result.periodFinish),
+                          totalDistributed: result.totalDistributed as bigint,
+                          remainingRewards: result.remainingRewards as bigint,
+                      })),
+                  }))
+              )
+            : [];
+        const lpPools = lpRewardTokens.map((token) => ({
+            token,
+            info: reads.add(this.lpCall("getRewardPool", [token]), (result) => ({
+                totalReward: result.totalReward as bigint,
+                distributed: result.distributed as bigint,
+                ratePerSecond: result.ratePerSecond as bigint,
+                lastUpdate: Number(result.lastUpdate),
+            })),
+        }));
+        const accountReads = users.map((user) => ({
+            user,
+            staking: staking ? this.queueStakingAccount(reads, user, stakingTokens) : undefined,
+            lp: lp ? this.queueLPAccount(reads, user, lpRewardTokens) : undefined,
+        }));
+        await run(reads);
+
+        const blockTimestamp = timestamp();
+        if (!blockTimestamp.ok) throw new Error(`Multicall3 getCurrentBlockTimestamp failed: ${blockTimestamp.error}`);
+        return {
+            blockNumber: blockTag,
+            blockTimestamp: blockTimestamp.value,
+            staking: staking && {
+                address: getAddress(this.options.staking!),
+                paused: staking.paused(),
+                emergencyMode: staking.emergencyMode(),
+                circuitBreakers: resolveRecord(staking.circuitBreakers),
+                rewardTokens: { ok: true, value: stakingTokens },
+                totalStaked: resolveRecord(staking.totalStaked),
+                pools: stakingPools.map((pool) => ({ ...pool, info: pool.info() })),
+            },
+            lp: lp && {
+                address: getAddress(this.options.lp!),
+                paused: lp.paused(),
+                emergencyMode: lp.emergencyMode(),
+                circuitBreakers: resolveRecord(lp.circuitBreakers),
+                rewardTokens: lp.rewardTokens(),
+                totalStaked: lp.totalStaked(),
+                pools: lpPools.map((pool) => ({ ...pool, info: pool.info() })),
+            },
+            accounts: accountReads.map((account) => ({
+                address: account.user,
+                staking: account.staking && {
+                    totalStake: account.staking.totalStake(),
+                    holdings: account.staking.holdings.map((holding) => ({
+                        period: holding.period,
+                        stake: holding.stake(),
+                        pendingRewards: resolveAmounts(holding.pendingRewards),
+                    })),
+                },
+                lp: account.lp && { stake: account.lp.stake(), pendingRewards: resolveAmounts(account.lp.pendingRewards) },
+            })),
+            calls,
+            batches,
+        };
+    }
+
+    private probeRewardTokens(batch: CallBatch, from: number): (() => CallResult<string>)[] {
+        return Array.from({ length: REWARD_TOKEN_PROBE }, (_, i) =>
+            batch.add(this.stakingCall("rewardTokens", [from + i]), (result) => getAddress(result[0]))
+        );
+    }
+
+    private queueStakingState(batch: CallBatch) {
+        return {
+            paused: batch.add(this.stakingCall("paused"), first),
+            emergencyMode: batch.add(this.stakingCall("emergencyMode"), first),
+            circuitBreakers: mapRecord(STAKING_CIRCUITS, (id) => batch.add(this.stakingCall("circuitBreakers", [id]), first)),
+            totalStaked: Object.fromEntries(
+                PERIOD_LABELS.map((period, periodIndex) => [
+                    period,
+                    batch.add(this.stakingCall("totalStakedForPeriod", [periodIndex]), first),
+                ])
+            ) as Record<PeriodLabel, () => CallResult<bigint>>,
+            rewardTokens: this.probeRewardTokens(batch, 0),
+        };
+    }
+
+    private queueLPState(batch: CallBatch) {
+        return {
+            paused: batch.add(this.lpCall("paused"), first),
+            emergencyMode: batch.add(this.lpCall("emergencyMode"), first),
+            circuitBreakers: mapRecord(LP_STAKING_CIRCUITS, (id) => batch.add(this.lpCall("circuitBreakers", [id]), first)),
+            totalStaked: batch.add(this.lpCall("totalStakedAmount"), first),
+            rewardTokens: batch.add(this.lpCall("getRewardTokens"), (result) => [...result[0]].map((token: string) => getAddress(token))),
+        };
+    }
+
+    private queueStakingAccount(batch: CallBatch, user: string, tokens: string[]) {
+        return {
+            totalStake: batch.add(this.stakingCall("getUserTotalStake", [user]), first),
+            holdings: PERIOD_LABELS.map((period, periodIndex) => ({
+                period,
+                stake: batch.add(this.stakingCall("getUserStake", [user, periodIndex]), (result) => ({
+                    amount: result[0].amount as bigint,
+                    startTime: Number(result[0].startTime),
+                    endTime: Number(result[0].endTime),
+                    initialized: result[0].initialized as boolean,
+                })),
+                pendingRewards: tokens.map((token) => ({
+                    token,
+                    amount: batch.add(this.stakingCall("pendingRewards", [user, periodIndex, token]), first),
+                })),
+            })),
+        };
+    }
+
+    private queueLPAccount(batch: CallBatch, user: string, tokens: string[]) {
+        return {
+            stake: batch.add(this.lpCall("userStakes", [user]), (result) => ({
+                stakedAmount: result.stakedAmount as bigint,
+                initialStakeTime: Number(result.initialStakeTime),
+                lastUpdateTime: Number(result.lastUpdateTime),
+            })),
+            pendingRewards: tokens.map((token) => ({
+                token,
+                amount: batch.add(this.lpCall("getPendingRewards", [user, token]), first),
+            })),
+        };
+    }
+}
+
+function mapRecord<K extends string, V, W>(record: Record<K, V>, map: (value: V) => W): Record<K, W> {
+    return Object.fromEntries(Object.entries(record).map(([key, value]) => [key, map(value as V)])) as Record<K, W>;
+}
+
+function resolveRecord<K extends string, T>(record: Record<K, () => CallResult<T>>): Record<K, CallResult<T>> {
+    return mapRecord(record, (read) => read());
+}
+
+function resolveAmounts(amounts: { token: string; amount: () => CallResult<bigint> }[]): TokenAmount[] {
+    return amounts.map(({ token, amount }) => ({ token, amount: amount() }));
+}
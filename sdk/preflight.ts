@@ -0,0 +1,469 @@
+import { ContractRunner, Provider } from "ethers";
+import {
+    AIXCBLPStaking,
+    AIXCBLPStaking__factory,
+    AIXCBStaking,
+    AIXCBStaking__factory,
+    IERC20Metadata__factory,
+} from "../typechain-types";
+import { LP_EMERGENCY_WITHDRAW_FEE_BPS, LP_STAKING_CIRCUITS, PeriodLabel, STAKING_CIRCUITS, periodIndexOf } from "./constants";
+import { RevertCode, decodeRevert } from "./errors";
+import { StakingClient } from "./StakingClient";
+
+/**
+ * Explains before signing why a staking action would revert. `preflight`
+ * reads the state every guard of the action depends on at one block (pause,
+ * emergency mode, circuit breakers, the stake, lock periods, balance and
+ * allowance) and reports every failing guard rather than the first one the
+ * contract would hit. Blocking issues use the same `RevertCode` that
+ * `decodeRevert` gives the revert itself. Warnings cover actions that succeed
+ * but not the way a user may expect: a top-up that keeps the old unlock time,
+ * rewards capped by what the contract holds, fees and forfeited rewards.
+ * `upgradeStakePeriod` pays rewards out uncapped, so there a shortfall blocks.
+ * When no guard fails, the call is simulated with `eth_call` from the user so
+ * anything not modelled here still surfaces as a blocking issue.
+ */
+
+export type StakingAction =
+    | { contract: "AIXCBStaking"; method: "stake"; period: PeriodLabel; amount: bigint; deadline?: number }
+    | { contract: "AIXCBStaking"; method: "withdraw"; period: PeriodLabel }
+    | { contract: "AIXCBStaking"; method: "claimRewards"; period: PeriodLabel }
+    | { contract: "AIXCBStaking"; method: "upgradeStakePeriod"; from: PeriodLabel; to: PeriodLabel }
+    | { contract: "AIXCBStaking"; method: "emergencyWithdraw"; period: PeriodLabel };
+
+export type LPStakingAction =
+    | { contract: "AIXCBLPStaking"; method: "stake"; amount: bigint }
+    | { contract: "AIXCBLPStaking"; method: "withdraw"; amount: bigint }
+    | { contract: "AIXCBLPStaking"; method: "claimRewards" }
+    | { contract: "AIXCBLPStaking"; method: "emergencyWithdraw" };
+
+export type PreflightAction = StakingAction | LPStakingAction;
+
+export type PreflightWarningCode =
+    /** The deadline or the stake's `endTime` passes within `marginSeconds` */
+    | "DEADLINE_SOON"
+    | "STAKE_EXPIRES_SOON"
+    /** Adding to an existing stake keeps its `endTime` */
+    | "TOP_UP_KEEPS_END_TIME"
+    /** Still locked, but allowed because every reward pool of the period finished */
+    | "EARLY_EXIT"
+    /** `upgradeStakePeriod` starts a new lock, or merges into the target's existing one and keeps its `endTime` */
+    | "LOCK_RESTARTS"
+    | "MERGES_INTO_EXISTING_STAKE"
+    | "NOTHING_TO_CLAIM"
+    /** A payout is capped below the pending amount */
+    | "REWARDS_CAPPED"
+    | "FORFEITS_REWARDS"
+    | "EMERGENCY_WITHDRAW_FEE";
+
+export interface PreflightIssue {
+    severity: "blocking" | "warning";
+    code: RevertCode | PreflightWarningCode;
+    message: string;
+    data?: Record<string, unknown>;
+}
+
+export interface PreflightResult {
+    action: PreflightAction;
+    user: string;
+    blockNumber: number;
+    blockTimestamp: number;
+    /** No blocking issue was found */
+    ok: boolean;
+    issues: PreflightIssue[];
+    /** Whether the call was simulated; only done when no guard fails */
+    simulated: boolean;
+}
+
+export interface PreflightOptions {
+    staking?: string;
+    lp?: string;
+    /** Seconds before a deadline or `endTime` that the action is flagged as at risk; default 300 */
+    marginSeconds?: number;
+    /** Simulate the call with `eth_call` when no guard fails; default true */
+    simulate?: boolean;
+}
+
+const DEFAULT_MARGIN_SECONDS = 300;
+/** Deadline `StakingClient.stake` uses when none is given */
+const DEFAULT_DEADLINE_SECONDS = 3600;
+
+interface RewardDue {
+    token: string;
+    pending: bigint;
+    /** What a claim would transfer right now */
+    payable: bigint;
+}
+
+/** Collects the issues of one preflight */
+class Findings {
+    readonly issues: PreflightIssue[] = [];
+
+    block(code: RevertCode, message: string, data?: Record<string, unknown>): void {
+        this.issues.push({ severity: "blocking", code, message, data });
+    }
+
+    warn(code: PreflightWarningCode, message: string, data?: Record<string, unknown>): void {
+        this.issues.push({ severity: "warning", code, message, data });
+    }
+
+    get blocked(): boolean {
+        return this.issues.some((issue) => issue.severity === "blocking");
+    }
+
+    /** Warns about rewards a payout will cap, or that an emergency exit forfeits */
+    rewards(rewards: RewardDue[], forfeit = false): void {
+        const due = rewards.filter((reward) => reward.pending > 0n);
+        if (forfeit) {
+            if (due.length > 0) {
+                this.warn("FORFEITS_REWARDS", `Forfeits pending rewards in ${due.length} token(s)`, {
+                    rewards: due.map(({ token, pending }) => ({ token, amount: pending })),
+                });
+            }
+            return;
+        }
+        for (const reward of due.filter((reward) => reward.payable < reward.pending)) {
+            this.warn("REWARDS_CAPPED", `Pays ${reward.payable} of ${reward.pending} pending ${reward.token}`, { ...reward });
+        }
+    }
+}
+
+function isoTime(timestamp: number): string {
+    return new Date(timestamp * 1000).toISOString();
+}
+
+/** Checks user actions on `AIXCBStaking` and `AIXCBLPStaking` without sending a transaction */
+export class PreflightChecker {
+    private readonly runner: ContractRunner;
+    private readonly staking?: AIXCBStaking;
+    private readonly lp?: AIXCBLPStaking;
+    private readonly marginSeconds: number;
+    private readonly simulate: boolean;
+
+    constructor(runner: ContractRunner, options: PreflightOptions) {
+        if (!options.staking && !options.lp) throw new Error("Pass a staking or LP staking address");
+        this.runner = runner;
+        if (options.staking) this.staking = AIXCBStaking__factory.connect(options.staking, runner);
+        if (options.lp) this.lp = AIXCBLPStaking__factory.connect(options.lp, runner);
+        this.marginSeconds = options.marginSeconds ?? DEFAULT_MARGIN_SECONDS;
+        this.simulate = options.simulate ?? true;
+    }
+
+    private get provider(): Provider {
+        if (!this.runner.provider) throw new Error("A runner with a provider is required");
+        return this.runner.provider;
+    }
+
+    /** Reports every blocking and warning condition of `action` by `user` at `blockNumber` or the latest block */
+    async preflight(action: PreflightAction, user: string, blockNumber?: number): Promise<PreflightResult> {
+        const block = await this.provider.getBlock(blockNumber ?? "latest");
+        if (!block) throw new Error(`Block ${blockNumber} not found`);
+        const at = { blockNumber: block.number, timestamp: block.timestamp };
+
+        const findings = new Findings();
+        let data: string;
+        let target: string;
+        if (action.contract === "AIXCBStaking") {
+            if (!this.staking) throw new Error("No AIXCBStaking address configured");
+            data = await this.checkStaking(this.staking, action, user, at, findings);
+            target = await this.staking.getAddress();
+        } else {
+            if (!this.lp) throw new Error("No AIXCBLPStaking address configured");
+            data = await this.checkLP(this.lp, action, user, at, findings);
+            target = await this.lp.getAddress();
+        }
+
+        const simulated = this.simulate && !findings.blocked;
+        if (simulated) {
+            try {
+                await this.provider.call({ from: user, to: target, data, blockTag: at.blockNumber });
+            } catch (error) {
+                const revert = decodeRevert(error, action.contract);
+                if (!revert) throw error;
+                findings.block(revert.code, revert.message, { ...revert.data, simulated: true });
+            }
+        }
+
+        return {
+            action,
+            user,
+            blockNumber: at.blockNumber,
+            blockTimestamp: at.timestamp,
+            ok: !findings.blocked,
+            issues: findings.issues,
+            simulated,
+        };
+    }
+
+    /** Runs the checks of a staking action and returns its calldata */
+    private async checkStaking(
+        staking: AIXCBStaking,
+        action: StakingAction,
+        user: string,
+        at: { blockNumber: number; timestamp: number },
+        findings: Findings
+    ): Promise<string> {
+        const blockTag = at.blockNumber;
+        const [paused, emergencyMode] = await Promise.all([staking.paused({ blockTag }), staking.emergencyMode({ blockTag })]);
+        const stakeOf = async (period: PeriodLabel) => {
+            const stake = await staking.getUserStake(user, periodIndexOf(period), { blockTag });
+            return { amount: stake.amount, endTime: Number(stake.endTime), initialized: stake.initialized };
+        };
+        const rewardsOf = async (period: PeriodLabel): Promise<RewardDue[]> => {
+            const address = await staking.getAddress();
+            const tokens = await new StakingClient(address, this.runner).getRewardTokens(blockTag);
+            return Promise.all(
+                tokens.map(async (token) => {
+                    const [pending, balance] = await Promise.all([
+                        staking.pendingRewards(user, periodIndexOf(period), token, { blockTag }),
+                        IERC20Metadata__factory.connect(token, this.runner).balanceOf(address, { blockTag }),
+                    ]);
+                    return { token, pending, payable: pending < balance ? pending : balance };
+                })
+            );
+        };
+        const circuit = async (name: keyof typeof STAKING_CIRCUITS) => {
+            if (await staking.circuitBreakers(STAKING_CIRCUITS[name], { blockTag })) {
+                findings.block("CIRCUIT_BREAKER_ACTIVE", `${name} circuit breaker is active`, { circuit: name });
+            }
+        };
+        const live = () => {
+            if (paused) findings.block("PAUSED", "AIXCBStaking is paused");
+            if (emergencyMode) findings.block("NOT_IN_EMERGENCY_MODE", "AIXCBStaking is in emergency mode");
+        };
+        const notFound = (period: PeriodLabel) => findings.block("STAKE_NOT_FOUND", `No ${period} stake`, { period });
+
+        switch (action.method) {
+            case "stake": {
+                live();
+                await circuit("STAKING_CIRCUIT");
+                const deadline = action.deadline ?? at.timestamp + DEFAULT_DEADLINE_SECONDS;
+                if (action.amount === 0n) findings.block("ZERO_AMOUNT", "Amount must be greater than zero");
+                if (at.timestamp > deadline) {
+                    findings.block("DEADLINE_EXPIRED", `Deadline passed at ${isoTime(deadline)}`, { deadline });
+                } else if (deadline - at.timestamp < this.marginSeconds) {
+                    findings.warn("DEADLINE_SOON", `Deadline passes at ${isoTime(deadline)}`, { deadline });
+                }
+
+                const stake = await stakeOf(action.period);
+                if (stake.initialized && at.timestamp >= stake.endTime) {
+                    findings.block("STAKE_EXPIRED", `The ${action.period} stake expired at ${isoTime(stake.endTime)}; withdraw it first`, {
+                        endTime: stake.endTime,
+                    });
+                } else if (stake.initialized) {
+                    if (stake.endTime - at.timestamp < this.marginSeconds) {
+                        findings.warn("STAKE_EXPIRES_SOON", `The ${action.period} stake expires at ${isoTime(stake.endTime)}`, {
+                            endTime: stake.endTime,
+                        });
+                    }
+                    findings.warn("TOP_UP_KEEPS_END_TIME", `The added amount unlocks with the existing stake at ${isoTime(stake.endTime)}`, {
+                        endTime: stake.endTime,
+                    });
+                }
+
+                const token = IERC20Metadata__factory.connect(await staking.stakingToken({ blockTag }), this.runner);
+                const [balance, allowance] = await Promise.all([
+                    token.balanceOf(user, { blockTag }),
+                    token.allowance(user, await staking.getAddress(), { blockTag }),
+                ]);
+                if (balance < action.amount) {
+                    findings.block("INSUFFICIENT_BALANCE", `Balance ${balance} is below ${action.amount}`, { balance, needed: action.amount });
+                }
+                if (allowance < action.amount) {
+                    findings.block("INSUFFICIENT_ALLOWANCE", `Allowance ${allowance} is below ${action.amount}`, {
+                        allowance,
+                        needed: action.amount,
+                    });
+                }
+                return staking.interface.encodeFunctionData("stake", [
+                    { amount: action.amount, periodIndex: periodIndexOf(action.period), deadline },
+                ]);
+            }
+            case "withdraw": {
+                live();
+                await circuit("WITHDRAWAL_CIRCUIT");
+                const stake = await stakeOf(action.period);
+                if (!stake.initialized) {
+                    notFound(action.period);
+                } else if (at.timestamp < stake.endTime) {
+                    const finished = await staking.isAllRewardPoolsFinished(periodIndexOf(action.period), { blockTag });
+                    if (finished) {
+                        findings.warn("EARLY_EXIT", `Exits before ${isoTime(stake.endTime)} because every reward pool finished`, {
+                            endTime: stake.endTime,
+                        });
+                    } else {
+                        findings.block("STAKE_LOCKED", `Stake is locked until ${isoTime(stake.endTime)}`, {
+                            endTime: stake.endTime,
+                            secondsRemaining: stake.endTime - at.timestamp,
+                        });
+                    }
+                }
+                if (stake.initialized) findings.rewards(await rewardsOf(action.period));
+                return staking.interface.encodeFunctionData("withdraw", [periodIndexOf(action.period)]);
+            }
+            case "claimRewards": {
+                live();
+                await circuit("REWARDS_CIRCUIT");
+                const rewards = await rewardsOf(action.period);
+                if (rewards.every((reward) => reward.pending === 0n)) {
+                    findings.warn("NOTHING_TO_CLAIM", `No pending rewards in the ${action.period} period`);
+                }
+                findings.rewards(rewards);
+                return staking.interface.encodeFunctionData("claimRewards", [periodIndexOf(action.period)]);
+            }
+            case "upgradeStakePeriod": {
+                live();
+                const [fromLock, toLock] = await Promise.all([
+                    staking.lockPeriods(periodIndexOf(action.from), { blockTag }),
+                    staking.lockPeriods(periodIndexOf(action.to), { blockTag }),
+                ]);
+                if (toLock <= fromLock) {
+                    findings.block("UPGRADE_REQUIRES_LONGER_LOCK", `${action.to} does not lock longer than ${action.from}`, {
+                        fromLock: Number(fromLock),
+                        toLock: Number(toLock),
+                    });
+                }
+                const [from, to] = await Promise.all([stakeOf(action.from), stakeOf(action.to)]);
+                if (!from.initialized) notFound(action.from);
+                const newEndTime = at.timestamp + Number(toLock);
+                if (to.initialized) {
+                    findings.warn(
+                        "MERGES_INTO_EXISTING_STAKE",
+                        `Merges into the ${action.to} stake, which keeps its unlock at ${isoTime(to.endTime)}; ` +
+                            `StakeUpgraded still reports about ${isoTime(newEndTime)}, which is not the effective end time`,
+                        { endTime: to.endTime, eventEndTime: newEndTime }
+                    );
+                } else {
+                    findings.warn("LOCK_RESTARTS", `A new ${action.to} lock runs until about ${isoTime(newEndTime)}`, {
+                        endTime: newEndTime,
+                    });
+                }
+                if (from.initialized) {
+                    // `_claimRewardsForPeriod` transfers the whole pending amount, without the cap `claimRewards` applies
+                    const contract = await staking.getAddress();
+                    for (const reward of await rewardsOf(action.from)) {
+                        if (reward.payable >= reward.pending) continue;
+                        findings.block(
+                            "INSUFFICIENT_BALANCE",
+                            `Pays out ${reward.pending} pending ${reward.token} but the contract holds ${reward.payable}`,
+                            { token: reward.token, sender: contract, balance: reward.payable, needed: reward.pending }
+                        );
+                    }
+                }
+                return staking.interface.encodeFunctionData("upgradeStakePeriod", [
+                    periodIndexOf(action.from),
+                    periodIndexOf(action.to),
+                ]);
+            }
+            case "emergencyWithdraw": {
+                if (!emergencyMode) findings.block("EMERGENCY_MODE_REQUIRED", "AIXCBStaking is not in emergency mode");
+                const stake = await stakeOf(action.period);
+                if (!stake.initialized) notFound(action.period);
+                else findings.rewards(await rewardsOf(action.period), true);
+                return staking.interface.encodeFunctionData("emergencyWithdraw", [periodIndexOf(action.period)]);
+            }
+        }
+    }
+
+    /** Runs the checks of an LP staking action and returns its calldata */
+    private async checkLP(
+        lp: AIXCBLPStaking,
+        action: LPStakingAction,
+        user: string,
+        at: { blockNumber: number; timestamp: number },
+        findings: Findings
+    ): Promise<string> {
+        const blockTag = at.blockNumber;
+        const [paused, emergencyMode, userStake] = await Promise.all([
+            lp.paused({ blockTag }),
+            lp.emergencyMode({ blockTag }),
+            lp.userStakes(user, { blockTag }),
+        ]);
+        const staked = userStake.stakedAmount;
+        const rewards = async (): Promise<RewardDue[]> => {
+            const tokens = await lp.getRewardTokens({ blockTag });
+            return Promise.all(
+                tokens.map(async (token) => {
+                    const [pending, pool] = await Promise.all([
+                        lp.getPendingRewards(user, token, { blockTag }),
+                        lp.rewardPools(token, { blockTag }),
+                    ]);
+                    const remaining = pool.totalRewardAmount - pool.totalDistributedAmount;
+                    return { token, pending, payable: pending < remaining ? pending : remaining };
+                })
+            );
+        };
+        const circuit = async (name: keyof typeof LP_STAKING_CIRCUITS) => {
+            if (await lp.circuitBreakers(LP_STAKING_CIRCUITS[name], { blockTag })) {
+                findings.block("CIRCUIT_BREAKER_ACTIVE", `${name} circuit breaker is active`, { circuit: name });
+            }
+        };
+        const live = () => {
+            if (paused) findings.block("PAUSED", "AIXCBLPStaking is paused");
+            if (emergencyMode) findings.block("EMERGENCY_MODE_ACTIVE", "AIXCBLPStaking is in emergency mode");
+        };
+        const noStake = () => findings.block("NO_STAKE_FOUND", "No LP stake");
+
+        switch (action.method) {
+            case "stake": {
+                live();
+                await circuit("STAKING_CIRCUIT");
+                if (action.amount === 0n) findings.block("ZERO_AMOUNT", "Amount must be greater than zero");
+                const maxStake = await lp.MAX_STAKE_AMOUNT({ blockTag });
+                if (staked + action.amount > maxStake) {
+                    findings.block("EXCEEDS_MAX_STAKE", `Stake would exceed MAX_STAKE_AMOUNT (${maxStake}) with ${staked} already staked`, {
+                        maxStake,
+                        staked,
+                    });
+                }
+                const token = IERC20Metadata__factory.connect(await lp.lpToken({ blockTag }), this.runner);
+                const [balance, allowance] = await Promise.all([
+                    token.balanceOf(user, { blockTag }),
+                    token.allowance(user, await lp.getAddress(), { blockTag }),
+                ]);
+                if (balance < action.amount) {
+                    findings.block("INSUFFICIENT_BALANCE", `Balance ${balance} is below ${action.amount}`, { balance, needed: action.amount });
+                }
+                if (allowance < action.amount) {
+                    findings.block("INSUFFICIENT_ALLOWANCE", `Allowance ${allowance} is below ${action.amount}`, {
+                        allowance,
+                        needed: action.amount,
+                    });
+                }
+                // Staking on top of a position claims its rewards first
+                if (staked > 0n) findings.rewards(await rewards());
+                return lp.interface.encodeFunctionData("stake", [action.amount]);
+            }
+            case "withdraw": {
+                live();
+                await circuit("WITHDRAW_CIRCUIT");
+                if (staked === 0n) noStake();
+                if (action.amount === 0n) findings.block("ZERO_AMOUNT", "Amount must be greater than zero");
+                else if (staked > 0n && action.amount > staked) {
+                    findings.block("INVALID_AMOUNT", `Amount exceeds the ${staked} staked`, { staked });
+                }
+                if (staked > 0n) findings.rewards(await rewards());
+                return lp.interface.encodeFunctionData("withdraw", [action.amount]);
+            }
+            case "claimRewards": {
+                live();
+                await circuit("REWARD_CIRCUIT");
+                const due = await rewards();
+                if (due.every((reward) => reward.pending === 0n)) findings.warn("NOTHING_TO_CLAIM", "No pending LP rewards");
+                findings.rewards(due);
+                return lp.interface.encodeFunctionData("claimRewards");
+            }
+            case "emergencyWithdraw": {
+                if (!emergencyMode) findings.block("NOT_EMERGENCY_MODE", "AIXCBLPStaking is not in emergency mode");
+                if (staked === 0n) {
+                    noStake();
+                } else {
+                    const fee = (staked * LP_EMERGENCY_WITHDRAW_FEE_BPS) / 10_000n;
+                    findings.warn("EMERGENCY_WITHDRAW_FEE", `Pays a ${fee} fee and returns ${staked - fee}`, { fee, returned: staked - fee });
+                    findings.rewards(await rewards(), true);
+                }
+                return lp.interface.encodeFunctionData("emergencyWithdraw");
+            }
+        }
+    }
+}
@@ -0,0 +1,621 @@
+import { getAddress } from "ethers";
+import {
+    LOCK_PERIOD_SECONDS,
+    LP_EMERGENCY_WITHDRAW_FEE_BPS,
+    LP_MAX_STAKE_AMOUNT,
+    MAX_PERIOD_INDEX,
+    PERIOD_LABELS,
+    PRECISION,
+    SECONDS_PER_YEAR,
+} from "./constants";
+import { ContractName, RevertCode } from "./errors";
+
+/**
+ * Exact bigint models of the reward accounting in `AIXCBStaking` (v2) and
+ * `AIXCBLPStaking`. Every step mirrors the Solidity source line by line,
+ * including the order of updates, integer truncation and the places where
+ * the contracts skip an update, so that a model driven with the same actions
+ * and block timestamps reports the same `pendingRewards` to the wei.
+ *
+ * Only state that feeds the reward math is modelled: pausing, roles, circuit
+ * breakers and emergency mode are left to the caller.
+ */
+
+export type Timestamp = number | bigint;
+
+export interface TokenAmount {
+    token: string;
+    amount: bigint;
+}
+
+/** Thrown where the contract would revert, so a model can follow a reverting action */
+export class ModelRevertError extends Error {
+    readonly code: RevertCode;
+
+    constructor(contract: ContractName, code: RevertCode) {
+        super(`${contract} would revert with ${code}`);
+        this.name = "ModelRevertError";
+        this.code = code;
+    }
+}
+
+const YEAR = BigInt(SECONDS_PER_YEAR);
+const UINT128_BITS = 128;
+
+function min(a: bigint, b: bigint): bigint {
+    return a < b ? a : b;
+}
+
+/** Checked subtraction, matching Solidity 0.8's underflow panic */
+function sub(a: bigint, b: bigint): bigint {
+    if (b > a) throw new Error(`Arithmetic underflow: ${a} - ${b}`);
+    return a - b;
+}
+
+function key(...parts: (string | number)[]): string {
+    return parts.join(":");
+}
+
+export class Balances {
+    private readonly amounts = new Map<string, bigint>();
+
+    of(token: string): bigint {
+        return this.amounts.get(token) ?? 0n;
+    }
+
+    add(token: string, amount: bigint): void {
+        this.amounts.set(token, this.of(token) + amount);
+    }
+
+    set(token: string, amount: bigint): void {
+        this.amounts.set(token, amount);
+    }
+
+    remove(token: string, amount: bigint): void {
+        this.amounts.set(token, sub(this.of(token), amount));
+    }
+}
+
+// ============ AIXCBStaking ============
+
+export interface ModelRewardPool {
+    totalReward: bigint;
+    accumulatedPerShare: bigint;
+    lastUpdateTime: bigint;
+    totalDistributed: bigint;
+    periodFinish: bigint;
+    rewardRate: bigint;
+}
+
+export interface ModelUserStake {
+    amount: bigint;
+    startTime: bigint;
+    endTime: bigint;
+    periodIndex: number;
+    initialized: boolean;
+}
+
+const EMPTY_STAKE: ModelUserStake = { amount: 0n, startTime: 0n, endTime: 0n, periodIndex: 0, initialized: false };
+
+/** Reference model of `AIXCBStaking` v2 */
+export class StakingRewardModel {
+    readonly stakingToken: string;
+    readonly rewardTokens: string[];
+    readonly lockPeriods: bigint[];
+
+    private readonly pools = new Map<string, ModelRewardPool>();
+    private readonly stakes = new Map<string, ModelUserStake>();
+    private readonly rewardPerSharePaid = new Map<string, bigint>();
+    private readonly rewards = new Map<string, bigint>();
+    private readonly totalStaked: bigint[] = Array(MAX_PERIOD_INDEX + 1).fill(0n);
+    /** Token balances held by the contract; claims pay `min(reward, balance)` */
+    readonly balances = new Balances();
+
+    constructor(stakingToken: string, rewardTokens: string[]) {
+        this.stakingToken = getAddress(stakingToken);
+        this.rewardTokens = [];
+        this.lockPeriods = PERIOD_LABELS.map((label) => BigInt(LOCK_PERIOD_SECONDS[label]));
+        rewardTokens.forEach((token) => this.addRewardToken(token));
+    }
+
+    addRewardToken(token: string): void {
+        const address = getAddress(token);
+        if (!this.rewardTokens.includes(address)) this.rewardTokens.push(address);
+    }
+
+    /** Seeds a pool from on-chain state, e.g. `rewardPools(periodIndex, token)` read before anyone stakes */
+    loadRewardPool(periodIndex: number, token: string, pool: ModelRewardPool): void {
+        const address = getAddress(token);
+        this.addRewardToken(address);
+        this.pools.set(key(periodIndex, address), { ...pool });
+    }
+
+    getRewardPool(periodIndex: number, token: string): ModelRewardPool {
+        return { ...this.pool(periodIndex, getAddress(token)) };
+    }
+
+    getUserStake(user: string, periodIndex: number): ModelUserStake {
+        return { ...(this.stakes.get(key(getAddress(user), periodIndex)) ?? EMPTY_STAKE) };
+    }
+
+    totalStakedForPeriod(periodIndex: number): bigint {
+        return this.totalStaked[periodIndex];
+    }
+
+    /** Mirrors the `pendingRewards` view at `timestamp` */
+    pendingRewards(user: string, periodIndex: number, token: string, timestamp: Timestamp): bigint {
+        const account = getAddress(user);
+        const address = getAddress(token);
+        const now = BigInt(timestamp);
+        const pool = this.pool(periodIndex, address);
+        const userStake = this.stakes.get(key(account, periodIndex));
+        if (!userStake?.initialized) return 0n;
+
+        let accumulatedPerShare = pool.accumulatedPerShare;
+        const totalStaked = this.totalStaked[periodIndex];
+        const lastTimeRewardApplicable = min(now, pool.periodFinish);
+
+        if (totalStaked > 0n && pool.lastUpdateTime < lastTimeRewardApplicable) {
+            const reward = (lastTimeRewardApplicable - pool.lastUpdateTime) * pool.rewardRate;
+            accumulatedPerShare += (reward * PRECISION) / totalStaked;
+        }
+
+        const paid = this.rewardPerSharePaid.get(key(account, periodIndex, address)) ?? 0n;
+        const pending = (userStake.amount * sub(accumulatedPerShare, paid)) / PRECISION;
+        return (this.rewards.get(key(account, periodIndex, address)) ?? 0n) + pending;
+    }
+
+    isAllRewardPoolsFinished(periodIndex: number, timestamp: Timestamp): boolean {
+        const now = BigInt(timestamp);
+        return this.rewardTokens.every((token) => now >= this.pool(periodIndex, token).periodFinish);
+    }
+
+    fundRewardPool(periodIndex: number, token: string, amount: bigint, timestamp: Timestamp): void {
+        const address = getAddress(token);
+        const now = BigInt(timestamp);
+        this.checkPeriod(periodIndex);
+        if (!this.rewardTokens.includes(address)) this.revert("TOKEN_NOT_REWARD_TOKEN");
+        if (amount === 0n) this.revert("ZERO_AMOUNT");
+
+        const pool = this.pool(periodIndex, address);
+        this.updateReward(undefined, periodIndex, now);
+
+        this.balances.add(address, amount);
+        pool.totalReward += amount;
+
+        if (now >= pool.periodFinish) {
+            pool.rewardRate = amount / YEAR;
+            pool.periodFinish = now + YEAR;
+        } else {
+            const remaining = pool.periodFinish - now;
+            const leftover = remaining * pool.rewardRate;
+            pool.rewardRate = (leftover + amount) / remaining;
+        }
+
+        pool.lastUpdateTime = now;
+    }
+
+    stake(user: string, periodIndex: number, amount: bigint, timestamp: Timestamp): void {
+        const account = getAddress(user);
+        const now = BigInt(timestamp);
+        this.checkPeriod(periodIndex);
+        if (amount === 0n) this.revert("ZERO_AMOUNT");
+
+        const stakeKey = key(account, periodIndex);
+        const userStake = this.stakes.get(stakeKey);
+        // Checked after `_updateReward` on-chain; the revert discards that update anyway
+        if (userStake?.initialized && now >= userStake.endTime) this.revert("STAKE_EXPIRED");
+
+        this.updateReward(account, periodIndex, now);
+
+        if (!userStake?.initialized) {
+            this.stakes.set(stakeKey, {
+                amount: BigInt.asUintN(UINT128_BITS, amount),
+                startTime: now,
+                endTime: now + this.lockPeriods[periodIndex],
+                periodIndex,
+                initialized: true,
+            });
+        } else {
+            userStake.amount = BigInt.asUintN(UINT128_BITS, userStake.amount + amount);
+        }
+
+        this.totalStaked[periodIndex] += amount;
+        this.balances.add(this.stakingToken, amount);
+
+        for (const token of this.rewardTokens) {
+            this.rewardPerSharePaid.set(key(account, periodIndex, token), this.pool(periodIndex, token).accumulatedPerShare);
+        }
+    }
+
+    /** Returns the reward transfers followed by the returned principal */
+    withdraw(user: string, periodIndex: number, timestamp: Timestamp): { rewards: TokenAmount[]; amount: bigint } {
+        const account = getAddress(user);
+        const now = BigInt(timestamp);
+        this.checkPeriod(periodIndex);
+
+        const stakeKey = key(account, periodIndex);
+        const userStake = this.stakes.get(stakeKey);
+        if (!userStake?.initialized) this.revert("STAKE_NOT_FOUND");
+        if (now < userStake!.endTime && !this.isAllRewardPoolsFinished(periodIndex, now)) {
+            this.revert("STAKE_LOCKED");
+        }
+
+        this.updateReward(account, periodIndex, now);
+        const rewards = this.payRewards(account, periodIndex);
+
+        const amount = userStake!.amount;
+        this.totalStaked[periodIndex] -= amount;
+        this.stakes.delete(stakeKey);
+        this.balances.remove(this.stakingToken, amount);
+
+        return { rewards, amount };
+    }
+
+    claimRewards(user: string, periodIndex: number, timestamp: Timestamp): TokenAmount[] {
+        const account = getAddress(user);
+        this.checkPeriod(periodIndex);
+
+        this.updateReward(account, periodIndex, BigInt(timestamp));
+        return this.payRewards(account, periodIndex);
+    }
+
+    /**
+     * Like the contract, only the current period's pool is updated: the moved
+     * amount joins the new period without settling it, and the user's paid
+     * checkpoint in the new period is left as it was
+     */
+    upgradeStakePeriod(user: string, currentPeriodIndex: number, newPeriodIndex: number, timestamp: Timestamp): TokenAmount[] {
+        const account = getAddress(user);
+        const now = BigInt(timestamp);
+        this.checkPeriod(currentPeriodIndex);
+        this.checkPeriod(newPeriodIndex);
+        if (this.lockPeriods[newPeriodIndex] <= this.lockPeriods[currentPeriodIndex]) {
+            this.revert("UPGRADE_REQUIRES_LONGER_LOCK");
+        }
+
+        const currentKey = key(account, currentPeriodIndex);
+        const currentStake = this.stakes.get(currentKey);
+        if (!currentStake?.initialized) this.revert("STAKE_NOT_FOUND");
+
+        this.updateReward(account, currentPeriodIndex, now);
+
+        // `_claimRewardsForPeriod` pays in full and does not count towards `totalDistributed`
+        const claimed: TokenAmount[] = [];
+        for (const token of this.rewardTokens) {
+            const rewardKey = key(account, currentPeriodIndex, token);
+            const reward = this.rewards.get(rewardKey) ?? 0n;
+            if (reward > 0n) {
+                this.rewards.set(rewardKey, 0n);
+                this.balances.remove(token, reward);
+                claimed.push({ token, amount: reward });
+            }
+        }
+
+        const amount = currentStake!.amount;
+        this.totalStaked[currentPeriodIndex] -= amount;
+        this.stakes.delete(currentKey);
+
+        const newKey = key(account, newPeriodIndex);
+        const newStake = this.stakes.get(newKey);
+        if (newStake?.initialized) {
+            newStake.amount = BigInt.asUintN(UINT128_BITS, newStake.amount + amount);
+        } else {
+            this.stakes.set(newKey, {
+                amount,
+                startTime: now,
+                endTime: now + this.lockPeriods[newPeriodIndex],
+                periodIndex: newPeriodIndex,
+                initialized: true,
+            });
+        }
+
+        this.totalStaked[newPeriodIndex] += amount;
+        return claimed;
+    }
+
+    /** Returns the principal without updating any reward state */
+    emergencyWithdraw(user: string, periodIndex: number): bigint {
+        const account = getAddress(user);
+        const stakeKey = key(account, periodIndex);
+        const userStake = this.stakes.get(stakeKey);
+        if (!userStake?.initialized) this.revert("STAKE_NOT_FOUND");
+
+        const amount = userStake!.amount;
+        this.totalStaked[periodIndex] -= amount;
+        this.stakes.delete(stakeKey);
+        this.balances.remove(this.stakingToken, amount);
+        return amount;
+    }
+
+    /** `_updateReward`; pass no account for the pool-only update done by `fundRewardPool` */
+    private updateReward(account: string | undefined, periodIndex: number, now: bigint): void {
+        const totalStaked = this.totalStaked[periodIndex];
+
+        for (const token of this.rewardTokens) {
+            const pool = this.pool(periodIndex, token);
+
+            const lastTimeRewardApplicable = min(now, pool.periodFinish);
+            const timeDelta = sub(lastTimeRewardApplicable, pool.lastUpdateTime);
+
+            if (timeDelta > 0n && totalStaked > 0n) {
+                const rewardForPeriod = timeDelta * pool.rewardRate;
+                pool.accumulatedPerShare += (rewardForPeriod * PRECISION) / totalStaked;
+                pool.lastUpdateTime = lastTimeRewardApplicable;
+            }
+
+            if (account !== undefined && this.stakes.get(key(account, periodIndex))?.initialized) {
+                const userStake = this.stakes.get(key(account, periodIndex))!;
+                const paidKey = key(account, periodIndex, token);
+                const paid = this.rewardPerSharePaid.get(paidKey) ?? 0n;
+                const delta = (userStake.amount * sub(pool.accumulatedPerShare, paid)) / PRECISION;
+                this.rewards.set(paidKey, (this.rewards.get(paidKey) ?? 0n) + delta);
+                this.rewardPerSharePaid.set(paidKey, pool.accumulatedPerShare);
+            }
+        }
+    }
+
+    /** Reward loop shared by `withdraw` and `claimRewards` */
+    private payRewards(account: string, periodIndex: number): TokenAmount[] {
+        const paid: TokenAmount[] = [];
+        for (const token of this.rewardTokens) {
+            const rewardKey = key(account, periodIndex, token);
+            const reward = this.rewards.get(rewardKey) ?? 0n;
+            if (reward === 0n) continue;
+
+            const transferAmount = min(reward, this.balances.of(token));
+            if (transferAmount > 0n) {
+                this.rewards.set(rewardKey, reward - transferAmount);
+                this.pool(periodIndex, token).totalDistributed += transferAmount;
+                this.balances.remove(token, transferAmount);
+                paid.push({ token, amount: transferAmount });
+            }
+        }
+        return paid;
+    }
+
+    private pool(periodIndex: number, token: string): ModelRewardPool {
+        const poolKey = key(periodIndex, token);
+        let pool = this.pools.get(poolKey);
+        if (!pool) {
+            pool = { totalReward: 0n, accumulatedPerShare: 0n, lastUpdateTime: 0n, totalDistributed: 0n, periodFinish: 0n, rewardRate: 0n };
+            this.pools.set(poolKey, pool);
+        }
+        return pool;
+    }
+
+    private checkPeriod(periodIndex: number): void {
+        if (periodIndex > MAX_PERIOD_INDEX) this.revert("INVALID_PERIOD");
+    }
+
+    private revert(code: RevertCode): never {
+        throw new ModelRevertError("AIXCBStaking", code);
+    }
+}
+
+// ============ AIXCBLPStaking ============
+
+export interface ModelLPRewardPool {
+    totalRewardAmount: bigint;
+    accumulatedPerShare: bigint;
+    lastUpdateTimestamp: bigint;
+    totalDistributedAmount: bigint;
+    rewardRatePerSecond: bigint;
+}
+
+interface ModelLPUserStake {
+    stakedAmount: bigint;
+    initialStakeTime: bigint;
+    lastUpdateTime: bigint;
+}
+
+/** Reference model of `AIXCBLPStaking` */
+export class LPStakingRewardModel {
+    readonly rewardTokens: string[] = [];
+    totalStakedAmount = 0n;
+
+    private readonly pools = new Map<string, ModelLPRewardPool>();
+    private readonly stakes = new Map<string, ModelLPUserStake>();
+    /** Survives `delete userStakes[user]`, as mappings inside a struct do */
+    private readonly rewardDebt = new Map<string, bigint>();
+
+    constructor(rewardTokens: string[]) {
+        rewardTokens.forEach((token) => this.addRewardToken(token));
+    }
+
+    addRewardToken(token: string): void {
+        const address = getAddress(token);
+        if (this.rewardTokens.includes(address)) this.revert("TOKEN_ALREADY_ADDED");
+        this.rewardTokens.push(address);
+    }
+
+    /** Seeds a pool from on-chain state, e.g. `rewardPools(token)` read before anyone stakes */
+    loadRewardPool(token: string, pool: ModelLPRewardPool): void {
+        const address = getAddress(token);
+        if (!this.rewardTokens.includes(address)) this.rewardTokens.push(address);
+        this.pools.set(address, { ...pool });
+    }
+
+    getRewardPool(token: string): ModelLPRewardPool {
+        return { ...this.pool(getAddress(token)) };
+    }
+
+    stakedAmount(user: string): bigint {
+        return this.stakes.get(getAddress(user))?.stakedAmount ?? 0n;
+    }
+
+    /** Mirrors the `getPendingRewards` view at `timestamp` */
+    getPendingRewards(user: string, token: string, timestamp: Timestamp): bigint {
+        const account = getAddress(user);
+        const address = getAddress(token);
+        if (!this.rewardTokens.includes(address)) this.revert("INVALID_TOKEN");
+
+        const userStake = this.stakes.get(account);
+        if (!userStake || userStake.stakedAmount === 0n) return 0n;
+
+        const pool = this.pool(address);
+        let accumulatedPerShare = pool.accumulatedPerShare;
+        if (this.totalStakedAmount > 0n) {
+            const reward = sub(BigInt(timestamp), pool.lastUpdateTimestamp) * pool.rewardRatePerSecond;
+            accumulatedPerShare += (reward * PRECISION) / this.totalStakedAmount;
+        }
+
+        return sub((userStake.stakedAmount * accumulatedPerShare) / PRECISION, this.rewardDebt.get(key(account, address)) ?? 0n);
+    }
+
+    fundRewardPool(token: string, amount: bigint, timestamp: Timestamp): void {
+        const address = getAddress(token);
+        if (!this.rewardTokens.includes(address)) this.revert("INVALID_TOKEN");
+        if (amount === 0n) this.revert("ZERO_AMOUNT");
+
+        const pool = this.pool(address);
+        this.updateRewardPool(address, BigInt(timestamp));
+
+        pool.totalRewardAmount += amount;
+        pool.rewardRatePerSecond = (pool.totalRewardAmount - pool.totalDistributedAmount) / YEAR;
+    }
+
+    /** Returns the rewards paid out of an existing stake before the top-up */
+    stake(user: string, amount: bigint, timestamp: Timestamp): TokenAmount[] {
+        const account = getAddress(user);
+        const now = BigInt(timestamp);
+        if (amount === 0n) this.revert("ZERO_AMOUNT");
+
+        const userStake = this.userStake(account);
+        const newTotalStake = userStake.stakedAmount + amount;
+        if (newTotalStake > LP_MAX_STAKE_AMOUNT) this.revert("EXCEEDS_MAX_STAKE");
+
+        const paid = this.updateRewards(account, now);
+        if (userStake.stakedAmount > 0n) {
+            paid.push(...this.claim(account));
+        }
+
+        this.totalStakedAmount += amount;
+        userStake.stakedAmount = BigInt.asUintN(UINT128_BITS, newTotalStake);
+        userStake.initialStakeTime = userStake.initialStakeTime === 0n ? now : userStake.initialStakeTime;
+        userStake.lastUpdateTime = now;
+
+        for (const token of this.rewardTokens) {
+            this.rewardDebt.set(key(account, token), (newTotalStake * this.pool(token).accumulatedPerShare) / PRECISION);
+        }
+        return paid;
+    }
+
+    /** Returns the rewards paid out alongside the withdrawal */
+    withdraw(user: string, amount: bigint, timestamp: Timestamp): TokenAmount[] {
+        const account = getAddress(user);
+        const now = BigInt(timestamp);
+        const userStake = this.userStake(account);
+        if (userStake.stakedAmount === 0n) this.revert("NO_STAKE_FOUND");
+        if (amount === 0n) this.revert("ZERO_AMOUNT");
+        if (amount > userStake.stakedAmount) this.revert("INVALID_AMOUNT");
+
+        const paid = [...this.updateRewards(account, now), ...this.claim(account)];
+
+        this.totalStakedAmount -= amount;
+        userStake.stakedAmount -= amount;
+        userStake.lastUpdateTime = now;
+
+        for (const token of this.rewardTokens) {
+            this.rewardDebt.set(key(account, token), (userStake.stakedAmount * this.pool(token).accumulatedPerShare) / PRECISION);
+        }
+        return paid;
+    }
+
+    claimRewards(user: string, timestamp: Timestamp): TokenAmount[] {
+        const account = getAddress(user);
+        return [...this.updateRewards(account, BigInt(timestamp)), ...this.claim(account)];
+    }
+
+    /** Returns the amount sent to the user and the fee sent to the treasury */
+    emergencyWithdraw(user: string): { amount: bigint; fee: bigint } {
+        const account = getAddress(user);
+        const userStake = this.userStake(account);
+        if (userStake.stakedAmount === 0n) this.revert("NO_STAKE_FOUND");
+
+        const total = userStake.stakedAmount;
+        const fee = (total * LP_EMERGENCY_WITHDRAW_FEE_BPS) / 10000n;
+
+        this.totalStakedAmount -= total;
+        this.stakes.delete(account);
+        return { amount: total - fee, fee };
+    }
+
+    /** `_updateRewards`: pool then user update, token by token */
+    private updateRewards(account: string, now: bigint): TokenAmount[] {
+        const paid: TokenAmount[] = [];
+        for (const token of this.rewardTokens) {
+            this.updateRewardPool(token, now);
+            const transfer = this.updateUserRewards(account, token);
+            if (transfer) paid.push(transfer);
+        }
+        return paid;
+    }
+
+    private updateRewardPool(token: string, now: bigint): void {
+        const pool = this.pool(token);
+
+        if (this.totalStakedAmount === 0n) {
+            pool.lastUpdateTimestamp = now;
+            return;
+        }
+
+        const timeDiff = sub(now, pool.lastUpdateTimestamp);
+        if (timeDiff > 0n) {
+            const reward = timeDiff * pool.rewardRatePerSecond;
+            pool.accumulatedPerShare += (reward * PRECISION) / this.totalStakedAmount;
+            pool.lastUpdateTimestamp = now;
+        }
+    }
+
+    /** Pays the pending amount capped at the pool's remaining budget; any excess is forfeited */
+    private updateUserRewards(account: string, token: string): TokenAmount | undefined {
+        const userStake = this.stakes.get(account);
+        if (!userStake || userStake.stakedAmount === 0n) return undefined;
+
+        const pool = this.pool(token);
+        const debtKey = key(account, token);
+        const pending = sub((userStake.stakedAmount * pool.accumulatedPerShare) / PRECISION, this.rewardDebt.get(debtKey) ?? 0n);
+
+        let transfer: TokenAmount | undefined;
+        if (pending > 0n) {
+            const remainingRewards = sub(pool.totalRewardAmount, pool.totalDistributedAmount);
+            const transferAmount = min(pending, remainingRewards);
+            if (transferAmount > 0n) {
+                pool.totalDistributedAmount += transferAmount;
+                transfer = { token, amount: transferAmount };
+            }
+        }
+
+        this.rewardDebt.set(debtKey, (userStake.stakedAmount * pool.accumulatedPerShare) / PRECISION);
+        return transfer;
+    }
+
+    private claim(account: string): TokenAmount[] {
+        return this.rewardTokens
+            .map((token) => this.updateUserRewards(account, token))
+            .filter((transfer): transfer is TokenAmount => transfer !== undefined);
+    }
+
+    private userStake(account: string): ModelLPUserStake {
+        let userStake = this.stakes.get(account);
+        if (!userStake) {
+            userStake = { stakedAmount: 0n, initialStakeTime: 0n, lastUpdateTime: 0n };
+            this.stakes.set(account, userStake);
+        }
+        return userStake;
+    }
+
+    private pool(token: string): ModelLPRewardPool {
+        let pool = this.pools.get(token);
+        if (!pool) {
+            pool = { totalRewardAmount: 0n, accumulatedPerShare: 0n, lastUpdateTimestamp: 0n, totalDistributedAmount: 0n, rewardRatePerSecond: 0n };
+            this.pools.set(token, pool);
+        }
+        return pool;
+    }
+
+    private revert(code: RevertCode): never {
+        throw new ModelRevertError("AIXCBLPStaking", code);
+    }
+}
@@ -0,0 +1,388 @@
+import { ContractRunner, Provider, ZeroAddress, getAddress, isAddress } from "ethers";
+import type { Artifacts } from "hardhat/types";
+import { parse } from "yaml";
+import { AIXCBStaking__factory } from "../typechain-types";
+import { ROLES } from "./constants";
+import { IMPLEMENTATION_SLOT, RoleName } from "./deployment";
+import { ContractName } from "./errors";
+import { getLogs } from "./utils";
+
+/**
+ * Audits who controls a deployment against a checked-in policy. Role
+ * membership is not enumerable on-chain, so it is rebuilt by replaying
+ * `RoleGranted` / `RoleRevoked` from the deployment block and confirmed with
+ * `hasRole`. For the proxy it reads the ERC-1967 implementation and admin
+ * slots, checks that the implementation's initializers are disabled (so
+ * nobody can `initialize` it directly) and compares its runtime bytecode
+ * with the local build, ignoring immutables and the metadata hash. Every
+ * difference from the policy is a failure; anything the audit could not
+ * establish for sure is a warning.
+ */
+
+/** ERC-1967 admin slot, `bytes32(uint256(keccak256("eip1967.proxy.admin")) - 1)` */
+export const ADMIN_SLOT = "0xb53127684a568b3173ae13b9f8a6016e243e63b6e8ee1178d6a717850b5d6103";
+/** OpenZeppelin v5 `Initializable` storage, `erc7201:openzeppelin.storage.Initializable` */
+export const INITIALIZABLE_SLOT = "0xf0c57e16840df040f15088dc2f81fe391c3923bec73e23a9662efc9c229c6a00";
+
+const DISABLED_VERSION = (1n << 64n) - 1n;
+
+export const DEFAULT_ARTIFACTS: Record<ContractName, string> = {
+    AIXCBStaking: "src/AIXCBStaking.sol:AIXCBStaking",
+    AIXCBLPStaking: "src/AIXCBLPStaking.sol:AIXCBLPStaking",
+};
+
+export interface ContractPolicy {
+    proxy?: string;
+    /** First block to replay role events from, e.g. the proxy deployment block */
+    fromBlock?: number;
+    /** Expected holders of every role, as addresses or `accounts` labels; `[]` for none */
+    roles: Record<RoleName, string[]>;
+    /** Pins the implementation; any upgrade is drift */
+    implementation?: string;
+    /** Expected ERC-1967 admin; UUPS proxies have none */
+    proxyAdmin?: string;
+    /** Fully qualified name of the local artifact the implementation must match */
+    artifact?: string;
+}
+
+export interface RolePolicy {
+    /** Labels for addresses, e.g. `treasurySafe: 0x…` */
+    accounts: Record<string, string>;
+    contracts: Partial<Record<ContractName, ContractPolicy>>;
+}
+
+export type AuditCheck = "roles" | "roleAdmin" | "implementation" | "proxyAdmin" | "initializers" | "bytecode";
+
+export interface AuditFinding {
+    severity: "failure" | "warning";
+    check: AuditCheck;
+    message: string;
+}
+
+export interface RoleMember {
+    account: string;
+    label?: string;
+    /** Block of the `RoleGranted` that is still in effect */
+    grantedAt: number;
+    transactionHash: string;
+}
+
+/** `disabled`: `_disableInitializers` ran; `open`: anyone can call `initialize`; `initialized`: someone did */
+export type InitializerState = { state: "disabled" | "open" | "initialized"; version: bigint; initializing: boolean };
+
+/** `metadata` means only the trailing metadata hash differs, e.g. a changed comment or path */
+export type BytecodeMatch = "exact" | "metadata" | "mismatch";
+
+export interface ContractAudit {
+    contract: ContractName;
+    proxy: string;
+    implementation: string;
+    proxyAdmin: string;
+    roles: Record<RoleName, RoleMember[]>;
+    /** Roles outside `ROLES` that have members */
+    unknownRoles: { role: string; members: RoleMember[] }[];
+    roleAdmins: Record<RoleName, string>;
+    initializers: InitializerState;
+    bytecode?: BytecodeMatch;
+    findings: AuditFinding[];
+}
+
+export interface AuditReport {
+    chainId: number;
+    blockNumber: number;
+    passed: boolean;
+    contracts: ContractAudit[];
+}
+
+export interface ArtifactBytecode {
+    /** Runtime bytecode as compiled, with immutables zero-filled */
+    deployedBytecode: string;
+    /** Byte ranges solc fills in at deployment */
+    immutableReferences: Record<string, { start: number; length: number }[]>;
+}
+
+export interface AuditOptions {
+    /** Proxies by contract, used where the policy names none */
+    proxies?: Partial<Record<ContractName, string>>;
+    /** Build artifacts for the bytecode check; skipped (with a warning) without them */
+    artifacts?: Pick<Artifacts, "getBuildInfo">;
+    blockNumber?: number;
+    /** Largest `eth_getLogs` block range; defaults to `DEFAULT_LOG_BATCH_SIZE` */
+    logBatchSize?: number;
+}
+
+function checkAddress(value: unknown, path: string): string {
+    if (typeof value !== "string" || !isAddress(value)) throw new Error(`${path} must be an address`);
+    if (getAddress(value) === ZeroAddress) throw new Error(`${path} is the zero address`);
+    return getAddress(value);
+}
+
+/** Parses a YAML or JSON role policy; every contract listed must name all four roles */
+export function parseRolePolicy(text: string): RolePolicy {
+    const raw = (parse(text) ?? {}) as Record<string, unknown>;
+    if (typeof raw !== "object" || Array.isArray(raw)) throw new Error("The role policy must be an object");
+
+    const accounts: Record<string, string> = {};
+    for (const [label, address] of Object.entries((raw.accounts ?? {}) as Record<string, unknown>)) {
+        accounts[label] = checkAddress(address, `accounts.${label}`);
+    }
+    const resolve = (entry: unknown, path: string) =>
+        typeof entry === "string" && accounts[entry] !== undefined ? accounts[entry] : checkAddress(entry, path);
+
+    const contracts: RolePolicy["contracts"] = {};
+    for (const [name, value] of Object.entries((raw.contracts ?? {}) as Record<string, unknown>)) {
+        if (!(name in DEFAULT_ARTIFACTS)) throw new Error(`contracts: unknown contract ${name}`);
+        const entry = (value ?? {}) as Record<string, unknown>;
+        const roles = (entry.roles ?? {}) as Record<string, unknown>;
+        for (const role of Object.keys(roles)) {
+            if (!(role in ROLES)) throw new Error(`contracts.${name}.roles: unknown role ${role}`);
+        }
+
+        const policy = { roles: {} } as ContractPolicy;
+        for (const role of Object.keys(ROLES) as RoleName[]) {
+            const holders = roles[role];
+            if (!Array.isArray(holders)) throw new Error(`contracts.${name}.roles.${role} must list its holders ([] for none)`);
+            policy.roles[role] = [...new Set(holders.map((holder, i) => resolve(holder, `contracts.${name}.roles.${role}[${i}]`)))];
+        }
+        if (entry.proxy !== undefined) policy.proxy = resolve(entry.proxy, `contracts.${name}.proxy`);
+        if (entry.implementation !== undefined) policy.implementation = resolve(entry.implementation, `contracts.${name}.implementation`);
+        if (entry.proxyAdmin !== undefined) policy.proxyAdmin = resolve(entry.proxyAdmin, `contracts.${name}.proxyAdmin`);
+        if (entry.fromBlock !== undefined) {
+            if (!Number.isSafeInteger(entry.fromBlock) || (entry.fromBlock as number) < 0) {
+                throw new Error(`contracts.${name}.fromBlock must be a non-negative integer`);
+            }
+            policy.fromBlock = entry.fromBlock as number;
+        }
+        if (entry.artifact !== undefined) {
+            if (typeof entry.artifact !== "string" || !entry.artifact.includes(":")) {
+                throw new Error(`contracts.${name}.artifact must be a fully qualified name like ${DEFAULT_ARTIFACTS[name as ContractName]}`);
+            }
+            policy.artifact = entry.artifact;
+        }
+        contracts[name as ContractName] = policy;
+    }
+    return { accounts, contracts };
+}
+
+/** Reads the runtime bytecode and immutable references of a compiled contract */
+export async function readArtifactBytecode(
+    artifacts: Pick<Artifacts, "getBuildInfo">,
+    fullyQualifiedName: string
+): Promise<ArtifactBytecode> {
+    const buildInfo = await artifacts.getBuildInfo(fullyQualifiedName);
+    if (!buildInfo) throw new Error(`No build info for ${fullyQualifiedName}; compile the contracts first`);
+
+    const separator = fullyQualifiedName.lastIndexOf(":");
+    const output = buildInfo.output.contracts[fullyQualifiedName.slice(0, separator)]?.[fullyQualifiedName.slice(separator + 1)];
+    if (!output?.evm?.deployedBytecode) throw new Error(`${fullyQualifiedName} has no deployed bytecode in its build info`);
+    return {
+        deployedBytecode: `0x${output.evm.deployedBytecode.object}`,
+        immutableReferences: output.evm.deployedBytecode.immutableReferences ?? {},
+    };
+}
+
+/** Drops the CBOR metadata solc appends; its length is in the last two bytes */
+function stripMetadata(code: string): string {
+    const length = parseInt(code.slice(-4), 16);
+    const end = code.length - (length + 2) * 2;
+    return Number.isNaN(length) || end < 2 ? code : code.slice(0, end);
+}
+
+/** Compares deployed runtime code with a local artifact, zero-filling the immutables first */
+export function compareBytecode(deployed: string, artifact: ArtifactBytecode): BytecodeMatch {
+    const expected = artifact.deployedBytecode.toLowerCase();
+    let actual = deployed.toLowerCase();
+    // Immutables sit in the code proper, so their offsets hold even if the metadata length differs
+    for (const ranges of Object.values(artifact.immutableReferences)) {
+        for (const { start, length } of ranges) {
+            const from = 2 + start * 2;
+            actual = actual.slice(0, from) + "0".repeat(length * 2) + actual.slice(from + length * 2);
+        }
+    }
+    if (actual === expected) return "exact";
+    return stripMetadata(actual) === stripMetadata(expected) ? "metadata" : "mismatch";
+}
+
+export async function readInitializerState(runner: ContractRunner, implementation: string, blockTag?: number): Promise<InitializerState> {
+    if (!runner.provider) throw new Error("A runner with a provider is required");
+    const slot = BigInt(await runner.provider.getStorage(implementation, INITIALIZABLE_SLOT, blockTag));
+    const version = slot & DISABLED_VERSION;
+    const initializing = (slot >> 64n) % 256n !== 0n;
+    const state = version === DISABLED_VERSION ? "disabled" : version === 0n ? "open" : "initialized";
+    return { state, version, initializing };
+}
+
+/** Replays `RoleGranted` / `RoleRevoked` into the current holders of every role hash seen */
+async function replayRoles(
+    provider: Provider,
+    proxy: string,
+    fromBlock: number,
+    toBlock: number,
+    batchSize?: number
+): Promise<Map<string, Map<string, Omit<RoleMember, "label">>>> {
+    const iface = AIXCBStaking__factory.createInterface();
+    const granted = iface.getEvent("RoleGranted").topicHash;
+    const revoked = iface.getEvent("RoleRevoked").topicHash;
+
+    const roles = new Map<string, Map<string, Omit<RoleMember, "label">>>();
+    const logs = await getLogs(provider, { address: proxy, topics: [[granted, revoked]] }, fromBlock, toBlock, batchSize);
+    logs.sort((a, b) => a.blockNumber - b.blockNumber || a.index - b.index);
+    for (const log of logs) {
+        const role = log.topics[1];
+        const account = getAddress(`0x${log.topics[2].slice(-40)}`);
+        if (!roles.has(role)) roles.set(role, new Map());
+        if (log.topics[0] === granted) {
+            roles.get(role)!.set(account, { account, grantedAt: log.blockNumber, transactionHash: log.transactionHash });
+        } else {
+            roles.get(role)!.delete(account);
+        }
+    }
+    return roles;
+}
+
+async function auditContract(
+    provider: Provider,
+    contract: ContractName,
+    proxy: string,
+    policy: ContractPolicy,
+    labels: Map<string, string>,
+    blockNumber: number,
+    options: AuditOptions
+): Promise<ContractAudit> {
+    // Both contracts share the AccessControl ABI
+    const access = AIXCBStaking__factory.connect(proxy, provider);
+    const blockTag = blockNumber;
+    const findings: AuditFinding[] = [];
+    const fail = (check: AuditCheck, message: string) => findings.push({ severity: "failure", check, message });
+    const warn = (check: AuditCheck, message: string) => findings.push({ severity: "warning", check, message });
+    const name = (account: string) => (labels.has(account) ? `${labels.get(account)} (${account})` : account);
+
+    const replayed = await replayRoles(provider, proxy, policy.fromBlock ?? 0, blockNumber, options.logBatchSize);
+    const membersOf = (role: string) => [...(replayed.get(role)?.values() ?? [])].map((member) => ({ ...member, label: labels.get(member.account) }));
+
+    const roles = {} as Record<RoleName, RoleMember[]>;
+    const roleAdmins = {} as Record<RoleName, string>;
+    for (const [roleName, role] of Object.entries(ROLES) as [RoleName, string][]) {
+        roles[roleName] = membersOf(role);
+        const holders = new Set(roles[roleName].map((member) => member.account));
+        for (const member of roles[roleName]) {
+            if (!(await access.hasRole(role, member.account, { blockTag }))) {
+                warn("roles", `${roleName}: events show ${name(member.account)} as a holder but hasRole is false`);
+            }
+        }
+        for (const expected of policy.roles[roleName]) {
+            if (holders.has(expected)) continue;
+            if (await access.hasRole(role, expected, { blockTag })) {
+                // Held, but granted before `fromBlock`
+                warn("roles", `${roleName}: ${name(expected)} holds the role but its grant is before block ${policy.fromBlock ?? 0}`);
+            } else {
+                fail("roles", `${roleName}: ${name(expected)} is missing`);
+            }
+        }
+        for (const account of holders) {
+            if (!policy.roles[roleName].includes(account)) fail("roles", `${roleName}: ${name(account)} is not in the policy`);
+        }
+
+        roleAdmins[roleName] = await access.getRoleAdmin(role, { blockTag });
+        if (roleAdmins[roleName] !== ROLES.DEFAULT_ADMIN_ROLE) {
+            fail("roleAdmin", `${roleName} is administered by ${roleAdmins[roleName]} instead of DEFAULT_ADMIN_ROLE`);
+        }
+    }
+    const known = new Set<string>(Object.values(ROLES));
+    const unknownRoles = [...replayed.keys()]
+        .filter((role) => !known.has(role))
+        .map((role) => ({ role, members: membersOf(role) }))
+        .filter((entry) => entry.members.length > 0);
+    for (const entry of unknownRoles) fail("roles", `Unknown role ${entry.role} has ${entry.members.length} holder(s)`);
+
+    const implementation = getAddress(`0x${(await provider.getStorage(proxy, IMPLEMENTATION_SLOT, blockTag)).slice(-40)}`);
+    if (policy.implementation !== undefined && implementation !== policy.implementation) {
+        fail("implementation", `Implementation is ${implementation}, the policy pins ${policy.implementation}`);
+    }
+    const code = await provider.getCode(implementation, blockTag);
+    if (code === "0x") fail("implementation", `Implementation ${implementation} has no code`);
+
+    const adminSlot = await provider.getStorage(proxy, ADMIN_SLOT, blockTag);
+    const proxyAdmin = getAddress(`0x${adminSlot.slice(-40)}`);
+    if (proxyAdmin !== (policy.proxyAdmin ?? ZeroAddress)) {
+        fail("proxyAdmin", `ERC-1967 admin is ${name(proxyAdmin)}, expected ${policy.proxyAdmin ?? "none"}`);
+    }
+
+    const initializers = await readInitializerState(provider, implementation, blockTag);
+    if (initializers.state === "open") {
+        fail("initializers", `Anyone can call initialize on the implementation ${implementation}; its initializers are not disabled`);
+    } else if (initializers.state === "initialized") {
+        fail("initializers", `The implementation ${implementation} was initialized directly (version ${initializers.version})`);
+    }
+
+    let bytecode: BytecodeMatch | undefined;
+    const artifact = policy.artifact ?? DEFAULT_ARTIFACTS[contract];
+    if (!options.artifacts) {
+        warn("bytecode", "No build artifacts given; bytecode not compared");
+    } else if (code !== "0x") {
+        bytecode = compareBytecode(code, await readArtifactBytecode(options.artifacts, artifact));
+        if (bytecode === "mismatch") fail("bytecode", `Runtime bytecode of ${implementation} does not match ${artifact}`);
+        if (bytecode === "metadata") warn("bytecode", `Runtime bytecode matches ${artifact} except for the metadata hash`);
+    }
+
+    return {
+        contract,
+        proxy,
+        implementation,
+        proxyAdmin,
+        roles,
+        unknownRoles,
+        roleAdmins,
+        initializers,
+        bytecode,
+        findings,
+    };
+}
+
+/** Audits every contract in `policy`; the report passes when no check failed */
+export async function auditDeployment(runner: ContractRunner, policy: RolePolicy, options: AuditOptions = {}): Promise<AuditReport> {
+    const provider = runner.provider;
+    if (!provider) throw new Error("A runner with a provider is required");
+    const blockNumber = options.blockNumber ?? (await provider.getBlockNumber());
+    const labels = new Map(Object.entries(policy.accounts).map(([label, address]) => [address, label]));
+
+    const contracts: ContractAudit[] = [];
+    for (const [contract, contractPolicy] of Object.entries(policy.contracts) as [ContractName, ContractPolicy][]) {
+        const proxy = contractPolicy.proxy ?? options.proxies?.[contract];
+        if (proxy === undefined) throw new Error(`No proxy address for ${contract}; set contracts.${contract}.proxy in the policy`);
+        contracts.push(await auditContract(provider, contract, getAddress(proxy), contractPolicy, labels, blockNumber, options));
+    }
+    return {
+        chainId: Number((await provider.getNetwork()).chainId),
+        blockNumber,
+        passed: contracts.every((contract) => contract.findings.every((finding) => finding.severity !== "failure")),
+        contracts,
+    };
+}
+
+export function formatAuditJson(report: AuditReport): string {
+    return JSON.stringify(report, (_, value) => (typeof value === "bigint" ? value.toString() : value), 2);
+}
+
+export function formatAuditMarkdown(report: AuditReport): string {
+    const lines = [`# Role and proxy audit: ${report.passed ? "PASSED" : "FAILED"}`, "", `Chain ${report.chainId}, block ${report.blockNumber}`];
+    for (const audit of report.contracts) {
+        lines.push(
+            "",
+            `## ${audit.contract} ${audit.proxy}`,
+            "",
+            `Implementation ${audit.implementation}: initializers ${audit.initializers.state}, bytecode ${audit.bytecode ?? "not compared"}`,
+            "",
+            "| Role | Holders |",
+            "|------|---------|"
+        );
+        for (const [role, members] of Object.entries(audit.roles)) {
+            const holders = members.map((member) => (member.label ? `${member.label} (${member.account})` : member.account));
+            lines.push(`| ${role} | ${holders.join(", ") || "none"} |`);
+        }
+        if (audit.findings.length > 0) {
+            lines.push("", ...audit.findings.map((finding) => `- ${finding.severity.toUpperCase()} ${finding.check}: ${finding.message}`));
+        }
+    }
+    return lines.join("\n") + "\n";
+}
@@ -0,0 +1,393 @@
+import { ContractRunner, getAddress, isAddress, isHexString, parseUnits, toBeHex } from "ethers";
+import { parse, stringify } from "yaml";
+import { IERC20Metadata__factory } from "../typechain-types";
+import { PERIOD_LABELS, PeriodLabel } from "./constants";
+import { AdminCall, AdminClient, StateChange } from "./admin";
+import { RoleName } from "./deployment";
+import { ContractName, DecodedRevert, decodeRevert } from "./errors";
+import { RpcProvider, sendImpersonated, takeSnapshot } from "./utils";
+
+/**
+ * Safe Transaction Builder batches from a declarative action plan. A plan
+ * (YAML or JSON) lists funding, circuit breaker, reward token and upgrade
+ * actions; `buildSafeBatch` reads the chain to encode them as the Safe, and
+ * `simulateBatch` replays the batch on a Hardhat node impersonating the Safe.
+ *
+ *   name: March funding
+ *   chainId: 8453
+ *   safe: "0x…"
+ *   contracts: { staking: "0x…", lp: "0x…" }
+ *   actions:
+ *     - { type: fund-pool, contract: staking, period: [90d, 180d, 360d], token: "0x…", amount: "250000" }
+ *     - { type: circuit, contract: lp, circuit: withdraw, state: off }
+ *     - { type: reward-token, contract: lp, action: add, token: "0x…" }
+ *     - { type: upgrade, contract: staking, implementation: "0x…" }
+ */
+
+export type PlanContract = "staking" | "lp";
+
+export type PlanAction =
+    | {
+          type: "fund-pool";
+          contract: PlanContract;
+          token: string;
+          /** Token units, e.g. `"250000"` */
+          amount: string;
+          /** `AIXCBStaking` only; a list funds each period with `amount` */
+          period?: PeriodLabel | PeriodLabel[];
+      }
+    | { type: "circuit"; contract: PlanContract; circuit: string; state: "on" | "off" }
+    | { type: "reward-token"; contract: PlanContract; action: "add" | "remove"; token: string }
+    | { type: "upgrade"; contract: PlanContract; implementation: string; data?: string };
+
+/** Who executes a plan, and where; shared with the funding planner's target files */
+export interface PlanHeader {
+    name: string;
+    description?: string;
+    chainId: number;
+    safe: string;
+    contracts: Partial<Record<PlanContract, string>>;
+}
+
+export interface ActionPlan extends PlanHeader {
+    actions: PlanAction[];
+}
+
+/** Transaction entry of the Safe Transaction Builder's JSON format */
+export interface SafeTransaction {
+    to: string;
+    value: string;
+    data: string;
+    contractMethod: null;
+    contractInputsValues: null;
+}
+
+export interface SafeBatchFile {
+    version: "1.0";
+    chainId: string;
+    createdAt: number;
+    meta: {
+        name: string;
+        description: string;
+        txBuilderVersion: string;
+        createdFromSafeAddress: string;
+        createdFromOwnerAddress: string;
+    };
+    transactions: SafeTransaction[];
+}
+
+export interface BatchStep {
+    description: string;
+    contract: ContractName | "ERC20";
+    to: string;
+    data: string;
+    /** Role the Safe needs; absent for token approvals */
+    role?: RoleName;
+    changes: StateChange[];
+}
+
+export interface BuiltBatch {
+    plan: ActionPlan;
+    file: SafeBatchFile;
+    steps: BatchStep[];
+    /** Actions left out because the contract is already in the requested state */
+    skipped: string[];
+    /** Roles the Safe does not hold; the batch would revert */
+    warnings: string[];
+    blockNumber: number;
+}
+
+export interface SimulatedStep {
+    step: BatchStep;
+    success: boolean;
+    gasUsed?: bigint;
+    revert?: DecodedRevert;
+    error?: string;
+}
+
+export interface SimulationResult {
+    success: boolean;
+    /** Steps up to and including the first failure */
+    steps: SimulatedStep[];
+}
+
+export class PlanError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = "PlanError";
+    }
+}
+
+const TX_BUILDER_VERSION = "1.16.5";
+
+const CONTRACT_NAMES: Record<PlanContract, ContractName> = { staking: "AIXCBStaking", lp: "AIXCBLPStaking" };
+
+export function expectString(value: unknown, where: string): string {
+    if (typeof value !== "string" || value.length === 0) throw new PlanError(`${where} must be a non-empty string`);
+    return value;
+}
+
+export function expectAddress(value: unknown, where: string): string {
+    if (typeof value !== "string" || !isAddress(value)) throw new PlanError(`${where} must be an address`);
+    return getAddress(value);
+}
+
+export function expectOneOf<T extends string>(value: unknown, options: readonly T[], where: string): T {
+    if (!options.includes(value as T)) throw new PlanError(`${where} must be one of ${options.join(", ")}`);
+    return value as T;
+}
+
+/** Amounts are strings so YAML never rounds them; small integers are accepted as numbers */
+export function expectAmount(value: unknown, where: string): string {
+    if (typeof value === "number" && Number.isSafeInteger(value) && value > 0) return String(value);
+    if (typeof value !== "string" || !/^\d+(\.\d+)?$/.test(value)) {
+        throw new PlanError(`${where} must be a decimal amount in token units, quoted, e.g. "250000"`);
+    }
+    return value;
+}
+
+function parseAction(raw: unknown, where: string, plan: Pick<ActionPlan, "contracts">): PlanAction {
+    if (typeof raw !== "object" || raw === null) throw new PlanError(`${where} must be an object`);
+    const action = raw as Record<string, unknown>;
+    const type = expectOneOf(action.type, ["fund-pool", "circuit", "reward-token", "upgrade"] as const, `${where}.type`);
+    const contract = expectOneOf(action.contract, ["staking", "lp"] as const, `${where}.contract`);
+    if (plan.contracts[contract] === undefined) throw new PlanError(`${where}.contract: contracts.${contract} is not set`);
+
+    switch (type) {
+        case "fund-pool": {
+            const period = action.period;
+            if (contract === "lp" && period !== undefined) throw new PlanError(`${where}.period: AIXCBLPStaking has one pool per token`);
+            if (contract === "staking") {
+                const periods = Array.isArray(period) ? period : [period];
+                if (periods.length === 0) throw new PlanError(`${where}.period must list at least one period`);
+                periods.forEach((p, i) => expectOneOf(p, PERIOD_LABELS, `${where}.period${Array.isArray(period) ? `[${i}]` : ""}`));
+            }
+            return {
+                type,
+                contract,
+                token: expectAddress(action.token, `${where}.token`),
+                amount: expectAmount(action.amount, `${where}.amount`),
+                period: period as PeriodLabel | PeriodLabel[] | undefined,
+            };
+        }
+        case "circuit":
+            return {
+                type,
+                contract,
+                circuit: expectString(action.circuit, `${where}.circuit`),
+                state: expectOneOf(action.state, ["on", "off"] as const, `${where}.state`),
+            };
+        case "reward-token":
+            return {
+                type,
+                contract,
+                action: expectOneOf(action.action, ["add", "remove"] as const, `${where}.action`),
+                token: expectAddress(action.token, `${where}.token`),
+            };
+        case "upgrade": {
+            const data = action.data ?? "0x";
+            if (typeof data !== "string" || !isHexString(data)) throw new PlanError(`${where}.data must be hex calldata`);
+            return { type, contract, implementation: expectAddress(action.implementation, `${where}.implementation`), data };
+        }
+    }
+}
+
+/** Parses YAML or JSON into an object, without validating it */
+export function parsePlanDocument(text: string): Record<string, unknown> {
+    const raw = parse(text) as Record<string, unknown> | null;
+    if (typeof raw !== "object" || raw === null || Array.isArray(raw)) throw new PlanError("The plan must be an object");
+    return raw;
+}
+
+export function parsePlanHeader(raw: Record<string, unknown>): PlanHeader {
+    const chainId = raw.chainId;
+    if (typeof chainId !== "number" || !Number.isSafeInteger(chainId) || chainId <= 0) {
+        throw new PlanError("chainId must be a positive integer");
+    }
+    const rawContracts = (raw.contracts ?? {}) as Record<string, unknown>;
+    const contracts: ActionPlan["contracts"] = {};
+    for (const key of Object.keys(rawContracts)) {
+        const contract = expectOneOf(key, ["staking", "lp"] as const, `contracts.${key}`);
+        contracts[contract] = expectAddress(rawContracts[key], `contracts.${key}`);
+    }
+
+    return {
+        name: expectString(raw.name, "name"),
+        description: raw.description === undefined ? undefined : expectString(raw.description, "description"),
+        chainId,
+        safe: expectAddress(raw.safe, "safe"),
+        contracts,
+    };
+}
+
+/** Parses and validates a YAML or JSON action plan */
+export function parseActionPlan(text: string): ActionPlan {
+    const raw = parsePlanDocument(text);
+    const header = parsePlanHeader(raw);
+    if (!Array.isArray(raw.actions) || raw.actions.length === 0) throw new PlanError("actions must list at least one action");
+
+    return { ...header, actions: raw.actions.map((action, i) => parseAction(action, `actions[${i}]`, header)) };
+}
+
+/** Writes a plan back as YAML, e.g. one generated by the funding planner */
+export function stringifyActionPlan(plan: ActionPlan): string {
+    return stringify(plan);
+}
+
+function stepOf(client: AdminClient, call: AdminCall): BatchStep {
+    return {
+        description: call.description,
+        contract: call.contract,
+        to: client.contract.target as string,
+        data: client.contract.interface.encodeFunctionData(call.method, call.args),
+        role: call.role,
+        changes: call.changes,
+    };
+}
+
+/**
+ * Encodes a plan as a Safe Transaction Builder batch. Current state is read
+ * at the latest block: a circuit already in the requested state, or a token
+ * already added or removed, is skipped. Each funding call is preceded by an
+ * `approve` of exactly its amount, so the Safe needs no standing allowance.
+ */
+export async function buildSafeBatch(plan: ActionPlan, runner: ContractRunner): Promise<BuiltBatch> {
+    if (!runner.provider) throw new Error("A runner with a provider is required");
+    const network = await runner.provider.getNetwork();
+    if (network.chainId !== BigInt(plan.chainId)) {
+        throw new PlanError(`The plan targets chain ${plan.chainId}, but the provider is on chain ${network.chainId}`);
+    }
+
+    const steps: BatchStep[] = [];
+    const skipped: string[] = [];
+    const missingRoles = new Set<string>();
+
+    for (const action of plan.actions) {
+        const client = new AdminClient(CONTRACT_NAMES[action.contract], plan.contracts[action.contract]!, runner);
+        let calls: AdminCall[];
+        switch (action.type) {
+            case "fund-pool": {
+                const token = IERC20Metadata__factory.connect(action.token, runner);
+                const amount = parseUnits(action.amount, await token.decimals());
+                const periods = action.period === undefined ? [undefined] : ([] as PeriodLabel[]).concat(action.period);
+                calls = [];
+                for (const period of periods) calls.push(await client.fundPool(plan.safe, action.token, amount, period));
+                break;
+            }
+            case "circuit":
+                calls = [await client.setCircuit(action.circuit, action.state === "on")];
+                break;
+            case "reward-token":
+                calls = [action.action === "add" ? await client.addRewardToken(action.token) : await client.removeRewardToken(action.token)];
+                break;
+            case "upgrade":
+                calls = [await client.upgradeTo(action.implementation, action.data)];
+                break;
+        }
+
+        for (const call of calls) {
+            if (!call.required) {
+                skipped.push(`${call.contract}: ${call.description} (${call.changes.map((c) => `${c.label} already ${c.current}`).join(", ")})`);
+                continue;
+            }
+            if (!(await client.hasRole(call.role, plan.safe))) missingRoles.add(`${call.contract} ${call.role}`);
+            if (call.approval) {
+                const token = IERC20Metadata__factory.connect(call.approval.token, runner);
+                steps.push({
+                    description: `approve(${call.contract}, ${call.approval.amount}) on ${await token.symbol()}`,
+                    contract: "ERC20",
+                    to: call.approval.token,
+                    data: token.interface.encodeFunctionData("approve", [client.contract.target as string, call.approval.amount]),
+                    changes: [],
+                });
+            }
+            steps.push(stepOf(client, call));
+        }
+    }
+
+    return {
+        plan,
+        file: {
+            version: "1.0",
+            chainId: String(plan.chainId),
+            createdAt: Date.now(),
+            meta: {
+                name: plan.name,
+                description: plan.description ?? "",
+                txBuilderVersion: TX_BUILDER_VERSION,
+                createdFromSafeAddress: plan.safe,
+                createdFromOwnerAddress: "",
+            },
+            transactions: steps.map((step) => ({
+                to: step.to,
+                value: "0",
+                data: step.data,
+                contractMethod: null,
+                contractInputsValues: null,
+            })),
+        },
+        steps,
+        skipped,
+        warnings: [...missingRoles].map((missing) => `The Safe does not hold ${missing}`),
+        blockNumber: await runner.provider.getBlockNumber(),
+    };
+}
+
+/** Human-readable summary for the Safe signers to check the batch against */
+export function formatBatchSummary(batch: BuiltBatch): string {
+    const lines = [
+        `${batch.plan.name}: ${batch.steps.length} transactions from Safe ${batch.plan.safe} on chain ${batch.plan.chainId}`,
+        `State read at block ${batch.blockNumber}`,
+    ];
+    batch.steps.forEach((step, i) => {
+        lines.push(`${String(i + 1).padStart(3)}. ${step.contract} ${step.to}`);
+        lines.push(`     ${step.description}${step.role ? ` [${step.role}]` : ""}`);
+        for (const change of step.changes) lines.push(`     ${change.label}: ${change.current} -> ${change.resulting}`);
+    });
+    for (const skipped of batch.skipped) lines.push(`Skipped ${skipped}`);
+    for (const warning of batch.warnings) lines.push(`WARNING: ${warning}`);
+    return lines.join("\n");
+}
+
+/**
+ * Replays the batch in order from the impersonated Safe and reverts the node
+ * to its prior state. Needs a Hardhat node (or forked network) with automine;
+ * stops at the first failing transaction.
+ */
+export async function simulateBatch(provider: RpcProvider, batch: BuiltBatch): Promise<SimulationResult> {
+    const safe = batch.plan.safe;
+    const snapshot = await takeSnapshot(provider);
+    const steps: SimulatedStep[] = [];
+    try {
+        await provider.send("hardhat_impersonateAccount", [safe]);
+        await provider.send("hardhat_setBalance", [safe, toBeHex(10n ** 18n)]);
+
+        for (const step of batch.steps) {
+            try {
+                const receipt = await sendImpersonated(provider, { from: safe, to: step.to, data: step.data });
+                const success = receipt?.status === "0x1";
+                steps.push({ step, success, gasUsed: receipt ? BigInt(receipt.gasUsed) : undefined });
+            } catch (error) {
+                const contract = step.contract === "ERC20" ? "AIXCBStaking" : step.contract;
+                const revert = decodeRevert(error, contract);
+                steps.push({ step, success: false, revert, error: revert ? undefined : String(error) });
+            }
+            if (!steps[steps.length - 1].success) break;
+        }
+    } finally {
+        await provider.send("hardhat_stopImpersonatingAccount", [safe]);
+        await provider.send("evm_revert", [snapshot]);
+    }
+    return { success: steps.length === batch.steps.length && steps.every((step) => step.success), steps };
+}
+
+export function formatSimulation(result: SimulationResult): string {
+    const lines = result.steps.map((simulated, i) => {
+        const { step } = simulated;
+        if (simulated.success) return `${String(i + 1).padStart(3)}. ok      ${step.description} (gas ${simulated.gasUsed})`;
+        const reason = simulated.revert ? `${simulated.revert.name}: ${simulated.revert.message}` : simulated.error;
+        return `${String(i + 1).padStart(3)}. REVERT  ${step.description}: ${reason}`;
+    });
+    lines.push(result.success ? "Simulation passed" : "Simulation failed; the batch would revert");
+    return lines.join("\n");
+}
@@ -0,0 +1,280 @@
+import { StandardMerkleTree } from "@openzeppelin/merkle-tree";
+import { ContractRunner, getAddress, parseUnits } from "ethers";
+import { parse } from "yaml";
+import { AIXCBLPStaking__factory, AIXCBStaking__factory, IERC20Metadata__factory } from "../typechain-types";
+import { TokenInfo } from "./analytics";
+import { MAX_PERIOD_INDEX, PERIOD_LABELS, PeriodLabel, periodLabelOf } from "./constants";
+import { StakingClient } from "./StakingClient";
+import { findLPStakers } from "./utils";
+
+/**
+ * Who was staked, in which period and for how much, at one block of both
+ * contracts, for airdrops and partner campaigns. `AIXCBStaking` stakers come
+ * from `getStakersForPeriod`; `AIXCBLPStaking` keeps no list, so its stakers
+ * come from `StakeDeposited` logs. Addresses that withdrew are left out.
+ *
+ * A snapshot can be turned into an OpenZeppelin `StandardMerkleTree` of
+ * `[address account, uint256 amount]` leaves, verifiable on-chain with
+ * `MerkleProof.verify` against `keccak256(bytes.concat(keccak256(abi.encode(account, amount))))`.
+ * Eligibility rules are YAML or JSON:
+ *
+ *   contract: staking              # or lp
+ *   periods: [180d, 360d]          # staking only; all periods by default
+ *   minAmount: "10000"             # eligible stake per address, in staked token units
+ *   stakedBefore: "2026-10-01T00:00:00Z"   # startTime (lp: initialStakeTime) at or before
+ *   lockedUntil: "2027-01-01T00:00:00Z"    # staking only: endTime at or after
+ *   allocation: "500"              # fixed 18-decimal leaf amount; the eligible stake by default
+ */
+
+export interface SnapshotReward {
+    token: string;
+    amount: bigint;
+}
+
+export interface SnapshotPeriodStake {
+    user: string;
+    period: PeriodLabel;
+    amount: bigint;
+    startTime: number;
+    endTime: number;
+    pendingRewards: SnapshotReward[];
+}
+
+export interface SnapshotLPStake {
+    user: string;
+    stakedAmount: bigint;
+    initialStakeTime: number;
+    pendingRewards: SnapshotReward[];
+}
+
+export interface ContractSnapshot<T> {
+    address: string;
+    stakedToken: TokenInfo;
+    rewardTokens: string[];
+    stakes: T[];
+}
+
+export interface StakerSnapshot {
+    chainId: number;
+    blockNumber: number;
+    blockTimestamp: number;
+    staking?: ContractSnapshot<SnapshotPeriodStake>;
+    lp?: ContractSnapshot<SnapshotLPStake>;
+}
+
+export interface SnapshotOptions {
+    staking?: string;
+    lp?: string;
+    /** First block to scan for `StakeDeposited`, usually the proxy deployment block */
+    lpFromBlock?: number;
+    /** Largest `eth_getLogs` block range; defaults to `DEFAULT_LOG_BATCH_SIZE` */
+    logBatchSize?: number;
+    /** Defaults to the latest */
+    blockNumber?: number;
+}
+
+export interface EligibilityRules {
+    contract: "staking" | "lp";
+    periods?: PeriodLabel[];
+    minAmount?: string;
+    stakedBefore?: number;
+    lockedUntil?: number;
+    allocation?: string;
+}
+
+export interface MerkleAllocation {
+    root: string;
+    tree: StandardMerkleTree<[string, string]>;
+    /** Keyed by checksummed address */
+    proofs: Record<string, { amount: bigint; proof: string[] }>;
+}
+
+export const MERKLE_LEAF_ENCODING = ["address", "uint256"];
+
+async function stakedToken(runner: ContractRunner, address: string, blockTag: number): Promise<TokenInfo> {
+    const erc20 = IERC20Metadata__factory.connect(address, runner);
+    const [symbol, decimals] = await Promise.all([erc20.symbol({ blockTag }), erc20.decimals({ blockTag })]);
+    return { token: getAddress(address), symbol, decimals: Number(decimals) };
+}
+
+async function snapshotStaking(runner: ContractRunner, address: string, blockTag: number): Promise<ContractSnapshot<SnapshotPeriodStake>> {
+    const staking = AIXCBStaking__factory.connect(address, runner);
+    const [token, rewardTokens] = await Promise.all([
+        staking.stakingToken({ blockTag }).then((stakingToken) => stakedToken(runner, stakingToken, blockTag)),
+        new StakingClient(address, runner).getRewardTokens(blockTag),
+    ]);
+
+    const stakes: SnapshotPeriodStake[] = [];
+    for (let periodIndex = 0; periodIndex <= MAX_PERIOD_INDEX; periodIndex++) {
+        // Stakers stay listed after they withdraw
+        for (const user of await staking.getStakersForPeriod(periodIndex, { blockTag })) {
+            const stake = await staking.getUserStake(user, periodIndex, { blockTag });
+            if (stake.amount === 0n) continue;
+            const pendingRewards: SnapshotReward[] = [];
+            for (const rewardToken of rewardTokens) {
+                pendingRewards.push({ token: rewardToken, amount: await staking.pendingRewards(user, periodIndex, rewardToken, { blockTag }) });
+            }
+            stakes.push({
+                user: getAddress(user),
+                period: periodLabelOf(periodIndex),
+                amount: stake.amount,
+                startTime: Number(stake.startTime),
+                endTime: Number(stake.endTime),
+                pendingRewards,
+            });
+        }
+    }
+    return { address: getAddress(address), stakedToken: token, rewardTokens, stakes };
+}
+
+async function snapshotLPStaking(
+    runner: ContractRunner,
+    address: string,
+    blockTag: number,
+    options: SnapshotOptions
+): Promise<ContractSnapshot<SnapshotLPStake>> {
+    const lpStaking = AIXCBLPStaking__factory.connect(address, runner);
+    const [token, rewardTokens] = await Promise.all([
+        lpStaking.lpToken({ blockTag }).then((lpToken) => stakedToken(runner, lpToken, blockTag)),
+        lpStaking.getRewardTokens({ blockTag }),
+    ]);
+
+    const stakes: SnapshotLPStake[] = [];
+    for (const user of await findLPStakers(runner, address, options.lpFromBlock ?? 0, blockTag, options.logBatchSize)) {
+        const stake = await lpStaking.userStakes(user, { blockTag });
+        if (stake.stakedAmount === 0n) continue;
+        const pendingRewards: SnapshotReward[] = [];
+        for (const rewardToken of rewardTokens) {
+            pendingRewards.push({ token: rewardToken, amount: await lpStaking.getPendingRewards(user, rewardToken, { blockTag }) });
+        }
+        stakes.push({ user, stakedAmount: stake.stakedAmount, initialStakeTime: Number(stake.initialStakeTime), pendingRewards });
+    }
+    return { address: getAddress(address), stakedToken: token, rewardTokens: [...rewardTokens], stakes };
+}
+
+export async function takeSnapshot(runner: ContractRunner, options: SnapshotOptions): Promise<StakerSnapshot> {
+    if (!runner.provider) throw new Error("A runner with a provider is required");
+    if (options.staking === undefined && options.lp === undefined) throw new Error("Give a staking and/or lp address");
+
+    const blockNumber = options.blockNumber ?? (await runner.provider.getBlockNumber());
+    const block = await runner.provider.getBlock(blockNumber);
+    if (!block) throw new Error(`Unable to fetch block ${blockNumber}`);
+
+    return {
+        chainId: Number((await runner.provider.getNetwork()).chainId),
+        blockNumber,
+        blockTimestamp: block.timestamp,
+        staking: options.staking === undefined ? undefined : await snapshotStaking(runner, options.staking, blockNumber),
+        lp: options.lp === undefined ? undefined : await snapshotLPStaking(runner, options.lp, blockNumber, options),
+    };
+}
+
+/** JSON with amounts as decimal strings of base units */
+export function formatSnapshotJson(snapshot: StakerSnapshot): string {
+    return JSON.stringify(snapshot, (_, value) => (typeof value === "bigint" ? value.toString() : value), 2);
+}
+
+/**
+ * One row per stake, amounts in base units. LP rows leave `period` and
+ * `endTime` empty and use `initialStakeTime` as `startTime`. Each reward
+ * token has a `pending:<address>` column.
+ */
+export function formatSnapshotCsv(snapshot: StakerSnapshot): string {
+    const tokens = [...new Set([...(snapshot.staking?.rewardTokens ?? []), ...(snapshot.lp?.rewardTokens ?? [])])];
+    const pending = (rewards: SnapshotReward[]) =>
+        tokens.map((token) => rewards.find((reward) => reward.token === token)?.amount.toString() ?? "");
+
+    const rows = [["contract", "user", "period", "amount", "startTime", "endTime", ...tokens.map((token) => `pending:${token}`)]];
+    for (const stake of snapshot.staking?.stakes ?? []) {
+        rows.push([
+            "AIXCBStaking",
+            stake.user,
+            stake.period,
+            stake.amount.toString(),
+            String(stake.startTime),
+            String(stake.endTime),
+            ...pending(stake.pendingRewards),
+        ]);
+    }
+    for (const stake of snapshot.lp?.stakes ?? []) {
+        rows.push(["AIXCBLPStaking", stake.user, "", stake.stakedAmount.toString(), String(stake.initialStakeTime), "", ...pending(stake.pendingRewards)]);
+    }
+    return rows.map((row) => row.join(",")).join("\n") + "\n";
+}
+
+function parseTime(value: unknown, where: string): number {
+    const time = typeof value === "number" ? value : Math.floor(Date.parse(String(value)) / 1000);
+    if (!Number.isSafeInteger(time) || time <= 0) throw new Error(`${where} must be a Unix time or an ISO date`);
+    return time;
+}
+
+function parseDecimal(value: unknown, where: string): string {
+    const text = typeof value === "number" ? String(value) : value;
+    if (typeof text !== "string" || !/^\d+(\.\d+)?$/.test(text)) throw new Error(`${where} must be a decimal amount in token units, quoted`);
+    return text;
+}
+
+export function parseEligibilityRules(text: string): EligibilityRules {
+    const raw = parse(text) as Record<string, unknown> | null;
+    if (typeof raw !== "object" || raw === null || Array.isArray(raw)) throw new Error("The rules must be an object");
+    if (raw.contract !== "staking" && raw.contract !== "lp") throw new Error("contract must be one of staking, lp");
+
+    const rules: EligibilityRules = { contract: raw.contract };
+    if (raw.periods !== undefined) {
+        if (raw.contract === "lp") throw new Error("periods: AIXCBLPStaking has no lock periods");
+        if (!Array.isArray(raw.periods) || raw.periods.some((period) => !PERIOD_LABELS.includes(period as PeriodLabel))) {
+            throw new Error(`periods must list some of ${PERIOD_LABELS.join(", ")}`);
+        }
+        rules.periods = raw.periods as PeriodLabel[];
+    }
+    if (raw.lockedUntil !== undefined) {
+        if (raw.contract === "lp") throw new Error("lockedUntil: AIXCBLPStaking has no locks");
+        rules.lockedUntil = parseTime(raw.lockedUntil, "lockedUntil");
+    }
+    if (raw.stakedBefore !== undefined) rules.stakedBefore = parseTime(raw.stakedBefore, "stakedBefore");
+    if (raw.minAmount !== undefined) rules.minAmount = parseDecimal(raw.minAmount, "minAmount");
+    if (raw.allocation !== undefined) rules.allocation = parseDecimal(raw.allocation, "allocation");
+    return rules;
+}
+
+/** Eligible stake per address; an address qualifies with its matching stakes summed */
+export function eligibleAmounts(snapshot: StakerSnapshot, rules: EligibilityRules): Map<string, bigint> {
+    const section = rules.contract === "staking" ? snapshot.staking : snapshot.lp;
+    if (!section) throw new Error(`The snapshot has no ${rules.contract} contract`);
+
+    const totals = new Map<string, bigint>();
+    const add = (user: string, amount: bigint) => totals.set(user, (totals.get(user) ?? 0n) + amount);
+    if (rules.contract === "staking") {
+        for (const stake of snapshot.staking!.stakes) {
+            if (rules.periods !== undefined && !rules.periods.includes(stake.period)) continue;
+            if (rules.stakedBefore !== undefined && stake.startTime > rules.stakedBefore) continue;
+            if (rules.lockedUntil !== undefined && stake.endTime < rules.lockedUntil) continue;
+            add(stake.user, stake.amount);
+        }
+    } else {
+        for (const stake of snapshot.lp!.stakes) {
+            if (rules.stakedBefore !== undefined && stake.initialStakeTime > rules.stakedBefore) continue;
+            add(stake.user, stake.stakedAmount);
+        }
+    }
+
+    const minAmount = rules.minAmount === undefined ? 0n : parseUnits(rules.minAmount, section.stakedToken.decimals);
+    for (const [user, amount] of totals) {
+        if (amount === 0n || amount < minAmount) totals.delete(user);
+    }
+    return totals;
+}
+
+export function buildMerkleAllocation(snapshot: StakerSnapshot, rules: EligibilityRules): MerkleAllocation {
+    const eligible = eligibleAmounts(snapshot, rules);
+    if (eligible.size === 0) throw new Error("No address meets the eligibility rules");
+    const allocation = rules.allocation === undefined ? undefined : parseUnits(rules.allocation, 18);
+
+    const values: [string, string][] = [...eligible].map(([user, amount]) => [user, String(allocation ?? amount)]);
+    const tree = StandardMerkleTree.of(values, MERKLE_LEAF_ENCODING);
+    const proofs: MerkleAllocation["proofs"] = {};
+    for (const [i, [user, amount]] of tree.entries()) {
+        proofs[user] = { amount: BigInt(amount), proof: tree.getProof(i) };
+    }
+    return { root: tree.root, tree, proofs };
+}
@@ -0,0 +1,268 @@
+import { ContractRunner, formatUnits, getAddress } from "ethers";
+import { AIXCBLPStaking__factory, AIXCBStaking__factory, IERC20Metadata__factory } from "../typechain-types";
+import { MAX_PERIOD_INDEX } from "./constants";
+import { ContractName } from "./errors";
+import { StakingClient } from "./StakingClient";
+import { findLPStakers } from "./utils";
+
+/**
+ * Checks that each contract's token balances back what it owes. Per token:
+ *
+ *   principal    `totalStakedForPeriod` summed over periods (the staking token)
+ *                or `totalStakedAmount` (the LP token)
+ *   accrued      rewards earned and not yet paid, summed over every staker
+ *   unallocated  AIXCBStaking: what the pools still emit until `periodFinish`;
+ *                AIXCBLPStaking: remaining budget minus accrued rewards
+ *
+ * `AIXCBStaking` pays rewards as `Math.min(reward, balanceOf(this))`, and its
+ * staking token is also reward token 0, so a shortfall there is paid out of
+ * other stakers' principal without any revert. All reads use one block.
+ */
+
+export type Severity = "ok" | "warning" | "critical";
+
+const SEVERITY_ORDER: Severity[] = ["ok", "warning", "critical"];
+
+export interface TokenSolvency {
+    token: string;
+    symbol: string;
+    decimals: number;
+    balance: bigint;
+    principal: bigint;
+    accruedRewards: bigint;
+    unallocatedBudget: bigint;
+    /** `balance - principal - accruedRewards`; negative when the contract is insolvent */
+    surplus: bigint;
+    severity: Severity;
+    findings: string[];
+}
+
+export interface ContractSolvency {
+    contract: ContractName;
+    address: string;
+    stakers: number;
+    tokens: TokenSolvency[];
+    severity: Severity;
+}
+
+export interface SolvencyReport {
+    chainId: number;
+    blockNumber: number;
+    blockTimestamp: number;
+    contracts: ContractSolvency[];
+    severity: Severity;
+}
+
+export interface SolvencyOptions {
+    staking?: string;
+    lp?: string;
+    /** First block to scan for `StakeDeposited`; `AIXCBLPStaking` has no on-chain staker list */
+    lpFromBlock?: number;
+    /** Largest `eth_getLogs` block range; defaults to `DEFAULT_LOG_BATCH_SIZE` */
+    logBatchSize?: number;
+    /** Block to check; defaults to the latest */
+    blockNumber?: number;
+}
+
+function maxSeverity(severities: Severity[]): Severity {
+    return severities.reduce<Severity>(
+        (worst, severity) => (SEVERITY_ORDER.indexOf(severity) > SEVERITY_ORDER.indexOf(worst) ? severity : worst),
+        "ok"
+    );
+}
+
+interface TokenFigures {
+    token: string;
+    balance: bigint;
+    principal: bigint;
+    accruedRewards: bigint;
+    unallocatedBudget: bigint;
+}
+
+async function summarize(runner: ContractRunner, figures: TokenFigures, findings: string[], severity: Severity): Promise<TokenSolvency> {
+    const erc20 = IERC20Metadata__factory.connect(figures.token, runner);
+    const [symbol, decimals] = await Promise.all([erc20.symbol(), erc20.decimals().then(Number)]);
+    return {
+        ...figures,
+        symbol,
+        decimals,
+        surplus: figures.balance - figures.principal - figures.accruedRewards,
+        severity,
+        findings,
+    };
+}
+
+async function checkStaking(runner: ContractRunner, address: string, blockTag: number, now: bigint): Promise<ContractSolvency> {
+    const staking = AIXCBStaking__factory.connect(address, runner);
+    const stakingToken = getAddress(await staking.stakingToken({ blockTag }));
+    const rewardTokens = await new StakingClient(address, runner).getRewardTokens(blockTag);
+    const tokens = [...new Set([stakingToken, ...rewardTokens].map((token) => getAddress(token)))];
+
+    const principal = new Map<string, bigint>(tokens.map((token) => [token, 0n]));
+    const accrued = new Map<string, bigint>(tokens.map((token) => [token, 0n]));
+    const unallocated = new Map<string, bigint>(tokens.map((token) => [token, 0n]));
+    const stakers = new Set<string>();
+
+    for (let periodIndex = 0; periodIndex <= MAX_PERIOD_INDEX; periodIndex++) {
+        principal.set(stakingToken, principal.get(stakingToken)! + (await staking.totalStakedForPeriod(periodIndex, { blockTag })));
+        const periodStakers = await staking.getStakersForPeriod(periodIndex, { blockTag });
+        periodStakers.forEach((staker) => stakers.add(staker));
+
+        for (const token of rewardTokens) {
+            const pool = await staking.rewardPools(periodIndex, token, { blockTag });
+            if (pool.periodFinish > now) unallocated.set(token, unallocated.get(token)! + pool.rewardRate * (pool.periodFinish - now));
+            for (const staker of periodStakers) {
+                accrued.set(token, accrued.get(token)! + (await staking.pendingRewards(staker, periodIndex, token, { blockTag })));
+            }
+        }
+    }
+
+    const results: TokenSolvency[] = [];
+    for (const token of tokens) {
+        const figures: TokenFigures = {
+            token,
+            balance: await IERC20Metadata__factory.connect(token, runner).balanceOf(address, { blockTag }),
+            principal: principal.get(token)!,
+            accruedRewards: accrued.get(token)!,
+            unallocatedBudget: unallocated.get(token)!,
+        };
+        const owed = figures.principal + figures.accruedRewards;
+        const findings: string[] = [];
+        let severity: Severity = "ok";
+        if (figures.balance < owed) {
+            severity = "critical";
+            findings.push(
+                figures.principal > 0n
+                    ? "balance is below principal plus accrued rewards; claims are paid out of other stakers' principal"
+                    : "balance is below accrued rewards; claims are capped at the balance"
+            );
+        } else if (figures.balance < owed + figures.unallocatedBudget) {
+            severity = "warning";
+            findings.push("balance does not cover the rewards the pools will still emit until periodFinish");
+        }
+        results.push(await summarize(runner, figures, findings, severity));
+    }
+
+    return {
+        contract: "AIXCBStaking",
+        address: getAddress(address),
+        stakers: stakers.size,
+        tokens: results,
+        severity: maxSeverity(results.map((token) => token.severity)),
+    };
+}
+
+async function checkLPStaking(runner: ContractRunner, address: string, blockTag: number, options: SolvencyOptions): Promise<ContractSolvency> {
+    const lpStaking = AIXCBLPStaking__factory.connect(address, runner);
+    const [lpToken, rewardTokens, totalStaked] = await Promise.all([
+        lpStaking.lpToken({ blockTag }).then(getAddress),
+        lpStaking.getRewardTokens({ blockTag }),
+        lpStaking.totalStakedAmount({ blockTag }),
+    ]);
+    const candidates = await findLPStakers(runner, address, options.lpFromBlock ?? 0, blockTag, options.logBatchSize);
+    const stakers: string[] = [];
+    for (const staker of candidates) {
+        if ((await lpStaking.userStakes(staker, { blockTag })).stakedAmount > 0n) stakers.push(staker);
+    }
+
+    const results: TokenSolvency[] = [];
+    const lpBalance = await IERC20Metadata__factory.connect(lpToken, runner).balanceOf(address, { blockTag });
+    results.push(
+        await summarize(
+            runner,
+            { token: lpToken, balance: lpBalance, principal: totalStaked, accruedRewards: 0n, unallocatedBudget: 0n },
+            lpBalance < totalStaked ? ["balance is below totalStakedAmount; withdrawals will revert"] : [],
+            lpBalance < totalStaked ? "critical" : "ok"
+        )
+    );
+
+    for (const rewardToken of rewardTokens) {
+        const token = getAddress(rewardToken);
+        const pool = await lpStaking.getRewardPool(token, { blockTag });
+        let accrued = 0n;
+        for (const staker of stakers) accrued += await lpStaking.getPendingRewards(staker, token, { blockTag });
+
+        // Claims are capped at the pool's remaining budget, but revert if the balance cannot cover that
+        const remaining = pool.totalReward - pool.distributed;
+        const payable = accrued < remaining ? accrued : remaining;
+        const balance = await IERC20Metadata__factory.connect(token, runner).balanceOf(address, { blockTag });
+        const findings: string[] = [];
+        let severity: Severity = "ok";
+        if (balance < payable) {
+            severity = "critical";
+            findings.push("balance is below the accrued rewards the pool can pay; claims will revert");
+        }
+        if (accrued > remaining) {
+            severity = maxSeverity([severity, "warning"]);
+            findings.push(`stakers accrued ${accrued - remaining} more than the remaining budget; claims are capped`);
+        } else if (balance < remaining) {
+            severity = maxSeverity([severity, "warning"]);
+            findings.push("balance does not cover the remaining reward budget");
+        }
+        results.push(
+            await summarize(
+                runner,
+                { token, balance, principal: 0n, accruedRewards: accrued, unallocatedBudget: remaining - payable },
+                findings,
+                severity
+            )
+        );
+    }
+
+    return {
+        contract: "AIXCBLPStaking",
+        address: getAddress(address),
+        stakers: stakers.length,
+        tokens: results,
+        severity: maxSeverity(results.map((token) => token.severity)),
+    };
+}
+
+export async function checkSolvency(runner: ContractRunner, options: SolvencyOptions): Promise<SolvencyReport> {
+    if (!runner.provider) throw new Error("A runner with a provider is required");
+    if (options.staking === undefined && options.lp === undefined) throw new Error("Give a staking and/or lp address");
+
+    const blockNumber = options.blockNumber ?? (await runner.provider.getBlockNumber());
+    const block = await runner.provider.getBlock(blockNumber);
+    if (!block) throw new Error(`Unable to fetch block ${blockNumber}`);
+
+    const contracts: ContractSolvency[] = [];
+    if (options.staking !== undefined) contracts.push(await checkStaking(runner, options.staking, blockNumber, BigInt(block.timestamp)));
+    if (options.lp !== undefined) contracts.push(await checkLPStaking(runner, options.lp, blockNumber, options));
+
+    return {
+        chainId: Number((await runner.provider.getNetwork()).chainId),
+        blockNumber,
+        blockTimestamp: block.timestamp,
+        contracts,
+        severity: maxSeverity(contracts.map((contract) => contract.severity)),
+    };
+}
+
+/** JSON with amounts as decimal strings of base units */
+export function formatSolvencyJson(report: SolvencyReport): string {
+    return JSON.stringify(report, (_, value) => (typeof value === "bigint" ? value.toString() : value), 2);
+}
+
+export function formatSolvencyMarkdown(report: SolvencyReport): string {
+    const lines = [
+        `# Solvency report: ${report.severity.toUpperCase()}`,
+        "",
+        `Chain ${report.chainId}, block ${report.blockNumber} (${new Date(report.blockTimestamp * 1000).toISOString()})`,
+    ];
+    for (const contract of report.contracts) {
+        lines.push("", `## ${contract.contract} ${contract.address}: ${contract.severity}`, "", `${contract.stakers} stakers`, "");
+        lines.push("| Token | Balance | Principal | Accrued rewards | Unallocated | Surplus | Severity |");
+        lines.push("|-------|---------|-----------|-----------------|-------------|---------|----------|");
+        for (const token of contract.tokens) {
+            const amount = (value: bigint) => formatUnits(value, token.decimals);
+            lines.push(
+                `| ${token.symbol} | ${amount(token.balance)} | ${amount(token.principal)} | ${amount(token.accruedRewards)} | ` +
+                    `${amount(token.unallocatedBudget)} | ${amount(token.surplus)} | ${token.severity} |`
+            );
+        }
+        const findings = contract.tokens.flatMap((token) => token.findings.map((finding) => `- ${token.symbol}: ${finding}`));
+        if (findings.length > 0) lines.push("", ...findings);
+    }
+    return lines.join("\n") + "\n";
+}
@@ -0,0 +1,287 @@
+import type { Artifacts } from "hardhat/types";
+
+/**
+ * Storage layout comparison for upgradeable implementations.
+ *
+ * Works on the `storageLayout` output of solc (enable it in the Hardhat
+ * config's `outputSelection`), so the same check can compare a legacy source
+ * in `src/legacy`, an exported layout of the deployed implementation, and the
+ * next implementation.
+ */
+
+/** `storageLayout` as emitted by solc */
+export interface SolcStorageLayout {
+    storage: SolcStorageItem[];
+    types: Record<string, SolcStorageType> | null;
+}
+
+export interface SolcStorageItem {
+    label: string;
+    slot: string;
+    offset: number;
+    type: string;
+    contract?: string;
+    astId?: number;
+}
+
+export interface SolcStorageType {
+    label: string;
+    encoding: "inplace" | "mapping" | "dynamic_array" | "bytes";
+    numberOfBytes: string;
+    members?: SolcStorageItem[];
+    key?: string;
+    value?: string;
+    base?: string;
+}
+
+export type LayoutIssueSeverity = "error" | "warning";
+
+export interface LayoutIssue {
+    severity: LayoutIssueSeverity;
+    /** Dotted path of the variable, e.g. `userStakes.value.amount` */
+    path: string;
+    slot: string;
+    offset: number;
+    message: string;
+}
+
+export interface LayoutReport {
+    oldName: string;
+    newName: string;
+    issues: LayoutIssue[];
+    /** True when no issue is an error */
+    compatible: boolean;
+}
+
+/** Gaps reserved for future variables, which later versions may shrink */
+const GAP_LABEL = /^_{1,2}gap$/;
+
+/** Strips the AST ids solc appends to struct, enum and contract type ids */
+function typeName(type: SolcStorageType): string {
+    return type.label.replace(/\s+\d+$/, "");
+}
+
+function describe(layout: SolcStorageLayout, typeId: string): string {
+    const type = layout.types?.[typeId];
+    if (!type) return typeId;
+    if (type.encoding === "mapping") {
+        return `mapping(${describe(layout, type.key!)} => ${describe(layout, type.value!)})`;
+    }
+    if (type.encoding === "dynamic_array") return `${describe(layout, type.base!)}[]`;
+    return typeName(type);
+}
+
+function staticArrayLength(type: SolcStorageType): bigint | undefined {
+    const match = /\[(\d+)\]$/.exec(type.label);
+    return match ? BigInt(match[1]) : undefined;
+}
+
+class LayoutComparison {
+    readonly issues: LayoutIssue[] = [];
+
+    constructor(private readonly oldLayout: SolcStorageLayout, private readonly newLayout: SolcStorageLayout) {}
+
+    /**
+     * Compares two variables that occupy the same position. `hashed` is true
+     * when the value lives behind a mapping or dynamic array, where a struct
+     * may grow because nothing is stored after it.
+     */
+    compareTypes(path: string, slot: string, offset: number, oldId: string, newId: string, hashed: boolean) {
+        const oldType = this.oldLayout.types?.[oldId];
+        const newType = this.newLayout.types?.[newId];
+        if (!oldType || !newType) {
+            if (oldId !== newId) this.error(path, slot, offset, `type changed from ${oldId} to ${newId}`);
+            return;
+        }
+
+        if (oldType.encoding !== newType.encoding) {
+            this.error(path, slot, offset, `encoding changed from ${oldType.encoding} to ${newType.encoding}`);
+            return;
+        }
+
+        switch (oldType.encoding) {
+            case "mapping":
+                this.compareTypes(`${path}.key`, slot, offset, oldType.key!, newType.key!, false);
+                this.compareTypes(`${path}.value`, slot, offset, oldType.value!, newType.value!, true);
+                return;
+            case "dynamic_array":
+                this.compareTypes(`${path}[]`, slot, offset, oldType.base!, newType.base!, true);
+                return;
+            case "bytes":
+                return;
+        }
+
+        if (oldType.members || newType.members) {
+            this.compareStruct(path, slot, offset, oldType, newType, hashed);
+            return;
+        }
+
+        if (oldType.base && newType.base) {
+            const oldLength = staticArrayLength(oldType);
+            const newLength = staticArrayLength(newType);
+            if (oldLength !== newLength) {
+                this.error(path, slot, offset, `array length changed from ${oldLength} to ${newLength}`);
+            }
+            this.compareTypes(`${path}[]`, slot, offset, oldType.base, newType.base, false);
+            return;
+        }
+
+        if (oldType.numberOfBytes !== newType.numberOfBytes) {
+            this.error(
+                path,
+                slot,
+                offset,
+                `size changed from ${oldType.numberOfBytes} to ${newType.numberOfBytes} bytes (${typeName(oldType)} -> ${typeName(newType)})`
+            );
+        } else if (typeName(oldType) !== typeName(newType)) {
+            this.warning(path, slot, offset, `type changed from ${typeName(oldType)} to ${typeName(newType)} with the same size`);
+        }
+    }
+
+    private compareStruct(
+        path: string,
+        slot: string,
+        offset: number,
+        oldType: SolcStorageType,
+        newType: SolcStorageType,
+        hashed: boolean
+    ) {
+        if (!oldType.members || !newType.members) {
+            this.error(path, slot, offset, `changed from ${typeName(oldType)} to ${typeName(newType)}`);
+            return;
+        }
+
+        // Members of a struct behind a mapping or array are reported relative to the struct
+        this.compareItems(path, oldType.members, newType.members, hashed ? 0n : BigInt(slot));
+
+        if (!hashed && oldType.numberOfBytes !== newType.numberOfBytes) {
+            this.error(
+                path,
+                slot,
+                offset,
+                `struct ${typeName(oldType)} changed size from ${oldType.numberOfBytes} to ${newType.numberOfBytes} bytes`
+            );
+        }
+    }
+
+    /** Compares variables (or struct members) position by position; `base` is added to member slots */
+    compareItems(prefix: string, oldItems: SolcStorageItem[], newItems: SolcStorageItem[], base = 0n) {
+        const position = (item: SolcStorageItem) => `${BigInt(item.slot) + base}:${item.offset}`;
+        const newByPosition = new Map(newItems.map((item) => [position(item), item]));
+
+        for (const oldItem of oldItems) {
+            const slot = (BigInt(oldItem.slot) + base).toString();
+            const path = prefix ? `${prefix}.${oldItem.label}` : oldItem.label;
+            if (GAP_LABEL.test(oldItem.label)) {
+                this.compareGap(path, slot, oldItem, newItems, base);
+                continue;
+            }
+
+            const newItem = newByPosition.get(position(oldItem));
+            if (!newItem) {
+                const moved = newItems.find((item) => item.label === oldItem.label);
+                this.error(
+                    path,
+                    slot,
+                    oldItem.offset,
+                    moved
+                        ? `moved to slot ${BigInt(moved.slot) + base} offset ${moved.offset}`
+                        : "removed; no variable occupies its slot and offset any more"
+                );
+                continue;
+            }
+
+            if (newItem.label !== oldItem.label) {
+                this.warning(path, slot, oldItem.offset, `renamed to ${newItem.label}`);
+            }
+            this.compareTypes(path, slot, oldItem.offset, oldItem.type, newItem.type, false);
+        }
+    }
+
+    /** A gap may shrink or move as long as it still ends at the same slot */
+    private compareGap(path: string, slot: string, oldGap: SolcStorageItem, newItems: SolcStorageItem[], base: bigint) {
+        const oldEnd = BigInt(oldGap.slot) + BigInt(this.oldLayout.types?.[oldGap.type]?.numberOfBytes ?? "0") / 32n;
+        const newGap = newItems.find((item) => item.label === oldGap.label);
+        if (!newGap) {
+            this.error(path, slot, oldGap.offset, "storage gap removed");
+            return;
+        }
+
+        const newEnd = BigInt(newGap.slot) + BigInt(this.newLayout.types?.[newGap.type]?.numberOfBytes ?? "0") / 32n;
+        if (newEnd !== oldEnd) {
+            this.error(
+                path,
+                slot,
+                oldGap.offset,
+                `storage gap now ends at slot ${newEnd + base} instead of ${oldEnd + base}; ` +
+                    "variables added before it must shrink the gap by the same number of slots"
+            );
+        }
+    }
+
+    private error(path: string, slot: string, offset: number, message: string) {
+        this.issues.push({ severity: "error", path, slot, offset, message });
+    }
+
+    private warning(path: string, slot: string, offset: number, message: string) {
+        this.issues.push({ severity: "warning", path, slot, offset, message });
+    }
+}
+
+/**
+ * Checks that `newLayout` can be used by a proxy whose storage was written by
+ * `oldLayout`: every existing variable and struct member keeps its slot,
+ * offset and size, structs held inline keep their size, and `__gap` arrays
+ * keep ending at the same slot
+ */
+export function compareStorageLayouts(
+    oldLayout: SolcStorageLayout,
+    newLayout: SolcStorageLayout,
+    names: { oldName?: string; newName?: string } = {}
+): LayoutReport {
+    const comparison = new LayoutComparison(oldLayout, newLayout);
+    comparison.compareItems("", oldLayout.storage, newLayout.storage);
+
+    return {
+        oldName: names.oldName ?? "old",
+        newName: names.newName ?? "new",
+        issues: comparison.issues,
+        compatible: comparison.issues.every((issue) => issue.severity !== "error")
+    };
+}
+
+/** One line per variable, e.g. `slot 1 offset 20  emergencyMode  bool` */
+export function formatStorageLayout(layout: SolcStorageLayout): string {
+    return layout.storage
+        .map((item) => `slot ${item.slot} offset ${item.offset}  ${item.label}  ${describe(layout, item.type)}`)
+        .join("\n");
+}
+
+export function formatLayoutReport(report: LayoutReport): string {
+    const header = `${report.oldName} -> ${report.newName}: ${report.compatible ? "compatible" : "INCOMPATIBLE"}`;
+    const lines = report.issues.map(
+        (issue) => `  ${issue.severity.toUpperCase()} ${issue.path} (slot ${issue.slot}, offset ${issue.offset}): ${issue.message}`
+    );
+    return [header, ...lines].join("\n");
+}
+
+/** Reads the layout of a compiled contract from its Hardhat build info */
+export async function readStorageLayout(
+    artifacts: Pick<Artifacts, "getBuildInfo">,
+    fullyQualifiedName: string
+): Promise<SolcStorageLayout> {
+    const buildInfo = await artifacts.getBuildInfo(fullyQualifiedName);
+    if (!buildInfo) throw new Error(`No build info for ${fullyQualifiedName}; compile the contracts first`);
+
+    const separator = fullyQualifiedName.lastIndexOf(":");
+    const source = fullyQualifiedName.slice(0, separator);
+    const name = fullyQualifiedName.slice(separator + 1);
+    const output = buildInfo.output.contracts[source]?.[name] as { storageLayout?: SolcStorageLayout } | undefined;
+    if (!output?.storageLayout) {
+        throw new Error(
+            `${fullyQualifiedName} was compiled without a storage layout; ` +
+                'add "storageLayout" to solidity.settings.outputSelection["*"]["*"] in the Hardhat config'
+        );
+    }
+    return output.storageLayout;
+}
@@ -0,0 +1,385 @@
+import { ContractRunner, Log, Provider, formatUnits, getAddress } from "ethers";
+import { AIXCBStaking__factory, IERC20Metadata__factory } from "../typechain-types";
+import { PERIOD_LABELS, PeriodLabel, periodIndexOf, periodLabelOf } from "./constants";
+import { getLogs } from "./utils";
+
+/**
+ * Unlock dates of every `AIXCBStaking` position, as iCalendar files and as
+ * webhook notifications. Stakers are found through `Staked` events and each
+ * position is read with `getUserStake`, which is the only reliable `endTime`:
+ * a top-up keeps the running lock, `upgradeStakePeriod` resets it to now plus
+ * the new lock (and its `StakeUpgraded` event reports that time even when the
+ * stake merges into an existing lock that keeps its own). The replayed events
+ * only explain how the current `endTime` came about.
+ */
+
+export interface MaturityOptions {
+    staking: string;
+    /** First block to replay, e.g. the proxy deployment block */
+    fromBlock?: number;
+    /** Largest `eth_getLogs` block range; defaults to `DEFAULT_LOG_BATCH_SIZE` */
+    logBatchSize?: number;
+}
+
+/** How a position got its current `endTime` */
+export interface LockChange {
+    kind: "stake" | "upgrade";
+    blockNumber: number;
+    transactionHash: string;
+    /** For an upgrade: the lock it replaced and when that one would have ended */
+    upgradedFrom?: { period: PeriodLabel; endTime: number };
+}
+
+export interface Maturity {
+    user: string;
+    period: PeriodLabel;
+    amount: bigint;
+    startTime: number;
+    endTime: number;
+    /** `endTime` has passed */
+    unlocked: boolean;
+    /** Still locked, but `withdraw` is allowed because every reward pool of the period finished */
+    earlyUnlock: boolean;
+    lastChange?: LockChange;
+}
+
+export interface MaturitySchedule {
+    chainId: number;
+    staking: string;
+    blockNumber: number;
+    blockTimestamp: number;
+    token: { address: string; symbol: string; decimals: number };
+    /** Soonest unlock first */
+    maturities: Maturity[];
+}
+
+const STAKING_EVENTS = ["Staked", "Withdrawn", "StakeUpgraded"] as const;
+const DAY = 24 * 60 * 60;
+
+export class MaturityScheduler {
+    private readonly runner: ContractRunner;
+    private readonly options: MaturityOptions;
+
+    constructor(runner: ContractRunner, options: MaturityOptions) {
+        this.runner = runner;
+        this.options = options;
+    }
+
+    private get provider(): Provider {
+        if (!this.runner.provider) throw new Error("A runner with a provider is required");
+        return this.runner.provider;
+    }
+
+    private async eventLogs(topics: string[], toBlock: number): Promise<Log[]> {
+        const filter = { address: this.options.staking, topics: [topics] };
+        const logs = await getLogs(this.provider, filter, this.options.fromBlock ?? 0, toBlock, this.options.logBatchSize);
+        return logs.sort((a, b) => a.blockNumber - b.blockNumber || a.index - b.index);
+    }
+
+    /** Replays lock changes into every staker and the latest change per position with the `endTime` it set */
+    private async replay(toBlock: number): Promise<{ users: Set<string>; changes: Map<string, LockChange & { endTime: number }> }> {
+        const iface = AIXCBStaking__factory.createInterface();
+        const topics = STAKING_EVENTS.map((name) => iface.getEvent(name).topicHash);
+        const users = new Set<string>();
+        const changes = new Map<string, LockChange & { endTime: number }>();
+        const key = (user: string, period: PeriodLabel) => `${user}:${period}`;
+
+        for (const log of await this.eventLogs(topics, toBlock)) {
+            const event = iface.parseLog(log);
+            if (!event) continue;
+            const user = getAddress(event.args.user);
+            const at = { blockNumber: log.blockNumber, transactionHash: log.transactionHash };
+            switch (event.name) {
+                case "Staked": {
+                    const period = periodLabelOf(event.args.periodIndex);
+                    users.add(user);
+                    // A top-up keeps the running lock and the change that set it
+                    if (!changes.has(key(user, period))) {
+                        changes.set(key(user, period), { kind: "stake", ...at, endTime: Number(event.args.endTime) });
+                    }
+                    break;
+                }
+                case "Withdrawn":
+                    changes.delete(key(user, periodLabelOf(event.args.periodIndex)));
+                    break;
+                case "StakeUpgraded": {
+                    const from = periodLabelOf(event.args.oldPeriodIndex);
+                    const to = periodLabelOf(event.args.newPeriodIndex);
+                    const previous = changes.get(key(user, from));
+                    changes.delete(key(user, from));
+                    if (changes.has(key(user, to))) break;
+                    changes.set(key(user, to), {
+                        kind: "upgrade",
+                        ...at,
+                        upgradedFrom: previous && { period: from, endTime: previous.endTime },
+                        // The event's `timestamp` is the new endTime
+                        endTime: Number(event.args.timestamp),
+                    });
+                    break;
+                }
+            }
+        }
+        return { users, changes };
+    }
+
+    /** Every initialized position at `blockNumber`, the latest block by default */
+    async schedule(blockNumber?: number): Promise<MaturitySchedule> {
+        const toBlock = blockNumber ?? (await this.provider.getBlockNumber());
+        const block = await this.provider.getBlock(toBlock);
+        if (!block) throw new Error(`Unable to fetch block ${toBlock}`);
+        const blockTag = toBlock;
+
+        const staking = AIXCBStaking__factory.connect(this.options.staking, this.runner);
+        const tokenAddress = await staking.stakingToken({ blockTag });
+        const token = IERC20Metadata__factory.connect(tokenAddress, this.runner);
+        const finished = {} as Record<PeriodLabel, boolean>;
+        for (const period of PERIOD_LABELS) {
+            finished[period] = await staking.isAllRewardPoolsFinished(periodIndexOf(period), { blockTag });
+        }
+
+        const { users, changes } = await this.replay(toBlock);
+        const maturities: Maturity[] = [];
+        for (const user of users) {
+            for (const period of PERIOD_LABELS) {
+                const stake = await staking.getUserStake(user, periodIndexOf(period), { blockTag });
+                if (!stake.initialized) continue;
+                const endTime = Number(stake.endTime);
+                const change = changes.get(`${user}:${period}`);
+                const unlocked = block.timestamp >= endTime;
+                maturities.push({
+                    user,
+                    period,
+                    amount: stake.amount,
+                    startTime: Number(stake.startTime),
+                    endTime,
+                    unlocked,
+                    earlyUnlock: !unlocked && finished[period],
+                    // Only explain an endTime the replay agrees with, e.g. not after an emergency exit it cannot place
+                    lastChange:
+                        change?.endTime === endTime
+                            ? { kind: change.kind, blockNumber: change.blockNumber, transactionHash: change.transactionHash, upgradedFrom: change.upgradedFrom }
+                            : undefined,
+                });
+            }
+        }
+        maturities.sort((a, b) => a.endTime - b.endTime || a.user.localeCompare(b.user));
+
+        return {
+            chainId: Number((await this.provider.getNetwork()).chainId),
+            staking: getAddress(this.options.staking),
+            blockNumber: toBlock,
+            blockTimestamp: block.timestamp,
+            token: { address: tokenAddress, symbol: await token.symbol(), decimals: Number(await token.decimals()) },
+            maturities,
+        };
+    }
+}
+
+export interface ICalendarOptions {
+    /** Calendar name shown by clients */
+    name?: string;
+    /** Reminders, in days before each unlock */
+    alarmDays?: number[];
+    /** `DTSTAMP`; defaults to the schedule's block time */
+    now?: number;
+}
+
+function icsTime(timestamp: number): string {
+    return new Date(timestamp * 1000).toISOString().replace(/[-:]/g, "").replace(/\.\d{3}/, "");
+}
+
+/** Escapes a TEXT value (RFC 5545 3.3.11) */
+function icsText(text: string): string {
+    return text.replace(/\\/g, "\\\\").replace(/;/g, "\\;").replace(/,/g, "\\,").replace(/\n/g, "\\n");
+}
+
+/** Folds a content line into lines of at most 75 octets, continuations starting with a space (RFC 5545 3.1) */
+function fold(line: string): string {
+    const lines: string[] = [];
+    let current = "";
+    let octets = 0;
+    for (const char of line) {
+        const size = Buffer.byteLength(char);
+        if (octets + size > 75) {
+            lines.push(current);
+            current = " ";
+            octets = 1;
+        }
+        current += char;
+        octets += size;
+    }
+    lines.push(current);
+    return lines.join("\r\n");
+}
+
+function describe(schedule: MaturitySchedule, maturity: Maturity): string {
+    const lines = [
+        `${maturity.period} stake in AIXCBStaking ${schedule.staking} on chain ${schedule.chainId}, locked since ${new Date(maturity.startTime * 1000).toISOString()}.`,
+        `Call withdraw(${periodIndexOf(maturity.period)}) from ${maturity.user} once it unlocks.`,
+    ];
+    const upgrade = maturity.lastChange?.upgradedFrom;
+    if (upgrade) {
+        lines.push(
+            `upgradeStakePeriod from ${upgrade.period} reset the lock at block ${maturity.lastChange!.blockNumber}; ` +
+                `the ${upgrade.period} lock would have ended ${new Date(upgrade.endTime * 1000).toISOString()}.`
+        );
+    }
+    if (maturity.earlyUnlock) lines.push("Every reward pool of the period has finished, so withdraw is already allowed.");
+    return lines.join("\n");
+}
+
+/**
+ * Writes unlock dates as an RFC 5545 calendar, one event per position. The
+ * UID includes the lock's `startTime`, so a lock reset by an upgrade replaces
+ * the event instead of updating the old one.
+ */
+export function formatICalendar(schedule: MaturitySchedule, options: ICalendarOptions = {}, maturities = schedule.maturities): string {
+    const lines = [
+        "BEGIN:VCALENDAR",
+        "VERSION:2.0",
+        "PRODID:-//AIXCB//Staking unlock calendar//EN",
+        "CALSCALE:GREGORIAN",
+        "METHOD:PUBLISH",
+        `X-WR-CALNAME:${icsText(options.name ?? `${schedule.token.symbol} staking unlocks`)}`,
+    ];
+    const stamp = icsTime(options.now ?? schedule.blockTimestamp);
+    for (const maturity of maturities) {
+        const amount = `${formatUnits(maturity.amount, schedule.token.decimals)} ${schedule.token.symbol}`;
+        const summary = `${amount} ${maturity.period} stake unlocks`;
+        lines.push(
+            "BEGIN:VEVENT",
+            `UID:${maturity.user.toLowerCase()}-${maturity.period}-${maturity.startTime}@${schedule.chainId}.${schedule.staking.toLowerCase()}`,
+            `DTSTAMP:${stamp}`,
+            `DTSTART:${icsTime(maturity.endTime)}`,
+            `SUMMARY:${icsText(summary)}`,
+            `DESCRIPTION:${icsText(describe(schedule, maturity))}`,
+            "TRANSP:TRANSPARENT"
+        );
+        for (const days of options.alarmDays ?? []) {
+            lines.push("BEGIN:VALARM", "ACTION:DISPLAY", `TRIGGER:-P${days}D`, `DESCRIPTION:${icsText(`${summary} in ${days} days`)}`, "END:VALARM");
+        }
+        lines.push("END:VEVENT");
+    }
+    lines.push("END:VCALENDAR");
+    return lines.map(fold).join("\r\n") + "\r\n";
+}
+
+/** One calendar per staker */
+export function formatICalendarsByUser(schedule: MaturitySchedule, options: ICalendarOptions = {}): Map<string, string> {
+    const calendars = new Map<string, string>();
+    for (const user of new Set(schedule.maturities.map((maturity) => maturity.user))) {
+        const own = schedule.maturities.filter((maturity) => maturity.user === user);
+        calendars.set(user, formatICalendar(schedule, options, own));
+    }
+    return calendars;
+}
+
+export type MaturityNotificationKind = "unlock_upcoming" | "early_unlock";
+
+/** JSON body posted to the webhook */
+export interface MaturityNotification {
+    kind: MaturityNotificationKind;
+    /** Stable per position, lock and reminder; a receiver can use it to drop duplicates */
+    id: string;
+    chainId: number;
+    staking: string;
+    user: string;
+    period: PeriodLabel;
+    /** Wei, as a decimal string */
+    amount: string;
+    token: string;
+    decimals: number;
+    endTime: number;
+    unlockAt: string;
+    /** The reminder window that triggered an `unlock_upcoming` */
+    daysBefore?: number;
+    blockNumber: number;
+}
+
+export interface NotifierOptions {
+    webhookUrl: string;
+    /** Reminder windows, e.g. `[7, 1]` */
+    daysBefore: number[];
+    headers?: Record<string, string>;
+    /** Per request; default 10 seconds */
+    timeoutMs?: number;
+}
+
+export interface NotifyResult {
+    sent: MaturityNotification[];
+    failed: { notification: MaturityNotification; error: string }[];
+}
+
+const DEFAULT_TIMEOUT_MS = 10_000;
+
+/**
+ * Notifications due at the schedule's block that are not in `sent`. Of the
+ * reminder windows a position is in, only the narrowest counts, so a first
+ * run one day before unlock sends the one-day reminder and not the
+ * seven-day one as well.
+ */
+export function dueNotifications(schedule: MaturitySchedule, daysBefore: number[], sent: ReadonlySet<string>): MaturityNotification[] {
+    const windows = [...new Set(daysBefore)].sort((a, b) => a - b);
+    const notifications: MaturityNotification[] = [];
+    for (const maturity of schedule.maturities) {
+        if (maturity.unlocked) continue;
+        const prefix = `${schedule.chainId}:${schedule.staking}:${maturity.user}:${maturity.period}:${maturity.endTime}`;
+        const notification = (kind: MaturityNotificationKind, id: string, days?: number): MaturityNotification => ({
+            kind,
+            id,
+            chainId: schedule.chainId,
+            staking: schedule.staking,
+            user: maturity.user,
+            period: maturity.period,
+            amount: maturity.amount.toString(),
+            token: schedule.token.symbol,
+            decimals: schedule.token.decimals,
+            endTime: maturity.endTime,
+            unlockAt: new Date(maturity.endTime * 1000).toISOString(),
+            daysBefore: days,
+            blockNumber: schedule.blockNumber,
+        });
+
+        const remaining = maturity.endTime - schedule.blockTimestamp;
+        const index = windows.findIndex((days) => remaining <= days * DAY);
+        if (index !== -1 && windows.slice(0, index + 1).every((days) => !sent.has(`${prefix}:upcoming:${days}`))) {
+            notifications.push(notification("unlock_upcoming", `${prefix}:upcoming:${windows[index]}`, windows[index]));
+        }
+        if (maturity.earlyUnlock && !sent.has(`${prefix}:early`)) {
+            notifications.push(notification("early_unlock", `${prefix}:early`));
+        }
+    }
+    return notifications;
+}
+
+/** Posts due notifications as JSON; ids of delivered ones are added to `sent`, failures are retried next run */
+export class MaturityNotifier {
+    private readonly options: NotifierOptions;
+
+    constructor(options: NotifierOptions) {
+        if (options.daysBefore.some((days) => !Number.isSafeInteger(days) || days <= 0)) {
+            throw new Error("daysBefore must be positive whole days");
+        }
+        this.options = options;
+    }
+
+    async notify(schedule: MaturitySchedule, sent: Set<string>): Promise<NotifyResult> {
+        const result: NotifyResult = { sent: [], failed: [] };
+        for (const notification of dueNotifications(schedule, this.options.daysBefore, sent)) {
+            try {
+                const response = await fetch(this.options.webhookUrl, {
+                    method: "POST",
+                    headers: { "content-type": "application/json", ...this.options.headers },
+                    body: JSON.stringify(notification),
+                    signal: AbortSignal.timeout(this.options.timeoutMs ?? DEFAULT_TIMEOUT_MS),
+                });
+                if (!response.ok) throw new Error(`HTTP ${response.status} ${response.statusText}`);
+                sent.add(notification.id);
+                result.sent.push(notification);
+            } catch (error) {
+                result.failed.push({ notification, error: error instanceof Error ? error.message : String(error) });
+            }
+        }
+        return result;
+    }
+}
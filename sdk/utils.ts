@@ -0,0 +1,150 @@
+import { ContractRunner, Filter, Log, MaxUint256, Signer, getAddress, isError } from "ethers";
+import { AIXCBLPStaking__factory, IERC20Metadata } from "../typechain-types";
+
+/** Largest block range per `eth_getLogs` request by default; public RPCs often cap it */
+export const DEFAULT_LOG_BATCH_SIZE = 10_000;
+
+/**
+ * Extracts raw revert data from an error thrown by a contract call, covering
+ * both ethers `CALL_EXCEPTION`s and the errors raised by Hardhat Network
+ */
+export function revertDataOf(error: unknown): string | undefined {
+    if (isError(error, "CALL_EXCEPTION")) return error.data ?? undefined;
+
+    let current: unknown = error;
+    for (let depth = 0; depth < 5 && typeof current === "object" && current !== null; depth++) {
+        const { data, error: inner } = current as { data?: unknown; error?: unknown };
+        if (typeof data === "string" && data.startsWith("0x")) return data;
+        if (typeof data === "object" && data !== null && typeof (data as { data?: unknown }).data === "string") {
+            return (data as { data: string }).data;
+        }
+        current = inner;
+    }
+    return undefined;
+}
+
+/** True when the error is an on-chain revert rather than a transport failure */
+export function isRevert(error: unknown): boolean {
+    return isError(error, "CALL_EXCEPTION") || revertDataOf(error) !== undefined;
+}
+
+/** Narrows a runner to a signer, failing early for read-only clients */
+export function requireSigner(runner: ContractRunner, client: string): Signer {
+    const candidate = runner as Partial<Signer>;
+    if (typeof candidate.sendTransaction !== "function" || typeof candidate.getAddress !== "function") {
+        throw new Error(`${client} requires a signer to send transactions`);
+    }
+    return runner as Signer;
+}
+
+export async function latestTimestamp(runner: ContractRunner): Promise<number> {
+    if (!runner.provider) throw new Error("A runner with a provider is required");
+    const block = await runner.provider.getBlock("latest");
+    if (!block) throw new Error("Unable to fetch latest block");
+    return block.timestamp;
+}
+
+/** Approves `spender` for `amount` (or `MaxUint256`) when the current allowance is insufficient */
+export async function ensureAllowance(
+    token: IERC20Metadata,
+    signer: Signer,
+    spender: string,
+    amount: bigint,
+    infinite = false
+): Promise<void> {
+    const allowance = await token.allowance(await signer.getAddress(), spender);
+    if (allowance >= amount) return;
+
+    const tx = await token.connect(signer).approve(spender, infinite ? MaxUint256 : amount);
+    await tx.wait();
+}
+
+export interface LogBatch {
+    fromBlock: number;
+    toBlock: number;
+    logs: Log[];
+}
+
+/**
+ * Walks `[fromBlock, toBlock]` in ranges of at most `batchSize` blocks and
+ * yields the logs matching `filter` for each one, in block order
+ */
+export async function* logBatches(
+    runner: ContractRunner,
+    filter: Omit<Filter, "fromBlock" | "toBlock">,
+    fromBlock: number,
+    toBlock: number,
+    batchSize = DEFAULT_LOG_BATCH_SIZE
+): AsyncGenerator<LogBatch> {
+    if (!runner.provider) throw new Error("A runner with a provider is required");
+    if (!Number.isSafeInteger(batchSize) || batchSize < 1) throw new Error(`Invalid log batch size ${batchSize}`);
+    for (let start = fromBlock; start <= toBlock; start += batchSize) {
+        const end = Math.min(start + batchSize - 1, toBlock);
+        yield { fromBlock: start, toBlock: end, logs: await runner.provider.getLogs({ ...filter, fromBlock: start, toBlock: end }) };
+    }
+}
+
+/** Every log matching `filter` in `[fromBlock, toBlock]`, fetched in batches of `batchSize` blocks */
+export async function getLogs(
+    runner: ContractRunner,
+    filter: Omit<Filter, "fromBlock" | "toBlock">,
+    fromBlock: number,
+    toBlock: number,
+    batchSize = DEFAULT_LOG_BATCH_SIZE
+): Promise<Log[]> {
+    const logs: Log[] = [];
+    for await (const batch of logBatches(runner, filter, fromBlock, toBlock, batchSize)) logs.push(...batch.logs);
+    return logs;
+}
+
+/**
+ * Every address that ever staked in `AIXCBLPStaking`, from `StakeDeposited`
+ * logs, since the contract keeps no staker list. Some may have withdrawn.
+ */
+export async function findLPStakers(
+    runner: ContractRunner,
+    address: string,
+    fromBlock: number,
+    toBlock: number,
+    batchSize = DEFAULT_LOG_BATCH_SIZE
+): Promise<string[]> {
+    const topic = AIXCBLPStaking__factory.createInterface().getEvent("StakeDeposited").topicHash;
+    const logs = await getLogs(runner, { address, topics: [topic] }, fromBlock, toBlock, batchSize);
+    return [...new Set(logs.map((log) => getAddress(`0x${log.topics[1].slice(-40)}`)))];
+}
+
+/** JSON-RPC access to a Hardhat node (`hre.ethers.provider` or a `JsonRpcProvider`) */
+export interface RpcProvider {
+    send(method: string, params: unknown[]): Promise<unknown>;
+}
+
+/** The fields of an `eth_getTransactionReceipt` result a simulation reads */
+export interface RpcReceipt {
+    status: string;
+    gasUsed: string;
+}
+
+function isRpcReceipt(value: unknown): value is RpcReceipt {
+    if (typeof value !== "object" || value === null) return false;
+    const { status, gasUsed } = value as Partial<Record<keyof RpcReceipt, unknown>>;
+    return typeof status === "string" && typeof gasUsed === "string";
+}
+
+/** `evm_snapshot`, for a later `evm_revert` */
+export async function takeSnapshot(provider: RpcProvider): Promise<string> {
+    const id = await provider.send("evm_snapshot", []);
+    if (typeof id !== "string") throw new Error(`evm_snapshot returned ${JSON.stringify(id)} instead of a snapshot id`);
+    return id;
+}
+
+/** Sends a transaction from an impersonated account; resolves to its receipt, `null` when it was not mined */
+export async function sendImpersonated(
+    provider: RpcProvider,
+    tx: { from: string; to: string; data: string }
+): Promise<RpcReceipt | null> {
+    const hash = await provider.send("eth_sendTransaction", [{ ...tx, value: "0x0" }]);
+    if (typeof hash !== "string") throw new Error(`eth_sendTransaction returned ${JSON.stringify(hash)} instead of a hash`);
+    const receipt = await provider.send("eth_getTransactionReceipt", [hash]);
+    if (receipt === null || isRpcReceipt(receipt)) return receipt;
+    throw new Error(`Unexpected receipt for ${hash}: ${JSON.stringify(receipt)}`);
+}
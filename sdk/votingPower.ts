@@ -0,0 +1,361 @@
+import { ContractRunner, Interface, Log, LogDescription, Provider, formatUnits, getAddress } from "ethers";
+import { parse } from "yaml";
+import { AIXCBLPStaking__factory, AIXCBStaking__factory, IERC20Metadata__factory } from "../typechain-types";
+import { PERIOD_LABELS, PeriodLabel, periodLabelOf } from "./constants";
+import { getLogs } from "./utils";
+
+/**
+ * Governance voting power from the stake history of both contracts. v2 no
+ * longer computes a staking power on-chain, so positions are rebuilt from
+ * `Staked`, `Withdrawn`, `StakeUpgraded` and `EmergencyWithdraw` logs of
+ * `AIXCBStaking` and `StakeDeposited`, `StakeWithdrawn` and `EmergencyWithdraw`
+ * logs of `AIXCBLPStaking`, replayed up to the snapshot block.
+ *
+ * Each lock counts `amount * lockMultipliers[period]`. With `decay: linear`
+ * the boost above 1x shrinks with the time left until `endTime`, relative to
+ * the period's on-chain `lockPeriods`, so a 360d lock that ends tomorrow
+ * weighs about as much as an unlocked stake. Staked LP counts
+ * `stakedAmount * lpMultiplier`. Weights are YAML or JSON, any key optional:
+ *
+ *   lockMultipliers: { 90d: 1, 180d: 1.5, 360d: 2 }
+ *   decay: linear                  # or none
+ *   lpMultiplier: 1
+ */
+
+export type LockDecay = "none" | "linear";
+
+export interface VotingPowerConfig {
+    /** Weight per staked token for each lock period */
+    lockMultipliers: Record<PeriodLabel, number>;
+    decay: LockDecay;
+    /** Weight per staked LP token */
+    lpMultiplier: number;
+}
+
+export const DEFAULT_VOTING_POWER_CONFIG: VotingPowerConfig = {
+    lockMultipliers: { "90d": 1, "180d": 1.5, "360d": 2 },
+    decay: "linear",
+    lpMultiplier: 1,
+};
+
+export interface LockPosition {
+    user: string;
+    period: PeriodLabel;
+    amount: bigint;
+    startTime: number;
+    endTime: number;
+}
+
+export interface StakeHistory {
+    blockNumber: number;
+    blockTimestamp: number;
+    /** `lockPeriods` in seconds at the block */
+    lockPeriods: Record<PeriodLabel, number>;
+    /** Open `AIXCBStaking` positions */
+    locks: LockPosition[];
+    /** `stakedAmount` per `AIXCBLPStaking` staker */
+    lp: Map<string, bigint>;
+    /** Decimals of the staking token and of the LP token; 18 for a contract not given */
+    decimals: { staking: number; lp: number };
+}
+
+export interface VotingPower {
+    address: string;
+    /** Boosted `AIXCBStaking` weight */
+    staking: bigint;
+    lp: bigint;
+    total: bigint;
+}
+
+export interface VotingPowerOptions {
+    staking?: string;
+    lp?: string;
+    /** First block to replay; must not be after either proxy's deployment */
+    fromBlock?: number;
+    /** Largest `eth_getLogs` block range; defaults to `DEFAULT_LOG_BATCH_SIZE` */
+    logBatchSize?: number;
+}
+
+const BPS = 10_000n;
+
+const STAKING_EVENTS = ["Staked", "Withdrawn", "StakeUpgraded", "EmergencyWithdraw"] as const;
+const LP_EVENTS = ["StakeDeposited", "StakeWithdrawn", "EmergencyWithdraw"] as const;
+
+function multiplierBps(value: number, name: string): bigint {
+    if (typeof value !== "number" || !Number.isFinite(value) || value < 0) throw new Error(`${name} must be a non-negative number`);
+    return BigInt(Math.round(value * Number(BPS)));
+}
+
+export function parseVotingPowerConfig(text: string): VotingPowerConfig {
+    const raw = (parse(text) ?? {}) as Record<string, unknown>;
+    if (typeof raw !== "object" || Array.isArray(raw)) throw new Error("The voting power config must be an object");
+
+    const config: VotingPowerConfig = {
+        ...DEFAULT_VOTING_POWER_CONFIG,
+        lockMultipliers: { ...DEFAULT_VOTING_POWER_CONFIG.lockMultipliers },
+    };
+    if (raw.lockMultipliers !== undefined) {
+        const multipliers = raw.lockMultipliers as Record<string, unknown>;
+        if (typeof multipliers !== "object" || multipliers === null) throw new Error("lockMultipliers must map periods to numbers");
+        for (const [period, value] of Object.entries(multipliers)) {
+            if (!PERIOD_LABELS.includes(period as PeriodLabel)) throw new Error(`lockMultipliers: unknown period ${period}`);
+            multiplierBps(value as number, `lockMultipliers.${period}`);
+            config.lockMultipliers[period as PeriodLabel] = value as number;
+        }
+    }
+    if (raw.decay !== undefined) {
+        if (raw.decay !== "none" && raw.decay !== "linear") throw new Error("decay must be one of none, linear");
+        config.decay = raw.decay;
+    }
+    if (raw.lpMultiplier !== undefined) {
+        multiplierBps(raw.lpMultiplier as number, "lpMultiplier");
+        config.lpMultiplier = raw.lpMultiplier as number;
+    }
+    return config;
+}
+
+/** Weight of one lock at `timestamp` */
+export function lockWeight(lock: LockPosition, lockSeconds: number, timestamp: number, config: VotingPowerConfig): bigint {
+    const multiplier = multiplierBps(config.lockMultipliers[lock.period], `lockMultipliers.${lock.period}`);
+    if (config.decay === "none") return (lock.amount * multiplier) / BPS;
+
+    // Upgrading into an existing lock keeps its endTime, so remaining never exceeds the period
+    const remaining = BigInt(Math.min(Math.max(lock.endTime - timestamp, 0), lockSeconds));
+    const boost = ((multiplier - BPS) * remaining) / BigInt(lockSeconds);
+    return (lock.amount * (BPS + boost)) / BPS;
+}
+
+/**
+ * Voting power per address at the history's block, largest first. With
+ * `addresses`, returns exactly those addresses in that order, zeros included.
+ */
+export function computeVotingPower(history: StakeHistory, config: VotingPowerConfig, addresses?: string[]): VotingPower[] {
+    const powers = new Map<string, VotingPower>();
+    const entry = (user: string) => {
+        if (!powers.has(user)) powers.set(user, { address: user, staking: 0n, lp: 0n, total: 0n });
+        return powers.get(user)!;
+    };
+
+    for (const lock of history.locks) {
+        entry(lock.user).staking += lockWeight(lock, history.lockPeriods[lock.period], history.blockTimestamp, config);
+    }
+    const lpMultiplier = multiplierBps(config.lpMultiplier, "lpMultiplier");
+    for (const [user, amount] of history.lp) {
+        entry(user).lp += (amount * lpMultiplier) / BPS;
+    }
+    for (const power of powers.values()) power.total = power.staking + power.lp;
+
+    if (addresses !== undefined) {
+        return addresses.map((address) => ({ ...(powers.get(getAddress(address)) ?? { staking: 0n, lp: 0n, total: 0n }), address }));
+    }
+    return [...powers.values()]
+        .filter((power) => power.total > 0n)
+        .sort((a, b) => (a.total === b.total ? a.address.localeCompare(b.address) : a.total > b.total ? -1 : 1));
+}
+
+/** Rebuilds stake positions from logs and weighs them */
+export class VotingPowerEngine {
+    private readonly runner: ContractRunner;
+    private readonly options: VotingPowerOptions;
+    private readonly timestamps = new Map<number, Promise<number>>();
+
+    constructor(runner: ContractRunner, options: VotingPowerOptions) {
+        if (options.staking === undefined && options.lp === undefined) throw new Error("Give a staking or an LP staking address");
+        this.runner = runner;
+        this.options = options;
+    }
+
+    private get provider(): Provider {
+        if (!this.runner.provider) throw new Error("A runner with a provider is required");
+        return this.runner.provider;
+    }
+
+    private timestamp(blockNumber: number): Promise<number> {
+        if (!this.timestamps.has(blockNumber)) {
+            this.timestamps.set(
+                blockNumber,
+                this.provider.getBlock(blockNumber).then((block) => {
+                    if (!block) throw new Error(`Unable to fetch block ${blockNumber}`);
+                    return block.timestamp;
+                })
+            );
+        }
+        return this.timestamps.get(blockNumber)!;
+    }
+
+    private async decimals(token: string, blockTag: number): Promise<number> {
+        return Number(await IERC20Metadata__factory.connect(token, this.runner).decimals({ blockTag }));
+    }
+
+    /** Logs with any of `topics` from `fromBlock` up to `toBlock`, in chain order */
+    private async eventLogs(address: string, topics: string[], toBlock: number): Promise<Log[]> {
+        const filter = { address, topics: [topics] };
+        const logs = await getLogs(this.provider, filter, this.options.fromBlock ?? 0, toBlock, this.options.logBatchSize);
+        return logs.sort((a, b) => a.blockNumber - b.blockNumber || a.index - b.index);
+    }
+
+    /** Replays both contracts' stake events up to `blockNumber`, the latest block by default */
+    async history(blockNumber?: number): Promise<StakeHistory> {
+        const toBlock = blockNumber ?? (await this.provider.getBlockNumber());
+        const history: StakeHistory = {
+            blockNumber: toBlock,
+            blockTimestamp: await this.timestamp(toBlock),
+            lockPeriods: { "90d": 0, "180d": 0, "360d": 0 },
+            locks: [],
+            lp: new Map(),
+            decimals: { staking: 18, lp: 18 },
+        };
+
+        if (this.options.staking !== undefined) {
+            const staking = AIXCBStaking__factory.connect(this.options.staking, this.runner);
+            for (const [index, period] of PERIOD_LABELS.entries()) {
+                history.lockPeriods[period] = Number(await staking.lockPeriods(index, { blockTag: toBlock }));
+            }
+            history.decimals.staking = await this.decimals(await staking.stakingToken({ blockTag: toBlock }), toBlock);
+            history.locks = await this.replayStaking(getAddress(this.options.staking), toBlock);
+        }
+        if (this.options.lp !== undefined) {
+            const lpStaking = AIXCBLPStaking__factory.connect(this.options.lp, this.runner);
+            history.decimals.lp = await this.decimals(await lpStaking.lpToken({ blockTag: toBlock }), toBlock);
+            history.lp = await this.replayLP(getAddress(this.options.lp), toBlock);
+        }
+        return history;
+    }
+
+    async scores(config: VotingPowerConfig, blockNumber?: number, addresses?: string[]): Promise<VotingPower[]> {
+        return computeVotingPower(await this.history(blockNumber), config, addresses);
+    }
+
+    private async replayStaking(address: string, toBlock: number): Promise<LockPosition[]> {
+        const iface = AIXCBStaking__factory.createInterface();
+        const topics = STAKING_EVENTS.map((name) => iface.getEvent(name).topicHash);
+        const locks = new Map<string, LockPosition>();
+        const key = (user: string, period: PeriodLabel) => `${user}:${period}`;
+
+        for (const log of await this.eventLogs(address, topics, toBlock)) {
+            const event = iface.parseLog(log);
+            if (!event) continue;
+            const user = getAddress(event.args.user);
+            switch (event.name) {
+                case "Staked": {
+                    const period = periodLabelOf(event.args.periodIndex);
+                    const existing = locks.get(key(user, period));
+                    // A top-up keeps the running lock's endTime
+                    if (existing) existing.amount += event.args.amount;
+                    else {
+                        locks.set(key(user, period), {
+                            user,
+                            period,
+                            amount: event.args.amount,
+                            startTime: Number(event.args.startTime),
+                            endTime: Number(event.args.endTime),
+                        });
+                    }
+                    break;
+                }
+                case "Withdrawn":
+                    locks.delete(key(user, periodLabelOf(event.args.periodIndex)));
+                    break;
+                case "StakeUpgraded": {
+                    const to = periodLabelOf(event.args.newPeriodIndex);
+                    locks.delete(key(user, periodLabelOf(event.args.oldPeriodIndex)));
+                    const target = locks.get(key(user, to));
+                    if (target) target.amount += event.args.amount;
+                    else {
+                        locks.set(key(user, to), {
+                            user,
+                            period: to,
+                            amount: event.args.amount,
+                            startTime: await this.timestamp(log.blockNumber),
+                            // Emitted as `newEndTime` although the event names the field `timestamp`
+                            endTime: Number(event.args.timestamp),
+                        });
+                    }
+                    break;
+                }
+                case "EmergencyWithdraw": {
+                    const open = PERIOD_LABELS.filter((period) => locks.has(key(user, period)));
+                    locks.delete(key(user, await this.emergencyWithdrawPeriod(address, iface, log, event, open)));
+                    break;
+                }
+            }
+        }
+        return [...locks.values()].sort((a, b) => a.startTime - b.startTime || a.user.localeCompare(b.user));
+    }
+
+    /**
+     * The staking contract's `EmergencyWithdraw` carries no period. Reads it
+     * from the calldata when the user called the contract directly, otherwise
+     * finds the open lock that no longer exists after the block, which needs
+     * an archive node for old blocks.
+     */
+    private async emergencyWithdrawPeriod(
+        address: string,
+        iface: Interface,
+        log: Log,
+        event: LogDescription,
+        open: PeriodLabel[]
+    ): Promise<PeriodLabel> {
+        const tx = await this.provider.getTransaction(log.transactionHash);
+        if (tx?.to && getAddress(tx.to) === address) {
+            const call = iface.parseTransaction({ data: tx.data });
+            if (call?.name === "emergencyWithdraw") return periodLabelOf(call.args[0]);
+        }
+
+        const staking = AIXCBStaking__factory.connect(address, this.runner);
+        const emptied: PeriodLabel[] = [];
+        for (const period of open) {
+            const stake = await staking.getUserStake(event.args.user, PERIOD_LABELS.indexOf(period), { blockTag: log.blockNumber });
+            if (!stake.initialized) emptied.push(period);
+        }
+        if (emptied.length !== 1) {
+            throw new Error(`Cannot tell which period ${event.args.user} emergency-withdrew in ${log.transactionHash}`);
+        }
+        return emptied[0];
+    }
+
+    private async replayLP(address: string, toBlock: number): Promise<Map<string, bigint>> {
+        const iface = AIXCBLPStaking__factory.createInterface();
+        const topics = LP_EVENTS.map((name) => iface.getEvent(name).topicHash);
+        const staked = new Map<string, bigint>();
+
+        for (const log of await this.eventLogs(address, topics, toBlock)) {
+            const event = iface.parseLog(log);
+            if (!event) continue;
+            const user = getAddress(event.args.user);
+            const amount = (staked.get(user) ?? 0n) + (event.name === "StakeDeposited" ? event.args.amount : -event.args.amount);
+            // EmergencyWithdraw reports the whole stake, fee included
+            if (amount === 0n) staked.delete(user);
+            else staked.set(user, amount);
+        }
+        return staked;
+    }
+}
+
+export interface VotingPowerStrategyOptions extends VotingPowerOptions {
+    lockMultipliers?: Partial<Record<PeriodLabel, number>>;
+    decay?: LockDecay;
+    lpMultiplier?: number;
+}
+
+/**
+ * Snapshot strategy: `strategy(space, network, provider, addresses, options, snapshot)`
+ * returning a score per address in whole staking tokens. Takes an ethers v6
+ * provider; `options` carries the contract addresses and any weights that
+ * differ from `DEFAULT_VOTING_POWER_CONFIG`.
+ */
+export async function strategy(
+    _space: string,
+    _network: string,
+    provider: Provider,
+    addresses: string[],
+    options: VotingPowerStrategyOptions,
+    snapshot: number | "latest"
+): Promise<Record<string, number>> {
+    const { staking, lp, fromBlock, logBatchSize, ...weights } = options;
+    const config = parseVotingPowerConfig(JSON.stringify(weights));
+    const engine = new VotingPowerEngine(provider, { staking, lp, fromBlock, logBatchSize });
+    const history = await engine.history(snapshot === "latest" ? undefined : snapshot);
+    const powers = computeVotingPower(history, config, addresses);
+    return Object.fromEntries(powers.map((power) => [power.address, Number(formatUnits(power.total, history.decimals.staking))]));
+}
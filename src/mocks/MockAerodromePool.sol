@@ -0,0 +1,47 @@
+// SPDX-License-Identifier: MIT
+pragma solidity 0.8.20;
+
+import "@openzeppelin/contracts/token/ERC20/ERC20.sol";
+
+/// @title MockAerodromePool - Aerodrome vAMM pool with settable reserves
+/// @notice Mintable LP token exposing the pool views the LP valuation SDK reads
+contract MockAerodromePool is ERC20 {
+    address public immutable token0;
+    address public immutable token1;
+    bool public constant stable = false;
+
+    uint256 private _reserve0;
+    uint256 private _reserve1;
+    uint256 private _blockTimestampLast;
+
+    /// @dev Sorts the tokens by address, as `PoolFactory.createPool` does
+    constructor(address tokenA, address tokenB) ERC20("", "") {
+        (token0, token1) = tokenA < tokenB ? (tokenA, tokenB) : (tokenB, tokenA);
+    }
+
+    function name() public view override returns (string memory) {
+        return string.concat("VolatileV2 AMM - ", ERC20(token0).symbol(), "/", ERC20(token1).symbol());
+    }
+
+    function symbol() public view override returns (string memory) {
+        return string.concat("vAMM-", ERC20(token0).symbol(), "/", ERC20(token1).symbol());
+    }
+
+    function tokens() external view returns (address, address) {
+        return (token0, token1);
+    }
+
+    function getReserves() external view returns (uint256 reserve0, uint256 reserve1, uint256 blockTimestampLast) {
+        return (_reserve0, _reserve1, _blockTimestampLast);
+    }
+
+    function setReserves(uint256 reserve0, uint256 reserve1) external {
+        _reserve0 = reserve0;
+        _reserve1 = reserve1;
+        _blockTimestampLast = block.timestamp;
+    }
+
+    function mint(address to, uint256 amount) external {
+        _mint(to, amount);
+    }
+}
@@ -0,0 +1,35 @@
+// SPDX-License-Identifier: MIT
+pragma solidity 0.8.20;
+
+/// @title MockPriceFeed - Settable Chainlink AggregatorV3-style price feed
+/// @notice Used to exercise the on-chain oracle price source of the analytics SDK
+contract MockPriceFeed {
+    uint8 public immutable decimals;
+
+    uint80 private _roundId;
+    int256 private _answer;
+    uint256 private _updatedAt;
+
+    constructor(uint8 decimals_, int256 answer) {
+        decimals = decimals_;
+        setAnswer(answer);
+    }
+
+    function setAnswer(int256 answer) public {
+        _roundId++;
+        _answer = answer;
+        _updatedAt = block.timestamp;
+    }
+
+    function setUpdatedAt(uint256 updatedAt) external {
+        _updatedAt = updatedAt;
+    }
+
+    function latestRoundData()
+        external
+        view
+        returns (uint80 roundId, int256 answer, uint256 startedAt, uint256 updatedAt, uint80 answeredInRound)
+    {
+        return (_roundId, _answer, _updatedAt, _updatedAt, _roundId);
+    }
+}
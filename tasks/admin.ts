@@ -0,0 +1,165 @@
+import { existsSync, readFileSync } from "fs";
+import path from "path";
+import { task } from "hardhat/config";
+import { HardhatRuntimeEnvironment } from "hardhat/types";
+import { isAddress } from "ethers";
+import { IERC20Metadata__factory } from "../typechain-types";
+import { PERIOD_LABELS, PeriodLabel } from "../sdk/constants";
+import { AdminCall, AdminClient } from "../sdk/admin";
+import { DeploymentManifest } from "../sdk/deployment";
+import { ContractName } from "../sdk/errors";
+
+/**
+ * Admin operations as Hardhat tasks. Load them from `hardhat.config.ts` with
+ * `import "./tasks/admin";`, then for example:
+ *
+ *   npx hardhat circuit off withdraw --contract lp --network base --dry-run
+ *   npx hardhat fund-pool --contract staking --period 90d --token 0x… --amount 250000 --network base
+ *
+ * Every task targets `--contract staking|lp`, at `--address` or at the proxy
+ * recorded in `deployments/<network>.json`. It checks that the first signer
+ * holds the role the function requires, prints current vs resulting state and
+ * simulates the call with a static call before sending it. `--dry-run` stops
+ * after the simulation. Calls that would not change anything are not sent.
+ */
+
+interface TargetArgs {
+    contract: string;
+    address?: string;
+    dryRun: boolean;
+}
+
+const CONTRACTS: Record<string, ContractName> = { staking: "AIXCBStaking", lp: "AIXCBLPStaking" };
+
+async function connect(args: TargetArgs, hre: HardhatRuntimeEnvironment): Promise<AdminClient> {
+    const contractName = CONTRACTS[args.contract];
+    if (!contractName) throw new Error(`--contract must be one of ${Object.keys(CONTRACTS).join(", ")}`);
+
+    let address = args.address;
+    if (address === undefined) {
+        const file = path.join(hre.config.paths.root, "deployments", `${hre.network.name}.json`);
+        if (!existsSync(file)) throw new Error(`Pass --address; there is no deployment manifest at ${file}`);
+        const manifest: DeploymentManifest = JSON.parse(readFileSync(file, "utf8"));
+        address = manifest.contracts[contractName]?.proxy;
+        if (address === undefined) throw new Error(`${file} has no ${contractName}`);
+    }
+    if (!isAddress(address)) throw new Error(`Invalid address: ${address}`);
+
+    const [signer] = await hre.ethers.getSigners();
+    return new AdminClient(contractName, address, signer);
+}
+
+/** Parses a decimal amount in units of `token`, e.g. `250000` or `1.5` */
+async function parseTokenAmount(hre: HardhatRuntimeEnvironment, token: string, amount: string): Promise<bigint> {
+    const decimals = await IERC20Metadata__factory.connect(token, hre.ethers.provider).decimals();
+    return hre.ethers.parseUnits(amount, decimals);
+}
+
+async function run(client: AdminClient, call: AdminCall, dryRun: boolean) {
+    console.log(`${call.contract} ${await client.contract.getAddress()}: ${call.description} [${call.role}]`);
+    const width = Math.max(...call.changes.map((change) => change.label.length));
+    for (const change of call.changes) {
+        console.log(`  ${change.label.padEnd(width)}  ${change.current} -> ${change.resulting}`);
+    }
+
+    const result = await client.execute(call, { dryRun });
+    if (!call.required) {
+        console.log("Already in the requested state; nothing sent");
+    } else if (!result.tx) {
+        console.log("Dry run: static call succeeded; nothing sent");
+        const approval = call.approval;
+        if (approval && approval.allowance < approval.amount) {
+            console.log(`Simulated with the allowance overridden; without --dry-run ${approval.amount} wei is approved first`);
+        }
+    } else {
+        console.log(`Sent ${result.tx.hash}`);
+        await result.tx.wait();
+        console.log("Confirmed");
+    }
+}
+
+/** Adds the parameters shared by every admin task */
+function adminTask(name: string, description: string) {
+    return task(name, description)
+        .addParam("contract", "staking (AIXCBStaking) or lp (AIXCBLPStaking)")
+        .addOptionalParam("address", "Proxy address; defaults to deployments/<network>.json")
+        .addFlag("dryRun", "Check the role and simulate without sending");
+}
+
+adminTask("fund-pool", "Approve and fund a reward pool from the signer's balance")
+    .addParam("token", "Reward token address")
+    .addParam("amount", "Amount in token units, e.g. 250000")
+    .addOptionalParam("period", `Lock period of an AIXCBStaking pool: ${PERIOD_LABELS.join(", ")}`)
+    .setAction(async (args: TargetArgs & { token: string; amount: string; period?: string }, hre) => {
+        const client = await connect(args, hre);
+        const [signer] = await hre.ethers.getSigners();
+        const amount = await parseTokenAmount(hre, args.token, args.amount);
+        const call = await client.fundPool(signer.address, args.token, amount, args.period as PeriodLabel | undefined);
+        await run(client, call, args.dryRun);
+    });
+
+adminTask("circuit", "Show circuit breakers, or trip (on) or reset (off) one")
+    .addPositionalParam("action", "on, off or status")
+    .addOptionalPositionalParam("circuit", "staking, withdraw, rewards or the contract's constant name")
+    .setAction(async (args: TargetArgs & { action: string; circuit?: string }, hre) => {
+        const client = await connect(args, hre);
+        if (args.action === "status") {
+            for (const circuit of await client.circuitStatus()) {
+                const state = circuit.tripped ? `tripped (${circuit.guards} blocked)` : "reset";
+                console.log(`${circuit.name.padEnd(18)}  ${circuit.id}  ${state}`);
+            }
+            return;
+        }
+        if (args.action !== "on" && args.action !== "off") throw new Error("action must be on, off or status");
+        if (args.circuit === undefined) throw new Error("Name the circuit: staking, withdraw or rewards");
+        await run(client, await client.setCircuit(args.circuit, args.action === "on"), args.dryRun);
+    });
+
+adminTask("emergency", "Enable or disable emergency mode")
+    .addPositionalParam("action", "enable or disable")
+    .setAction(async (args: TargetArgs & { action: string }, hre) => {
+        if (args.action !== "enable" && args.action !== "disable") throw new Error("action must be enable or disable");
+        const client = await connect(args, hre);
+        await run(client, await client.setEmergencyMode(args.action === "enable"), args.dryRun);
+    });
+
+adminTask("reward-token", "Add or remove a reward token")
+    .addPositionalParam("action", "add or remove")
+    .addParam("token", "Reward token address")
+    .setAction(async (args: TargetArgs & { action: string; token: string }, hre) => {
+        if (args.action !== "add" && args.action !== "remove") throw new Error("action must be add or remove");
+        const client = await connect(args, hre);
+        const call = args.action === "add" ? await client.addRewardToken(args.token) : await client.removeRewardToken(args.token);
+        await run(client, call, args.dryRun);
+    });
+
+adminTask("recover-erc20", "Send tokens sent to the contract by mistake to the treasury")
+    .addParam("token", "Token address; neither the staked token nor a reward token")
+    .addParam("amount", "Amount in token units")
+    .setAction(async (args: TargetArgs & { token: string; amount: string }, hre) => {
+        const client = await connect(args, hre);
+        const amount = await parseTokenAmount(hre, args.token, args.amount);
+        await run(client, await client.recoverERC20(args.token, amount), args.dryRun);
+    });
+
+adminTask("pause", "Pause the contract").setAction(async (args: TargetArgs, hre) => {
+    const client = await connect(args, hre);
+    await run(client, await client.setPaused(true), args.dryRun);
+});
+
+adminTask("unpause", "Unpause the contract").setAction(async (args: TargetArgs, hre) => {
+    const client = await connect(args, hre);
+    await run(client, await client.setPaused(false), args.dryRun);
+});
+
+adminTask("start-staking", "AIXCBStaking: unpause once every reward pool is funded").setAction(
+    async (args: TargetArgs, hre) => {
+        const client = await connect(args, hre);
+        await run(client, await client.startStaking(), args.dryRun);
+    }
+);
+
+adminTask("stop-staking", "AIXCBStaking: pause and emit StakingStopped").setAction(async (args: TargetArgs, hre) => {
+    const client = await connect(args, hre);
+    await run(client, await client.stopStaking(), args.dryRun);
+});
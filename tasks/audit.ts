@@ -0,0 +1,66 @@
+import { existsSync, readFileSync, writeFileSync } from "fs";
+import path from "path";
+import { task } from "hardhat/config";
+import { DeploymentManifest } from "../sdk/deployment";
+import { auditDeployment, formatAuditJson, formatAuditMarkdown, parseRolePolicy } from "../sdk/roleAudit";
+
+/**
+ * Audits role holders and proxy configuration against a policy file. Load it
+ * from `hardhat.config.ts` with `import "./tasks/audit";`:
+ *
+ *   npx hardhat audit-roles --policy policies/base.yaml --network base
+ *   npx hardhat audit-roles --policy policies/base.yaml --block 23456789 --out audit.json --network base
+ *
+ * Start the policy from `policies/base.example.yaml`. Proxies come from the
+ * policy or from `deployments/<network>.json`. The
+ * contracts are compiled first so the implementations can be compared with
+ * the local build. Prints a markdown report, or writes it to `--out` (`.json`
+ * for JSON), and exits with 1 when the deployment drifted from the policy.
+ */
+
+interface AuditArgs {
+    policy: string;
+    block?: string;
+    logBatchSize?: string;
+    out?: string;
+}
+
+function optionalNumber(value: string | undefined, name: string): number | undefined {
+    if (value === undefined) return undefined;
+    const number = Number(value);
+    if (!Number.isSafeInteger(number) || number < 0) throw new Error(`--${name} must be a non-negative integer`);
+    return number;
+}
+
+task("audit-roles", "Check role holders, implementation and initializers against a policy file")
+    .addParam("policy", "YAML or JSON role policy")
+    .addOptionalParam("block", "Block number; defaults to the latest")
+    .addOptionalParam("logBatchSize", "Largest eth_getLogs block range")
+    .addOptionalParam("out", "Report file, .md or .json")
+    .setAction(async (args: AuditArgs, hre) => {
+        const policy = parseRolePolicy(readFileSync(args.policy, "utf8"));
+        const manifestFile = path.join(hre.config.paths.root, "deployments", `${hre.network.name}.json`);
+        const manifest: DeploymentManifest | undefined = existsSync(manifestFile)
+            ? JSON.parse(readFileSync(manifestFile, "utf8"))
+            : undefined;
+
+        await hre.run("compile", { quiet: true });
+        const report = await auditDeployment(hre.ethers.provider, policy, {
+            proxies: {
+                AIXCBStaking: manifest?.contracts.AIXCBStaking?.proxy,
+                AIXCBLPStaking: manifest?.contracts.AIXCBLPStaking?.proxy,
+            },
+            artifacts: hre.artifacts,
+            blockNumber: optionalNumber(args.block, "block"),
+            logBatchSize: optionalNumber(args.logBatchSize, "log-batch-size"),
+        });
+
+        const output = args.out?.endsWith(".json") ? formatAuditJson(report) + "\n" : formatAuditMarkdown(report);
+        if (args.out === undefined) {
+            process.stdout.write(output);
+        } else {
+            writeFileSync(args.out, output);
+            console.log(`Audit ${report.passed ? "passed" : "FAILED"} at block ${report.blockNumber}; report written to ${args.out}`);
+        }
+        if (!report.passed) process.exitCode = 1;
+    });
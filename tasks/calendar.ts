@@ -0,0 +1,68 @@
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from "fs";
+import path from "path";
+import { task } from "hardhat/config";
+import { DeploymentManifest } from "../sdk/deployment";
+import { MaturityScheduler, formatICalendar, formatICalendarsByUser } from "../sdk/unlockCalendar";
+
+/**
+ * Exports every staker's unlock dates as iCalendar files. Load it from
+ * `hardhat.config.ts` with `import "./tasks/calendar";`:
+ *
+ *   npx hardhat unlock-calendar --from-block 21000000 --alarm-days 7,1 --network base
+ *
+ * The staking proxy comes from `--staking` or `deployments/<network>.json`.
+ * Writes `all.ics` and one `<address>.ics` per staker to `--out` (default
+ * `calendars/<network>`).
+ */
+
+interface CalendarArgs {
+    staking?: string;
+    block?: string;
+    fromBlock?: string;
+    logBatchSize?: string;
+    alarmDays?: string;
+    name?: string;
+    out?: string;
+}
+
+function optionalNumber(value: string | undefined, name: string): number | undefined {
+    if (value === undefined) return undefined;
+    const number = Number(value);
+    if (!Number.isSafeInteger(number) || number < 0) throw new Error(`--${name} must be a non-negative integer`);
+    return number;
+}
+
+task("unlock-calendar", "Export AIXCBStaking unlock dates as .ics calendars")
+    .addOptionalParam("staking", "AIXCBStaking proxy")
+    .addOptionalParam("block", "Block number; defaults to the latest")
+    .addOptionalParam("fromBlock", "First block to replay, e.g. the proxy deployment block")
+    .addOptionalParam("logBatchSize", "Largest eth_getLogs block range")
+    .addOptionalParam("alarmDays", "Comma-separated reminders in days before unlock, e.g. 7,1")
+    .addOptionalParam("name", "Calendar name")
+    .addOptionalParam("out", "Output directory")
+    .setAction(async (args: CalendarArgs, hre) => {
+        let staking = args.staking;
+        const manifestFile = path.join(hre.config.paths.root, "deployments", `${hre.network.name}.json`);
+        if (staking === undefined && existsSync(manifestFile)) {
+            const manifest: DeploymentManifest = JSON.parse(readFileSync(manifestFile, "utf8"));
+            staking = manifest.contracts.AIXCBStaking?.proxy;
+        }
+        if (staking === undefined) throw new Error(`Pass --staking; ${manifestFile} has no AIXCBStaking`);
+
+        const schedule = await new MaturityScheduler(hre.ethers.provider, {
+            staking,
+            fromBlock: optionalNumber(args.fromBlock, "from-block"),
+            logBatchSize: optionalNumber(args.logBatchSize, "log-batch-size"),
+        }).schedule(optionalNumber(args.block, "block"));
+        const options = {
+            name: args.name,
+            alarmDays: args.alarmDays?.split(",").map((days) => optionalNumber(days.trim(), "alarm-days")!),
+        };
+
+        const out = args.out ?? path.join("calendars", hre.network.name);
+        mkdirSync(out, { recursive: true });
+        writeFileSync(path.join(out, "all.ics"), formatICalendar(schedule, options));
+        const calendars = formatICalendarsByUser(schedule, options);
+        for (const [user, calendar] of calendars) writeFileSync(path.join(out, `${user}.ics`), calendar);
+        console.log(`Block ${schedule.blockNumber}: ${schedule.maturities.length} unlocks of ${calendars.size} stakers written to ${out}`);
+    });
@@ -0,0 +1,94 @@
+import { mkdirSync, readFileSync, writeFileSync } from "fs";
+import path from "path";
+import { task } from "hardhat/config";
+import { DeploymentManifest } from "../sdk/deployment";
+import { EmergencyDrillOptions, formatDrillJson, formatDrillMarkdown, runEmergencyDrill } from "../sdk/emergencyDrill";
+
+/**
+ * Rehearses an emergency wind-down on the in-process Hardhat network. Load it
+ * from `hardhat.config.ts` with `import "./tasks/drill";`:
+ *
+ *   npx hardhat emergency-drill --fork $BASE_RPC_URL --block 23456789 --deployment deployments/base.json
+ *
+ * `--fork` resets the node to a fork of that RPC at `--block` first. Contracts
+ * and the admin come from `--staking` / `--lp` / `--admin` or from the
+ * manifest's proxies and `ADMIN_ROLE` / `EMERGENCY_ADMIN_ROLE` holders.
+ * Prints a Markdown report and writes `drill.md` and `drill.json` to `--out`
+ * (default `drills/<block>`).
+ */
+
+interface DrillArgs {
+    fork?: string;
+    block?: string;
+    deployment?: string;
+    staking?: string;
+    lp?: string;
+    admin?: string;
+    emergencyAdmin?: string;
+    recipient?: string;
+    recover?: string;
+    lpFromBlock?: string;
+    logBatchSize?: string;
+    out?: string;
+}
+
+const DRILL_NETWORKS = ["hardhat", "localhost"];
+
+function optionalNumber(value: string | undefined, name: string): number | undefined {
+    if (value === undefined) return undefined;
+    const number = Number(value);
+    if (!Number.isSafeInteger(number) || number < 0) throw new Error(`--${name} must be a non-negative integer`);
+    return number;
+}
+
+task("emergency-drill", "Rehearse emergency mode: exit every staker and sweep both contracts on a local fork")
+    .addOptionalParam("fork", "RPC URL to fork before the drill")
+    .addOptionalParam("block", "Block to fork at; defaults to the latest")
+    .addOptionalParam("deployment", "Deployment manifest with the proxies and role holders")
+    .addOptionalParam("staking", "AIXCBStaking proxy")
+    .addOptionalParam("lp", "AIXCBLPStaking proxy")
+    .addOptionalParam("admin", "ADMIN_ROLE holder to impersonate")
+    .addOptionalParam("emergencyAdmin", "EMERGENCY_ADMIN_ROLE holder to impersonate; defaults to --admin")
+    .addOptionalParam("recipient", "Recipient of swept reward tokens; defaults to the treasury")
+    .addOptionalParam("recover", "Comma-separated stray tokens to recover with recoverERC20")
+    .addOptionalParam("lpFromBlock", "First block to scan for LP stakers, e.g. the proxy deployment block")
+    .addOptionalParam("logBatchSize", "Largest eth_getLogs block range")
+    .addOptionalParam("out", "Output directory")
+    .setAction(async (args: DrillArgs, hre) => {
+        if (!DRILL_NETWORKS.includes(hre.network.name)) {
+            throw new Error(`The drill impersonates accounts; run it on ${DRILL_NETWORKS.join(" or ")}, not ${hre.network.name}`);
+        }
+        const manifest: DeploymentManifest | undefined =
+            args.deployment === undefined ? undefined : JSON.parse(readFileSync(args.deployment, "utf8"));
+        const staking = manifest?.contracts.AIXCBStaking;
+        const lp = manifest?.contracts.AIXCBLPStaking;
+        const admin = args.admin ?? staking?.roles.ADMIN_ROLE[0] ?? lp?.roles.ADMIN_ROLE[0];
+        if (admin === undefined) throw new Error("Give --admin or a --deployment that lists an ADMIN_ROLE holder");
+
+        const options: EmergencyDrillOptions = {
+            staking: args.staking ?? staking?.proxy,
+            lp: args.lp ?? lp?.proxy,
+            admin,
+            emergencyAdmin: args.emergencyAdmin ?? staking?.roles.EMERGENCY_ADMIN_ROLE[0] ?? lp?.roles.EMERGENCY_ADMIN_ROLE[0],
+            rewardRecipient: args.recipient,
+            recoverTokens: args.recover?.split(",").map((token) => token.trim()),
+            lpFromBlock: optionalNumber(args.lpFromBlock, "lp-from-block"),
+            logBatchSize: optionalNumber(args.logBatchSize, "log-batch-size"),
+            // The node is thrown away or was reset for this run
+            keepState: args.fork !== undefined,
+        };
+
+        if (args.fork !== undefined) {
+            const blockNumber = optionalNumber(args.block, "block");
+            await hre.network.provider.send("hardhat_reset", [{ forking: { jsonRpcUrl: args.fork, blockNumber } }]);
+        }
+        const report = await runEmergencyDrill(hre.ethers.provider, options);
+        const markdown = formatDrillMarkdown(report);
+        console.log(markdown);
+
+        const out = args.out ?? path.join(hre.config.paths.root, "drills", String(report.blockNumber));
+        mkdirSync(out, { recursive: true });
+        writeFileSync(path.join(out, "drill.md"), markdown);
+        writeFileSync(path.join(out, "drill.json"), formatDrillJson(report) + "\n");
+        console.log(`Report written to ${out}`);
+    });
@@ -0,0 +1,39 @@
+import { readFileSync, writeFileSync } from "fs";
+import { task } from "hardhat/config";
+import { FundingPlanner, formatFundingPlan, parseFundingTargets, toActionPlan } from "../sdk/fundingPlanner";
+import { stringifyActionPlan } from "../sdk/safeBatch";
+
+/**
+ * Sizes reward pool funding for target rates, emissions or APRs. Load it from
+ * `hardhat.config.ts` with `import "./tasks/funding";`:
+ *
+ *   npx hardhat plan-funding --targets plans/april.targets.yaml --network base
+ *
+ * Writes the `fund-pool` actions as an action plan (`april.yaml` next to the
+ * targets unless `--out` is given) for `npx hardhat safe-batch --plan`.
+ */
+
+task("plan-funding", "Compute fundRewardPool amounts for target rates and write a Safe action plan")
+    .addParam("targets", "YAML or JSON target file")
+    .addOptionalParam("out", "Action plan file; defaults to the target path without .targets")
+    .setAction(async (args: { targets: string; out?: string }, hre) => {
+        const targets = parseFundingTargets(readFileSync(args.targets, "utf8"));
+        const chainId = (await hre.ethers.provider.getNetwork()).chainId;
+        if (chainId !== BigInt(targets.chainId)) {
+            throw new Error(`The targets are for chain ${targets.chainId}, but ${hre.network.name} is chain ${chainId}`);
+        }
+
+        const planner = new FundingPlanner(targets.contracts, hre.ethers.provider);
+        const plans = await planner.plan(targets.targets, targets.fundAt);
+        console.log(formatFundingPlan(plans));
+
+        const actionPlan = toActionPlan(targets, plans);
+        if (actionPlan.actions.length === 0) {
+            console.log("Every pool already meets its target; no action plan written");
+            return;
+        }
+        const out = args.out ?? args.targets.replace(/\.targets(?=\.(ya?ml|json)$)/, "").replace(/\.json$/, ".yaml");
+        if (out === args.targets) throw new Error("Pass --out; the default would overwrite the target file");
+        writeFileSync(out, stringifyActionPlan(actionPlan));
+        console.log(`Action plan written to ${out}`);
+    });
@@ -0,0 +1,40 @@
+import { readFileSync, writeFileSync } from "fs";
+import { task } from "hardhat/config";
+import { buildSafeBatch, formatBatchSummary, formatSimulation, parseActionPlan, simulateBatch } from "../sdk/safeBatch";
+
+/**
+ * Builds a Safe Transaction Builder batch from an action plan. Load it from
+ * `hardhat.config.ts` with `import "./tasks/safe";`:
+ *
+ *   npx hardhat safe-batch --plan plans/march.yaml --network base
+ *
+ * The batch is written next to the plan (`march.safe.json`) unless `--out` is
+ * given. On `hardhat` or `localhost`, e.g. a node forking Base, it is then
+ * replayed from the impersonated Safe; the task fails if any transaction
+ * would revert.
+ */
+
+const SIMULATION_NETWORKS = ["hardhat", "localhost"];
+
+task("safe-batch", "Encode an admin action plan as a Safe Transaction Builder batch")
+    .addParam("plan", "YAML or JSON action plan")
+    .addOptionalParam("out", "Batch file; defaults to the plan path with .safe.json")
+    .addFlag("skipSimulation", "Do not replay the batch on the Hardhat node")
+    .setAction(async (args: { plan: string; out?: string; skipSimulation: boolean }, hre) => {
+        const plan = parseActionPlan(readFileSync(args.plan, "utf8"));
+        const batch = await buildSafeBatch(plan, hre.ethers.provider);
+        console.log(formatBatchSummary(batch));
+
+        const out = args.out ?? args.plan.replace(/\.(ya?ml|json)$/, "") + ".safe.json";
+        writeFileSync(out, JSON.stringify(batch.file, null, 2) + "\n");
+        console.log(`Batch written to ${out}`);
+
+        if (args.skipSimulation) return;
+        if (!SIMULATION_NETWORKS.includes(hre.network.name)) {
+            console.log(`Not simulated: run against a Hardhat node forking ${hre.network.name} (--network localhost)`);
+            return;
+        }
+        const result = await simulateBatch(hre.ethers.provider, batch);
+        console.log(formatSimulation(result));
+        if (!result.success) throw new Error("The batch reverts in simulation");
+    });
@@ -0,0 +1,89 @@
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from "fs";
+import path from "path";
+import { task } from "hardhat/config";
+import { DeploymentManifest } from "../sdk/deployment";
+import {
+    SnapshotOptions,
+    buildMerkleAllocation,
+    formatSnapshotCsv,
+    formatSnapshotJson,
+    parseEligibilityRules,
+    takeSnapshot
+} from "../sdk/snapshot";
+
+/**
+ * Snapshots the stakers of both contracts at a block. Load it from
+ * `hardhat.config.ts` with `import "./tasks/snapshot";`:
+ *
+ *   npx hardhat snapshot-stakers --block 23456789 --lp-from-block 21000000 --network base
+ *   npx hardhat snapshot-stakers --block 23456789 --rules campaigns/october.yaml --network base
+ *
+ * Contracts come from `--staking` / `--lp` or from `deployments/<network>.json`.
+ * Writes `snapshot.json` and `snapshot.csv` to `--out` (default
+ * `snapshots/<network>-<block>`). With `--rules`, also writes the Merkle tree
+ * as `merkle.json` (`StandardMerkleTree.dump()` plus the root) and one
+ * `proofs/<address>.json` per eligible address.
+ */
+
+interface SnapshotArgs {
+    staking?: string;
+    lp?: string;
+    block?: string;
+    lpFromBlock?: string;
+    logBatchSize?: string;
+    out?: string;
+    rules?: string;
+}
+
+function optionalNumber(value: string | undefined, name: string): number | undefined {
+    if (value === undefined) return undefined;
+    const number = Number(value);
+    if (!Number.isSafeInteger(number) || number < 0) throw new Error(`--${name} must be a non-negative integer`);
+    return number;
+}
+
+task("snapshot-stakers", "Export stakers of both contracts at a block, optionally with a Merkle tree of eligible addresses")
+    .addOptionalParam("staking", "AIXCBStaking proxy")
+    .addOptionalParam("lp", "AIXCBLPStaking proxy")
+    .addOptionalParam("block", "Block number; defaults to the latest")
+    .addOptionalParam("lpFromBlock", "First block to scan for LP stakers, e.g. the proxy deployment block")
+    .addOptionalParam("logBatchSize", "Largest eth_getLogs block range")
+    .addOptionalParam("out", "Output directory")
+    .addOptionalParam("rules", "YAML or JSON eligibility rules for a Merkle tree")
+    .setAction(async (args: SnapshotArgs, hre) => {
+        const options: SnapshotOptions = {
+            staking: args.staking,
+            lp: args.lp,
+            blockNumber: optionalNumber(args.block, "block"),
+            lpFromBlock: optionalNumber(args.lpFromBlock, "lp-from-block"),
+            logBatchSize: optionalNumber(args.logBatchSize, "log-batch-size"),
+        };
+        const manifestFile = path.join(hre.config.paths.root, "deployments", `${hre.network.name}.json`);
+        if (options.staking === undefined && options.lp === undefined && existsSync(manifestFile)) {
+            const manifest: DeploymentManifest = JSON.parse(readFileSync(manifestFile, "utf8"));
+            options.staking = manifest.contracts.AIXCBStaking?.proxy;
+            options.lp = manifest.contracts.AIXCBLPStaking?.proxy;
+        }
+        // Parse the rules before the slow part
+        const rules = args.rules === undefined ? undefined : parseEligibilityRules(readFileSync(args.rules, "utf8"));
+
+        const snapshot = await takeSnapshot(hre.ethers.provider, options);
+        const out = args.out ?? path.join(hre.config.paths.root, "snapshots", `${hre.network.name}-${snapshot.blockNumber}`);
+        mkdirSync(out, { recursive: true });
+        writeFileSync(path.join(out, "snapshot.json"), formatSnapshotJson(snapshot) + "\n");
+        writeFileSync(path.join(out, "snapshot.csv"), formatSnapshotCsv(snapshot));
+        console.log(
+            `Block ${snapshot.blockNumber}: ${snapshot.staking?.stakes.length ?? 0} AIXCBStaking stakes, ` +
+                `${snapshot.lp?.stakes.length ?? 0} AIXCBLPStaking stakes written to ${out}`
+        );
+        if (rules === undefined) return;
+
+        const allocation = buildMerkleAllocation(snapshot, rules);
+        writeFileSync(path.join(out, "merkle.json"), JSON.stringify({ root: allocation.root, rules, ...allocation.tree.dump() }, null, 2) + "\n");
+        mkdirSync(path.join(out, "proofs"), { recursive: true });
+        for (const [account, { amount, proof }] of Object.entries(allocation.proofs)) {
+            const file = { root: allocation.root, account, amount: amount.toString(), proof };
+            writeFileSync(path.join(out, "proofs", `${account}.json`), JSON.stringify(file, null, 2) + "\n");
+        }
+        console.log(`Merkle root ${allocation.root} over ${Object.keys(allocation.proofs).length} addresses`);
+    });
@@ -0,0 +1,94 @@
+import { existsSync, readFileSync, writeFileSync } from "fs";
+import path from "path";
+import { formatUnits } from "ethers";
+import { task } from "hardhat/config";
+import { DeploymentManifest } from "../sdk/deployment";
+import {
+    DEFAULT_VOTING_POWER_CONFIG,
+    VotingPowerEngine,
+    VotingPowerOptions,
+    computeVotingPower,
+    parseVotingPowerConfig
+} from "../sdk/votingPower";
+
+/**
+ * Governance voting power of every staker at a block. Load it from
+ * `hardhat.config.ts` with `import "./tasks/votingPower";`:
+ *
+ *   npx hardhat voting-power --block 23456789 --from-block 21000000 --network base
+ *   npx hardhat voting-power --block 23456789 --weights governance.yaml --addresses 0xabc...,0xdef... --network base
+ *
+ * Contracts come from `--staking` / `--lp` or from `deployments/<network>.json`.
+ * Prints a CSV of `address,staking,lp,total` in whole tokens, or writes it to
+ * `--out`; a `.json` file gets `{ address: score }` as a Snapshot strategy returns.
+ */
+
+interface VotingPowerArgs {
+    staking?: string;
+    lp?: string;
+    block?: string;
+    fromBlock?: string;
+    logBatchSize?: string;
+    weights?: string;
+    addresses?: string;
+    out?: string;
+}
+
+function optionalNumber(value: string | undefined, name: string): number | undefined {
+    if (value === undefined) return undefined;
+    const number = Number(value);
+    if (!Number.isSafeInteger(number) || number < 0) throw new Error(`--${name} must be a non-negative integer`);
+    return number;
+}
+
+task("voting-power", "Compute lock-boosted governance voting power at a block from stake events")
+    .addOptionalParam("staking", "AIXCBStaking proxy")
+    .addOptionalParam("lp", "AIXCBLPStaking proxy")
+    .addOptionalParam("block", "Block number; defaults to the latest")
+    .addOptionalParam("fromBlock", "First block to replay, e.g. the proxy deployment block")
+    .addOptionalParam("logBatchSize", "Largest eth_getLogs block range")
+    .addOptionalParam("weights", "YAML or JSON lock multipliers, decay and LP multiplier")
+    .addOptionalParam("addresses", "Comma-separated addresses to score; every staker by default")
+    .addOptionalParam("out", "Output file, .csv or .json")
+    .setAction(async (args: VotingPowerArgs, hre) => {
+        const options: VotingPowerOptions = {
+            staking: args.staking,
+            lp: args.lp,
+            fromBlock: optionalNumber(args.fromBlock, "from-block"),
+            logBatchSize: optionalNumber(args.logBatchSize, "log-batch-size"),
+        };
+        const manifestFile = path.join(hre.config.paths.root, "deployments", `${hre.network.name}.json`);
+        if (options.staking === undefined && options.lp === undefined && existsSync(manifestFile)) {
+            const manifest: DeploymentManifest = JSON.parse(readFileSync(manifestFile, "utf8"));
+            options.staking = manifest.contracts.AIXCBStaking?.proxy;
+            options.lp = manifest.contracts.AIXCBLPStaking?.proxy;
+        }
+        const config = args.weights === undefined ? DEFAULT_VOTING_POWER_CONFIG : parseVotingPowerConfig(readFileSync(args.weights, "utf8"));
+        const addresses = args.addresses?.split(",").map((address) => address.trim());
+
+        const history = await new VotingPowerEngine(hre.ethers.provider, options).history(optionalNumber(args.block, "block"));
+        const powers = computeVotingPower(history, config, addresses);
+        const { decimals } = history;
+
+        let output: string;
+        if (args.out?.endsWith(".json")) {
+            const scores = Object.fromEntries(powers.map((power) => [power.address, Number(formatUnits(power.total, decimals.staking))]));
+            output = JSON.stringify(scores, null, 2) + "\n";
+        } else {
+            const rows = powers.map((power) =>
+                [
+                    power.address,
+                    formatUnits(power.staking, decimals.staking),
+                    formatUnits(power.lp, decimals.lp),
+                    formatUnits(power.total, decimals.staking),
+                ].join(",")
+            );
+            output = ["address,staking,lp,total", ...rows].join("\n") + "\n";
+        }
+        if (args.out === undefined) {
+            process.stdout.write(output);
+            return;
+        }
+        writeFileSync(args.out, output);
+        console.log(`Block ${history.blockNumber}: voting power of ${powers.length} addresses written to ${args.out}`);
+    });
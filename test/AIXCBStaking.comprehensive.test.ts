@@ -1,499 +1,484 @@
 import { expect } from "chai";
 import { ethers } from "hardhat";
 import { time } from "@nomicfoundation/hardhat-network-helpers";
-import { AIXCBStaking, MockERC20 } from "../typechain-types";
+import { ContractTransactionResponse } from "ethers";
+import { AIXCBStaking, AIXCBStaking__factory, MockERC20 } from "../typechain-types";
+import { AIXCBStaking as AIXCBStakingV1 } from "../typechain-types/src/legacy/AIXCBStaking.v1.sol";
+import { AIXCBStaking__factory as AIXCBStakingV1__factory } from "../typechain-types/factories/src/legacy/AIXCBStaking.v1.sol";
 import { SignerWithAddress } from "@nomicfoundation/hardhat-ethers/signers";
+import { StakingRewardModel, TokenAmount } from "../sdk/rewardModel";
+import { INITIAL_REWARD_AMOUNT, deployStakingFixture } from "./fixtures";
+import { STAKING_VERSIONS, VIP_THRESHOLD } from "./versions";
+
+for (const spec of STAKING_VERSIONS) {
+    describe(`AIXCBStaking ${spec.version} Comprehensive Tests`, () => {
+        // Constants
+        const ONE_DAY = 24 * 60 * 60;
+        const NINETY_DAYS = 90 * ONE_DAY;
+        const SECONDS_PER_YEAR = 365 * ONE_DAY;
+
+        // Contract instances
+        let staking: AIXCBStaking;
+        let stakingToken: MockERC20;
+        let rewardTokenB: MockERC20;
+        let rewardTokenC: MockERC20;
+        // The same proxy through each version's ABI, for members only one version has
+        let asV1: AIXCBStakingV1;
+        let asV2: AIXCBStaking;
+
+        // Signers
+        let owner: SignerWithAddress;
+        let users: SignerWithAddress[];
+        let treasury: SignerWithAddress;
+
+        beforeEach(async () => {
+            ({ staking, stakingToken, rewardTokenB, rewardTokenC, owner, users, treasury } = await deployStakingFixture(spec.contract));
+            asV1 = AIXCBStakingV1__factory.connect(await staking.getAddress(), owner);
+            asV2 = AIXCBStaking__factory.connect(await staking.getAddress(), owner);
+        });
 
-describe("AIXCBStaking Comprehensive Tests", () => {
-    // Constants
-    const NINETY_DAYS = 90 * 24 * 60 * 60;
-    const ONE_HUNDRED_EIGHTY_DAYS = 180 * 24 * 60 * 60;
-    const THREE_SIXTY_DAYS = 360 * 24 * 60 * 60;
-    const SECONDS_PER_YEAR = 365 * 24 * 60 * 60;
-    const TIME_BUFFER = 2;
-    const VIP_THRESHOLD = ethers.parseEther("1000000");
-    const INITIAL_REWARD_AMOUNT = ethers.parseEther("1000000");
-
-    // Contract instances
-    let staking: AIXCBStaking;
-    let stakingToken: MockERC20;
-    let rewardTokenB: MockERC20;
-    let rewardTokenC: MockERC20;
-
-    // Signers
-    let owner: SignerWithAddress;
-    let users: SignerWithAddress[];
-    let treasury: SignerWithAddress;
-
-    beforeEach(async () => {
-        [owner, ...users] = await ethers.getSigners();
-        treasury = users[users.length - 1];
-
-        // Deploy mock tokens
-        const MockToken = await ethers.getContractFactory("MockERC20");
-        stakingToken = await MockToken.deploy("AIXCB Token", "AIXCB");
-        rewardTokenB = await MockToken.deploy("Token B", "TKB");
-        rewardTokenC = await MockToken.deploy("Token C", "TKC");
-
-        // Deploy staking implementation
-        const Staking = await ethers.getContractFactory("AIXCBStaking");
-        const stakingImpl = await Staking.deploy();
-
-        // Initialize implementation
-        const initData = Staking.interface.encodeFunctionData("initialize", [
-            await stakingToken.getAddress(),
-            [
-                await stakingToken.getAddress(),
-                await rewardTokenB.getAddress(),
-                await rewardTokenC.getAddress()
-            ],
-            treasury.address
-        ]);
-
-        // Deploy proxy
-        const TransparentProxy = await ethers.getContractFactory("TransparentUpgradeableProxy");
-        const proxy = await TransparentProxy.deploy(
-            await stakingImpl.getAddress(),
-            owner.address,
-            initData
-        );
-
-        staking = Staking.attach(await proxy.getAddress()) as AIXCBStaking;
-
-        // Setup initial token balances and approvals
-        await setupTokensAndApprovals();
-    });
-
-    async function setupTokensAndApprovals() {
-        // Mint tokens to owner for reward pools
-        await stakingToken.mint(owner.address, ethers.parseEther("10000000"));
-        await rewardTokenB.mint(owner.address, ethers.parseEther("10000000"));
-        await rewardTokenC.mint(owner.address, ethers.parseEther("10000000"));
-
-        // Approve reward pool funding
-        await stakingToken.approve(await staking.getAddress(), ethers.parseEther("10000000"));
-        await rewardTokenB.approve(await staking.getAddress(), ethers.parseEther("10000000"));
-        await rewardTokenC.approve(await staking.getAddress(), ethers.parseEther("10000000"));
-
-        // Fund reward pools for each period
-        for (let i = 0; i <= 2; i++) {
-            await staking.fundRewardPool(i, await stakingToken.getAddress(), INITIAL_REWARD_AMOUNT);
-            await staking.fundRewardPool(i, await rewardTokenB.getAddress(), INITIAL_REWARD_AMOUNT);
-            await staking.fundRewardPool(i, await rewardTokenC.getAddress(), INITIAL_REWARD_AMOUNT);
+        /** Stakes with a one hour deadline, through the v1 ABI with the unused `minRate` where the version expects it */
+        async function stake(user: SignerWithAddress, amount: bigint, periodIndex = 0, deadline?: number) {
+            const params = { amount, periodIndex, deadline: deadline ?? (await time.latest()) + 3600 };
+            return spec.stakeParamsMinRate ? asV1.connect(user).stake({ ...params, minRate: 0 }) : staking.connect(user).stake(params);
         }
 
-        // Mint and approve tokens for test users
-        for (const user of users.slice(0, -1)) {
-            await stakingToken.mint(user.address, ethers.parseEther("1000000"));
-            await stakingToken.connect(user).approve(await staking.getAddress(), ethers.parseEther("1000000"));
+        async function minedAt(tx: Promise<ContractTransactionResponse>): Promise<bigint> {
+            const receipt = await (await tx).wait();
+            return BigInt((await ethers.provider.getBlock(receipt!.blockNumber))!.timestamp);
         }
 
-        // Unpause contract
-        await staking.unpause();
-    }
-
-    describe("Initialization & Setup", () => {
-        it("should initialize with correct parameters", async () => {
-            expect(await staking.stakingToken()).to.equal(await stakingToken.getAddress());
-            expect(await staking.treasury()).to.equal(treasury.address);
-            
-            expect(await staking.rewardTokens(0)).to.equal(await stakingToken.getAddress());
-            expect(await staking.rewardTokens(1)).to.equal(await rewardTokenB.getAddress());
-            expect(await staking.rewardTokens(2)).to.equal(await rewardTokenC.getAddress());
-        });
+        /** Reward model seeded with the fixture's funded pools and balances, before anyone stakes */
+        async function rewardModel(): Promise<StakingRewardModel> {
+            const tokens = [stakingToken, rewardTokenB, rewardTokenC];
+            const addresses = await Promise.all(tokens.map((token) => token.getAddress()));
+            const model = new StakingRewardModel(addresses[0], addresses);
+            for (const [i, token] of tokens.entries()) {
+                model.balances.set(addresses[i], await token.balanceOf(await staking.getAddress()));
+                for (let periodIndex = 0; periodIndex <= 2; periodIndex++) {
+                    const pool = await staking.rewardPools(periodIndex, addresses[i]);
+                    model.loadRewardPool(periodIndex, addresses[i], {
+                        totalReward: pool.totalReward,
+                        accumulatedPerShare: pool.accumulatedPerShare,
+                        lastUpdateTime: pool.lastUpdateTime,
+                        totalDistributed: pool.totalDistributed,
+                        periodFinish: pool.periodFinish,
+                        rewardRate: pool.rewardRate
+                    });
+                }
+            }
+            return model;
+        }
 
-        it("should set up correct roles", async () => {
-            expect(await staking.hasRole(await staking.DEFAULT_ADMIN_ROLE(), owner.address)).to.be.true;
-            expect(await staking.hasRole(await staking.ADMIN_ROLE(), owner.address)).to.be.true;
-            expect(await staking.hasRole(await staking.EMERGENCY_ADMIN_ROLE(), owner.address)).to.be.true;
-            expect(await staking.hasRole(await staking.REWARD_MANAGER_ROLE(), owner.address)).to.be.true;
-        });
+        /** What the model paid out in `token`, zero when nothing */
+        function paidIn(paid: TokenAmount[], token: string): bigint {
+            return paid.find((transfer) => transfer.token === token)?.amount ?? 0n;
+        }
 
-        it("should have correct initial state", async () => {
-            expect(await staking.paused()).to.be.false;
-            expect(await staking.emergencyMode()).to.be.false;
-            
-            for (let i = 0; i <= 2; i++) {
-                const pool = await staking.getRewardPoolInfo(i, await stakingToken.getAddress());
-                expect(pool.totalReward).to.equal(INITIAL_REWARD_AMOUNT);
-            }
-        });
-    });
+        describe("Initialization & Setup", () => {
+            it("should initialize with correct parameters", async () => {
+                expect(await staking.stakingToken()).to.equal(await stakingToken.getAddress());
+                expect(await staking.treasury()).to.equal(treasury.address);
 
-    describe("Staking Mechanics", () => {
-        it("should handle single stake correctly", async () => {
-            const amount = ethers.parseEther("1000");
-            const user = users[0];
-            const startTime = await time.latest();
-
-            await staking.connect(user).stake({
-                amount,
-                periodIndex: 0,
-                deadline: startTime + 3600,
-                minRate: 0
+                expect(await staking.rewardTokens(0)).to.equal(await stakingToken.getAddress());
+                expect(await staking.rewardTokens(1)).to.equal(await rewardTokenB.getAddress());
+                expect(await staking.rewardTokens(2)).to.equal(await rewardTokenC.getAddress());
             });
 
-            const userStake = await staking.getUserStake(user.address, 0);
-            expect(userStake.amount).to.equal(amount);
-            expect(userStake.initialized).to.be.true;
-            expect(Number(userStake.startTime)).to.be.closeTo(startTime, 2);
-            expect(Number(userStake.endTime)).to.be.closeTo(startTime + NINETY_DAYS, 2);
-        });
+            it("should set up correct roles", async () => {
+                expect(await staking.hasRole(await staking.DEFAULT_ADMIN_ROLE(), owner.address)).to.be.true;
+                expect(await staking.hasRole(await staking.ADMIN_ROLE(), owner.address)).to.be.true;
+                expect(await staking.hasRole(await staking.EMERGENCY_ADMIN_ROLE(), owner.address)).to.be.true;
+                expect(await staking.hasRole(await staking.REWARD_MANAGER_ROLE(), owner.address)).to.be.true;
+            });
 
-        it("should handle multiple stakes in different periods", async () => {
-            const user = users[0];
-            const amounts = [
-                ethers.parseEther("1000"),
-                ethers.parseEther("2000"),
-                ethers.parseEther("3000")
-            ];
-
-            for (let i = 0; i <= 2; i++) {
-                await staking.connect(user).stake({
-                    amount: amounts[i],
-                    periodIndex: i,
-                    deadline: (await time.latest()) + 3600,
-                    minRate: 0
-                });
-
-                const userStake = await staking.getUserStake(user.address, i);
-                expect(userStake.amount).to.equal(amounts[i]);
-                expect(userStake.periodIndex).to.equal(i);
-            }
+            it("should have correct initial state", async () => {
+                expect(await staking.paused()).to.be.false;
+                expect(await staking.emergencyMode()).to.be.false;
 
-            expect(await staking.getUserTotalStake(user.address))
-                .to.equal(amounts.reduce((a, b) => a + b));
+                for (let i = 0; i <= 2; i++) {
+                    const pool = await staking.getRewardPoolInfo(i, await stakingToken.getAddress());
+                    expect(pool.totalReward).to.equal(INITIAL_REWARD_AMOUNT);
+                }
+            });
         });
 
-        it("should enforce staking limits and conditions", async () => {
-            const user = users[0];
-            const amount = ethers.parseEther("1000");
-
-            // Test expired deadline
-            const pastDeadline = (await time.latest()) - 3600;
-            await expect(staking.connect(user).stake({
-                amount,
-                periodIndex: 0,
-                deadline: pastDeadline,
-                minRate: 0
-            })).to.be.revertedWithCustomError(staking, "DeadlineExpired");
-
-            // Test zero amount
-            await expect(staking.connect(user).stake({
-                amount: 0,
-                periodIndex: 0,
-                deadline: (await time.latest()) + 3600,
-                minRate: 0
-            })).to.be.revertedWithCustomError(staking, "ZeroAmount");
-
-            // Test invalid period
-            await expect(staking.connect(user).stake({
-                amount,
-                periodIndex: 3,
-                deadline: (await time.latest()) + 3600,
-                minRate: 0
-            })).to.be.revertedWithCustomError(staking, "InvalidPeriod");
-        });
-    });
+        describe("Staking Mechanics", () => {
+            it("should handle single stake correctly", async () => {
+                const amount = ethers.parseEther("1000");
+                const user = users[0];
+                const startTime = await time.latest();
 
-    describe("Reward Distribution", () => {
-        it("should calculate and distribute rewards correctly", async () => {
-            const user = users[0];
-            const amount = ethers.parseEther("1000");
+                await stake(user, amount);
 
-            await staking.connect(user).stake({
-                amount,
-                periodIndex: 0,
-                deadline: (await time.latest()) + 3600,
-                minRate: 0
+                const userStake = await staking.getUserStake(user.address, 0);
+                expect(userStake.amount).to.equal(amount);
+                expect(userStake.initialized).to.be.true;
+                expect(Number(userStake.startTime)).to.be.closeTo(startTime, 2);
+                expect(Number(userStake.endTime)).to.be.closeTo(startTime + NINETY_DAYS, 2);
             });
 
-            await time.increase(30 * 24 * 60 * 60); // 30 days
+            it("should handle multiple stakes in different periods", async () => {
+                const user = users[0];
+                const amounts = [ethers.parseEther("1000"), ethers.parseEther("2000"), ethers.parseEther("3000")];
 
-            const pendingRewards = await staking.pendingRewards(user.address, 0, await stakingToken.getAddress());
-            expect(pendingRewards).to.be.gt(0);
+                for (let i = 0; i <= 2; i++) {
+                    await stake(user, amounts[i], i);
 
-            const balanceBefore = await stakingToken.balanceOf(user.address);
-            await staking.connect(user).claimRewards(0);
-            const balanceAfter = await stakingToken.balanceOf(user.address);
+                    const userStake = await staking.getUserStake(user.address, i);
+                    expect(userStake.amount).to.equal(amounts[i]);
+                    expect(userStake.periodIndex).to.equal(i);
+                }
 
-            expect(balanceAfter).to.be.gt(balanceBefore);
-            // Use a larger tolerance for reward comparison due to block timestamp variations
-            expect(balanceAfter - balanceBefore).to.be.closeTo(pendingRewards, ethers.parseEther("1"));
-        });
+                expect(await staking.getUserTotalStake(user.address)).to.equal(amounts.reduce((a, b) => a + b));
+            });
+
+            it("should enforce staking limits and conditions", async () => {
+                const user = users[0];
+                const amount = ethers.parseEther("1000");
 
-        it("should handle multiple reward tokens correctly", async () => {
-            const user = users[0];
-            const amount = ethers.parseEther("1000");
+                // Test expired deadline
+                const pastDeadline = (await time.latest()) - 3600;
+                await expect(stake(user, amount, 0, pastDeadline)).to.be.revertedWithCustomError(staking, "DeadlineExpired");
 
-            await staking.connect(user).stake({
-                amount,
-                periodIndex: 0,
-                deadline: (await time.latest()) + 3600,
-                minRate: 0
+                // Test zero amount
+                await expect(stake(user, 0n)).to.be.revertedWithCustomError(staking, "ZeroAmount");
+
+                // Test invalid period
+                await expect(stake(user, amount, 3)).to.be.revertedWithCustomError(staking, "InvalidPeriod");
             });
 
-            await time.increase(30 * 24 * 60 * 60); // 30 days
+            it(`should ${spec.emitsStakingActivity ? "" : "not "}emit StakingActivity`, async () => {
+                const tx = stake(users[0], ethers.parseEther("1000"));
+                if (spec.emitsStakingActivity) {
+                    await expect(tx).to.emit(asV1, "StakingActivity");
+                } else {
+                    await expect(tx).not.to.emit(asV1, "StakingActivity");
+                }
+            });
+        });
 
-            const rewardTokens = [
-                await stakingToken.getAddress(),
-                await rewardTokenB.getAddress(),
-                await rewardTokenC.getAddress()
-            ];
+        describe("Reward Distribution", () => {
+            it("should calculate and distribute rewards correctly", async () => {
+                const user = users[0];
+                const amount = ethers.parseEther("1000");
+                const token = await stakingToken.getAddress();
+                const model = await rewardModel();
 
-            for (const token of rewardTokens) {
-                const pending = await staking.pendingRewards(user.address, 0, token);
-                expect(pending).to.be.gt(0);
-            }
+                model.stake(user.address, 0, amount, await minedAt(stake(user, amount)));
 
-            await staking.connect(user).claimRewards(0);
+                await time.increase(30 * ONE_DAY);
 
-            for (const token of rewardTokens) {
-                const contract = await ethers.getContractAt("MockERC20", token);
-                const balance = await contract.balanceOf(user.address);
-                expect(balance).to.be.gt(0);
-            }
-        });
+                const pendingRewards = await staking.pendingRewards(user.address, 0, token);
+                expect(pendingRewards).to.be.gt(0);
 
-        it("should distribute rewards proportionally with multiple stakers", async () => {
-            const [user1, user2] = users;
-            const amount1 = ethers.parseEther("1000");
-            const amount2 = ethers.parseEther("2000");
-
-            // User1 stakes first
-            await staking.connect(user1).stake({
-                amount: amount1,
-                periodIndex: 0,
-                deadline: (await time.latest()) + 3600,
-                minRate: 0
+                const balanceBefore = await stakingToken.balanceOf(user.address);
+                const claimedAt = await minedAt(staking.connect(user).claimRewards(0));
+                const balanceAfter = await stakingToken.balanceOf(user.address);
+
+                // The claim lands a block after the view, so compare with the model at the claim's timestamp
+                expect(balanceAfter - balanceBefore).to.equal(paidIn(model.claimRewards(user.address, 0, claimedAt), token));
+                expect(balanceAfter - balanceBefore).to.be.gte(pendingRewards);
             });
 
-            // Check initial rewards
-            const initialRewards1 = await staking.pendingRewards(user1.address, 0, await stakingToken.getAddress());
+            it("should handle multiple reward tokens correctly", async () => {
+                const user = users[0];
+                const amount = ethers.parseEther("1000");
+
+                await stake(user, amount);
+
+                await time.increase(30 * ONE_DAY);
+
+                const rewardTokens = [
+                    await stakingToken.getAddress(),
+                    await rewardTokenB.getAddress(),
+                    await rewardTokenC.getAddress()
+                ];
+
+                for (const token of rewardTokens) {
+                    const pending = await staking.pendingRewards(user.address, 0, token);
+                    expect(pending).to.be.gt(0);
+                }
 
-            await time.increase(15 * 24 * 60 * 60); // 15 days
-            const midRewards1 = await staking.pendingRewards(user1.address, 0, await stakingToken.getAddress());
+                await staking.connect(user).claimRewards(0);
 
-            // User2 stakes double the amount
-            await staking.connect(user2).stake({
-                amount: amount2,
-                periodIndex: 0,
-                deadline: (await time.latest()) + 3600,
-                minRate: 0
+                for (const token of rewardTokens) {
+                    const contract = await ethers.getContractAt("MockERC20", token);
+                    const balance = await contract.balanceOf(user.address);
+                    expect(balance).to.be.gt(0);
+                }
             });
 
-            await time.increase(15 * 24 * 60 * 60); // Another 15 days
+            it("should distribute rewards proportionally with multiple stakers", async () => {
+                const [user1, user2] = users;
+                const amount1 = ethers.parseEther("1000");
+                const amount2 = ethers.parseEther("2000");
 
-            const finalRewards1 = await staking.pendingRewards(user1.address, 0, await stakingToken.getAddress());
-            const finalRewards2 = await staking.pendingRewards(user2.address, 0, await stakingToken.getAddress());
+                // User1 stakes first
+                await stake(user1, amount1);
 
-            const ratio = Number(finalRewards2) / Number(finalRewards1);
-            // User2 should have ~0.5x rewards since they staked for half the time
-            expect(ratio).to.be.closeTo(0.5, 0.1);
-        });
-    });
+                await time.increase(15 * ONE_DAY);
 
-    describe("Withdrawal Mechanics", () => {
-        it("should prevent early withdrawal", async () => {
-            const user = users[0];
-            const amount = ethers.parseEther("1000");
+                // User2 stakes double the amount
+                await stake(user2, amount2);
 
-            await staking.connect(user).stake({
-                amount,
-                periodIndex: 0,
-                deadline: (await time.latest()) + 3600,
-                minRate: 0
-            });
+                await time.increase(15 * ONE_DAY);
+
+                const finalRewards1 = await staking.pendingRewards(user1.address, 0, await stakingToken.getAddress());
+                const finalRewards2 = await staking.pendingRewards(user2.address, 0, await stakingToken.getAddress());
 
-            await time.increase(30 * 24 * 60 * 60); // 30 days
+                const ratio = Number(finalRewards2) / Number(finalRewards1);
+                // User2 should have ~0.5x rewards since they staked for half the time
+                expect(ratio).to.be.closeTo(0.5, 0.1);
+            });
 
-            await expect(staking.connect(user).withdraw(0))
-                .to.be.revertedWithCustomError(staking, "StakeLocked");
+            it(`should ${spec.claimsCappedAtBalance ? "cap claims at the balance" : "revert claims the balance cannot cover"}`, async () => {
+                const user = users[0];
+                await stake(user, ethers.parseEther("1000"));
+                await time.increase(30 * ONE_DAY);
+
+                // Drain every TKB reward
+                await staking.enableEmergencyMode();
+                const drained = await rewardTokenB.balanceOf(await staking.getAddress());
+                await staking.emergencyWithdrawRewardToken(await rewardTokenB.getAddress(), drained, treasury.address);
+                await staking.disableEmergencyMode();
+
+                const claim = staking.connect(user).claimRewards(0);
+                if (spec.claimsCappedAtBalance) {
+                    await claim;
+                    expect(await rewardTokenB.balanceOf(user.address)).to.equal(0);
+                    expect(await rewardTokenC.balanceOf(user.address)).to.be.gt(0);
+                    expect(await staking.userRewards(user.address, 0, await rewardTokenB.getAddress())).to.be.gt(0);
+                } else {
+                    await expect(claim).to.be.revertedWith("Insufficient reward balance");
+                }
+            });
         });
 
-        it("should allow withdrawal after lock period", async () => {
-            const user = users[0];
-            const amount = ethers.parseEther("1000");
+        describe("Withdrawal Mechanics", () => {
+            it("should prevent early withdrawal", async () => {
+                const user = users[0];
+                const amount = ethers.parseEther("1000");
 
-            // Record initial balance
-            const initialBalance = await stakingToken.balanceOf(user.address);
+                await stake(user, amount);
 
-            await staking.connect(user).stake({
-                amount,
-                periodIndex: 0,
-                deadline: (await time.latest()) + 3600,
-                minRate: 0
+                await time.increase(30 * ONE_DAY);
+
+                await expect(staking.connect(user).withdraw(0)).to.be.revertedWithCustomError(staking, "StakeLocked");
             });
 
-            const userStake = await staking.getUserStake(user.address, 0);
+            it("should allow withdrawal after lock period", async () => {
+                const user = users[0];
+                const amount = ethers.parseEther("1000");
+                const token = await stakingToken.getAddress();
+                const model = await rewardModel();
 
-            await time.increase(NINETY_DAYS + 1);
+                model.stake(user.address, 0, amount, await minedAt(stake(user, amount)));
 
-            // Get balances before withdrawal
-            const stakingBalanceBefore = await stakingToken.balanceOf(user.address);
-            const stakingContractBalance = await stakingToken.balanceOf(await staking.getAddress());
+                await time.increase(NINETY_DAYS + 1);
 
-            // Get pending rewards before withdrawal
-            const pendingRewards = await staking.pendingRewards(user.address, 0, await stakingToken.getAddress());
+                // Get balances before withdrawal
+                const stakingBalanceBefore = await stakingToken.balanceOf(user.address);
 
-            // Then withdraw stake
-            await staking.connect(user).withdraw(0);
+                // Then withdraw stake
+                const withdrawnAt = await minedAt(staking.connect(user).withdraw(0));
 
-            const finalBalance = await stakingToken.balanceOf(user.address);
+                const finalBalance = await stakingToken.balanceOf(user.address);
 
-            // The withdrawal amount should equal the staked amount plus any accrued rewards
-            const withdrawalAmount = finalBalance - stakingBalanceBefore;
-            expect(withdrawalAmount).to.be.closeTo(amount + pendingRewards, ethers.parseEther("0.1"));
+                // The withdrawal amount should equal the staked amount plus the rewards accrued up to the withdrawal
+                const expected = model.withdraw(user.address, 0, withdrawnAt);
+                expect(expected.amount).to.equal(amount);
+                const withdrawalAmount = finalBalance - stakingBalanceBefore;
+                expect(withdrawalAmount).to.equal(amount + paidIn(expected.rewards, token));
 
-            // Verify the stake is cleared
-            const stakeAfter = await staking.getUserStake(user.address, 0);
-            expect(stakeAfter.amount).to.equal(0);
-            expect(stakeAfter.initialized).to.be.false;
-        });
-
-        it("should handle emergency withdrawal correctly", async () => {
-            const user = users[0];
-            const amount = ethers.parseEther("1000");
+                // Verify the stake is cleared
+                const stakeAfter = await staking.getUserStake(user.address, 0);
+                expect(stakeAfter.amount).to.equal(0);
+                expect(stakeAfter.initialized).to.be.false;
+            });
 
-            await staking.connect(user).stake({
-                amount,
-                periodIndex: 0,
-                deadline: (await time.latest()) + 3600,
-                minRate: 0
+            it(`should ${spec.withdrawAfterPoolsFinish ? "allow" : "prevent"} withdrawal when all reward pools have finished`, async () => {
+                const user = users[0];
+                const amount = ethers.parseEther("1000");
+
+                // A 360 day lock taken 10 days after funding outlasts the one year pools
+                await time.increase(10 * ONE_DAY);
+                await stake(user, amount, 2);
+                const { endTime } = await staking.getUserStake(user.address, 2);
+                await time.increase(SECONDS_PER_YEAR - 10 * ONE_DAY);
+                expect(await time.latest()).to.be.lt(endTime);
+
+                const withdrawal = staking.connect(user).withdraw(2);
+                if (spec.withdrawAfterPoolsFinish) {
+                    await withdrawal;
+                    expect((await staking.getUserStake(user.address, 2)).initialized).to.be.false;
+                    expect(await staking.totalStakedForPeriod(2)).to.equal(0);
+                } else {
+                    await expect(withdrawal).to.be.revertedWithCustomError(staking, "StakeLocked");
+                }
             });
 
-            await staking.connect(owner).enableEmergencyMode();
+            it(`should take a ${spec.emergencyWithdrawFeeBps} bps fee on emergency withdrawal`, async () => {
+                const user = users[0];
+                const amount = ethers.parseEther("1000");
+
+                await stake(user, amount);
+
+                await staking.connect(owner).enableEmergencyMode();
 
-            const balanceBefore = await stakingToken.balanceOf(user.address);
-            const treasuryBalanceBefore = await stakingToken.balanceOf(treasury.address);
+                const balanceBefore = await stakingToken.balanceOf(user.address);
+                const treasuryBalanceBefore = await stakingToken.balanceOf(treasury.address);
 
-            await staking.connect(user).emergencyWithdraw(0);
+                await staking.connect(user).emergencyWithdraw(0);
 
-            const balanceAfter = await stakingToken.balanceOf(user.address);
-            const treasuryBalanceAfter = await stakingToken.balanceOf(treasury.address);
+                const balanceAfter = await stakingToken.balanceOf(user.address);
+                const treasuryBalanceAfter = await stakingToken.balanceOf(treasury.address);
 
-            const withdrawnAmount = balanceAfter - balanceBefore;
-            const fee = treasuryBalanceAfter - treasuryBalanceBefore;
+                const withdrawnAmount = balanceAfter - balanceBefore;
+                const fee = treasuryBalanceAfter - treasuryBalanceBefore;
 
-            expect(withdrawnAmount + fee).to.equal(amount);
-            expect(fee).to.equal(amount * BigInt(2000) / BigInt(10000)); // 20% fee
+                expect(withdrawnAmount + fee).to.equal(amount);
+                expect(fee).to.equal((amount * spec.emergencyWithdrawFeeBps) / 10000n);
+            });
         });
-    });
 
-    describe("VIP Status & Loyalty", () => {
-        it("should track VIP status correctly", async () => {
-            const user = users[0];
-            
-            // Stake below VIP threshold
-            await staking.connect(user).stake({
-                amount: VIP_THRESHOLD - ethers.parseEther("1000"),
-                periodIndex: 0,
-                deadline: (await time.latest()) + 3600,
-                minRate: 0
+        describe("Period Upgrades", () => {
+            it(`should ${spec.upgradeStakePeriod ? "" : "not "}support upgradeStakePeriod`, async () => {
+                const user = users[0];
+                const amount = ethers.parseEther("1000");
+                await stake(user, amount, 0);
+
+                const upgrade = asV2.connect(user).upgradeStakePeriod(0, 2);
+                if (!spec.upgradeStakePeriod) {
+                    await expect(upgrade).to.be.reverted;
+                    return;
+                }
+                await expect(upgrade).to.emit(asV2, "StakeUpgraded");
+                expect((await staking.getUserStake(user.address, 0)).initialized).to.be.false;
+                expect((await staking.getUserStake(user.address, 2)).amount).to.equal(amount);
+                expect(await staking.totalStakedForPeriod(2)).to.equal(amount);
             });
+        });
 
-            expect(await staking.isVIP(user.address)).to.be.false;
+        describe("VIP Status & Loyalty", () => {
+            it(`should ${spec.tracksVIP ? "" : "not "}track VIP status`, async () => {
+                const user = users[0];
 
-            // Stake to reach VIP threshold
-            await staking.connect(user).stake({
-                amount: ethers.parseEther("1000"),
-                periodIndex: 0,
-                deadline: (await time.latest()) + 3600,
-                minRate: 0
-            });
+                // Stake below VIP threshold
+                await stake(user, VIP_THRESHOLD - ethers.parseEther("1000"));
 
-            expect(await staking.isVIP(user.address)).to.be.true;
-        });
+                expect(await staking.isVIP(user.address)).to.be.false;
 
-        it("should update loyalty metrics correctly", async () => {
-            const user = users[0];
-            const amount = ethers.parseEther("1000");
+                // Stake to reach VIP threshold
+                await stake(user, ethers.parseEther("1000"));
 
-            await staking.connect(user).stake({
-                amount,
-                periodIndex: 0,
-                deadline: (await time.latest()) + 3600,
-                minRate: 0
+                expect(await staking.isVIP(user.address)).to.equal(spec.tracksVIP);
             });
 
-            const stats = await staking.loyaltyStats(user.address);
-            expect(stats.stakingPower).to.be.gt(0);
-            expect(stats.currentStreak).to.be.gt(0);
-            expect(stats.totalStakingDays).to.be.gt(0);
+            it(`should ${spec.tracksLoyalty ? "" : "not "}update loyalty metrics`, async () => {
+                const user = users[0];
+                const amount = ethers.parseEther("1000");
+
+                await stake(user, amount);
+
+                const stats = await staking.loyaltyStats(user.address);
+                if (spec.tracksLoyalty) {
+                    expect(stats.stakingPower).to.be.gt(0);
+                    expect(stats.currentStreak).to.be.gt(0);
+                    expect(stats.totalStakingDays).to.be.gt(0);
+                } else {
+                    expect(stats.stakingPower).to.equal(0);
+                    expect(stats.currentStreak).to.equal(0);
+                    expect(stats.totalStakingDays).to.equal(0);
+                }
+            });
         });
-    });
 
-    describe("Emergency Controls", () => {
-        it("should handle circuit breakers correctly", async () => {
-            const user = users[0];
-            const amount = ethers.parseEther("1000");
+        describe("Emergency Controls", () => {
+            it("should handle circuit breakers correctly", async () => {
+                const user = users[0];
+                const amount = ethers.parseEther("1000");
 
-            await staking.connect(owner).toggleCircuitBreaker(await staking.STAKING_CIRCUIT());
+                await staking.connect(owner).toggleCircuitBreaker(await staking.STAKING_CIRCUIT());
 
-            await expect(staking.connect(user).stake({
-                amount,
-                periodIndex: 0,
-                deadline: (await time.latest()) + 3600,
-                minRate: 0
-            })).to.be.revertedWithCustomError(staking, "CircuitBreakerActive");
-        });
+                await expect(stake(user, amount)).to.be.revertedWithCustomError(staking, "CircuitBreakerActive");
+            });
 
-        it("should handle emergency mode correctly", async () => {
-            const user = users[0];
-            const amount = ethers.parseEther("1000");
+            it("should handle emergency mode correctly", async () => {
+                const user = users[0];
+                const amount = ethers.parseEther("1000");
 
-            await staking.connect(user).stake({
-                amount,
-                periodIndex: 0,
-                deadline: (await time.latest()) + 3600,
-                minRate: 0
-            });
+                await stake(user, amount);
 
-            await staking.connect(owner).enableEmergencyMode();
+                await staking.connect(owner).enableEmergencyMode();
 
-            // Regular withdrawal should be blocked
-            await expect(staking.connect(user).withdraw(0))
-                .to.be.revertedWithCustomError(staking, "NotInEmergencyMode");
+                // Regular withdrawal should be blocked
+                await expect(staking.connect(user).withdraw(0)).to.be.revertedWithCustomError(staking, "NotInEmergencyMode");
 
-            // Emergency withdrawal should work
-            await expect(staking.connect(user).emergencyWithdraw(0))
-                .to.not.be.reverted;
+                // Emergency withdrawal should work
+                await expect(staking.connect(user).emergencyWithdraw(0)).to.not.be.reverted;
+            });
         });
-    });
 
-    describe("Reward Pool Management", () => {
-        it("should handle reward pool funding correctly", async () => {
-            const amount = ethers.parseEther("500000");
-            const token = await stakingToken.getAddress();
+        describe("Reward Pool Management", () => {
+            it(`should ${spec.fundingBlendsRunningPool ? "blend funding into" : "restart"} a running pool`, async () => {
+                const amount = ethers.parseEther("500000");
+                const token = await stakingToken.getAddress();
 
-            const poolBefore = await staking.getRewardPoolInfo(0, token);
+                const poolBefore = await staking.getRewardPoolInfo(0, token);
 
-            await staking.connect(owner).fundRewardPool(0, token, amount);
+                const fundedAt = await minedAt(staking.connect(owner).fundRewardPool(0, token, amount));
 
-            const poolAfter = await staking.getRewardPoolInfo(0, token);
+                const poolAfter = await staking.getRewardPoolInfo(0, token);
 
-            const expectedRate = amount / BigInt(SECONDS_PER_YEAR);
+                // Check total reward increased
+                expect(poolAfter.totalReward).to.equal(poolBefore.totalReward + amount);
 
-            // Check total reward increased
-            expect(poolAfter.totalReward).to.equal(poolBefore.totalReward + amount);
-            
-            // Check reward rate matches expected rate
-            expect(poolAfter.rewardRate).to.equal(expectedRate);
-        });
+                if (spec.fundingBlendsRunningPool) {
+                    const remaining = poolBefore.periodFinish - fundedAt;
+                    expect(poolAfter.rewardRate).to.equal((remaining * poolBefore.rewardRate + amount) / remaining);
+                    expect(poolAfter.periodFinish).to.equal(poolBefore.periodFinish);
+                } else {
+                    expect(poolAfter.rewardRate).to.equal(amount / BigInt(SECONDS_PER_YEAR));
+                    expect(poolAfter.periodFinish).to.equal(fundedAt + BigInt(SECONDS_PER_YEAR));
+                }
+            });
 
-        it("should calculate APR correctly", async () => {
-            const user = users[0];
-            const amount = ethers.parseEther("1000");
+            it(`should reject funding a non-reward token with ${spec.fundingCustomErrors ? "a custom error" : "a revert string"}`, async () => {
+                const randomToken = await (await ethers.getContractFactory("MockERC20")).deploy("Random", "RND");
+                const funding = staking.fundRewardPool(0, await randomToken.getAddress(), ethers.parseEther("1"));
+                if (spec.fundingCustomErrors) {
+                    await expect(funding).to.be.revertedWithCustomError(staking, "TokenNotRewardToken");
+                } else {
+                    await expect(funding).to.be.revertedWith("Token not accepted as reward");
+                }
+            });
 
-            await staking.connect(user).stake({
-                amount,
-                periodIndex: 0,
-                deadline: (await time.latest()) + 3600,
-                minRate: 0
+            it(`should ${spec.rewardTokenChecks ? "" : "not "}check decimals and emit RewardTokenAdded when adding reward tokens`, async () => {
+                const MockToken = await ethers.getContractFactory("MockERC20Decimals");
+                const sixDecimals = await MockToken.deploy("Six Decimals", "SIX", 6);
+                const eighteenDecimals = await MockToken.deploy("Eighteen Decimals", "EIGHT", 18);
+
+                const adding = staking.addRewardToken(await sixDecimals.getAddress());
+                if (spec.rewardTokenChecks) {
+                    await expect(adding).to.be.revertedWith("Invalid token decimals");
+                    await expect(staking.addRewardToken(await eighteenDecimals.getAddress())).to.emit(asV2, "RewardTokenAdded");
+                } else {
+                    await adding;
+                    expect(await staking.isRewardToken(await sixDecimals.getAddress())).to.be.true;
+                    await expect(staking.addRewardToken(await eighteenDecimals.getAddress())).not.to.emit(asV2, "RewardTokenAdded");
+                }
             });
 
-            const apr = await staking.getAPR(0, await stakingToken.getAddress());
-            expect(apr).to.be.gt(0);
+            it("should calculate APR correctly", async () => {
+                const user = users[0];
+                const amount = ethers.parseEther("1000");
+
+                await stake(user, amount);
+
+                const apr = await staking.getAPR(0, await stakingToken.getAddress());
+                expect(apr).to.be.gt(0);
+            });
         });
     });
-}); 
\ No newline at end of file
+}
@@ -0,0 +1,106 @@
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import { time } from "@nomicfoundation/hardhat-network-helpers";
+import { LPStakingClient } from "../sdk/LPStakingClient";
+import { INITIAL_REWARD_AMOUNT, LPStakingFixture, deployLPStakingFixture } from "./fixtures";
+
+describe("LPStakingClient", () => {
+    const ONE_DAY = 24 * 60 * 60;
+    const SECONDS_PER_YEAR = 365 * ONE_DAY;
+
+    let fixture: LPStakingFixture;
+    let client: LPStakingClient;
+
+    beforeEach(async () => {
+        fixture = await deployLPStakingFixture();
+        client = new LPStakingClient(await fixture.staking.getAddress(), fixture.users[0]);
+    });
+
+    describe("stake & withdraw", () => {
+        it("should approve the missing allowance and stake", async () => {
+            const { staking, lpToken, users } = fixture;
+            const amount = ethers.parseEther("1000");
+            await lpToken.connect(users[0]).approve(await staking.getAddress(), 0);
+
+            await (await client.stake(amount)).wait();
+
+            expect((await staking.userStakes(users[0].address)).stakedAmount).to.equal(amount);
+        });
+
+        it("should reject stakes above MAX_STAKE_AMOUNT before sending", async () => {
+            const { staking, users } = fixture;
+            const maxStake = await staking.MAX_STAKE_AMOUNT();
+            const nonceBefore = await ethers.provider.getTransactionCount(users[0].address);
+
+            const error = await client.stake(maxStake + 1n).catch((e: Error) => e);
+
+            expect((error as Error).message).to.contain("exceeds MAX_STAKE_AMOUNT");
+            expect(await ethers.provider.getTransactionCount(users[0].address)).to.equal(nonceBefore);
+        });
+
+        it("should support partial withdrawals", async () => {
+            const { staking, users } = fixture;
+            await (await client.stake(ethers.parseEther("1000"))).wait();
+
+            await (await client.withdraw(ethers.parseEther("400"))).wait();
+
+            expect((await staking.userStakes(users[0].address)).stakedAmount).to.equal(ethers.parseEther("600"));
+            expect(await staking.totalStakedAmount()).to.equal(ethers.parseEther("600"));
+        });
+
+        it("should reject withdrawals above the staked amount", async () => {
+            await (await client.stake(ethers.parseEther("1000"))).wait();
+
+            const error = await client.withdraw(ethers.parseEther("1001")).catch((e: Error) => e);
+            expect((error as Error).message).to.contain("exceeds staked amount");
+        });
+    });
+
+    describe("positions", () => {
+        it("should load every reward token with its pending amount", async () => {
+            const { staking, users } = fixture;
+            await (await client.stake(ethers.parseEther("1000"))).wait();
+            await time.increase(30 * ONE_DAY);
+
+            const position = await client.getPosition(users[0].address);
+            const rewardTokens = await staking.getRewardTokens();
+
+            expect(position.stakedAmount).to.equal(ethers.parseEther("1000"));
+            expect(position.rewards.map((reward) => reward.token)).to.deep.equal([...rewardTokens]);
+            for (const reward of position.rewards) {
+                expect(reward.pending).to.equal(await staking.getPendingRewards(users[0].address, reward.token));
+                expect(reward.pending).to.be.gt(0);
+                expect(reward.isCapped).to.be.false;
+                expect(reward.payable).to.equal(reward.pending);
+            }
+        });
+
+        it("should expose the remaining pool budget", async () => {
+            const { rewardTokenA } = fixture;
+
+            const pool = await client.getRewardPool(await rewardTokenA.getAddress());
+
+            expect(pool.totalReward).to.equal(INITIAL_REWARD_AMOUNT);
+            expect(pool.remaining).to.equal(INITIAL_REWARD_AMOUNT);
+            expect(pool.ratePerSecond).to.equal(INITIAL_REWARD_AMOUNT / BigInt(SECONDS_PER_YEAR));
+        });
+
+        it("should flag rewards that a claim would only pay partially", async () => {
+            const { rewardTokenA, users } = fixture;
+            await (await client.stake(ethers.parseEther("1000"))).wait();
+            await time.increase(2 * SECONDS_PER_YEAR);
+
+            const token = await rewardTokenA.getAddress();
+            const position = await client.getPosition(users[0].address);
+            const reward = position.rewards.find((r) => r.token === token)!;
+
+            expect(reward.isCapped).to.be.true;
+            expect(reward.payable).to.equal(INITIAL_REWARD_AMOUNT);
+            expect(reward.shortfall).to.equal(reward.pending - INITIAL_REWARD_AMOUNT);
+
+            const balanceBefore = await rewardTokenA.balanceOf(users[0].address);
+            await (await client.claimRewards()).wait();
+            expect(await rewardTokenA.balanceOf(users[0].address) - balanceBefore).to.equal(reward.payable);
+        });
+    });
+});
@@ -0,0 +1,118 @@
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import { time } from "@nomicfoundation/hardhat-network-helpers";
+import { StakingClient } from "../sdk/StakingClient";
+import { LOCK_PERIOD_SECONDS } from "../sdk/constants";
+import { StakingFixture, deployStakingFixture } from "./fixtures";
+
+describe("StakingClient", () => {
+    const ONE_DAY = 24 * 60 * 60;
+    const SECONDS_PER_YEAR = 365 * ONE_DAY;
+
+    let fixture: StakingFixture;
+    let client: StakingClient;
+
+    beforeEach(async () => {
+        fixture = await deployStakingFixture();
+        client = new StakingClient(await fixture.staking.getAddress(), fixture.users[0]);
+    });
+
+    describe("stake", () => {
+        it("should approve the missing allowance and stake by period label", async () => {
+            const { staking, stakingToken, users } = fixture;
+            const amount = ethers.parseEther("1000");
+            await stakingToken.connect(users[0]).approve(await staking.getAddress(), 0);
+
+            await (await client.stake({ amount, period: "180d" })).wait();
+
+            const userStake = await staking.getUserStake(users[0].address, 1);
+            expect(userStake.amount).to.equal(amount);
+            expect(await stakingToken.allowance(users[0].address, await staking.getAddress())).to.equal(0);
+        });
+
+        it("should skip the approval when the allowance already covers the amount", async () => {
+            const { staking, stakingToken, users } = fixture;
+            const amount = ethers.parseEther("1000");
+            const allowanceBefore = await stakingToken.allowance(users[0].address, await staking.getAddress());
+
+            await (await client.stake({ amount, period: "90d" })).wait();
+
+            expect(await stakingToken.allowance(users[0].address, await staking.getAddress()))
+                .to.equal(allowanceBefore - amount);
+        });
+
+        it("should use an explicit deadline when given", async () => {
+            const amount = ethers.parseEther("1000");
+            const deadline = (await time.latest()) - 1;
+
+            await expect(client.stake({ amount, period: "90d", deadline }))
+                .to.be.revertedWithCustomError(fixture.staking, "DeadlineExpired");
+        });
+
+        it("should refuse to send transactions without a signer", async () => {
+            const readOnly = new StakingClient(await fixture.staking.getAddress(), ethers.provider);
+
+            const error = await readOnly.stake({ amount: 1n, period: "90d" }).catch((e: Error) => e);
+            expect(error).to.be.instanceOf(Error);
+            expect((error as Error).message).to.contain("StakingClient requires a signer");
+        });
+    });
+
+    describe("positions", () => {
+        it("should list every reward token", async () => {
+            const { stakingToken, rewardTokenB, rewardTokenC } = fixture;
+
+            expect(await client.getRewardTokens()).to.deep.equal([
+                await stakingToken.getAddress(),
+                await rewardTokenB.getAddress(),
+                await rewardTokenC.getAddress()
+            ]);
+        });
+
+        it("should combine stake, pending rewards and unlock time", async () => {
+            const { staking, users } = fixture;
+            const amount = ethers.parseEther("1000");
+            await (await client.stake({ amount, period: "90d" })).wait();
+            await time.increase(30 * ONE_DAY);
+
+            const position = await client.getPosition(users[0].address, "90d");
+            const userStake = await staking.getUserStake(users[0].address, 0);
+
+            expect(position.amount).to.equal(amount);
+            expect(position.periodIndex).to.equal(0);
+            expect(position.unlockTime).to.equal(Number(userStake.endTime));
+            expect(position.unlockTime - position.startTime).to.equal(LOCK_PERIOD_SECONDS["90d"]);
+            expect(position.pendingRewards).to.have.lengthOf(3);
+            for (const reward of position.pendingRewards) {
+                expect(reward.amount).to.equal(await staking.pendingRewards(users[0].address, 0, reward.token));
+                expect(reward.amount).to.be.gt(0);
+            }
+            expect(position.isLocked).to.be.true;
+            expect(position.canWithdraw).to.be.false;
+            expect(position.canExitEarly).to.be.false;
+        });
+
+        it("should report an early exit once all reward pools are finished", async () => {
+            const { users } = fixture;
+            await time.increase(300 * ONE_DAY);
+            await (await client.stake({ amount: ethers.parseEther("1000"), period: "90d" })).wait();
+            await time.increase(SECONDS_PER_YEAR - 300 * ONE_DAY);
+
+            const position = await client.getPosition(users[0].address, "90d");
+            expect(position.isLocked).to.be.true;
+            expect(position.rewardPoolsFinished).to.be.true;
+            expect(position.canExitEarly).to.be.true;
+            expect(position.canWithdraw).to.be.true;
+
+            await expect(client.withdraw("90d")).to.not.be.reverted;
+        });
+
+        it("should only return initialized positions", async () => {
+            const { users } = fixture;
+            await (await client.stake({ amount: ethers.parseEther("1000"), period: "360d" })).wait();
+
+            const positions = await client.getPositions(users[0].address);
+            expect(positions.map((position) => position.period)).to.deep.equal(["360d"]);
+        });
+    });
+});
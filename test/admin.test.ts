@@ -0,0 +1,203 @@
+import { expect } from "chai";
+import hre, { ethers } from "hardhat";
+import { AdminClient, MissingRoleError, resolveCircuit } from "../sdk/admin";
+import { LP_STAKING_CIRCUITS, STAKING_CIRCUITS } from "../sdk/constants";
+import { ContractRevertError } from "../sdk/errors";
+import { LPStakingFixture, StakingFixture, deployLPStakingFixture, deployStakingFixture } from "./fixtures";
+import "../tasks/admin";
+
+describe("Admin operations", () => {
+    describe("resolveCircuit", () => {
+        it("should resolve purposes to each contract's own identifier", () => {
+            expect(resolveCircuit("AIXCBStaking", "withdraw").id).to.equal(STAKING_CIRCUITS.WITHDRAWAL_CIRCUIT);
+            expect(resolveCircuit("AIXCBLPStaking", "withdraw").id).to.equal(LP_STAKING_CIRCUITS.WITHDRAW_CIRCUIT);
+            expect(resolveCircuit("AIXCBStaking", "rewards").name).to.equal("REWARDS_CIRCUIT");
+            expect(resolveCircuit("AIXCBLPStaking", "REWARD_CIRCUIT").purpose).to.equal("rewards");
+            expect(resolveCircuit("AIXCBLPStaking", LP_STAKING_CIRCUITS.STAKING_CIRCUIT).name).to.equal("STAKING_CIRCUIT");
+        });
+
+        it("should reject the other contract's spelling", () => {
+            expect(() => resolveCircuit("AIXCBStaking", "WITHDRAW_CIRCUIT")).to.throw(
+                "WITHDRAW_CIRCUIT is AIXCBLPStaking's spelling; AIXCBStaking uses WITHDRAWAL_CIRCUIT"
+            );
+            expect(() => resolveCircuit("AIXCBLPStaking", STAKING_CIRCUITS.REWARDS_CIRCUIT)).to.throw(
+                "AIXCBLPStaking uses REWARD_CIRCUIT"
+            );
+            expect(() => resolveCircuit("AIXCBStaking", "deposits")).to.throw("Valid circuits");
+        });
+    });
+
+    describe("AIXCBStaking", () => {
+        let fixture: StakingFixture;
+        let admin: AdminClient;
+
+        beforeEach(async () => {
+            fixture = await deployStakingFixture();
+            admin = new AdminClient("AIXCBStaking", await fixture.staking.getAddress(), fixture.owner);
+        });
+
+        it("should show current vs resulting circuit state and skip no-op toggles", async () => {
+            const trip = await admin.setCircuit("withdraw", true);
+            expect(trip.required).to.be.true;
+            expect(trip.role).to.equal("EMERGENCY_ADMIN_ROLE");
+            expect(trip.changes).to.deep.equal([
+                { label: "WITHDRAWAL_CIRCUIT", current: "reset", resulting: "tripped (withdraw blocked)" }
+            ]);
+            await (await admin.execute(trip)).tx!.wait();
+            expect(await fixture.staking.circuitBreakers(STAKING_CIRCUITS.WITHDRAWAL_CIRCUIT)).to.be.true;
+
+            // A second `on` must not toggle the breaker back off
+            const again = await admin.setCircuit("withdraw", true);
+            expect(again.required).to.be.false;
+            const result = await admin.execute(again);
+            expect(result.tx).to.be.undefined;
+            expect(await fixture.staking.circuitBreakers(STAKING_CIRCUITS.WITHDRAWAL_CIRCUIT)).to.be.true;
+
+            const status = await admin.circuitStatus();
+            expect(status.map((circuit) => circuit.tripped)).to.deep.equal([false, true, false]);
+        });
+
+        it("should simulate without sending on a dry run", async () => {
+            const call = await admin.setEmergencyMode(true);
+            const result = await admin.execute(call, { dryRun: true });
+
+            expect(result.simulated).to.be.true;
+            expect(result.tx).to.be.undefined;
+            expect(await fixture.staking.emergencyMode()).to.be.false;
+        });
+
+        it("should refuse signers without the required role", async () => {
+            const [user] = fixture.users;
+            const outsider = new AdminClient("AIXCBStaking", await fixture.staking.getAddress(), user);
+            const call = await outsider.setPaused(true);
+
+            let error: unknown;
+            try {
+                await outsider.execute(call, { dryRun: true });
+            } catch (caught) {
+                error = caught;
+            }
+            expect(error).to.be.instanceOf(MissingRoleError);
+            expect((error as MissingRoleError).role).to.equal("EMERGENCY_ADMIN_ROLE");
+            expect(await outsider.hasRole("EMERGENCY_ADMIN_ROLE", fixture.owner.address)).to.be.true;
+        });
+
+        it("should surface a simulated revert as a decoded error", async () => {
+            const call = await admin.recoverERC20(await fixture.rewardTokenB.getAddress(), 1n);
+
+            let error: unknown;
+            try {
+                await admin.execute(call, { dryRun: true });
+            } catch (caught) {
+                error = caught;
+            }
+            expect(error).to.be.instanceOf(ContractRevertError);
+            expect((error as ContractRevertError).revert.name).to.equal("CannotRecoverRewardToken");
+        });
+
+        it("should approve and fund a pool, predicting the new total", async () => {
+            const token = await fixture.rewardTokenB.getAddress();
+            const amount = ethers.parseEther("500000");
+            await fixture.rewardTokenB.approve(await fixture.staking.getAddress(), 0n);
+
+            const call = await admin.fundPool(fixture.owner.address, token, amount, "180d");
+            expect(call.args).to.deep.equal([1, token, amount]);
+            expect(call.changes[0]).to.deep.equal({
+                label: "180d TKB totalReward",
+                current: "1000000.0 TKB",
+                resulting: "1500000.0 TKB"
+            });
+
+            // Simulated with the allowance overridden, and nothing approved
+            const dryRun = await admin.execute(call, { dryRun: true });
+            expect(dryRun.simulated).to.be.true;
+            expect(await fixture.rewardTokenB.allowance(fixture.owner.address, await fixture.staking.getAddress())).to.equal(0n);
+
+            await (await admin.execute(call)).tx!.wait();
+            const pool = await fixture.staking.rewardPools(1, token);
+            expect(pool.totalReward).to.equal(ethers.parseEther("1500000"));
+        });
+
+        it("should not approve a funding that would revert", async () => {
+            const token = await fixture.rewardTokenB.getAddress();
+            const spender = await fixture.staking.getAddress();
+            await fixture.rewardTokenB.approve(spender, 0n);
+            const balance = await fixture.rewardTokenB.balanceOf(fixture.owner.address);
+
+            const call = await admin.fundPool(fixture.owner.address, token, balance + 1n, "90d");
+            const error = await admin.execute(call).catch((e: Error) => e);
+            expect(error).to.be.instanceOf(Error);
+            expect(await fixture.rewardTokenB.allowance(fixture.owner.address, spender)).to.equal(0n);
+        });
+
+        it("should refuse to recover more than the contract holds", async () => {
+            const token = await fixture.stakingToken.getAddress();
+            const held = await fixture.stakingToken.balanceOf(await fixture.staking.getAddress());
+            await expectRejection(admin.recoverERC20(token, held + 1n), "less than the");
+        });
+
+        it("should stop and restart staking", async () => {
+            await (await admin.execute(await admin.stopStaking())).tx!.wait();
+            expect(await fixture.staking.paused()).to.be.true;
+
+            const start = await admin.startStaking();
+            expect(start.role).to.equal("ADMIN_ROLE");
+            await (await admin.execute(start)).tx!.wait();
+            expect(await fixture.staking.paused()).to.be.false;
+        });
+    });
+
+    describe("AIXCBLPStaking", () => {
+        let fixture: LPStakingFixture;
+        let admin: AdminClient;
+
+        beforeEach(async () => {
+            fixture = await deployLPStakingFixture();
+            admin = new AdminClient("AIXCBLPStaking", await fixture.staking.getAddress(), fixture.owner);
+        });
+
+        it("should toggle the LP withdraw circuit", async () => {
+            await (await admin.execute(await admin.setCircuit("withdraw", true))).tx!.wait();
+            expect(await fixture.staking.circuitBreakers(LP_STAKING_CIRCUITS.WITHDRAW_CIRCUIT)).to.be.true;
+
+            await (await admin.execute(await admin.setCircuit("WITHDRAW_CIRCUIT", false))).tx!.wait();
+            expect(await fixture.staking.circuitBreakers(LP_STAKING_CIRCUITS.WITHDRAW_CIRCUIT)).to.be.false;
+        });
+
+        it("should fund a pool without a period and reject one", async () => {
+            const token = await fixture.rewardTokenA.getAddress();
+            const amount = ethers.parseEther("100000");
+
+            await expectRejection(admin.fundPool(fixture.owner.address, token, amount, "90d"), "one pool per token");
+
+            const call = await admin.fundPool(fixture.owner.address, token, amount);
+            await (await admin.execute(call)).tx!.wait();
+            const pool = await fixture.staking.getRewardPool(token);
+            expect(pool.totalReward).to.equal(ethers.parseEther("1100000"));
+            expect(`${pool.ratePerSecond}/s`).to.equal(call.changes[1].resulting);
+        });
+
+        it("should reject startStaking, which the LP contract lacks", async () => {
+            await expectRejection(admin.startStaking(), "AIXCBLPStaking has no startStaking/stopStaking");
+        });
+
+        it("should run the circuit task against the given proxy", async () => {
+            const address = await fixture.staking.getAddress();
+            await hre.run("circuit", { action: "on", circuit: "rewards", contract: "lp", address, dryRun: true });
+            expect(await fixture.staking.circuitBreakers(LP_STAKING_CIRCUITS.REWARD_CIRCUIT)).to.be.false;
+
+            await hre.run("circuit", { action: "on", circuit: "rewards", contract: "lp", address, dryRun: false });
+            expect(await fixture.staking.circuitBreakers(LP_STAKING_CIRCUITS.REWARD_CIRCUIT)).to.be.true;
+        });
+    });
+
+    async function expectRejection(action: Promise<unknown>, message: string) {
+        let error: unknown;
+        try {
+            await action;
+        } catch (caught) {
+            error = caught;
+        }
+        expect(String(error)).to.contain(message);
+    }
+});
@@ -0,0 +1,164 @@
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import { time } from "@nomicfoundation/hardhat-network-helpers";
+import { SECONDS_PER_YEAR } from "../sdk/constants";
+import { OraclePriceSource, StakingAnalytics, StaticPriceSource, parsePriceFile, usdApr } from "../sdk/analytics";
+import { LPStakingFixture, StakingFixture, deployLPStakingFixture, deployStakingFixture } from "./fixtures";
+
+const DAY = 24 * 60 * 60;
+const TOKEN = "0x00000000000000000000000000000000000000aa";
+
+describe("Analytics", () => {
+    describe("price sources", () => {
+        it("should pick the price point in force at the queried time", async () => {
+            const prices = parsePriceFile(
+                JSON.stringify({ [TOKEN]: [{ from: "2026-01-01T00:00:00Z", price: "2" }, { from: 1775001600, price: "0.5" }] })
+            );
+            const at = (timestamp: number) => ({ timestamp, blockNumber: 0 });
+
+            expect(await prices.getPrice(TOKEN, at(1767225600))).to.equal(ethers.parseEther("2"));
+            expect(await prices.getPrice(TOKEN, at(1775001599))).to.equal(ethers.parseEther("2"));
+            expect(await prices.getPrice(TOKEN, at(1775001600))).to.equal(ethers.parseEther("0.5"));
+            expect(await prices.getPrice(TOKEN)).to.equal(ethers.parseEther("0.5"));
+            const early = await prices.getPrice(TOKEN, at(1700000000)).catch((e: Error) => e);
+            expect(String(early)).to.contain("No price for");
+            const unknown = await prices.getPrice(ethers.ZeroAddress).catch((e: Error) => e);
+            expect(String(unknown)).to.contain("No price for");
+        });
+
+        it("should reject malformed price files", () => {
+            expect(() => parsePriceFile("[]")).to.throw("keyed by token address");
+            expect(() => parsePriceFile(JSON.stringify({ [TOKEN]: "0" }))).to.throw("must be positive");
+            expect(() => parsePriceFile(JSON.stringify({ [TOKEN]: [{ from: "soon", price: "1" }] }))).to.throw(".from must be");
+        });
+
+        it("should scale oracle answers to 18 decimals and reject stale ones", async () => {
+            const Feed = await ethers.getContractFactory("MockPriceFeed");
+            const feed = await Feed.deploy(8, 123_456_789n);
+            const prices = new OraclePriceSource({ [TOKEN]: await feed.getAddress() }, ethers.provider, { maxAgeSeconds: DAY });
+
+            expect(await prices.getPrice(TOKEN)).to.equal(ethers.parseEther("1.23456789"));
+            await time.increase(2 * DAY);
+            const error = await prices.getPrice(TOKEN).catch((e: Error) => e);
+            expect(String(error)).to.contain("is stale");
+        });
+    });
+
+    describe("AIXCBStaking", () => {
+        let fixture: StakingFixture;
+        let address: string;
+        let analytics: StakingAnalytics;
+        let stakeBlock: number;
+
+        beforeEach(async () => {
+            fixture = await deployStakingFixture();
+            address = await fixture.staking.getAddress();
+            analytics = new StakingAnalytics(
+                ethers.provider,
+                new StaticPriceSource({
+                    [await fixture.stakingToken.getAddress()]: ethers.parseEther("0.01"),
+                    [await fixture.rewardTokenB.getAddress()]: ethers.parseEther("2"),
+                    [await fixture.rewardTokenC.getAddress()]: ethers.parseEther("0.5"),
+                })
+            );
+            const deadline = (await time.latest()) + 3600;
+            const tx = await fixture.staking
+                .connect(fixture.users[0])
+                .stake({ amount: ethers.parseEther("100000"), periodIndex: 0, deadline });
+            stakeBlock = (await tx.wait())!.blockNumber;
+        });
+
+        it("should value rewards and stake at their own prices", async () => {
+            const report = await analytics.staking(address);
+            const [ninety, oneEighty] = report.periods;
+            const pool = ninety.pools.find((candidate) => candidate.symbol === "TKB")!;
+            const rate = (await fixture.staking.rewardPools(0, await fixture.rewardTokenB.getAddress())).rewardRate;
+
+            expect(report.tvlUsd).to.equal(ethers.parseEther("1000"));
+            expect(ninety.stakedUsd).to.equal(ethers.parseEther("1000"));
+            expect(pool.emitting).to.be.true;
+            expect(pool.annualRewardsUsd).to.equal(rate * BigInt(SECONDS_PER_YEAR) * 2n);
+            expect(pool.apr).to.equal(usdApr(pool.annualRewardsUsd, ethers.parseEther("1000")));
+            // getAPR ignores that TKB is worth 200 times the staking token
+            expect(pool.apr).to.be.closeTo(pool.onChainApr! * 200n, 200n);
+            expect(ninety.apr).to.equal(ninety.pools.reduce((sum, candidate) => sum + candidate.apr, 0n));
+            expect(oneEighty.apr).to.equal(0n);
+        });
+
+        it("should stop counting a pool after periodFinish", async () => {
+            await time.increase(SECONDS_PER_YEAR + DAY);
+            const [ninety] = (await analytics.staking(address)).periods;
+
+            expect(ninety.pools.every((pool) => !pool.emitting && pool.apr === 0n)).to.be.true;
+        });
+
+        it("should derive realized APR from RewardPaid events", async () => {
+            await time.increase(30 * DAY);
+            await fixture.staking.connect(fixture.users[0]).claimRewards(0);
+            const current = await analytics.staking(address, stakeBlock);
+
+            const realized = await analytics.realized("AIXCBStaking", address, { fromBlock: stakeBlock });
+            expect(realized.map((pool) => pool.symbol)).to.deep.equal(["AIXCB", "TKB", "TKC"]);
+            for (const pool of realized) {
+                expect(pool.period).to.equal("90d");
+                expect(pool.payments).to.equal(1);
+                expect(pool.averageStakedUsd).to.equal(ethers.parseEther("1000"));
+                const expected = current.periods[0].pools.find((candidate) => candidate.token === pool.token)!.apr;
+                expect(pool.apr).to.be.closeTo(expected, expected / 10_000n);
+            }
+        });
+    });
+
+    describe("AIXCBLPStaking", () => {
+        let fixture: LPStakingFixture;
+        let address: string;
+        let analytics: StakingAnalytics;
+
+        beforeEach(async () => {
+            fixture = await deployLPStakingFixture();
+            address = await fixture.staking.getAddress();
+            analytics = new StakingAnalytics(
+                ethers.provider,
+                new StaticPriceSource({
+                    [await fixture.lpToken.getAddress()]: ethers.parseEther("40"),
+                    [await fixture.rewardTokenA.getAddress()]: ethers.parseEther("1"),
+                    [await fixture.rewardTokenB.getAddress()]: ethers.parseEther("1"),
+                    [await fixture.rewardTokenC.getAddress()]: ethers.parseEther("1"),
+                })
+            );
+        });
+
+        it("should compute an APR the contract has no view for", async () => {
+            await fixture.staking.connect(fixture.users[0]).stake(ethers.parseEther("1000"));
+            const report = await analytics.lp(address);
+            const [all] = report.periods;
+
+            expect(all.period).to.be.undefined;
+            expect(report.tvlUsd).to.equal(ethers.parseEther("40000"));
+            for (const pool of all.pools) {
+                expect(pool.emitting).to.be.true;
+                expect(pool.onChainApr).to.be.undefined;
+                expect(pool.apr).to.equal(usdApr(pool.ratePerSecond * BigInt(SECONDS_PER_YEAR), ethers.parseEther("40000")));
+            }
+        });
+
+        it("should weight the stake by time for realized APR", async () => {
+            const [alice, bob] = fixture.users;
+            const first = await (await fixture.staking.connect(alice).stake(ethers.parseEther("1000"))).wait();
+            await time.increase(10 * DAY);
+            await fixture.staking.connect(bob).stake(ethers.parseEther("3000"));
+            await time.increase(10 * DAY);
+            await fixture.staking.connect(alice).claimRewards();
+            await fixture.staking.connect(bob).claimRewards();
+
+            const [pool] = await analytics.realized("AIXCBLPStaking", address, { fromBlock: first!.blockNumber, logBatchSize: 5 });
+            expect(pool.symbol).to.equal("TKA");
+            expect(pool.payments).to.equal(2);
+            // About 1000 LP for ten days, then 4000 LP for ten days, at 40 USD each
+            expect(pool.averageStakedUsd).to.be.closeTo(ethers.parseEther("100000"), ethers.parseEther("100"));
+            // The same emission over an average of 2500 LP instead of the current 4000
+            const expected = ((await analytics.lp(address)).periods[0].pools[0].apr * 8n) / 5n;
+            expect(pool.apr).to.be.closeTo(expected, expected / 1_000n);
+        });
+    });
+});
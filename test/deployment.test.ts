@@ -0,0 +1,150 @@
+import { expect } from "chai";
+import { ethers, ignition } from "hardhat";
+import { SignerWithAddress } from "@nomicfoundation/hardhat-ethers/signers";
+import AIXCBStakingLaunchModule, {
+    AIXCBStakingFundingModule,
+    STAKING_REWARD_TOKEN_COUNT,
+    stakingFundingParameter
+} from "../ignition/modules/AIXCBStaking";
+import AIXCBLPStakingLaunchModule, {
+    AIXCBLPStakingFundingModule,
+    LP_REWARD_TOKEN_COUNT,
+    lpFundingParameter
+} from "../ignition/modules/AIXCBLPStaking";
+import { AIXCBLPStaking__factory, AIXCBStaking__factory, MockERC20 } from "../typechain-types";
+import { LP_STAKING_CIRCUITS, MAX_PERIOD_INDEX, ROLES } from "../sdk/constants";
+import { readLPStakingManifest, readStakingManifest } from "../sdk/deployment";
+import { INITIAL_REWARD_AMOUNT, OWNER_TOKEN_BALANCE } from "./fixtures";
+
+describe("Ignition deployment", () => {
+    let owner: SignerWithAddress;
+    let treasury: SignerWithAddress;
+    let stakedToken: MockERC20;
+    let rewardTokens: MockERC20[];
+
+    beforeEach(async () => {
+        const signers = await ethers.getSigners();
+        [owner] = signers;
+        treasury = signers[signers.length - 1];
+
+        const MockToken = await ethers.getContractFactory("MockERC20");
+        stakedToken = await MockToken.deploy("Staked Token", "STK");
+        rewardTokens = [];
+        for (const symbol of ["TKA", "TKB", "TKC"]) {
+            const token = await MockToken.deploy(`Token ${symbol}`, symbol);
+            await token.mint(owner.address, OWNER_TOKEN_BALANCE);
+            rewardTokens.push(token);
+        }
+    });
+
+    /** Ignition's failures are plain errors, not reverted transactions */
+    async function expectDeploymentFailure(deployment: Promise<unknown>, message: string) {
+        let error: unknown;
+        try {
+            await deployment;
+        } catch (caught) {
+            error = caught;
+        }
+        expect(String(error)).to.contain(message);
+    }
+
+    describe("AIXCBStaking", () => {
+        async function parameters(amount: (periodIndex: number, tokenIndex: number) => bigint = () => INITIAL_REWARD_AMOUNT) {
+            const stakingFunding: Record<string, bigint> = {};
+            for (let tokenIndex = 0; tokenIndex < STAKING_REWARD_TOKEN_COUNT; tokenIndex++) {
+                for (let periodIndex = 0; periodIndex <= MAX_PERIOD_INDEX; periodIndex++) {
+                    stakingFunding[stakingFundingParameter(periodIndex, tokenIndex)] = amount(periodIndex, tokenIndex);
+                }
+            }
+            return {
+                AIXCBStakingProxy: {
+                    stakingToken: await stakedToken.getAddress(),
+                    rewardTokens: await Promise.all(rewardTokens.map((token) => token.getAddress())),
+                    treasury: treasury.address
+                },
+                AIXCBStakingFunding: stakingFunding
+            };
+        }
+
+        it("should fund all nine pools and start staking", async () => {
+            const deployment = await ignition.deploy(AIXCBStakingLaunchModule, { parameters: await parameters() });
+            const proxy = await deployment.proxy.getAddress();
+            const staking = AIXCBStaking__factory.connect(proxy, owner);
+
+            expect(await staking.paused()).to.be.false;
+            expect(await staking.areRewardPoolsFunded()).to.be.true;
+
+            const manifest = await readStakingManifest(owner, proxy, [owner.address]);
+            expect(manifest.implementation).to.equal(await deployment.implementation.getAddress());
+            expect(manifest.stakedToken).to.equal(await stakedToken.getAddress());
+            expect(manifest.rewardTokens).to.deep.equal(await Promise.all(rewardTokens.map((token) => token.getAddress())));
+            expect(manifest.funding).to.have.lengthOf(9);
+            expect(manifest.funding.every((pool) => pool.totalReward === INITIAL_REWARD_AMOUNT.toString())).to.be.true;
+            for (const role of Object.keys(ROLES) as (keyof typeof ROLES)[]) {
+                expect(manifest.roles[role], role).to.deep.equal([owner.address]);
+            }
+        });
+
+        it("should leave the proxy paused after the funding stage", async () => {
+            const deployment = await ignition.deploy(AIXCBStakingFundingModule, { parameters: await parameters() });
+            const staking = AIXCBStaking__factory.connect(await deployment.proxy.getAddress(), owner);
+
+            expect(await staking.areRewardPoolsFunded()).to.be.true;
+            expect(await staking.paused()).to.be.true;
+        });
+
+        it("should not start staking while a pool has no reward rate", async () => {
+            // Less than one wei per second of a year rounds the rate down to zero
+            const underfunded = await parameters((periodIndex, tokenIndex) =>
+                periodIndex === 2 && tokenIndex === 1 ? 1000n : INITIAL_REWARD_AMOUNT
+            );
+
+            await expectDeploymentFailure(
+                ignition.deploy(AIXCBStakingLaunchModule, { parameters: underfunded }),
+                "Reward pools not funded"
+            );
+        });
+    });
+
+    describe("AIXCBLPStaking", () => {
+        async function parameters() {
+            const lpFunding: Record<string, bigint> = {};
+            for (let tokenIndex = 0; tokenIndex < LP_REWARD_TOKEN_COUNT; tokenIndex++) {
+                lpFunding[lpFundingParameter(tokenIndex)] = INITIAL_REWARD_AMOUNT;
+            }
+            return {
+                AIXCBLPStakingProxy: {
+                    lpToken: await stakedToken.getAddress(),
+                    rewardTokens: await Promise.all(rewardTokens.map((token) => token.getAddress())),
+                    treasury: treasury.address
+                },
+                AIXCBLPStakingFunding: lpFunding
+            };
+        }
+
+        it("should keep staking closed until the launch stage", async () => {
+            const deployment = await ignition.deploy(AIXCBLPStakingFundingModule, { parameters: await parameters() });
+            const staking = AIXCBLPStaking__factory.connect(await deployment.proxy.getAddress(), owner);
+
+            expect(await staking.paused()).to.be.false;
+            expect(await staking.circuitBreakers(LP_STAKING_CIRCUITS.STAKING_CIRCUIT)).to.be.true;
+            await expect(staking.stake(1n)).to.be.revertedWithCustomError(staking, "CircuitBreakerActive");
+        });
+
+        it("should fund the three pools and open staking", async () => {
+            const deployment = await ignition.deploy(AIXCBLPStakingLaunchModule, { parameters: await parameters() });
+            const proxy = await deployment.proxy.getAddress();
+            const staking = AIXCBLPStaking__factory.connect(proxy, owner);
+
+            expect(await staking.circuitBreakers(LP_STAKING_CIRCUITS.STAKING_CIRCUIT)).to.be.false;
+
+            const manifest = await readLPStakingManifest(owner, proxy, [owner.address]);
+            expect(manifest.implementation).to.equal(await deployment.implementation.getAddress());
+            expect(manifest.paused).to.be.false;
+            expect(manifest.funding.map((pool) => pool.totalReward)).to.deep.equal(
+                Array(LP_REWARD_TOKEN_COUNT).fill(INITIAL_REWARD_AMOUNT.toString())
+            );
+            expect(manifest.roles.ADMIN_ROLE).to.deep.equal([owner.address]);
+        });
+    });
+});
@@ -0,0 +1,92 @@
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import { time } from "@nomicfoundation/hardhat-network-helpers";
+import { formatDrillMarkdown, runEmergencyDrill } from "../sdk/emergencyDrill";
+import { LPStakingFixture, StakingFixture, deployLPStakingFixture, deployStakingFixture } from "./fixtures";
+
+describe("Emergency drill", () => {
+    let staking: StakingFixture;
+    let lp: LPStakingFixture;
+    let stakingAddress: string;
+    let lpAddress: string;
+    let fromBlock: number;
+
+    beforeEach(async () => {
+        fromBlock = (await ethers.provider.getBlockNumber()) + 1;
+        staking = await deployStakingFixture();
+        lp = await deployLPStakingFixture();
+        [stakingAddress, lpAddress] = await Promise.all([staking.staking.getAddress(), lp.staking.getAddress()]);
+
+        const [alice, bob] = staking.users;
+        const deadline = (await time.latest()) + 3600;
+        await staking.staking.connect(alice).stake({ amount: ethers.parseEther("100000"), periodIndex: 0, deadline });
+        await staking.staking.connect(bob).stake({ amount: ethers.parseEther("300000"), periodIndex: 2, deadline });
+        await staking.staking.connect(bob).stake({ amount: ethers.parseEther("5000"), periodIndex: 1, deadline });
+        await lp.staking.connect(alice).stake(ethers.parseEther("1000"));
+        await time.increase(30 * 24 * 60 * 60);
+    });
+
+    it("should return every stake and forfeit pending rewards in AIXCBStaking", async () => {
+        const [alice, bob] = staking.users;
+        const tokenB = await staking.rewardTokenB.getAddress();
+        const bobPending = await staking.staking.pendingRewards(bob.address, 2, tokenB);
+        const report = await runEmergencyDrill(ethers.provider, { staking: stakingAddress, admin: staking.owner.address });
+
+        expect(report.exits.map((exit) => [exit.user, exit.period, exit.received, exit.fee, exit.error])).to.deep.equal([
+            [alice.address, "90d", ethers.parseEther("100000"), 0n, undefined],
+            [bob.address, "180d", ethers.parseEther("5000"), 0n, undefined],
+            [bob.address, "360d", ethers.parseEther("300000"), 0n, undefined],
+        ]);
+        const forfeited = report.exits[2].forfeited.find((reward) => reward.token === tokenB)!.amount;
+        // One more block of accrual before the exit
+        expect(forfeited).to.be.gte(bobPending);
+
+        expect(report.sweeps.map((sweep) => [sweep.method, sweep.recipient, sweep.error])).to.deep.equal(
+            new Array(3).fill(["emergencyWithdrawRewardToken", staking.treasury.address, undefined])
+        );
+        expect(report.leftovers.every((leftover) => leftover.balance === 0n)).to.be.true;
+    });
+
+    it("should charge the LP fee and leave LP reward tokens it cannot recover", async () => {
+        const [alice] = lp.users;
+        const report = await runEmergencyDrill(ethers.provider, { lp: lpAddress, admin: lp.owner.address, lpFromBlock: fromBlock });
+
+        expect(report.exits).to.have.length(1);
+        expect(report.exits[0].user).to.equal(alice.address);
+        expect(report.exits[0].received).to.equal(ethers.parseEther("800"));
+        expect(report.exits[0].fee).to.equal(ethers.parseEther("200"));
+        expect(report.exits[0].forfeited).to.have.length(3);
+
+        expect(report.sweeps.every((sweep) => sweep.method === "recoverERC20" && sweep.error?.startsWith("CannotRecoverRewardToken"))).to.be.true;
+        const lpToken = await lp.lpToken.getAddress();
+        expect(report.leftovers.find((leftover) => leftover.token === lpToken)!.balance).to.equal(0n);
+        expect(report.leftovers.filter((leftover) => leftover.balance > 0n)).to.have.length(3);
+        expect(formatDrillMarkdown(report)).to.contain("1 emergency exits paid 800.0 aLP to users and 200.0 aLP in fees");
+    });
+
+    it("should recover stray tokens and revert the node afterwards", async () => {
+        const MockToken = await ethers.getContractFactory("MockERC20");
+        const stray = await MockToken.deploy("Stray", "STRAY");
+        await stray.mint(stakingAddress, ethers.parseEther("42"));
+        const strayAddress = await stray.getAddress();
+
+        const report = await runEmergencyDrill(ethers.provider, {
+            staking: stakingAddress,
+            admin: staking.owner.address,
+            recoverTokens: [strayAddress],
+        });
+        const recovered = report.sweeps.find((sweep) => sweep.token === strayAddress)!;
+        expect([recovered.method, recovered.amount, recovered.error]).to.deep.equal(["recoverERC20", ethers.parseEther("42"), undefined]);
+
+        expect(await staking.staking.emergencyMode()).to.be.false;
+        expect(await staking.staking.getTotalStaked()).to.equal(ethers.parseEther("405000"));
+        expect(await stray.balanceOf(stakingAddress)).to.equal(ethers.parseEther("42"));
+    });
+
+    it("should refuse an admin without the roles", async () => {
+        const error = await runEmergencyDrill(ethers.provider, { staking: stakingAddress, admin: staking.users[0].address }).catch(
+            (e: Error) => e
+        );
+        expect(String(error)).to.contain("does not hold EMERGENCY_ADMIN_ROLE on AIXCBStaking");
+    });
+});
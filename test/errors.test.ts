@@ -0,0 +1,211 @@
+import { expect } from "chai";
+import { artifacts, ethers } from "hardhat";
+import { time } from "@nomicfoundation/hardhat-network-helpers";
+import { ContractName, ContractRevertError, ContractVersion, DecodedRevert, decodeRevert, withDecodedRevert } from "../sdk/errors";
+import { LPStakingFixture, StakingFixture, deployLPStakingFixture, deployStakingFixture } from "./fixtures";
+
+describe("Revert decoder", () => {
+    const ONE_DAY = 24 * 60 * 60;
+
+    async function revertOf(action: Promise<unknown>): Promise<unknown> {
+        try {
+            await action;
+        } catch (error) {
+            return error;
+        }
+        throw new Error("Expected the action to revert");
+    }
+
+    describe("AIXCBStaking", () => {
+        let fixture: StakingFixture;
+
+        beforeEach(async () => {
+            fixture = await deployStakingFixture();
+        });
+
+        async function stake(periodIndex: number, deadlineOffset = 3600) {
+            const { staking, users } = fixture;
+            return staking.connect(users[0]).stake({
+                amount: ethers.parseEther("1000"),
+                periodIndex,
+                deadline: (await time.latest()) + deadlineOffset
+            });
+        }
+
+        it("should decode DeadlineExpired with the deadline", async () => {
+            const deadline = (await time.latest()) - 3600;
+            const error = await revertOf(stake(0, -3600));
+
+            const revert = decodeRevert(error, "AIXCBStaking", { deadline })!;
+
+            expect(revert.code).to.equal("DEADLINE_EXPIRED");
+            expect(revert.contract).to.equal("AIXCBStaking");
+            expect(revert.versions).to.deep.equal(["v1", "v2"]);
+            expect(revert.code === "DEADLINE_EXPIRED" && revert.data.deadline).to.equal(deadline);
+        });
+
+        it("should decode StakeLocked with the stake's endTime", async () => {
+            const { staking, users } = fixture;
+            await stake(0);
+            const userStake = await staking.getUserStake(users[0].address, 0);
+
+            const error = await revertOf(staking.connect(users[0]).withdraw(0));
+            const revert = decodeRevert(error, "AIXCBStaking", {
+                periodIndex: 0,
+                stake: userStake,
+                blockTimestamp: await time.latest()
+            })!;
+
+            expect(revert.code).to.equal("STAKE_LOCKED");
+            if (revert.code !== "STAKE_LOCKED") return;
+            expect(revert.data.endTime).to.equal(Number(userStake.endTime));
+            expect(revert.data.secondsRemaining).to.be.gt(0);
+            expect(revert.message).to.contain(new Date(Number(userStake.endTime) * 1000).toISOString());
+        });
+
+        it("should decode StakeExpired when topping up an expired stake", async () => {
+            await stake(0);
+            await time.increase(91 * ONE_DAY);
+
+            const revert = decodeRevert(await revertOf(stake(0)), "AIXCBStaking")!;
+
+            expect(revert.code).to.equal("STAKE_EXPIRED");
+            expect(revert.origin).to.equal("contract");
+        });
+
+        it("should decode require strings", async () => {
+            const { staking, owner, users } = fixture;
+            await stake(2);
+
+            const upgrade = decodeRevert(
+                await revertOf(staking.connect(users[0]).upgradeStakePeriod(2, 0)),
+                "AIXCBStaking"
+            )!;
+            expect(upgrade.code).to.equal("UPGRADE_REQUIRES_LONGER_LOCK");
+            expect(upgrade.name).to.equal("Can only upgrade to longer lock");
+            expect(upgrade.versions).to.deep.equal(["v2"]);
+
+            const MockToken = await ethers.getContractFactory("MockERC20");
+            const unfunded = await MockToken.deploy("Token D", "TKD");
+            await staking.connect(owner).addRewardToken(await unfunded.getAddress());
+            await staking.connect(owner).pause();
+
+            const start = decodeRevert(await revertOf(staking.connect(owner).startStaking()), "AIXCBStaking")!;
+            expect(start.code).to.equal("REWARD_POOLS_NOT_FUNDED");
+        });
+
+        it("should decode missing roles with the role name", async () => {
+            const { staking, users } = fixture;
+
+            const revert = decodeRevert(await revertOf(staking.connect(users[0]).pause()), "AIXCBStaking")!;
+
+            expect(revert.code).to.equal("MISSING_ROLE");
+            expect(revert.origin).to.equal("openzeppelin");
+            if (revert.code !== "MISSING_ROLE") return;
+            expect(revert.data.account).to.equal(users[0].address);
+            expect(revert.data.roleName).to.equal("EMERGENCY_ADMIN_ROLE");
+        });
+
+        it("should decode legacy v1 require strings", async () => {
+            const data = ethers.Interface.from([]).encodeErrorResult("Error", ["Insufficient reward balance"]);
+
+            const revert = decodeRevert(data, "AIXCBStaking")!;
+
+            expect(revert.code).to.equal("INSUFFICIENT_REWARD_BALANCE");
+            expect(revert.versions).to.deep.equal(["v1"]);
+        });
+
+        it("should decode panics", async () => {
+            const data = ethers.Interface.from([]).encodeErrorResult("Panic", [0x11]);
+
+            const revert = decodeRevert(data, "AIXCBStaking")!;
+
+            expect(revert.code).to.equal("PANIC");
+            expect(revert.origin).to.equal("compiler");
+            expect(revert.message).to.equal("Arithmetic overflow or underflow");
+        });
+
+        it("should rethrow reverts as ContractRevertError", async () => {
+            const { staking, users } = fixture;
+
+            const error = await withDecodedRevert(staking.connect(users[0]).withdraw(0), "AIXCBStaking", { periodIndex: 0 })
+                .catch((e: unknown) => e);
+
+            expect(error).to.be.instanceOf(ContractRevertError);
+            const revert = (error as ContractRevertError).revert;
+            expect(revert.code).to.equal("STAKE_NOT_FOUND");
+            expect(revert.code === "STAKE_NOT_FOUND" && revert.data.periodIndex).to.equal(0);
+        });
+    });
+
+    describe("AIXCBLPStaking", () => {
+        let fixture: LPStakingFixture;
+
+        beforeEach(async () => {
+            fixture = await deployLPStakingFixture();
+        });
+
+        it("should decode ExceedsMaxStake with the cap", async () => {
+            const { staking, users } = fixture;
+            const maxStake = await staking.MAX_STAKE_AMOUNT();
+
+            const error = await revertOf(staking.connect(users[0]).stake(maxStake + 1n));
+            const revert = decodeRevert(error, "AIXCBLPStaking", { maxStake, amount: maxStake + 1n })!;
+
+            expect(revert.code).to.equal("EXCEEDS_MAX_STAKE");
+            expect(revert.contract).to.equal("AIXCBLPStaking");
+            expect(revert.code === "EXCEEDS_MAX_STAKE" && revert.data.maxStake).to.equal(maxStake);
+        });
+
+        it("should record which contract raised a shared error", async () => {
+            const { staking, owner, users } = fixture;
+            const circuit = await staking.STAKING_CIRCUIT();
+            await staking.connect(owner).toggleCircuitBreaker(circuit);
+
+            const error = await revertOf(staking.connect(users[0]).stake(ethers.parseEther("1")));
+            const revert = decodeRevert(error, "AIXCBLPStaking", { circuit })!;
+
+            expect(revert.code).to.equal("CIRCUIT_BREAKER_ACTIVE");
+            expect(revert.contract).to.equal("AIXCBLPStaking");
+            expect(revert.code === "CIRCUIT_BREAKER_ACTIVE" && revert.data.circuit).to.equal(circuit);
+        });
+
+        it("should only accept errors the contract declares", async () => {
+            const data = ethers.id("InvalidDecimals()").slice(0, 10);
+
+            const lp = decodeRevert(data, "AIXCBLPStaking")!;
+            const staking = decodeRevert(data, "AIXCBStaking")!;
+
+            expect(lp.code).to.equal("INVALID_DECIMALS");
+            expect(lp.versions).to.deep.equal(["v2"]);
+            expect(staking.code).to.equal("UNKNOWN_ERROR");
+        });
+    });
+
+    describe("ABI coverage", () => {
+        const implementations: [ContractName, ContractVersion, string][] = [
+            ["AIXCBStaking", "v1", "src/legacy/AIXCBStaking.v1.sol:AIXCBStaking"],
+            ["AIXCBStaking", "v2", "src/AIXCBStaking.sol:AIXCBStaking"],
+            ["AIXCBLPStaking", "v1", "src/legacy/AIXCBLPStaking.v1.sol:AIXCBLPStaking"],
+            ["AIXCBLPStaking", "v2", "src/AIXCBLPStaking.sol:AIXCBLPStaking"]
+        ];
+
+        for (const [contract, version, artifactName] of implementations) {
+            it(`should decode every custom error of ${contract} ${version}`, async () => {
+                const iface = new ethers.Interface((await artifacts.readArtifact(artifactName)).abi);
+
+                iface.forEachError((fragment) => {
+                    const args = ethers.AbiCoder.defaultAbiCoder().getDefaultValue(fragment.inputs);
+                    const revert = decodeRevert(iface.encodeErrorResult(fragment, args), contract)!;
+                    expect(revert.code, fragment.format()).to.not.equal("UNKNOWN_ERROR");
+                    expect(revert.versions, fragment.format()).to.include(version);
+                });
+            });
+        }
+    });
+
+    it("should ignore errors without revert data", () => {
+        const revert: DecodedRevert | undefined = decodeRevert(new Error("network down"), "AIXCBStaking");
+        expect(revert).to.be.undefined;
+    });
+});
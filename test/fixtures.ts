@@ -0,0 +1,139 @@
+import { ethers } from "hardhat";
+import { AIXCBLPStaking, AIXCBLPStaking__factory, AIXCBStaking, AIXCBStaking__factory, MockERC20 } from "../typechain-types";
+import { SignerWithAddress } from "@nomicfoundation/hardhat-ethers/signers";
+
+export const STAKING_CONTRACT = "src/AIXCBStaking.sol:AIXCBStaking";
+export const LP_STAKING_CONTRACT = "src/AIXCBLPStaking.sol:AIXCBLPStaking";
+export const STAKING_V1_CONTRACT = "src/legacy/AIXCBStaking.v1.sol:AIXCBStaking";
+export const LP_STAKING_V1_CONTRACT = "src/legacy/AIXCBLPStaking.v1.sol:AIXCBLPStaking";
+
+export const INITIAL_REWARD_AMOUNT = ethers.parseEther("1000000");
+export const OWNER_TOKEN_BALANCE = ethers.parseEther("10000000");
+export const USER_TOKEN_BALANCE = ethers.parseEther("1000000");
+
+export interface StakingFixture {
+    staking: AIXCBStaking;
+    stakingToken: MockERC20;
+    rewardTokenB: MockERC20;
+    rewardTokenC: MockERC20;
+    owner: SignerWithAddress;
+    users: SignerWithAddress[];
+    treasury: SignerWithAddress;
+}
+
+export interface LPStakingFixture {
+    staking: AIXCBLPStaking;
+    lpToken: MockERC20;
+    rewardTokenA: MockERC20;
+    rewardTokenB: MockERC20;
+    rewardTokenC: MockERC20;
+    owner: SignerWithAddress;
+    users: SignerWithAddress[];
+    treasury: SignerWithAddress;
+}
+
+async function deployProxy(contractName: string, initArgs: unknown[], admin: string): Promise<string> {
+    const Implementation = await ethers.getContractFactory(contractName);
+    const implementation = await Implementation.deploy();
+
+    const initData = Implementation.interface.encodeFunctionData("initialize", initArgs);
+
+    const TransparentProxy = await ethers.getContractFactory("TransparentUpgradeableProxy");
+    const proxy = await TransparentProxy.deploy(await implementation.getAddress(), admin, initData);
+    return proxy.getAddress();
+}
+
+/**
+ * Deploys AIXCBStaking behind a proxy, funds all nine reward pools and mints
+ * staking tokens (with approvals) to every user except the treasury.
+ * `contractName` selects the implementation; `staking` uses the v2 ABI either way.
+ */
+export async function deployStakingFixture(contractName = STAKING_CONTRACT): Promise<StakingFixture> {
+    const [owner, ...signers] = await ethers.getSigners();
+    const treasury = signers[signers.length - 1];
+    const users = signers.slice(0, -1);
+
+    const MockToken = await ethers.getContractFactory("MockERC20");
+    const stakingToken = await MockToken.deploy("AIXCB Token", "AIXCB");
+    const rewardTokenB = await MockToken.deploy("Token B", "TKB");
+    const rewardTokenC = await MockToken.deploy("Token C", "TKC");
+    const tokens = [stakingToken, rewardTokenB, rewardTokenC];
+
+    const proxyAddress = await deployProxy(
+        contractName,
+        [
+            await stakingToken.getAddress(),
+            await Promise.all(tokens.map((token) => token.getAddress())),
+            treasury.address
+        ],
+        owner.address
+    );
+    const staking = AIXCBStaking__factory.connect(proxyAddress, owner);
+
+    for (const token of tokens) {
+        await token.mint(owner.address, OWNER_TOKEN_BALANCE);
+        await token.approve(proxyAddress, OWNER_TOKEN_BALANCE);
+    }
+
+    for (let i = 0; i <= 2; i++) {
+        for (const token of tokens) {
+            await staking.fundRewardPool(i, await token.getAddress(), INITIAL_REWARD_AMOUNT);
+        }
+    }
+
+    for (const user of users) {
+        await stakingToken.mint(user.address, USER_TOKEN_BALANCE);
+        await stakingToken.connect(user).approve(proxyAddress, USER_TOKEN_BALANCE);
+    }
+
+    await staking.unpause();
+
+    return { staking, stakingToken, rewardTokenB, rewardTokenC, owner, users, treasury };
+}
+
+/**
+ * Deploys AIXCBLPStaking behind a proxy, funds the three reward pools and
+ * mints LP tokens (with approvals) to every user except the treasury.
+ * `contractName` selects the implementation; `staking` uses the v2 ABI either way.
+ */
+export async function deployLPStakingFixture(contractName = LP_STAKING_CONTRACT): Promise<LPStakingFixture> {
+    const [owner, ...signers] = await ethers.getSigners();
+    const treasury = signers[signers.length - 1];
+    const users = signers.slice(0, -1);
+
+    const MockToken = await ethers.getContractFactory("MockERC20");
+    const lpToken = await MockToken.deploy("Aerodrome LP", "aLP");
+    const rewardTokenA = await MockToken.deploy("Token A", "TKA");
+    const rewardTokenB = await MockToken.deploy("Token B", "TKB");
+    const rewardTokenC = await MockToken.deploy("Token C", "TKC");
+    const rewardTokens = [rewardTokenA, rewardTokenB, rewardTokenC];
+
+    const proxyAddress = await deployProxy(
+        contractName,
+        [
+            await lpToken.getAddress(),
+            await Promise.all(rewardTokens.map((token) => token.getAddress())),
+            treasury.address
+        ],
+        owner.address
+    );
+    const staking = AIXCBLPStaking__factory.connect(proxyAddress, owner);
+
+    for (const token of rewardTokens) {
+        await token.mint(owner.address, OWNER_TOKEN_BALANCE);
+        await token.approve(proxyAddress, OWNER_TOKEN_BALANCE);
+    }
+
+    for (const user of users) {
+        await lpToken.mint(user.address, USER_TOKEN_BALANCE);
+        await lpToken.connect(user).approve(proxyAddress, USER_TOKEN_BALANCE);
+    }
+
+    // Funding requires the contract to be unpaused
+    await staking.unpause();
+    for (const token of rewardTokens) {
+        await staking.fundRewardPool(await token.getAddress(), INITIAL_REWARD_AMOUNT);
+    }
+
+    return { staking, lpToken, rewardTokenA, rewardTokenB, rewardTokenC, owner, users, treasury };
+}
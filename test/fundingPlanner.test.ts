@@ -0,0 +1,163 @@
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import { time } from "@nomicfoundation/hardhat-network-helpers";
+import { PRECISION, SECONDS_PER_YEAR } from "../sdk/constants";
+import {
+    FundingPlanner,
+    aprOf,
+    parseFundingTargets,
+    rateForApr,
+    stakingFundingAmount,
+    toActionPlan
+} from "../sdk/fundingPlanner";
+import { parseActionPlan, stringifyActionPlan } from "../sdk/safeBatch";
+import { LPStakingFixture, StakingFixture, deployLPStakingFixture, deployStakingFixture } from "./fixtures";
+
+const YEAR = BigInt(SECONDS_PER_YEAR);
+
+describe("Funding planner", () => {
+    describe("reward math", () => {
+        it("should pick the smallest rate that reaches the APR", () => {
+            const totalStaked = ethers.parseEther("123456.789");
+            const apr = ethers.parseEther("12.5");
+            const rate = rateForApr(apr, totalStaked);
+
+            expect(aprOf(rate, totalStaked)).to.be.gte(apr);
+            expect(aprOf(rate - 1n, totalStaked)).to.be.lt(apr);
+        });
+
+        it("should restart a finished pool for a year and blend into a running one", () => {
+            const finished = stakingFundingAmount({ rewardRate: 5n, periodFinish: 1000n }, 7n, 2000n);
+            expect(finished).to.deep.equal({ amount: 7n * YEAR, resultingRate: 7n, finish: 2000n + YEAR });
+
+            const running = stakingFundingAmount({ rewardRate: 5n, periodFinish: 1000n }, 7n, 600n);
+            expect(running).to.deep.equal({ amount: 800n, resultingRate: 7n, finish: 1000n });
+
+            const above = stakingFundingAmount({ rewardRate: 9n, periodFinish: 1000n }, 7n, 600n);
+            expect(above).to.deep.equal({ amount: 0n, resultingRate: 9n, finish: 1000n });
+        });
+    });
+
+    describe("AIXCBStaking", () => {
+        let fixture: StakingFixture;
+        let planner: FundingPlanner;
+        let token: string;
+
+        beforeEach(async () => {
+            fixture = await deployStakingFixture();
+            planner = new FundingPlanner({ staking: await fixture.staking.getAddress() }, ethers.provider);
+            token = await fixture.rewardTokenB.getAddress();
+            const deadline = (await time.latest()) + 3600;
+            await fixture.staking
+                .connect(fixture.users[0])
+                .stake({ amount: ethers.parseEther("50000"), periodIndex: 0, deadline });
+        });
+
+        it("should hit the target APR when funded mid-stream at fundAt", async () => {
+            const fundAt = (await time.latest()) + 1000;
+            const plan = await planner.planPool({ contract: "staking", token, period: "90d", target: { apr: "2500" } }, fundAt);
+            expect(plan.amount).to.be.gt(0n);
+            expect(plan.notes[0]).to.contain("mid-stream");
+
+            await time.setNextBlockTimestamp(fundAt);
+            await fixture.staking.fundRewardPool(0, token, plan.amount);
+
+            const pool = await fixture.staking.rewardPools(0, token);
+            expect(pool.rewardRate).to.equal(plan.resultingRate);
+            expect(pool.periodFinish).to.equal(BigInt(plan.finish));
+            expect(await fixture.staking.getAPR(0, token)).to.equal(plan.resultingApr);
+            expect(plan.resultingApr).to.be.gte(ethers.parseEther("2500"));
+        });
+
+        it("should restart a finished pool for another year", async () => {
+            await time.increase(SECONDS_PER_YEAR + 1);
+            const fundAt = (await time.latest()) + 10;
+            const target = { ratePerSecond: ethers.parseEther("0.01") };
+            const plan = await planner.planPool({ contract: "staking", token, period: "90d", target }, fundAt);
+            expect(plan.amount).to.equal(ethers.parseEther("0.01") * YEAR);
+
+            await time.setNextBlockTimestamp(fundAt);
+            await fixture.staking.fundRewardPool(0, token, plan.amount);
+            const pool = await fixture.staking.rewardPools(0, token);
+            expect(pool.rewardRate).to.equal(target.ratePerSecond);
+            expect(pool.periodFinish).to.equal(BigInt(fundAt) + YEAR);
+        });
+
+        it("should plan nothing for a pool already above its target", async () => {
+            const plan = await planner.planPool({ contract: "staking", token, period: "90d", target: { apr: "1" } });
+            expect(plan.amount).to.equal(0n);
+            expect(plan.resultingRate).to.equal(plan.currentRate);
+            expect(plan.notes[0]).to.contain("cannot be lowered mid-stream");
+        });
+
+        it("should size an APR on an assumed stake for an empty period", async () => {
+            const target = { contract: "staking" as const, token, period: "360d" as const, target: { apr: "10" } };
+            let error: unknown;
+            try {
+                await planner.planPool(target);
+            } catch (caught) {
+                error = caught;
+            }
+            expect(String(error)).to.contain("pass totalStaked");
+
+            const plan = await planner.planPool({ ...target, target: { apr: "10", totalStaked: ethers.parseEther("1000000") } });
+            expect(plan.totalStaked).to.equal(ethers.parseEther("1000000"));
+            expect(plan.resultingApr).to.be.gte(ethers.parseEther("10"));
+        });
+    });
+
+    describe("AIXCBLPStaking", () => {
+        let fixture: LPStakingFixture;
+        let planner: FundingPlanner;
+
+        beforeEach(async () => {
+            fixture = await deployLPStakingFixture();
+            planner = new FundingPlanner({ lp: await fixture.staking.getAddress() }, ethers.provider);
+        });
+
+        it("should top the budget up to the target emission", async () => {
+            const token = await fixture.rewardTokenA.getAddress();
+            const plan = await planner.planPool({ contract: "lp", token, target: { annualEmission: "3000000" } });
+            // The fixture funded 1M of the 3M a year
+            expect(plan.amount).to.be.closeTo(ethers.parseEther("2000000"), YEAR);
+
+            await fixture.staking.fundRewardPool(token, plan.amount);
+            const pool = await fixture.staking.getRewardPool(token);
+            expect(pool.ratePerSecond).to.equal(plan.resultingRate);
+            expect(pool.ratePerSecond * YEAR).to.be.gte(ethers.parseEther("3000000"));
+        });
+    });
+
+    describe("target files", () => {
+        it("should expand targets and write an action plan that safe-batch accepts", async () => {
+            const fixture = await deployStakingFixture();
+            const lp = await deployLPStakingFixture();
+            const tokenB = await fixture.rewardTokenB.getAddress();
+            const tokenA = await lp.rewardTokenA.getAddress();
+            const targets = parseFundingTargets(
+                [
+                    "name: April funding",
+                    "chainId: 31337",
+                    `safe: "${fixture.owner.address}"`,
+                    `contracts: { staking: "${await fixture.staking.getAddress()}", lp: "${await lp.staking.getAddress()}" }`,
+                    "targets:",
+                    `  - { contract: staking, period: [90d, 180d], token: "${tokenB}", apr: "5", totalStaked: "1000000" }`,
+                    `  - { contract: lp, token: "${tokenA}", annualEmission: "2000000" }`
+                ].join("\n")
+            );
+            expect(targets.targets.map((target) => target.period)).to.deep.equal(["90d", "180d", undefined]);
+
+            await time.increase(SECONDS_PER_YEAR + 1);
+            const plans = await new FundingPlanner(targets.contracts, ethers.provider).plan(targets.targets);
+            const actionPlan = parseActionPlan(stringifyActionPlan(toActionPlan(targets, plans)));
+
+            expect(actionPlan.name).to.equal("April funding");
+            expect(actionPlan.actions).to.have.lengthOf(3);
+            expect(actionPlan.actions[0]).to.deep.include({ type: "fund-pool", contract: "staking", period: "90d", token: tokenB });
+            expect(actionPlan.actions[2]).to.deep.include({ type: "fund-pool", contract: "lp", token: tokenA });
+            const amount = (actionPlan.actions[0] as { amount: string }).amount;
+            expect(ethers.parseEther(amount)).to.equal(plans[0].amount);
+            expect(plans[0].amount).to.equal(rateForApr(ethers.parseEther("5"), 1000000n * PRECISION) * YEAR);
+        });
+    });
+});
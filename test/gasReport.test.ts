@@ -0,0 +1,89 @@
+import { expect } from "chai";
+import { GasReport, GasSample, compareGas, formatGasMarkdown, listingLimit } from "../sdk/gasReport";
+
+describe("Gas report", () => {
+    function sample(entryPoint: string, gas: number, rewardTokens = 3, stakers = 1): GasSample {
+        return { contract: "AIXCBStaking", entryPoint, rewardTokens, stakers, gas };
+    }
+
+    function report(samples: GasSample[]): GasReport {
+        return { generatedAt: "2024-01-01T00:00:00.000Z", samples, failures: [], listingLimits: [] };
+    }
+
+    describe("compareGas", () => {
+        const baseline = report([sample("stake (new)", 200000), sample("claimRewards", 100000), sample("withdraw", 150000)]);
+
+        it("should flag only samples above the threshold", () => {
+            const comparison = compareGas(
+                baseline,
+                report([sample("stake (new)", 203000), sample("claimRewards", 101000), sample("withdraw", 140000)]),
+                1
+            );
+
+            expect(comparison.regressions.map((delta) => delta.sample.entryPoint)).to.deep.equal(["stake (new)"]);
+            expect(comparison.deltas[0].deltaPercent).to.equal(1.5);
+            expect(comparison.deltas[2].deltaPercent).to.be.closeTo(-6.67, 0.01);
+        });
+
+        it("should match samples by entry point, reward tokens and stakers", () => {
+            const comparison = compareGas(baseline, report([sample("stake (new)", 400000, 20), sample("claimRewards", 100000)]), 1);
+
+            expect(comparison.regressions).to.be.empty;
+            expect(comparison.deltas[0].baselineGas).to.be.undefined;
+            expect(comparison.missing.map((missing) => missing.entryPoint)).to.deep.equal(["stake (new)", "withdraw"]);
+        });
+    });
+
+    describe("listingLimit", () => {
+        const points = [
+            { stakers: 10, gas: 50000 },
+            { stakers: 100, gas: 450000 },
+            { stakers: 1000, gas: 2250000 }
+        ];
+
+        it("should extrapolate beyond the largest staker count", () => {
+            expect(listingLimit(points, 50_000_000)).to.deep.equal({ gasCap: 50_000_000, maxStakers: 24875, status: "extrapolated" });
+        });
+
+        it("should interpolate between the points around the cap", () => {
+            expect(listingLimit(points, 1_250_000)).to.deep.equal({ gasCap: 1_250_000, maxStakers: 500, status: "measured" });
+        });
+
+        it("should report a cap below the smallest staker count as not callable", () => {
+            expect(listingLimit(points, 10_000)).to.deep.equal({ gasCap: 10_000, status: "not callable" });
+        });
+
+        it("should stop at the last point that fit when the next call failed", () => {
+            const failed = [...points, { stakers: 10000 }];
+            expect(listingLimit(failed, 50_000_000)).to.deep.equal({ gasCap: 50_000_000, maxStakers: 1000, status: "measured" });
+            expect(listingLimit(failed, 1_250_000).maxStakers).to.equal(500);
+        });
+
+        it("should assume zero gas at zero stakers with a single point", () => {
+            expect(listingLimit([{ stakers: 1000, gas: 2_000_000 }], 30_000_000).maxStakers).to.equal(15000);
+        });
+    });
+
+    describe("formatGasMarkdown", () => {
+        it("should tabulate samples per contract with their change from the baseline", () => {
+            const current = report([sample("stake (new)", 210000), { ...sample("stake (new)", 150000), contract: "AIXCBLPStaking" }]);
+            current.listingLimits = [
+                { gasCap: 50_000_000, maxStakers: 22875, status: "extrapolated" },
+                { gasCap: 10_000, status: "not callable" }
+            ];
+            current.failures = [
+                { contract: "AIXCBStaking", entryPoint: "getStakersForPeriod", rewardTokens: 3, stakers: 10000, reason: "needs more than 550000000 gas" }
+            ];
+            const markdown = formatGasMarkdown(current, compareGas(report([sample("stake (new)", 200000)]), current, 2));
+
+            expect(markdown).to.contain("1 regression(s) above 2%");
+            expect(markdown).to.contain("## AIXCBStaking");
+            expect(markdown).to.contain("| stake (new) | 3 | 1 | 210000 | 200000 | +5.00% REGRESSED |");
+            expect(markdown).to.contain("## AIXCBLPStaking");
+            expect(markdown).to.contain("| stake (new) | 3 | 1 | 150000 |  | new |");
+            expect(markdown).to.contain("| 50000000 | 22875 | extrapolated |");
+            expect(markdown).to.contain("| 10000 | - | not callable |");
+            expect(markdown).to.contain("| AIXCBStaking | getStakersForPeriod | 3 | 10000 | needs more than 550000000 gas |");
+        });
+    });
+});
@@ -0,0 +1,215 @@
+import { expect } from "chai";
+import { ethers, network } from "hardhat";
+import { time } from "@nomicfoundation/hardhat-network-helpers";
+import { mkdtempSync, rmSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { StakingIndexer, openIndexerDatabase } from "../sdk/indexer";
+import { STAKING_CIRCUITS } from "../sdk/constants";
+import { LPStakingFixture, StakingFixture, deployLPStakingFixture, deployStakingFixture } from "./fixtures";
+
+describe("StakingIndexer", () => {
+    const ONE_DAY = 24 * 60 * 60;
+
+    describe("AIXCBStaking", () => {
+        let fixture: StakingFixture;
+        let indexer: StakingIndexer;
+        let address: string;
+
+        beforeEach(async () => {
+            const fromBlock = (await ethers.provider.getBlockNumber()) + 1;
+            fixture = await deployStakingFixture();
+            address = await fixture.staking.getAddress();
+            indexer = new StakingIndexer(openIndexerDatabase(":memory:"), ethers.provider, [
+                { address, contract: "AIXCBStaking", fromBlock }
+            ]);
+        });
+
+        afterEach(() => {
+            indexer.db.close();
+        });
+
+        async function stake(userIndex: number, periodIndex: number, amount: string) {
+            const { staking, users } = fixture;
+            await staking.connect(users[userIndex]).stake({
+                amount: ethers.parseEther(amount),
+                periodIndex,
+                deadline: (await time.latest()) + 3600
+            });
+        }
+
+        it("should index positions that match the contract state", async () => {
+            const { staking, owner, users } = fixture;
+            await stake(0, 0, "1000");
+            await stake(0, 0, "500");
+            await stake(0, 1, "200");
+            await stake(1, 2, "300");
+            await time.increase(10 * ONE_DAY);
+            await staking.connect(users[0]).upgradeStakePeriod(1, 2);
+            await staking.connect(owner).enableEmergencyMode();
+            await staking.connect(users[1]).emergencyWithdraw(2);
+            await staking.connect(owner).disableEmergencyMode();
+
+            await indexer.sync();
+
+            const positions = indexer.getStakePositions(address);
+            for (const position of positions) {
+                const onChain = await staking.getUserStake(position.user, position.periodIndex);
+                expect(position.amount, `${position.user} period ${position.periodIndex}`).to.equal(onChain.amount);
+                if (position.status === "active") {
+                    expect(position.startTime).to.equal(Number(onChain.startTime));
+                    expect(position.endTime).to.equal(Number(onChain.endTime));
+                }
+            }
+            expect(indexer.getStakePositions(address, users[0].address).map((p) => [p.periodIndex, p.status])).to.deep.equal([
+                [0, "active"],
+                [1, "upgraded"],
+                [2, "active"]
+            ]);
+            expect(indexer.getStakePositions(address, users[1].address)[0].status).to.equal("emergency");
+        });
+
+        it("should record claims and reward token changes", async () => {
+            const { staking, owner, users, stakingToken, rewardTokenB, rewardTokenC } = fixture;
+            await stake(0, 0, "1000");
+            await time.increase(30 * ONE_DAY);
+            const receipt = await (await staking.connect(users[0]).claimRewards(0)).wait();
+            await staking.connect(owner).toggleCircuitBreaker(STAKING_CIRCUITS.REWARDS_CIRCUIT);
+
+            await indexer.sync();
+
+            const claims = indexer.getClaims(address, users[0].address);
+            expect(claims).to.have.lengthOf(3);
+            const paid = receipt!.logs
+                .map((log) => staking.interface.parseLog(log))
+                .filter((event) => event?.name === "RewardPaid")
+                .map((event) => [event!.args.token, event!.args.amount]);
+            expect(claims.map((claim) => [claim.token, claim.amount])).to.deep.equal(paid);
+            expect(claims.every((claim) => claim.periodIndex === 0)).to.be.true;
+
+            expect(indexer.getRewardTokens(address)).to.deep.equal(
+                await Promise.all([stakingToken, rewardTokenB, rewardTokenC].map((token) => token.getAddress()))
+            );
+            expect(indexer.getCircuitBreakers(address)[STAKING_CIRCUITS.REWARDS_CIRCUIT]).to.be.true;
+        });
+
+        it("should resume from the checkpoint without duplicating events", async () => {
+            const { users } = fixture;
+            await stake(0, 0, "1000");
+            const [first] = await indexer.sync();
+
+            await stake(1, 0, "250");
+            const [second] = await indexer.sync();
+
+            expect(second.fromBlock).to.equal(first.toBlock + 1);
+            expect(second.events).to.equal(1);
+            expect(indexer.getCheckpoint(address)!.blockNumber).to.equal(await ethers.provider.getBlockNumber());
+            expect(indexer.getStakePositions(address).map((p) => p.user)).to.deep.equal(
+                [users[0].address, users[1].address].sort()
+            );
+            const [third] = await indexer.sync();
+            expect(third.events).to.equal(0);
+        });
+
+        it("should continue from a database reopened from disk", async () => {
+            const dir = mkdtempSync(join(tmpdir(), "indexer-"));
+            const file = join(dir, "staking.db");
+            const contracts = [{ address, contract: "AIXCBStaking" as const, fromBlock: 0 }];
+            try {
+                await stake(0, 0, "1000");
+                const first = new StakingIndexer(openIndexerDatabase(file), ethers.provider, contracts);
+                await first.sync();
+                first.db.close();
+
+                await stake(0, 0, "1");
+                const reopened = new StakingIndexer(openIndexerDatabase(file), ethers.provider, contracts);
+                const [result] = await reopened.sync();
+                expect(result.events).to.equal(1);
+                expect(reopened.getStakePositions(address)[0].amount).to.equal(ethers.parseEther("1001"));
+                reopened.db.close();
+            } finally {
+                rmSync(dir, { recursive: true, force: true });
+            }
+        });
+
+        it("should roll back blocks that were reorganised away", async () => {
+            const { users } = fixture;
+            await stake(0, 0, "1000");
+            await indexer.sync();
+            const ancestor = await ethers.provider.getBlockNumber();
+
+            const snapshot = await network.provider.send("evm_snapshot");
+            await stake(0, 1, "400");
+            await stake(1, 1, "400");
+            await indexer.sync();
+            expect(indexer.getStakePositions(address)).to.have.lengthOf(3);
+
+            // Replace the two blocks with a different, longer branch
+            await network.provider.send("evm_revert", [snapshot]);
+            await time.increase(60);
+            await stake(1, 2, "50");
+            await stake(1, 2, "25");
+            await stake(1, 2, "25");
+
+            const [result] = await indexer.sync();
+
+            expect(result.rolledBackTo).to.equal(ancestor);
+            const positions = indexer.getStakePositions(address);
+            expect(positions.map((p) => [p.user, p.periodIndex, p.amount])).to.deep.equal([
+                [users[0].address, 0, ethers.parseEther("1000")],
+                [users[1].address, 2, ethers.parseEther("100")]
+            ].sort((a, b) => String(a[0]).localeCompare(String(b[0]))));
+        });
+    });
+
+    describe("AIXCBLPStaking", () => {
+        let fixture: LPStakingFixture;
+        let indexer: StakingIndexer;
+        let address: string;
+
+        beforeEach(async () => {
+            const fromBlock = (await ethers.provider.getBlockNumber()) + 1;
+            fixture = await deployLPStakingFixture();
+            address = await fixture.staking.getAddress();
+            indexer = new StakingIndexer(openIndexerDatabase(":memory:"), ethers.provider, [
+                { address, contract: "AIXCBLPStaking", fromBlock }
+            ], { batchSize: 3 });
+        });
+
+        afterEach(() => {
+            indexer.db.close();
+        });
+
+        it("should track LP positions, claims and pool history", async () => {
+            const { staking, owner, users, rewardTokenA } = fixture;
+            await staking.connect(users[0]).stake(ethers.parseEther("1000"));
+            await staking.connect(users[1]).stake(ethers.parseEther("3000"));
+            await time.increase(7 * ONE_DAY);
+            await staking.connect(users[0]).withdraw(ethers.parseEther("400"));
+            await staking.connect(users[1]).claimRewards();
+            await staking.connect(owner).enableEmergencyMode();
+            await staking.connect(users[1]).emergencyWithdraw();
+
+            await indexer.sync();
+
+            const [first, second] = indexer.getLPPositions(address);
+            const byUser = Object.fromEntries([first, second].map((p) => [p.user, p]));
+            expect(byUser[users[0].address].amount).to.equal((await staking.userStakes(users[0].address)).stakedAmount);
+            expect(byUser[users[0].address].status).to.equal("active");
+            expect(byUser[users[1].address].status).to.equal("emergency");
+
+            const token = await rewardTokenA.getAddress();
+            const claimed = indexer.getClaims(address).filter((claim) => claim.token === token);
+            expect(claimed.reduce((sum, claim) => sum + claim.amount, 0n)).to.equal(
+                (await staking.getRewardPool(token)).distributed
+            );
+            expect(claimed.every((claim) => claim.periodIndex === null)).to.be.true;
+
+            const history = indexer.getPoolHistory(address, token);
+            expect(history.length).to.be.greaterThan(0);
+            expect(history[history.length - 1].accumulatedPerShare).to.equal(
+                (await staking.rewardPools(token)).accumulatedPerShare
+            );
+        });
+    });
+});
@@ -0,0 +1,385 @@
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import { loadFixture, time } from "@nomicfoundation/hardhat-network-helpers";
+import { ContractTransactionResponse } from "ethers";
+import { SignerWithAddress } from "@nomicfoundation/hardhat-ethers/signers";
+import fc from "fast-check";
+import { AIXCBLPStaking, AIXCBStaking, MockERC20 } from "../typechain-types";
+import { LP_STAKING_CIRCUITS, MAX_PERIOD_INDEX, STAKING_CIRCUITS } from "../sdk/constants";
+import { ContractName, decodeRevert } from "../sdk/errors";
+import { INITIAL_REWARD_AMOUNT, LPStakingFixture, StakingFixture, deployLPStakingFixture, deployStakingFixture } from "./fixtures";
+
+/**
+ * Random action sequences against both contracts, checking invariants after
+ * every step. Actions that revert are part of the sequence (the contract must
+ * stay consistent either way); only panics fail a step. fast-check shrinks a
+ * failing sequence and prints it with the seed and path to replay it:
+ *
+ *   FUZZ_SEED=<seed> FUZZ_PATH=<path> npx hardhat test test/invariants.test.ts
+ *
+ * FUZZ_RUNS raises the number of sequences per contract.
+ */
+describe("Invariant fuzzing", () => {
+    const ONE_DAY = 24 * 60 * 60;
+    const USER_COUNT = 4;
+    const MAX_COMMANDS = 25;
+
+    const runs = Number(process.env.FUZZ_RUNS ?? 15);
+    const replay = process.env.FUZZ_SEED === undefined ? {} : { seed: Number(process.env.FUZZ_SEED), path: process.env.FUZZ_PATH };
+
+    const userIndex = fc.integer({ min: 0, max: USER_COUNT - 1 });
+    const periodIndex = fc.integer({ min: 0, max: MAX_PERIOD_INDEX });
+    // Whole tokens most of the time, with dust amounts to exercise rounding
+    const amount = fc.oneof(
+        { arbitrary: fc.integer({ min: 1, max: 200_000 }).map((tokens) => ethers.parseEther(String(tokens))), weight: 4 },
+        { arbitrary: fc.bigInt({ min: 1n, max: 10n ** 6n }), weight: 1 }
+    );
+    const duration = fc.oneof(fc.integer({ min: 1, max: ONE_DAY }), fc.integer({ min: ONE_DAY, max: 400 * ONE_DAY }));
+
+    /** Sends a transaction, tolerating reverts but not panics or non-revert errors */
+    async function attempt(contract: ContractName, tx: () => Promise<ContractTransactionResponse>): Promise<boolean> {
+        try {
+            await (await tx()).wait();
+            return true;
+        } catch (error: unknown) {
+            const revert = decodeRevert(error, contract);
+            if (!revert || revert.code === "PANIC") throw error;
+            return false;
+        }
+    }
+
+    async function expectTokensConserved(tokens: MockERC20[], holders: string[]) {
+        for (const token of tokens) {
+            let held = 0n;
+            for (const holder of holders) held += await token.balanceOf(holder);
+            expect(held, `${await token.symbol()} held by signers and the contract`).to.equal(await token.totalSupply());
+        }
+    }
+
+    function property<Model extends object, Real>(
+        commands: fc.Arbitrary<fc.AsyncCommand<Model, Real>>[],
+        setup: () => Promise<Real>,
+        initialModel: (real: Real) => Promise<Model>
+    ) {
+        return fc.asyncProperty(fc.commands(commands, { maxCommands: MAX_COMMANDS }), async (sequence) => {
+            const real = await setup();
+            const model = await initialModel(real);
+            await fc.asyncModelRun(() => ({ model, real }), sequence);
+        });
+    }
+
+    describe("AIXCBStaking", () => {
+        interface StakingReal {
+            fixture: StakingFixture;
+            staking: AIXCBStaking;
+            /** Not a reward token at deployment; `addRewardToken` brings it in */
+            extraToken: MockERC20;
+            tokens: MockERC20[];
+            users: SignerWithAddress[];
+            holders: string[];
+        }
+
+        /** Rewards funded into and paid out of each pool, keyed by `period:token` */
+        interface StakingModel {
+            funded: Map<string, bigint>;
+            paid: Map<string, bigint>;
+            /** First block whose `RewardPaid` logs are not yet in `paid` */
+            nextBlock: number;
+        }
+
+        async function stakingModel(real: StakingReal): Promise<StakingModel> {
+            const funded = new Map<string, bigint>();
+            for (const token of real.tokens.slice(0, 3)) {
+                for (let period = 0; period <= MAX_PERIOD_INDEX; period++) {
+                    funded.set(`${period}:${await token.getAddress()}`, INITIAL_REWARD_AMOUNT);
+                }
+            }
+            return { funded, paid: new Map(), nextBlock: (await ethers.provider.getBlockNumber()) + 1 };
+        }
+
+        function add(amounts: Map<string, bigint>, key: string, amount: bigint) {
+            amounts.set(key, (amounts.get(key) ?? 0n) + amount);
+        }
+
+        async function stakingHarness(): Promise<StakingReal> {
+            const fixture = await deployStakingFixture();
+            const extraToken = await (await ethers.getContractFactory("MockERC20")).deploy("Token D", "TKD");
+            const address = await fixture.staking.getAddress();
+            await extraToken.mint(fixture.owner.address, ethers.parseEther("10000000"));
+            await extraToken.approve(address, ethers.MaxUint256);
+            return {
+                fixture,
+                staking: fixture.staking,
+                extraToken,
+                tokens: [fixture.stakingToken, fixture.rewardTokenB, fixture.rewardTokenC, extraToken],
+                users: fixture.users.slice(0, USER_COUNT),
+                holders: [...(await ethers.getSigners()).map((signer) => signer.address), address]
+            };
+        }
+
+        async function checkInvariants(real: StakingReal, model: StakingModel) {
+            const { staking, tokens, users } = real;
+            const latest = await ethers.provider.getBlockNumber();
+            for (const event of await staking.queryFilter(staking.filters.RewardPaid, model.nextBlock, latest)) {
+                add(model.paid, `${event.args.periodIndex}:${event.args.token}`, event.args.amount);
+            }
+            model.nextBlock = latest + 1;
+
+            let principal = 0n;
+            for (let period = 0; period <= MAX_PERIOD_INDEX; period++) {
+                let staked = 0n;
+                for (const user of users) staked += (await staking.userStakes(user.address, period)).amount;
+                expect(staked, `sum of userStakes for period ${period}`).to.equal(await staking.totalStakedForPeriod(period));
+                principal += staked;
+            }
+            for (const user of users) {
+                let staked = 0n;
+                for (let period = 0; period <= MAX_PERIOD_INDEX; period++) staked += (await staking.userStakes(user.address, period)).amount;
+                expect(await staking.getUserTotalStake(user.address), `_totalUserStake of ${user.address}`).to.equal(staked);
+            }
+            for (const token of tokens) {
+                for (let period = 0; period <= MAX_PERIOD_INDEX; period++) {
+                    const key = `${period}:${await token.getAddress()}`;
+                    const funded = model.funded.get(key) ?? 0n;
+                    const pool = await staking.rewardPools(period, await token.getAddress());
+                    expect(pool.totalReward, `funded into period ${period} pool of ${await token.symbol()}`).to.equal(funded);
+                    expect(pool.totalDistributed, `distributed from period ${period} pool of ${await token.symbol()}`).to.be.lte(
+                        pool.totalReward
+                    );
+                    // `upgradeStakePeriod` pays without adding to `totalDistributed`, so count the `RewardPaid` logs
+                    expect(model.paid.get(key) ?? 0n, `RewardPaid from period ${period} pool of ${await token.symbol()}`).to.be.lte(
+                        funded
+                    );
+                }
+            }
+            expect(await real.fixture.stakingToken.balanceOf(await staking.getAddress()), "staking token backing principal").to.be.gte(
+                principal
+            );
+            await expectTokensConserved(tokens, real.holders);
+        }
+
+        /** One fuzzed action; `describe` is what fast-check prints for a counterexample */
+        function command(
+            describe: string,
+            act: (real: StakingReal, model: StakingModel) => Promise<unknown>
+        ): fc.AsyncCommand<StakingModel, StakingReal> {
+            return {
+                check: () => true,
+                run: async (model, real) => {
+                    await act(real, model);
+                    await checkInvariants(real, model);
+                },
+                toString: () => describe
+            };
+        }
+
+        const commands = [
+            fc
+                .tuple(userIndex, periodIndex, amount)
+                .map(([user, period, value]) =>
+                    command(`stake(user ${user}, period ${period}, ${value})`, async ({ staking, users }) => {
+                        const deadline = (await time.latest()) + 3600;
+                        return attempt("AIXCBStaking", () =>
+                            staking.connect(users[user]).stake({ amount: value, periodIndex: period, deadline })
+                        );
+                    })
+                ),
+            fc
+                .tuple(userIndex, periodIndex)
+                .map(([user, period]) =>
+                    command(`withdraw(user ${user}, period ${period})`, ({ staking, users }) =>
+                        attempt("AIXCBStaking", () => staking.connect(users[user]).withdraw(period))
+                    )
+                ),
+            fc
+                .tuple(userIndex, periodIndex)
+                .map(([user, period]) =>
+                    command(`claimRewards(user ${user}, period ${period})`, ({ staking, users }) =>
+                        attempt("AIXCBStaking", () => staking.connect(users[user]).claimRewards(period))
+                    )
+                ),
+            fc
+                .tuple(userIndex, fc.integer({ min: 0, max: MAX_PERIOD_INDEX - 1 }), fc.integer({ min: 1, max: MAX_PERIOD_INDEX }))
+                .map(([user, from, step]) => {
+                    const to = Math.min(from + step, MAX_PERIOD_INDEX);
+                    return command(`upgradeStakePeriod(user ${user}, ${from} -> ${to})`, ({ staking, users }) =>
+                        attempt("AIXCBStaking", () => staking.connect(users[user]).upgradeStakePeriod(from, to))
+                    );
+                }),
+            fc
+                .tuple(periodIndex, fc.integer({ min: 0, max: 3 }), amount)
+                .map(([period, token, value]) =>
+                    command(`fundRewardPool(period ${period}, token ${token}, ${value})`, async ({ staking, tokens }, model) => {
+                        const address = await tokens[token].getAddress();
+                        if (await attempt("AIXCBStaking", () => staking.fundRewardPool(period, address, value))) {
+                            add(model.funded, `${period}:${address}`, value);
+                        }
+                    })
+                ),
+            fc.constant(
+                command("addRewardToken(TKD)", async ({ staking, extraToken }) =>
+                    attempt("AIXCBStaking", async () => staking.addRewardToken(await extraToken.getAddress()))
+                )
+            ),
+            fc
+                .integer({ min: 1, max: 3 })
+                .map((token) =>
+                    command(`removeRewardToken(token ${token})`, async ({ staking, tokens }) =>
+                        attempt("AIXCBStaking", async () => staking.removeRewardToken(await tokens[token].getAddress()))
+                    )
+                ),
+            fc
+                .boolean()
+                .map((enable) =>
+                    command(`${enable ? "enable" : "disable"}EmergencyMode()`, ({ staking }) =>
+                        attempt("AIXCBStaking", () => (enable ? staking.enableEmergencyMode() : staking.disableEmergencyMode()))
+                    )
+                ),
+            fc
+                .constantFrom(...(Object.keys(STAKING_CIRCUITS) as (keyof typeof STAKING_CIRCUITS)[]))
+                .map((circuit) =>
+                    command(`toggleCircuitBreaker(${circuit})`, ({ staking }) =>
+                        attempt("AIXCBStaking", () => staking.toggleCircuitBreaker(STAKING_CIRCUITS[circuit]))
+                    )
+                ),
+            fc
+                .tuple(userIndex, periodIndex)
+                .map(([user, period]) =>
+                    command(`emergencyWithdraw(user ${user}, period ${period})`, ({ staking, users }) =>
+                        attempt("AIXCBStaking", () => staking.connect(users[user]).emergencyWithdraw(period))
+                    )
+                ),
+            duration.map((seconds) => command(`time.increase(${seconds})`, () => time.increase(seconds)))
+        ];
+
+        it("should keep stake, supply and reward invariants across random action sequences", async () => {
+            await fc.assert(
+                property(commands, () => loadFixture(stakingHarness), stakingModel),
+                { numRuns: runs, ...replay }
+            );
+        });
+    });
+
+    describe("AIXCBLPStaking", () => {
+        interface LPStakingReal {
+            fixture: LPStakingFixture;
+            staking: AIXCBLPStaking;
+            /** Not a reward token at deployment; `addRewardToken` brings it in */
+            extraToken: MockERC20;
+            rewardTokens: MockERC20[];
+            users: SignerWithAddress[];
+            holders: string[];
+        }
+
+        async function lpStakingHarness(): Promise<LPStakingReal> {
+            const fixture = await deployLPStakingFixture();
+            const extraToken = await (await ethers.getContractFactory("MockERC20")).deploy("Token D", "TKD");
+            const address = await fixture.staking.getAddress();
+            await extraToken.mint(fixture.owner.address, ethers.parseEther("10000000"));
+            await extraToken.approve(address, ethers.MaxUint256);
+            return {
+                fixture,
+                staking: fixture.staking,
+                extraToken,
+                rewardTokens: [fixture.rewardTokenA, fixture.rewardTokenB, fixture.rewardTokenC, extraToken],
+                users: fixture.users.slice(0, USER_COUNT),
+                holders: [...(await ethers.getSigners()).map((signer) => signer.address), address]
+            };
+        }
+
+        async function checkInvariants(real: LPStakingReal) {
+            const { staking, users } = real;
+            let staked = 0n;
+            for (const user of users) staked += (await staking.userStakes(user.address)).stakedAmount;
+            const totalStaked = await staking.totalStakedAmount();
+            expect(staked, "sum of userStakes").to.equal(totalStaked);
+            expect(await real.fixture.lpToken.balanceOf(await staking.getAddress()), "LP balance").to.equal(totalStaked);
+
+            for (const token of await staking.getRewardTokens()) {
+                const pool = await staking.getRewardPool(token);
+                expect(pool.distributed, `distributed from the ${token} pool`).to.be.lte(pool.totalReward);
+            }
+            await expectTokensConserved([real.fixture.lpToken, ...real.rewardTokens], real.holders);
+        }
+
+        /** One fuzzed action; `describe` is what fast-check prints for a counterexample */
+        function command(describe: string, act: (real: LPStakingReal) => Promise<unknown>): fc.AsyncCommand<object, LPStakingReal> {
+            return {
+                check: () => true,
+                run: async (_model, real) => {
+                    await act(real);
+                    await checkInvariants(real);
+                },
+                toString: () => describe
+            };
+        }
+
+        const commands = [
+            fc
+                .tuple(userIndex, amount)
+                .map(([user, value]) =>
+                    command(`stake(user ${user}, ${value})`, ({ staking, users }) =>
+                        attempt("AIXCBLPStaking", () => staking.connect(users[user]).stake(value))
+                    )
+                ),
+            fc
+                .tuple(userIndex, amount)
+                .map(([user, value]) =>
+                    command(`withdraw(user ${user}, ${value})`, ({ staking, users }) =>
+                        attempt("AIXCBLPStaking", () => staking.connect(users[user]).withdraw(value))
+                    )
+                ),
+            userIndex.map((user) =>
+                command(`claimRewards(user ${user})`, ({ staking, users }) =>
+                    attempt("AIXCBLPStaking", () => staking.connect(users[user]).claimRewards())
+                )
+            ),
+            fc
+                .tuple(fc.integer({ min: 0, max: 3 }), amount)
+                .map(([token, value]) =>
+                    command(`fundRewardPool(token ${token}, ${value})`, async ({ staking, rewardTokens }) =>
+                        attempt("AIXCBLPStaking", async () => staking.fundRewardPool(await rewardTokens[token].getAddress(), value))
+                    )
+                ),
+            fc.constant(
+                command("addRewardToken(TKD)", async ({ staking, extraToken }) =>
+                    attempt("AIXCBLPStaking", async () => staking.addRewardToken(await extraToken.getAddress()))
+                )
+            ),
+            fc
+                .integer({ min: 0, max: 3 })
+                .map((token) =>
+                    command(`removeRewardToken(token ${token})`, async ({ staking, rewardTokens }) =>
+                        attempt("AIXCBLPStaking", async () => staking.removeRewardToken(await rewardTokens[token].getAddress()))
+                    )
+                ),
+            fc
+                .boolean()
+                .map((enable) =>
+                    command(`${enable ? "enable" : "disable"}EmergencyMode()`, ({ staking }) =>
+                        attempt("AIXCBLPStaking", () => (enable ? staking.enableEmergencyMode() : staking.disableEmergencyMode()))
+                    )
+                ),
+            fc
+                .constantFrom(...(Object.keys(LP_STAKING_CIRCUITS) as (keyof typeof LP_STAKING_CIRCUITS)[]))
+                .map((circuit) =>
+                    command(`toggleCircuitBreaker(${circuit})`, ({ staking }) =>
+                        attempt("AIXCBLPStaking", () => staking.toggleCircuitBreaker(LP_STAKING_CIRCUITS[circuit]))
+                    )
+                ),
+            userIndex.map((user) =>
+                command(`emergencyWithdraw(user ${user})`, ({ staking, users }) =>
+                    attempt("AIXCBLPStaking", () => staking.connect(users[user]).emergencyWithdraw())
+                )
+            ),
+            duration.map((seconds) => command(`time.increase(${seconds})`, () => time.increase(seconds)))
+        ];
+
+        it("should keep stake, supply and reward invariants across random action sequences", async () => {
+            await fc.assert(
+                property(commands, () => loadFixture(lpStakingHarness), async () => ({})),
+                { numRuns: runs, ...replay }
+            );
+        });
+    });
+});
@@ -0,0 +1,127 @@
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import { StakingAnalytics, StaticPriceSource } from "../sdk/analytics";
+import { AerodromeLPPriceSource, AerodromeLPValuation, UnderlyingAmount } from "../sdk/lpValuation";
+import { LP_STAKING_CONTRACT } from "./fixtures";
+
+describe("Aerodrome LP valuation", () => {
+    let pool: string;
+    let lpStaking: string;
+    let aixcb: string;
+    let weth: string;
+    let reward: string;
+    let alice: string;
+    let bob: string;
+
+    function side(underlying: UnderlyingAmount[], symbol: string): UnderlyingAmount {
+        return underlying.find((token) => token.symbol === symbol)!;
+    }
+
+    beforeEach(async () => {
+        const [owner, aliceSigner, bobSigner, treasury] = await ethers.getSigners();
+        [alice, bob] = [aliceSigner.address, bobSigner.address];
+
+        const MockToken = await ethers.getContractFactory("MockERC20");
+        const tokens = [
+            await MockToken.deploy("AIXCB Token", "AIXCB"),
+            await MockToken.deploy("Wrapped Ether", "WETH"),
+            await MockToken.deploy("Token A", "TKA"),
+        ];
+        [aixcb, weth, reward] = await Promise.all(tokens.map((token) => token.getAddress()));
+        const Pool = await ethers.getContractFactory("MockAerodromePool");
+        const pair = await Pool.deploy(aixcb, weth);
+        pool = await pair.getAddress();
+        // 1 WETH = 20,000 AIXCB; 10,000 LP of which Alice holds 3,000 and Bob 1,000
+        const [reserve0, reserve1] = aixcb.toLowerCase() < weth.toLowerCase() ? ["1000000", "50"] : ["50", "1000000"];
+        await pair.setReserves(ethers.parseEther(reserve0), ethers.parseEther(reserve1));
+        await pair.mint(owner.address, ethers.parseEther("6000"));
+        await pair.mint(alice, ethers.parseEther("3000"));
+        await pair.mint(bob, ethers.parseEther("1000"));
+
+        const Implementation = await ethers.getContractFactory(LP_STAKING_CONTRACT);
+        const implementation = await Implementation.deploy();
+        const initData = Implementation.interface.encodeFunctionData("initialize", [pool, [reward], treasury.address]);
+        const Proxy = await ethers.getContractFactory("TransparentUpgradeableProxy");
+        const proxy = await Proxy.deploy(await implementation.getAddress(), owner.address, initData);
+        lpStaking = await proxy.getAddress();
+        const staking = await ethers.getContractAt(LP_STAKING_CONTRACT, lpStaking);
+        await staking.unpause();
+        await pair.connect(aliceSigner).approve(lpStaking, ethers.parseEther("3000"));
+        await staking.connect(aliceSigner).stake(ethers.parseEther("3000"));
+        await pair.connect(bobSigner).approve(lpStaking, ethers.parseEther("1000"));
+        await staking.connect(bobSigner).stake(ethers.parseEther("1000"));
+    });
+
+    it("should read the pool in its token order", async () => {
+        const state = await new AerodromeLPValuation(pool, ethers.provider).state();
+
+        expect(state.symbol).to.match(/^vAMM-/);
+        expect(state.stable).to.be.false;
+        expect(state.totalSupply).to.equal(ethers.parseEther("10000"));
+        expect(state.reserves.map((reserve) => reserve.token)).to.deep.equal([aixcb, weth].sort((a, b) => a.toLowerCase().localeCompare(b.toLowerCase())));
+        expect(state.reserves.find((reserve) => reserve.symbol === "WETH")!.reserve).to.equal(ethers.parseEther("50"));
+    });
+
+    it("should price one LP token in each underlying token", async () => {
+        const price = await new AerodromeLPValuation(pool, ethers.provider).price();
+
+        expect(side(price.underlying, "AIXCB").amount).to.equal(ethers.parseEther("100"));
+        expect(side(price.underlying, "WETH").amount).to.equal(ethers.parseEther("0.005"));
+        expect(side(price.underlying, "AIXCB").value).to.equal(ethers.parseEther("200"));
+        expect(side(price.underlying, "WETH").value).to.equal(ethers.parseEther("0.01"));
+        expect(price.usd).to.be.undefined;
+    });
+
+    it("should price in USD from both tokens or from the quote token at the spot ratio", async () => {
+        const both = new StaticPriceSource({ [aixcb]: ethers.parseEther("0.2"), [weth]: ethers.parseEther("3000") });
+        expect((await new AerodromeLPValuation(pool, ethers.provider, { prices: both }).price()).usd).to.equal(ethers.parseEther("35"));
+
+        const wethOnly = new StaticPriceSource({ [weth]: ethers.parseEther("3000") });
+        const quoted = new AerodromeLPValuation(pool, ethers.provider, { prices: wethOnly, quoteToken: weth });
+        expect((await quoted.price()).usd).to.equal(ethers.parseEther("30"));
+
+        const error = await new AerodromeLPValuation(pool, ethers.provider, { prices: wethOnly }).price().catch((e: Error) => e);
+        expect(String(error)).to.contain("No price for");
+    });
+
+    it("should break each staked position into AIXCB and WETH", async () => {
+        const prices = new StaticPriceSource({ [weth]: ethers.parseEther("3000") });
+        const valuation = new AerodromeLPValuation(pool, ethers.provider, { prices, quoteToken: weth });
+        const [alicePosition, bobPosition] = await valuation.positions(lpStaking, [alice, bob]);
+
+        expect(alicePosition.lpAmount).to.equal(ethers.parseEther("3000"));
+        expect(side(alicePosition.underlying, "AIXCB").amount).to.equal(ethers.parseEther("300000"));
+        expect(side(alicePosition.underlying, "WETH").amount).to.equal(ethers.parseEther("15"));
+        expect(side(alicePosition.underlying, "WETH").value).to.equal(ethers.parseEther("30"));
+        expect(alicePosition.usd).to.equal(ethers.parseEther("90000"));
+        expect(bobPosition.usd).to.equal(ethers.parseEther("30000"));
+
+        const staked = await valuation.staked(lpStaking);
+        expect(side(staked.underlying, "AIXCB").amount).to.equal(ethers.parseEther("400000"));
+        expect(staked.usd).to.equal(ethers.parseEther("120000"));
+    });
+
+    it("should refuse a staking contract for another LP token", async () => {
+        const Pool = await ethers.getContractFactory("MockAerodromePool");
+        const other = await Pool.deploy(aixcb, reward);
+        await other.setReserves(1n, 1n);
+        await other.mint(alice, 1n);
+        const valuation = new AerodromeLPValuation(await other.getAddress(), ethers.provider);
+        const error = await valuation.positions(lpStaking, [alice]).catch((e: Error) => e);
+
+        expect(String(error)).to.contain("does not stake vAMM-");
+    });
+
+    it("should feed the LP price into the analytics TVL", async () => {
+        const prices = new AerodromeLPPriceSource(
+            pool,
+            ethers.provider,
+            new StaticPriceSource({ [weth]: ethers.parseEther("3000"), [reward]: ethers.parseEther("1") }),
+            weth
+        );
+        const report = await new StakingAnalytics(ethers.provider, prices).lp(lpStaking);
+
+        expect(report.stakingTokenPrice).to.equal(ethers.parseEther("30"));
+        expect(report.tvlUsd).to.equal(ethers.parseEther("120000"));
+    });
+});
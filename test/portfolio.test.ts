@@ -0,0 +1,119 @@
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import { setCode, time } from "@nomicfoundation/hardhat-network-helpers";
+import { CallResult, MULTICALL3_ADDRESS, PortfolioReader } from "../sdk/portfolio";
+import { LPStakingFixture, StakingFixture, deployLPStakingFixture, deployStakingFixture } from "./fixtures";
+
+describe("PortfolioReader", () => {
+    let staking: StakingFixture;
+    let lp: LPStakingFixture;
+    let reader: PortfolioReader;
+
+    function value<T>(result: CallResult<T>): T {
+        if (!result.ok) throw new Error(result.error);
+        return result.value;
+    }
+
+    beforeEach(async () => {
+        // The canonical Multicall3, installed where live networks have it
+        const multicall = await (await ethers.getContractFactory("Multicall3")).deploy();
+        await setCode(MULTICALL3_ADDRESS, await ethers.provider.getCode(await multicall.getAddress()));
+        staking = await deployStakingFixture();
+        lp = await deployLPStakingFixture();
+        reader = new PortfolioReader(ethers.provider, {
+            staking: await staking.staking.getAddress(),
+            lp: await lp.staking.getAddress(),
+        });
+
+        const [alice, bob] = staking.users;
+        const deadline = (await time.latest()) + 3600;
+        await staking.staking.connect(alice).stake({ amount: ethers.parseEther("100000"), periodIndex: 0, deadline });
+        await staking.staking.connect(bob).stake({ amount: ethers.parseEther("300000"), periodIndex: 2, deadline });
+        await lp.staking.connect(alice).stake(ethers.parseEther("1000"));
+        await time.increase(30 * 24 * 60 * 60);
+        await ethers.provider.send("evm_mine", []);
+    });
+
+    it("should read both contracts and every account in two aggregate3 calls", async () => {
+        const [alice, bob] = staking.users;
+        const snapshot = await reader.read([alice.address, bob.address]);
+
+        expect(snapshot.batches).to.equal(2);
+        expect(snapshot.blockTimestamp).to.equal(await time.latest());
+        const tokenB = await staking.rewardTokenB.getAddress();
+        expect(value(snapshot.staking!.rewardTokens)).to.have.length(3);
+        expect(value(snapshot.staking!.paused)).to.be.false;
+        expect(value(snapshot.staking!.totalStaked["360d"])).to.equal(ethers.parseEther("300000"));
+        expect(snapshot.staking!.pools).to.have.length(9);
+        expect(Object.values(snapshot.lp!.circuitBreakers).map(value)).to.deep.equal([false, false, false]);
+
+        const [aliceRead, bobRead] = snapshot.accounts;
+        const bobStake = value(bobRead.staking!.holdings[2].stake);
+        expect(bobStake.amount).to.equal(ethers.parseEther("300000"));
+        expect(bobStake.endTime).to.equal(Number((await staking.staking.getUserStake(bob.address, 2)).endTime));
+        expect(value(bobRead.staking!.holdings[0].stake).initialized).to.be.false;
+        expect(value(bobRead.staking!.holdings[2].pendingRewards.find((reward) => reward.token === tokenB)!.amount)).to.equal(
+            await staking.staking.pendingRewards(bob.address, 2, tokenB)
+        );
+        expect(value(aliceRead.lp!.stake).stakedAmount).to.equal(ethers.parseEther("1000"));
+        const tokenA = await lp.rewardTokenA.getAddress();
+        expect(value(aliceRead.lp!.pendingRewards.find((reward) => reward.token === tokenA)!.amount)).to.equal(
+            await lp.staking.getPendingRewards(alice.address, tokenA)
+        );
+    });
+
+    it("should pin every read to the requested block", async () => {
+        const [alice] = staking.users;
+        const block = await ethers.provider.getBlockNumber();
+        const before = await reader.read([alice.address], block);
+
+        await time.increase(24 * 60 * 60);
+        await lp.staking.connect(alice).withdraw(ethers.parseEther("400"));
+        const again = await reader.read([alice.address], block);
+
+        expect(again.blockTimestamp).to.equal(before.blockTimestamp);
+        expect(value(again.accounts[0].lp!.stake).stakedAmount).to.equal(ethers.parseEther("1000"));
+        expect(again.accounts[0].staking!.holdings[0].pendingRewards.map((reward) => value(reward.amount))).to.deep.equal(
+            before.accounts[0].staking!.holdings[0].pendingRewards.map((reward) => value(reward.amount))
+        );
+    });
+
+    it("should isolate a reverting view from the rest of the snapshot", async () => {
+        const [, bob] = staking.users;
+        const address = await staking.staking.getAddress();
+        const tokenC = await staking.rewardTokenC.getAddress();
+        await staking.staking.connect(bob).claimRewards(2);
+        const distributed = (await staking.staking.getRewardPoolInfo(2, tokenC)).totalDistributed;
+        // Leave less than was distributed, so `balance - totalDistributed` underflows
+        const balance = await staking.rewardTokenC.balanceOf(address);
+        await staking.staking.enableEmergencyMode();
+        await staking.staking.emergencyWithdrawRewardToken(tokenC, balance - distributed / 2n, staking.treasury.address);
+        await staking.staking.disableEmergencyMode();
+
+        const snapshot = await reader.read([bob.address]);
+        const failed = snapshot.staking!.pools.filter((pool) => !pool.info.ok);
+        expect(failed.map((pool) => [pool.period, pool.token])).to.deep.equal([["360d", tokenC]]);
+        expect(failed[0].info.ok ? "" : failed[0].info.error).to.match(/^Panic/);
+        expect(snapshot.staking!.pools.filter((pool) => pool.info.ok)).to.have.length(8);
+        expect(value(snapshot.accounts[0].staking!.holdings[2].stake).amount).to.equal(ethers.parseEther("300000"));
+    });
+
+    it("should split large reads into several batches", async () => {
+        const accounts = staking.users.slice(0, 5).map((user) => user.address);
+        const reader = new PortfolioReader(ethers.provider, { staking: await staking.staking.getAddress(), maxCallsPerBatch: 20 });
+        const snapshot = await reader.read(accounts);
+
+        // 3 totals, 3 circuits, paused, emergencyMode, 16 probes and the timestamp; then 9 pools and 13 reads per account
+        expect(snapshot.calls).to.equal(25 + 9 + 5 * 13);
+        expect(snapshot.batches).to.equal(Math.ceil(25 / 20) + Math.ceil((9 + 5 * 13) / 20));
+        expect(snapshot.lp).to.be.undefined;
+    });
+
+    it("should fail clearly without a Multicall3 deployment", async () => {
+        await setCode(MULTICALL3_ADDRESS, "0x");
+        const error = await new PortfolioReader(ethers.provider, { staking: await staking.staking.getAddress() })
+            .read([])
+            .catch((e: Error) => e);
+        expect(String(error)).to.contain("No Multicall3 at 0xcA11bde05977b3631167028862bE2a173976CA11");
+    });
+});
@@ -0,0 +1,171 @@
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import { time } from "@nomicfoundation/hardhat-network-helpers";
+import { STAKING_CIRCUITS } from "../sdk/constants";
+import { decodeRevert } from "../sdk/errors";
+import { PreflightChecker, PreflightResult } from "../sdk/preflight";
+import { LPStakingFixture, StakingFixture, deployLPStakingFixture, deployStakingFixture } from "./fixtures";
+
+describe("PreflightChecker", () => {
+    let staking: StakingFixture;
+    let lp: LPStakingFixture;
+    let checker: PreflightChecker;
+
+    function codes(result: PreflightResult, severity: "blocking" | "warning"): string[] {
+        return result.issues.filter((issue) => issue.severity === severity).map((issue) => issue.code);
+    }
+
+    beforeEach(async () => {
+        staking = await deployStakingFixture();
+        lp = await deployLPStakingFixture();
+        checker = new PreflightChecker(ethers.provider, {
+            staking: await staking.staking.getAddress(),
+            lp: await lp.staking.getAddress(),
+        });
+
+        const [alice] = staking.users;
+        const deadline = (await time.latest()) + 3600;
+        await staking.staking.connect(alice).stake({ amount: ethers.parseEther("1000"), periodIndex: 0, deadline });
+        await lp.staking.connect(alice).stake(ethers.parseEther("1000"));
+    });
+
+    it("should report every blocking condition instead of the first", async () => {
+        const [, bob] = staking.users;
+        await staking.staking.pause();
+        await staking.staking.toggleCircuitBreaker(STAKING_CIRCUITS.STAKING_CIRCUIT);
+        await staking.stakingToken.connect(bob).approve(await staking.staking.getAddress(), 0);
+
+        const result = await checker.preflight(
+            { contract: "AIXCBStaking", method: "stake", period: "180d", amount: ethers.parseEther("5000") },
+            bob.address
+        );
+        expect(result.ok).to.be.false;
+        expect(result.simulated).to.be.false;
+        expect(codes(result, "blocking")).to.deep.equal(["PAUSED", "CIRCUIT_BREAKER_ACTIVE", "INSUFFICIENT_ALLOWANCE"]);
+        expect(result.issues[1].data).to.deep.equal({ circuit: "STAKING_CIRCUIT" });
+    });
+
+    it("should flag a top-up of an expired position with the code the revert decodes to", async () => {
+        const [alice] = staking.users;
+        await time.increase(91 * 24 * 60 * 60);
+        const endTime = Number((await staking.staking.getUserStake(alice.address, 0)).endTime);
+
+        const result = await checker.preflight(
+            { contract: "AIXCBStaking", method: "stake", period: "90d", amount: ethers.parseEther("10") },
+            alice.address
+        );
+        expect(codes(result, "blocking")).to.deep.equal(["STAKE_EXPIRED"]);
+        expect(result.issues[0].data).to.deep.equal({ endTime });
+
+        const deadline = (await time.latest()) + 3600;
+        const error = await staking.staking
+            .connect(alice)
+            .stake.staticCall({ amount: ethers.parseEther("10"), periodIndex: 0, deadline })
+            .catch((e: Error) => e);
+        expect(decodeRevert(error, "AIXCBStaking")!.code).to.equal("STAKE_EXPIRED");
+    });
+
+    it("should pass a top-up with a warning that the unlock time stays", async () => {
+        const [alice] = staking.users;
+        const result = await checker.preflight(
+            { contract: "AIXCBStaking", method: "stake", period: "90d", amount: ethers.parseEther("10") },
+            alice.address
+        );
+        expect(result.ok).to.be.true;
+        expect(result.simulated).to.be.true;
+        expect(codes(result, "warning")).to.deep.equal(["TOP_UP_KEEPS_END_TIME"]);
+    });
+
+    it("should explain locked, missing and misdirected positions", async () => {
+        const [alice] = staking.users;
+        await time.increase(10 * 24 * 60 * 60);
+        await ethers.provider.send("evm_mine", []);
+
+        const locked = await checker.preflight({ contract: "AIXCBStaking", method: "withdraw", period: "90d" }, alice.address);
+        const endTime = Number((await staking.staking.getUserStake(alice.address, 0)).endTime);
+        expect(codes(locked, "blocking")).to.deep.equal(["STAKE_LOCKED"]);
+        expect(locked.issues[0].data).to.deep.equal({ endTime, secondsRemaining: endTime - locked.blockTimestamp });
+
+        const downgrade = await checker.preflight(
+            { contract: "AIXCBStaking", method: "upgradeStakePeriod", from: "360d", to: "90d" },
+            alice.address
+        );
+        expect(codes(downgrade, "blocking")).to.deep.equal(["UPGRADE_REQUIRES_LONGER_LOCK", "STAKE_NOT_FOUND"]);
+
+        const upgrade = await checker.preflight(
+            { contract: "AIXCBStaking", method: "upgradeStakePeriod", from: "90d", to: "180d" },
+            alice.address
+        );
+        expect(upgrade.ok).to.be.true;
+        expect(codes(upgrade, "warning")).to.deep.equal(["LOCK_RESTARTS"]);
+
+        const exit = await checker.preflight({ contract: "AIXCBStaking", method: "emergencyWithdraw", period: "90d" }, alice.address);
+        expect(codes(exit, "blocking")).to.deep.equal(["EMERGENCY_MODE_REQUIRED"]);
+        expect(codes(exit, "warning")).to.deep.equal(["FORFEITS_REWARDS"]);
+    });
+
+    it("should block an upgrade whose reward payout the balance cannot cover", async () => {
+        const [alice] = staking.users;
+        await time.increase(10 * 24 * 60 * 60);
+        const tokenB = await staking.rewardTokenB.getAddress();
+        await staking.staking.enableEmergencyMode();
+        const drained = await staking.rewardTokenB.balanceOf(await staking.staking.getAddress());
+        await staking.staking.emergencyWithdrawRewardToken(tokenB, drained, staking.treasury.address);
+        await staking.staking.disableEmergencyMode();
+
+        // claimRewards caps the payout at the balance; upgradeStakePeriod does not
+        const claim = await checker.preflight({ contract: "AIXCBStaking", method: "claimRewards", period: "90d" }, alice.address);
+        expect(claim.ok).to.be.true;
+        expect(codes(claim, "warning")).to.deep.equal(["REWARDS_CAPPED"]);
+
+        const upgrade = await checker.preflight(
+            { contract: "AIXCBStaking", method: "upgradeStakePeriod", from: "90d", to: "180d" },
+            alice.address
+        );
+        expect(upgrade.ok).to.be.false;
+        expect(upgrade.simulated).to.be.false;
+        expect(codes(upgrade, "blocking")).to.deep.equal(["INSUFFICIENT_BALANCE"]);
+        expect(upgrade.issues.find((issue) => issue.severity === "blocking")!.data).to.include({ token: tokenB, balance: 0n });
+
+        const error = await staking.staking
+            .connect(alice)
+            .upgradeStakePeriod(0, 1)
+            .catch((e: Error) => e);
+        expect(decodeRevert(error, "AIXCBStaking")!.code).to.equal("INSUFFICIENT_BALANCE");
+    });
+
+    it("should check LP stake limits and withdrawal amounts", async () => {
+        const [alice] = lp.users;
+        const tooMuch = await checker.preflight(
+            { contract: "AIXCBLPStaking", method: "stake", amount: ethers.parseEther("10000000") },
+            alice.address
+        );
+        expect(codes(tooMuch, "blocking")).to.deep.equal(["EXCEEDS_MAX_STAKE", "INSUFFICIENT_BALANCE", "INSUFFICIENT_ALLOWANCE"]);
+
+        const overdrawn = await checker.preflight(
+            { contract: "AIXCBLPStaking", method: "withdraw", amount: ethers.parseEther("1001") },
+            alice.address
+        );
+        expect(codes(overdrawn, "blocking")).to.deep.equal(["INVALID_AMOUNT"]);
+
+        const [, bob] = lp.users;
+        const nothing = await checker.preflight({ contract: "AIXCBLPStaking", method: "claimRewards" }, bob.address);
+        expect(nothing.ok).to.be.true;
+        expect(codes(nothing, "warning")).to.deep.equal(["NOTHING_TO_CLAIM"]);
+    });
+
+    it("should report the LP emergency withdrawal fee", async () => {
+        const [alice] = lp.users;
+        const before = await checker.preflight({ contract: "AIXCBLPStaking", method: "emergencyWithdraw" }, alice.address);
+        expect(codes(before, "blocking")).to.deep.equal(["NOT_EMERGENCY_MODE"]);
+
+        await lp.staking.enableEmergencyMode();
+        const result = await checker.preflight({ contract: "AIXCBLPStaking", method: "emergencyWithdraw" }, alice.address);
+        expect(result.ok).to.be.true;
+        const fee = result.issues.find((issue) => issue.code === "EMERGENCY_WITHDRAW_FEE")!;
+        expect(fee.data).to.deep.equal({ fee: ethers.parseEther("200"), returned: ethers.parseEther("800") });
+
+        const staked = await checker.preflight({ contract: "AIXCBLPStaking", method: "stake", amount: 1n }, alice.address);
+        expect(codes(staked, "blocking")).to.deep.equal(["EMERGENCY_MODE_ACTIVE"]);
+    });
+});
@@ -0,0 +1,360 @@
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import { time } from "@nomicfoundation/hardhat-network-helpers";
+import { ContractTransactionResponse } from "ethers";
+import { SignerWithAddress } from "@nomicfoundation/hardhat-ethers/signers";
+import { MockERC20 } from "../typechain-types";
+import {
+    LPStakingRewardModel,
+    ModelLPRewardPool,
+    ModelRewardPool,
+    StakingRewardModel,
+    TokenAmount
+} from "../sdk/rewardModel";
+import { LPStakingFixture, StakingFixture, deployLPStakingFixture, deployStakingFixture } from "./fixtures";
+
+describe("Reward model", () => {
+    const ONE_DAY = 24 * 60 * 60;
+    const SECONDS_PER_YEAR = 365 * ONE_DAY;
+    const PERIODS = [0, 1, 2];
+
+    /** Sends a transaction and returns the timestamp of the block it was mined in */
+    async function minedAt(tx: Promise<ContractTransactionResponse>): Promise<number> {
+        const receipt = await (await tx).wait();
+        return (await ethers.provider.getBlock(receipt!.blockNumber))!.timestamp;
+    }
+
+    async function balancesOf(tokens: MockERC20[], account: string): Promise<bigint[]> {
+        return Promise.all(tokens.map((token) => token.balanceOf(account)));
+    }
+
+    async function expectTransfers(
+        tokens: MockERC20[],
+        account: string,
+        before: bigint[],
+        transfers: TokenAmount[],
+        principal?: { token: MockERC20; amount: bigint }
+    ) {
+        const after = await balancesOf(tokens, account);
+        for (const [i, token] of tokens.entries()) {
+            const address = await token.getAddress();
+            let expected = transfers.filter((t) => t.token === address).reduce((sum, t) => sum + t.amount, 0n);
+            if (principal && principal.token === token) expected += principal.amount;
+            expect(after[i] - before[i], `transfer of ${await token.symbol()}`).to.equal(expected);
+        }
+    }
+
+    describe("AIXCBStaking", () => {
+        let fixture: StakingFixture;
+        let tokens: MockERC20[];
+        let model: StakingRewardModel;
+        let alice: SignerWithAddress;
+        let bob: SignerWithAddress;
+        let carol: SignerWithAddress;
+
+        beforeEach(async () => {
+            fixture = await deployStakingFixture();
+            const { staking, stakingToken, rewardTokenB, rewardTokenC, users } = fixture;
+            [alice, bob, carol] = users;
+            tokens = [stakingToken, rewardTokenB, rewardTokenC];
+
+            model = new StakingRewardModel(await stakingToken.getAddress(), await Promise.all(tokens.map((t) => t.getAddress())));
+            for (const token of tokens) {
+                const address = await token.getAddress();
+                model.balances.set(address, await token.balanceOf(await staking.getAddress()));
+                for (const periodIndex of PERIODS) {
+                    model.loadRewardPool(periodIndex, address, await rewardPool(periodIndex, address));
+                }
+            }
+        });
+
+        async function rewardPool(periodIndex: number, token: string): Promise<ModelRewardPool> {
+            const pool = await fixture.staking.rewardPools(periodIndex, token);
+            return {
+                totalReward: pool.totalReward,
+                accumulatedPerShare: pool.accumulatedPerShare,
+                lastUpdateTime: pool.lastUpdateTime,
+                totalDistributed: pool.totalDistributed,
+                periodFinish: pool.periodFinish,
+                rewardRate: pool.rewardRate
+            };
+        }
+
+        async function stake(user: SignerWithAddress, periodIndex: number, amount: bigint) {
+            const tx = fixture.staking.connect(user).stake({ amount, periodIndex, deadline: (await time.latest()) + 3600 });
+            model.stake(user.address, periodIndex, amount, await minedAt(tx));
+        }
+
+        async function expectModelMatches() {
+            const { staking } = fixture;
+            const now = await time.latest();
+
+            for (const periodIndex of PERIODS) {
+                expect(await staking.totalStakedForPeriod(periodIndex)).to.equal(model.totalStakedForPeriod(periodIndex));
+                for (const token of tokens) {
+                    const address = await token.getAddress();
+                    expect(await rewardPool(periodIndex, address)).to.deep.equal(model.getRewardPool(periodIndex, address));
+
+                    for (const user of [alice, bob, carol]) {
+                        expect(
+                            await staking.pendingRewards(user.address, periodIndex, address),
+                            `pending ${await token.symbol()} of ${user.address} in period ${periodIndex}`
+                        ).to.equal(model.pendingRewards(user.address, periodIndex, address, now));
+                    }
+                }
+            }
+        }
+
+        it("should match pending rewards exactly across stakes, top-ups and claims", async () => {
+            const { staking } = fixture;
+
+            await stake(alice, 0, ethers.parseEther("1000"));
+            await time.increase(3 * ONE_DAY + 17);
+            await stake(bob, 0, ethers.parseEther("333.333333333333333333"));
+            await time.increase(11 * ONE_DAY + 5);
+            await stake(alice, 0, ethers.parseEther("7"));
+            await stake(carol, 0, 1n);
+            await time.increase(ONE_DAY - 3);
+            await expectModelMatches();
+
+            const before = await balancesOf(tokens, bob.address);
+            const paid = model.claimRewards(bob.address, 0, await minedAt(staking.connect(bob).claimRewards(0)));
+            await expectTransfers(tokens, bob.address, before, paid);
+            expect(paid).to.have.lengthOf(3);
+
+            await time.increase(40 * ONE_DAY);
+            await expectModelMatches();
+        });
+
+        it("should match the blended rate after funding mid-stream", async () => {
+            const { staking, rewardTokenB } = fixture;
+
+            await stake(alice, 1, ethers.parseEther("5000"));
+            await stake(bob, 1, ethers.parseEther("1234.5"));
+            await time.increase(100 * ONE_DAY + 1);
+
+            const token = await rewardTokenB.getAddress();
+            const extra = ethers.parseEther("777777.777777777777777777");
+            model.fundRewardPool(1, token, extra, await minedAt(staking.fundRewardPool(1, token, extra)));
+            await expectModelMatches();
+
+            await time.increase(200 * ONE_DAY);
+            await stake(carol, 1, ethers.parseEther("10"));
+            await time.increase(30 * ONE_DAY);
+            await expectModelMatches();
+        });
+
+        it("should follow the pool past periodFinish and through a withdrawal", async () => {
+            const { staking, stakingToken } = fixture;
+            const amount = ethers.parseEther("2500");
+
+            await stake(alice, 0, amount);
+            await stake(bob, 0, ethers.parseEther("500"));
+            await time.increase(SECONDS_PER_YEAR + ONE_DAY);
+            await expectModelMatches();
+
+            const before = await balancesOf(tokens, alice.address);
+            const { rewards, amount: principal } = model.withdraw(
+                alice.address,
+                0,
+                await minedAt(staking.connect(alice).withdraw(0))
+            );
+            expect(principal).to.equal(amount);
+            await expectTransfers(tokens, alice.address, before, rewards, { token: stakingToken, amount: principal });
+
+            // Refunding a finished pool starts a new year at the new rate
+            const token = await stakingToken.getAddress();
+            const refill = ethers.parseEther("1000");
+            model.fundRewardPool(0, token, refill, await minedAt(staking.fundRewardPool(0, token, refill)));
+            await time.increase(10 * ONE_DAY);
+            await expectModelMatches();
+        });
+
+        it("should reproduce upgradeStakePeriod without settling the new period", async () => {
+            const { staking } = fixture;
+
+            await stake(alice, 0, ethers.parseEther("1000"));
+            await stake(alice, 2, ethers.parseEther("400"));
+            await stake(bob, 1, ethers.parseEther("800"));
+            await stake(bob, 2, ethers.parseEther("100"));
+            await time.increase(20 * ONE_DAY);
+
+            const before = await balancesOf(tokens, alice.address);
+            const claimed = model.upgradeStakePeriod(
+                alice.address,
+                0,
+                2,
+                await minedAt(staking.connect(alice).upgradeStakePeriod(0, 2))
+            );
+            await expectTransfers(tokens, alice.address, before, claimed);
+
+            await time.increase(15 * ONE_DAY);
+            model.upgradeStakePeriod(bob.address, 1, 2, await minedAt(staking.connect(bob).upgradeStakePeriod(1, 2)));
+            await time.increase(15 * ONE_DAY);
+            await expectModelMatches();
+        });
+
+        it("should reproduce an emergency withdrawal that skips the reward update", async () => {
+            const { staking, owner } = fixture;
+
+            await stake(alice, 2, ethers.parseEther("1000"));
+            await stake(bob, 2, ethers.parseEther("3000"));
+            await time.increase(45 * ONE_DAY);
+
+            await staking.connect(owner).enableEmergencyMode();
+            await staking.connect(bob).emergencyWithdraw(2);
+            model.emergencyWithdraw(bob.address, 2);
+            await staking.connect(owner).disableEmergencyMode();
+
+            await time.increase(5 * ONE_DAY);
+            await expectModelMatches();
+
+            await stake(carol, 2, ethers.parseEther("42"));
+            await time.increase(ONE_DAY);
+            await expectModelMatches();
+        });
+    });
+
+    describe("AIXCBLPStaking", () => {
+        let fixture: LPStakingFixture;
+        let tokens: MockERC20[];
+        let model: LPStakingRewardModel;
+        let alice: SignerWithAddress;
+        let bob: SignerWithAddress;
+        let carol: SignerWithAddress;
+
+        beforeEach(async () => {
+            fixture = await deployLPStakingFixture();
+            const { rewardTokenA, rewardTokenB, rewardTokenC, users } = fixture;
+            [alice, bob, carol] = users;
+            tokens = [rewardTokenA, rewardTokenB, rewardTokenC];
+
+            model = new LPStakingRewardModel([]);
+            for (const token of tokens) {
+                const address = await token.getAddress();
+                model.loadRewardPool(address, await rewardPool(address));
+            }
+        });
+
+        async function rewardPool(token: string): Promise<ModelLPRewardPool> {
+            const pool = await fixture.staking.rewardPools(token);
+            return {
+                totalRewardAmount: pool.totalRewardAmount,
+                accumulatedPerShare: pool.accumulatedPerShare,
+                lastUpdateTimestamp: pool.lastUpdateTimestamp,
+                totalDistributedAmount: pool.totalDistributedAmount,
+                rewardRatePerSecond: pool.rewardRatePerSecond
+            };
+        }
+
+        async function stake(user: SignerWithAddress, amount: bigint): Promise<TokenAmount[]> {
+            return model.stake(user.address, amount, await minedAt(fixture.staking.connect(user).stake(amount)));
+        }
+
+        async function expectModelMatches() {
+            const { staking } = fixture;
+            const now = await time.latest();
+
+            expect(await staking.totalStakedAmount()).to.equal(model.totalStakedAmount);
+            for (const token of tokens) {
+                const address = await token.getAddress();
+                expect(await rewardPool(address)).to.deep.equal(model.getRewardPool(address));
+
+                for (const user of [alice, bob, carol]) {
+                    expect(
+                        await staking.getPendingRewards(user.address, address),
+                        `pending ${await token.symbol()} of ${user.address}`
+                    ).to.equal(model.getPendingRewards(user.address, address, now));
+                }
+            }
+        }
+
+        it("should match pending rewards exactly across stakes, top-ups and partial withdrawals", async () => {
+            const { staking } = fixture;
+
+            await stake(alice, ethers.parseEther("1000"));
+            await time.increase(2 * ONE_DAY + 13);
+            await stake(bob, ethers.parseEther("0.000000000000000123"));
+            await time.increase(9 * ONE_DAY);
+            await expectModelMatches();
+
+            let before = await balancesOf(tokens, alice.address);
+            const toppedUp = await stake(alice, ethers.parseEther("250"));
+            await expectTransfers(tokens, alice.address, before, toppedUp);
+
+            await time.increase(31 * ONE_DAY + 7);
+            before = await balancesOf(tokens, alice.address);
+            const amount = ethers.parseEther("600");
+            const withdrawn = model.withdraw(alice.address, amount, await minedAt(staking.connect(alice).withdraw(amount)));
+            await expectTransfers(tokens, alice.address, before, withdrawn);
+
+            await stake(carol, ethers.parseEther("99"));
+            await time.increase(3 * ONE_DAY);
+            before = await balancesOf(tokens, bob.address);
+            const claimed = model.claimRewards(bob.address, await minedAt(staking.connect(bob).claimRewards()));
+            await expectTransfers(tokens, bob.address, before, claimed);
+            await expectModelMatches();
+        });
+
+        it("should match the rate recomputed from the remaining budget after funding", async () => {
+            const { staking, rewardTokenC } = fixture;
+
+            await stake(alice, ethers.parseEther("1000"));
+            await stake(bob, ethers.parseEther("3000"));
+            await time.increase(120 * ONE_DAY);
+            model.claimRewards(alice.address, await minedAt(staking.connect(alice).claimRewards()));
+
+            const token = await rewardTokenC.getAddress();
+            const extra = ethers.parseEther("123456.789");
+            model.fundRewardPool(token, extra, await minedAt(staking.fundRewardPool(token, extra)));
+            await time.increase(60 * ONE_DAY);
+            await expectModelMatches();
+        });
+
+        it("should forfeit the capped part of a claim like the contract does", async () => {
+            const { staking } = fixture;
+
+            await stake(alice, ethers.parseEther("1000"));
+            await stake(bob, ethers.parseEther("1000"));
+            await time.increase(SECONDS_PER_YEAR + 90 * ONE_DAY);
+
+            model.claimRewards(alice.address, await minedAt(staking.connect(alice).claimRewards()));
+            await expectModelMatches();
+
+            // Bob's half exceeds what is left in each pool, so the claim is capped
+            const before = await balancesOf(tokens, bob.address);
+            const pendingBefore = await staking.getPendingRewards(bob.address, await tokens[0].getAddress());
+            const claimed = model.claimRewards(bob.address, await minedAt(staking.connect(bob).claimRewards()));
+            await expectTransfers(tokens, bob.address, before, claimed);
+            expect(claimed[0].amount).to.be.lt(pendingBefore);
+            for (const token of tokens) {
+                const pool = model.getRewardPool(await token.getAddress());
+                expect(pool.totalDistributedAmount).to.equal(pool.totalRewardAmount);
+            }
+
+            await time.increase(ONE_DAY);
+            await expectModelMatches();
+            expect(model.claimRewards(alice.address, await minedAt(staking.connect(alice).claimRewards()))).to.have.lengthOf(0);
+        });
+
+        it("should reproduce an emergency withdrawal that skips the reward update", async () => {
+            const { staking, owner, lpToken, treasury } = fixture;
+
+            await stake(alice, ethers.parseEther("1000"));
+            await stake(bob, ethers.parseEther("4000"));
+            await time.increase(10 * ONE_DAY);
+
+            await staking.connect(owner).enableEmergencyMode();
+            const treasuryBefore = await lpToken.balanceOf(treasury.address);
+            await staking.connect(bob).emergencyWithdraw();
+            const { fee } = model.emergencyWithdraw(bob.address);
+            expect(await lpToken.balanceOf(treasury.address) - treasuryBefore).to.equal(fee);
+            await staking.connect(owner).disableEmergencyMode();
+
+            await time.increase(4 * ONE_DAY);
+            await stake(bob, ethers.parseEther("1"));
+            await time.increase(ONE_DAY);
+            await expectModelMatches();
+        });
+    });
+});
@@ -0,0 +1,127 @@
+import { expect } from "chai";
+import { artifacts, ethers } from "hardhat";
+import { id } from "ethers";
+import { ROLES } from "../sdk/constants";
+import { IMPLEMENTATION_SLOT, RoleName } from "../sdk/deployment";
+import { ADMIN_SLOT, AuditReport, auditDeployment, compareBytecode, formatAuditMarkdown, parseRolePolicy, readArtifactBytecode } from "../sdk/roleAudit";
+import { STAKING_CONTRACT, STAKING_V1_CONTRACT, StakingFixture, deployStakingFixture } from "./fixtures";
+
+describe("Role and proxy audit", () => {
+    let fixture: StakingFixture;
+    let proxy: string;
+    let safe: string;
+    let proxyAdmin: string;
+
+    function policyYaml(extra = ""): string {
+        return [
+            "accounts:",
+            `  treasurySafe: "${safe}"`,
+            "contracts:",
+            "  AIXCBStaking:",
+            `    proxy: "${proxy}"`,
+            `    proxyAdmin: "${proxyAdmin}"`,
+            "    roles:",
+            "      DEFAULT_ADMIN_ROLE: [treasurySafe]",
+            "      ADMIN_ROLE: [treasurySafe]",
+            "      EMERGENCY_ADMIN_ROLE: [treasurySafe]",
+            "      REWARD_MANAGER_ROLE: [treasurySafe]",
+            extra,
+        ].join("\n");
+    }
+
+    function failures(report: AuditReport): string[] {
+        return report.contracts[0].findings.filter((finding) => finding.severity === "failure").map((finding) => finding.message);
+    }
+
+    /** Grants every role to the Safe and renounces them from the deployer, DEFAULT_ADMIN_ROLE last */
+    async function handOff() {
+        const names = Object.keys(ROLES).reverse() as RoleName[];
+        for (const name of names) await fixture.staking.grantRole(ROLES[name], safe);
+        for (const name of names) await fixture.staking.renounceRole(ROLES[name], fixture.owner.address);
+    }
+
+    beforeEach(async () => {
+        fixture = await deployStakingFixture();
+        proxy = await fixture.staking.getAddress();
+        safe = fixture.users[0].address;
+        proxyAdmin = ethers.getAddress(`0x${(await ethers.provider.getStorage(proxy, ADMIN_SLOT)).slice(-40)}`);
+    });
+
+    it("should report roles the deployer never handed off", async () => {
+        const report = await auditDeployment(ethers.provider, parseRolePolicy(policyYaml()));
+        expect(report.passed).to.be.false;
+        const audit = report.contracts[0];
+        expect(audit.roles.ADMIN_ROLE.map((member) => member.account)).to.deep.equal([fixture.owner.address]);
+        expect(failures(report)).to.include.members([
+            `ADMIN_ROLE: treasurySafe (${safe}) is missing`,
+            `DEFAULT_ADMIN_ROLE: ${fixture.owner.address} is not in the policy`,
+        ]);
+    });
+
+    it("should rebuild membership after a handoff and compare the implementation with the build", async () => {
+        await handOff();
+        const report = await auditDeployment(ethers.provider, parseRolePolicy(policyYaml()), { artifacts });
+        const audit = report.contracts[0];
+
+        for (const name of Object.keys(ROLES) as RoleName[]) {
+            expect(audit.roles[name].map((member) => [member.account, member.label])).to.deep.equal([[safe, "treasurySafe"]]);
+        }
+        expect(audit.bytecode).to.equal("exact");
+        // The implementations do not call `_disableInitializers`
+        expect(audit.initializers.state).to.equal("open");
+        expect(audit.findings.map((finding) => finding.check)).to.deep.equal(["initializers"]);
+        expect(formatAuditMarkdown(report)).to.contain("| ADMIN_ROLE | treasurySafe (" + safe + ") |");
+    });
+
+    it("should flag an implementation initialized directly, an unpinned upgrade and unknown roles", async () => {
+        await handOff();
+        const implementation = ethers.getAddress(`0x${(await ethers.provider.getStorage(proxy, IMPLEMENTATION_SLOT)).slice(-40)}`);
+        const direct = await ethers.getContractAt(STAKING_CONTRACT, implementation);
+        const token = await fixture.stakingToken.getAddress();
+        await direct.initialize(token, [token], fixture.treasury.address);
+        const stranger = fixture.users[1].address;
+        await fixture.staking.connect(fixture.users[0]).grantRole(id("SHADOW_ROLE"), stranger);
+
+        const report = await auditDeployment(
+            ethers.provider,
+            parseRolePolicy(policyYaml(`    implementation: "${stranger}"`))
+        );
+        expect(report.contracts[0].initializers).to.deep.equal({ state: "initialized", version: 1n, initializing: false });
+        expect(failures(report)).to.deep.equal([
+            `Unknown role ${id("SHADOW_ROLE")} has 1 holder(s)`,
+            `Implementation is ${implementation}, the policy pins ${stranger}`,
+            `The implementation ${implementation} was initialized directly (version 1)`,
+        ]);
+    });
+
+    it("should warn when holders were granted before the replayed range", async () => {
+        await handOff();
+        const fromBlock = (await ethers.provider.getBlockNumber()) + 1;
+        const report = await auditDeployment(ethers.provider, parseRolePolicy(policyYaml(`    fromBlock: ${fromBlock}`)));
+        const warnings = report.contracts[0].findings.filter((finding) => finding.check === "roles");
+        expect(warnings).to.have.length(4);
+        expect(warnings.every((finding) => finding.severity === "warning")).to.be.true;
+    });
+
+    it("should tell a different build from a metadata-only difference", async () => {
+        const code = await ethers.provider.getCode(
+            ethers.getAddress(`0x${(await ethers.provider.getStorage(proxy, IMPLEMENTATION_SLOT)).slice(-40)}`)
+        );
+        const v2 = await readArtifactBytecode(artifacts, STAKING_CONTRACT);
+        expect(compareBytecode(code, await readArtifactBytecode(artifacts, STAKING_V1_CONTRACT))).to.equal("mismatch");
+
+        // Change a byte of the CBOR metadata, which ends with its two length bytes
+        const tampered = code.slice(0, -10) + (code.slice(-10, -8) === "00" ? "01" : "00") + code.slice(-8);
+        expect(compareBytecode(tampered, v2)).to.equal("metadata");
+    });
+
+    it("should require every role to be listed in the policy", () => {
+        const yaml = policyYaml().replace("      REWARD_MANAGER_ROLE: [treasurySafe]\n", "");
+        expect(() => parseRolePolicy(yaml)).to.throw("contracts.AIXCBStaking.roles.REWARD_MANAGER_ROLE must list its holders ([] for none)");
+    });
+
+    it("should reject zero-address placeholders", () => {
+        const yaml = policyYaml().replace(`treasurySafe: "${safe}"`, `treasurySafe: "${ethers.ZeroAddress}"`);
+        expect(() => parseRolePolicy(yaml)).to.throw("accounts.treasurySafe is the zero address");
+    });
+});
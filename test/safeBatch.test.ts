@@ -0,0 +1,193 @@
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import { Wallet } from "ethers";
+import { LP_STAKING_CIRCUITS, ROLES } from "../sdk/constants";
+import { readImplementation } from "../sdk/deployment";
+import {
+    ActionPlan,
+    PlanError,
+    buildSafeBatch,
+    formatBatchSummary,
+    parseActionPlan,
+    simulateBatch
+} from "../sdk/safeBatch";
+import {
+    LPStakingFixture,
+    STAKING_CONTRACT,
+    StakingFixture,
+    deployLPStakingFixture,
+    deployStakingFixture
+} from "./fixtures";
+
+describe("Safe batch builder", () => {
+    const safe = Wallet.createRandom().address;
+    let staking: StakingFixture;
+    let lp: LPStakingFixture;
+
+    beforeEach(async () => {
+        staking = await deployStakingFixture();
+        lp = await deployLPStakingFixture();
+        for (const role of [ROLES.ADMIN_ROLE, ROLES.EMERGENCY_ADMIN_ROLE, ROLES.REWARD_MANAGER_ROLE]) {
+            await staking.staking.grantRole(role, safe);
+            await lp.staking.grantRole(role, safe);
+        }
+        await staking.rewardTokenB.mint(safe, ethers.parseEther("1000000"));
+    });
+
+    async function planYaml(actions: string): Promise<string> {
+        return [
+            "name: March funding",
+            "chainId: 31337",
+            `safe: "${safe}"`,
+            "contracts:",
+            `  staking: "${await staking.staking.getAddress()}"`,
+            `  lp: "${await lp.staking.getAddress()}"`,
+            "actions:",
+            actions
+        ].join("\n");
+    }
+
+    function expectPlanError(text: string, message: string) {
+        expect(() => parseActionPlan(text)).to.throw(PlanError, message);
+    }
+
+    describe("parseActionPlan", () => {
+        it("should parse a YAML plan", async () => {
+            const plan = parseActionPlan(
+                await planYaml(
+                    [
+                        `  - { type: fund-pool, contract: staking, period: [90d, 360d], token: "${await staking.rewardTokenB.getAddress()}", amount: "1000" }`,
+                        "  - { type: circuit, contract: lp, circuit: withdraw, state: on }"
+                    ].join("\n")
+                )
+            );
+
+            expect(plan.chainId).to.equal(31337);
+            expect(plan.actions).to.have.lengthOf(2);
+            expect(plan.actions[0]).to.include({ type: "fund-pool", amount: "1000" });
+            expect(plan.actions[1]).to.deep.equal({ type: "circuit", contract: "lp", circuit: "withdraw", state: "on" });
+        });
+
+        it("should point at the invalid field", async () => {
+            const token = await staking.rewardTokenB.getAddress();
+            expectPlanError(
+                await planYaml(`  - { type: fund-pool, contract: lp, period: 90d, token: "${token}", amount: "1" }`),
+                "actions[0].period: AIXCBLPStaking has one pool per token"
+            );
+            expectPlanError(
+                await planYaml(`  - { type: fund-pool, contract: staking, period: 30d, token: "${token}", amount: "1" }`),
+                "actions[0].period must be one of 90d, 180d, 360d"
+            );
+            expectPlanError(
+                await planYaml(`  - { type: fund-pool, contract: staking, period: 90d, token: "${token}", amount: 1.5e30 }`),
+                "actions[0].amount must be a decimal amount"
+            );
+            expectPlanError(await planYaml("  - { type: circuit, contract: lp, circuit: withdraw, state: toggle }"), "actions[0].state");
+        });
+    });
+
+    describe("buildSafeBatch", () => {
+        it("should pair each pool funding with an exact approval", async () => {
+            const token = await staking.rewardTokenB.getAddress();
+            const plan = parseActionPlan(
+                await planYaml(`  - { type: fund-pool, contract: staking, period: [90d, 180d, 360d], token: "${token}", amount: "250000" }`)
+            );
+            const batch = await buildSafeBatch(plan, ethers.provider);
+
+            expect(batch.file.chainId).to.equal("31337");
+            expect(batch.file.meta.createdFromSafeAddress).to.equal(safe);
+            expect(batch.file.transactions).to.have.lengthOf(6);
+            expect(batch.warnings).to.be.empty;
+
+            const proxy = await staking.staking.getAddress();
+            const amount = ethers.parseEther("250000");
+            for (let periodIndex = 0; periodIndex <= 2; periodIndex++) {
+                const approve = batch.file.transactions[2 * periodIndex];
+                const fund = batch.file.transactions[2 * periodIndex + 1];
+                expect(approve.to).to.equal(token);
+                expect(staking.rewardTokenB.interface.decodeFunctionData("approve", approve.data)).to.deep.equal([proxy, amount]);
+                expect(fund.to).to.equal(proxy);
+                expect(staking.staking.interface.decodeFunctionData("fundRewardPool", fund.data)).to.deep.equal([
+                    BigInt(periodIndex),
+                    token,
+                    amount
+                ]);
+            }
+            expect(formatBatchSummary(batch)).to.contain("fundRewardPool(360d, TKB, 250000.0 TKB) [REWARD_MANAGER_ROLE]");
+        });
+
+        it("should skip circuits already in the requested state and warn about missing roles", async () => {
+            await lp.staking.revokeRole(ROLES.EMERGENCY_ADMIN_ROLE, safe);
+            const plan = parseActionPlan(
+                await planYaml(
+                    [
+                        "  - { type: circuit, contract: lp, circuit: withdraw, state: off }",
+                        "  - { type: circuit, contract: lp, circuit: rewards, state: on }"
+                    ].join("\n")
+                )
+            );
+            const batch = await buildSafeBatch(plan, ethers.provider);
+
+            expect(batch.steps.map((step) => step.description)).to.deep.equal(["toggleCircuitBreaker(REWARD_CIRCUIT)"]);
+            expect(batch.skipped).to.deep.equal(["AIXCBLPStaking: toggleCircuitBreaker(WITHDRAW_CIRCUIT) (WITHDRAW_CIRCUIT already reset)"]);
+            expect(batch.warnings).to.deep.equal(["The Safe does not hold AIXCBLPStaking EMERGENCY_ADMIN_ROLE"]);
+        });
+
+        it("should refuse a plan for another chain", async () => {
+            const parsed = parseActionPlan(await planYaml("  - { type: circuit, contract: lp, circuit: withdraw, state: on }"));
+            const plan: ActionPlan = { ...parsed, chainId: 8453 };
+            let error: unknown;
+            try {
+                await buildSafeBatch(plan, ethers.provider);
+            } catch (caught) {
+                error = caught;
+            }
+            expect(String(error)).to.contain("The plan targets chain 8453");
+        });
+    });
+
+    describe("simulateBatch", () => {
+        it("should replay the batch as the Safe and leave the chain unchanged", async () => {
+            const token = await staking.rewardTokenB.getAddress();
+            const Implementation = await ethers.getContractFactory(STAKING_CONTRACT);
+            const implementation = await (await Implementation.deploy()).getAddress();
+            const proxy = await staking.staking.getAddress();
+            const before = await readImplementation(ethers.provider, proxy);
+
+            const plan = parseActionPlan(
+                await planYaml(
+                    [
+                        `  - { type: fund-pool, contract: staking, period: 90d, token: "${token}", amount: "1000" }`,
+                        "  - { type: circuit, contract: lp, circuit: withdraw, state: on }",
+                        `  - { type: upgrade, contract: staking, implementation: "${implementation}" }`
+                    ].join("\n")
+                )
+            );
+            const result = await simulateBatch(ethers.provider, await buildSafeBatch(plan, ethers.provider));
+
+            expect(result.success).to.be.true;
+            expect(result.steps).to.have.lengthOf(4);
+            expect(result.steps.every((step) => step.gasUsed! > 0n)).to.be.true;
+            expect(await readImplementation(ethers.provider, proxy)).to.equal(before);
+            expect(await lp.staking.circuitBreakers(LP_STAKING_CIRCUITS.WITHDRAW_CIRCUIT)).to.be.false;
+            expect((await staking.staking.rewardPools(0, token)).totalReward).to.equal(ethers.parseEther("1000000"));
+        });
+
+        it("should stop at the first reverting transaction with the decoded error", async () => {
+            await staking.staking.revokeRole(ROLES.ADMIN_ROLE, safe);
+            const plan = parseActionPlan(
+                await planYaml(
+                    [
+                        `  - { type: reward-token, contract: staking, action: remove, token: "${await staking.rewardTokenC.getAddress()}" }`,
+                        "  - { type: circuit, contract: staking, circuit: staking, state: on }"
+                    ].join("\n")
+                )
+            );
+            const result = await simulateBatch(ethers.provider, await buildSafeBatch(plan, ethers.provider));
+
+            expect(result.success).to.be.false;
+            expect(result.steps).to.have.lengthOf(1);
+            expect(result.steps[0].revert?.name).to.equal("AccessControlUnauthorizedAccount");
+        });
+    });
+});
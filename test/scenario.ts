@@ -0,0 +1,587 @@
+import { ethers } from "hardhat";
+import { time } from "@nomicfoundation/hardhat-network-helpers";
+import { ContractTransactionResponse, Interface, TransactionReceipt, formatEther, parseEther } from "ethers";
+import { SignerWithAddress } from "@nomicfoundation/hardhat-ethers/signers";
+import { AIXCBLPStaking, AIXCBStaking, MockERC20 } from "../typechain-types";
+import { AIXCBLPStaking__factory as AIXCBLPStakingV1__factory } from "../typechain-types/factories/src/legacy/AIXCBLPStaking.v1.sol";
+import { AIXCBStaking__factory as AIXCBStakingV1__factory } from "../typechain-types/factories/src/legacy/AIXCBStaking.v1.sol";
+import { resolveCircuit } from "../sdk/admin";
+import { PERIOD_LABELS, PeriodIndex, PeriodLabel, periodIndexOf } from "../sdk/constants";
+import { ContractName, ContractVersion, decodeRevert } from "../sdk/errors";
+import { PlanContract, PlanError, expectOneOf, expectString, parsePlanDocument } from "../sdk/safeBatch";
+import { deployLPStakingFixture, deployStakingFixture } from "./fixtures";
+import { LP_STAKING_VERSIONS, STAKING_VERSIONS } from "./versions";
+
+/**
+ * Declarative staking timelines. A scenario (YAML or JSON) names its actors
+ * and lists steps at offsets from the start of a fresh fixture; each step
+ * runs an action and/or checks balances, pending rewards, stakes, events and
+ * reverts. Amounts are decimal token units (all fixture tokens have 18
+ * decimals). See test/scenarios/ for examples.
+ *
+ *   name: Late staker
+ *   contract: staking          # or lp; `version: v1` runs the legacy implementation
+ *   actors: [alice, bob]       # fixture users in order; owner, treasury and contract are built in
+ *   steps:
+ *     - { at: 0d, actor: alice, action: stake, amount: "1000", period: 90d }
+ *     - at: 30d
+ *       actor: alice
+ *       action: claim
+ *       period: 90d
+ *       expect:
+ *         events: [RewardPaid]
+ *         changes: [{ of: alice, token: TKB, approx: "82191.78", within: "5" }]
+ *     - at: 31d
+ *       actor: alice
+ *       action: withdraw
+ *       period: 90d
+ *       expect: { revert: StakeLocked }
+ */
+
+export type ScenarioActionType =
+    | "stake"
+    | "withdraw"
+    | "claim"
+    | "upgrade"
+    | "emergency-withdraw"
+    | "fund"
+    | "pause"
+    | "unpause"
+    | "enable-emergency"
+    | "disable-emergency"
+    | "toggle-circuit";
+
+const ACTION_TYPES: readonly ScenarioActionType[] = [
+    "stake",
+    "withdraw",
+    "claim",
+    "upgrade",
+    "emergency-withdraw",
+    "fund",
+    "pause",
+    "unpause",
+    "enable-emergency",
+    "disable-emergency",
+    "toggle-circuit"
+];
+
+/** Actions that act on a user's stake in a period of `AIXCBStaking` */
+const PERIOD_ACTIONS: readonly ScenarioActionType[] = ["stake", "withdraw", "claim", "upgrade", "emergency-withdraw", "fund"];
+
+const ADMIN_ACTIONS: readonly ScenarioActionType[] = [
+    "fund",
+    "pause",
+    "unpause",
+    "enable-emergency",
+    "disable-emergency",
+    "toggle-circuit"
+];
+
+export interface ScenarioAction {
+    type: ScenarioActionType;
+    amount?: bigint;
+    period?: PeriodIndex;
+    /** Target period of `upgrade` */
+    to?: PeriodIndex;
+    /** Token symbol for `fund` */
+    token?: string;
+    /** Circuit purpose or name for `toggle-circuit` */
+    circuit?: string;
+}
+
+/** Unset bounds are not checked; `approx` needs `within` */
+export interface AmountMatcher {
+    equals?: bigint;
+    approx?: bigint;
+    within?: bigint;
+    min?: bigint;
+    max?: bigint;
+}
+
+export interface AmountCheck extends AmountMatcher {
+    /** Actor name, `contract`, or for `staked` checks `total` */
+    of: string;
+    token?: string;
+    period?: PeriodIndex;
+}
+
+export interface StepExpectation {
+    /** Custom error name or require reason the step must revert with */
+    revert?: string;
+    /** Events the staking contract must emit in the step */
+    events: string[];
+    /** Token balances after the step */
+    balances: AmountCheck[];
+    /** Token balance changes caused by the step */
+    changes: AmountCheck[];
+    pending: AmountCheck[];
+    staked: AmountCheck[];
+}
+
+export interface ScenarioStep {
+    /** Seconds after the scenario starts */
+    at: number;
+    actor: string;
+    action?: ScenarioAction;
+    expect: StepExpectation;
+    /** Human-readable action, as shown in the trace */
+    label: string;
+    /** Where the step is in the file, e.g. `steps[3]` */
+    where: string;
+}
+
+export interface Scenario {
+    name: string;
+    contract: PlanContract;
+    version: ContractVersion;
+    actors: string[];
+    steps: ScenarioStep[];
+}
+
+export interface TraceRow {
+    step: number;
+    /** Seconds after the scenario starts, as mined */
+    at: number;
+    actor: string;
+    label: string;
+    outcome: string;
+    events: string[];
+    checks: number;
+    failures: string[];
+}
+
+export interface ScenarioTrace {
+    scenario: Scenario;
+    rows: TraceRow[];
+}
+
+export class ScenarioError extends Error {
+    readonly trace: ScenarioTrace;
+
+    constructor(message: string, trace: ScenarioTrace) {
+        super(`${message}\n\n${formatTrace(trace)}`);
+        this.name = "ScenarioError";
+        this.trace = trace;
+    }
+}
+
+const RESERVED_ACTORS = ["owner", "treasury", "contract", "total"];
+const DURATION_UNITS: Record<string, number> = { d: 86400, h: 3600, m: 60, s: 1 };
+
+function parseDuration(value: unknown, where: string): number {
+    if (typeof value === "number" && Number.isSafeInteger(value) && value >= 0) return value;
+    const text = typeof value === "string" ? value.replace(/\s+/g, "") : "";
+    if (!/^(\d+[dhms])+$/.test(text)) throw new PlanError(`${where} must be seconds or a duration like "15d", "1d12h" or "90s"`);
+    let seconds = 0;
+    for (const [, count, unit] of text.matchAll(/(\d+)([dhms])/g)) seconds += Number(count) * DURATION_UNITS[unit];
+    return seconds;
+}
+
+function parseTokenAmount(value: unknown, where: string, signed = false): bigint {
+    const text = typeof value === "number" && Number.isSafeInteger(value) ? String(value) : value;
+    const pattern = signed ? /^-?\d+(\.\d+)?$/ : /^\d+(\.\d+)?$/;
+    if (typeof text !== "string" || !pattern.test(text)) {
+        throw new PlanError(`${where} must be a ${signed ? "signed " : ""}decimal amount in token units, quoted, e.g. "1000"`);
+    }
+    return parseEther(text);
+}
+
+function parsePeriod(value: unknown, where: string): PeriodIndex {
+    return periodIndexOf(expectOneOf<PeriodLabel>(value, PERIOD_LABELS, where));
+}
+
+function parseMatcher(raw: Record<string, unknown>, where: string, signed: boolean): AmountMatcher {
+    const matcher: AmountMatcher = {};
+    for (const key of ["equals", "approx", "within", "min", "max"] as const) {
+        if (raw[key] !== undefined) matcher[key] = parseTokenAmount(raw[key], `${where}.${key}`, signed && key !== "within");
+    }
+    if (Object.keys(matcher).length === 0) throw new PlanError(`${where} needs equals, approx/within, min or max`);
+    if ((matcher.approx === undefined) !== (matcher.within === undefined)) throw new PlanError(`${where}: approx and within go together`);
+    return matcher;
+}
+
+function parseChecks(
+    raw: unknown,
+    where: string,
+    scenario: Pick<Scenario, "contract" | "actors">,
+    options: { token: boolean; signed?: boolean; holders?: string[] }
+): AmountCheck[] {
+    if (raw === undefined) return [];
+    if (!Array.isArray(raw)) throw new PlanError(`${where} must be a list`);
+    return raw.map((entry, i) => {
+        const at = `${where}[${i}]`;
+        if (typeof entry !== "object" || entry === null) throw new PlanError(`${at} must be an object`);
+        const check = entry as Record<string, unknown>;
+        const holders = [...scenario.actors, ...(options.holders ?? [])];
+        const of = expectOneOf(check.of, holders, `${at}.of`);
+        const parsed: AmountCheck = { of, ...parseMatcher(check, at, options.signed ?? false) };
+        if (options.token) parsed.token = expectString(check.token, `${at}.token`);
+        if (scenario.contract === "staking" && (!options.token || where.endsWith("pending"))) {
+            parsed.period = parsePeriod(check.period, `${at}.period`);
+        }
+        return parsed;
+    });
+}
+
+function parseExpectation(raw: unknown, where: string, scenario: Pick<Scenario, "contract" | "actors">): StepExpectation {
+    const expect = (raw ?? {}) as Record<string, unknown>;
+    if (typeof expect !== "object" || Array.isArray(expect)) throw new PlanError(`${where} must be an object`);
+    const events = expect.events ?? [];
+    if (!Array.isArray(events)) throw new PlanError(`${where}.events must be a list of event names`);
+    return {
+        revert: expect.revert === undefined ? undefined : expectString(expect.revert, `${where}.revert`),
+        events: events.map((event, i) => expectString(event, `${where}.events[${i}]`)),
+        balances: parseChecks(expect.balances, `${where}.balances`, scenario, { token: true, holders: ["owner", "treasury", "contract"] }),
+        changes: parseChecks(expect.changes, `${where}.changes`, scenario, {
+            token: true,
+            signed: true,
+            holders: ["owner", "treasury", "contract"]
+        }),
+        pending: parseChecks(expect.pending, `${where}.pending`, scenario, { token: true }),
+        staked: parseChecks(expect.staked, `${where}.staked`, scenario, { token: false, holders: ["total"] })
+    };
+}
+
+function parseAction(step: Record<string, unknown>, where: string, contract: PlanContract): ScenarioAction {
+    const type = expectOneOf(step.action, ACTION_TYPES, `${where}.action`);
+    const action: ScenarioAction = { type };
+    const staking = contract === "staking";
+    if (!staking && type === "upgrade") throw new PlanError(`${where}: upgrade only applies to staking`);
+
+    if (staking && PERIOD_ACTIONS.includes(type)) action.period = parsePeriod(step.period, `${where}.period`);
+    if (!staking && step.period !== undefined) throw new PlanError(`${where}.period does not apply to lp`);
+    if (type === "upgrade") action.to = parsePeriod(step.to, `${where}.to`);
+    if (type === "stake" || type === "fund" || (!staking && type === "withdraw")) {
+        action.amount = parseTokenAmount(step.amount, `${where}.amount`);
+    }
+    if (type === "fund") action.token = expectString(step.token, `${where}.token`);
+    if (type === "toggle-circuit") action.circuit = expectString(step.circuit, `${where}.circuit`);
+    return action;
+}
+
+function labelOf(action: ScenarioAction | undefined): string {
+    if (!action) return "check";
+    const parts: string[] = [action.type];
+    if (action.amount !== undefined) parts.push(formatEther(action.amount));
+    if (action.token !== undefined) parts.push(action.token);
+    if (action.circuit !== undefined) parts.push(action.circuit);
+    if (action.period !== undefined) parts.push(action.type === "fund" ? `into ${PERIOD_LABELS[action.period]}` : PERIOD_LABELS[action.period]);
+    if (action.to !== undefined) parts.push(`to ${PERIOD_LABELS[action.to]}`);
+    return parts.join(" ");
+}
+
+export function parseScenario(text: string): Scenario {
+    const raw = parsePlanDocument(text);
+    const contract = expectOneOf<PlanContract>(raw.contract, ["staking", "lp"], "contract");
+    const version = expectOneOf<ContractVersion>(raw.version ?? "v2", ["v1", "v2"], "version");
+    if (!Array.isArray(raw.actors)) throw new PlanError("actors must list the user names the steps use");
+    const actors = raw.actors.map((actor, i) => expectString(actor, `actors[${i}]`));
+    const reserved = actors.find((actor) => RESERVED_ACTORS.includes(actor));
+    if (reserved !== undefined) throw new PlanError(`actors: ${reserved} is built in`);
+    if (!Array.isArray(raw.steps) || raw.steps.length === 0) throw new PlanError("steps must list at least one step");
+
+    let previous = 0;
+    const steps = raw.steps.map((entry, i): ScenarioStep => {
+        const where = `steps[${i}]`;
+        if (typeof entry !== "object" || entry === null) throw new PlanError(`${where} must be an object`);
+        const step = entry as Record<string, unknown>;
+        const at = parseDuration(step.at, `${where}.at`);
+        if (at < previous) throw new PlanError(`${where}.at goes back in time`);
+        previous = at;
+
+        const action = step.action === undefined ? undefined : parseAction(step, where, contract);
+        const defaultActor = action && ADMIN_ACTIONS.includes(action.type) ? "owner" : undefined;
+        const actor =
+            step.actor === undefined && defaultActor !== undefined
+                ? defaultActor
+                : action
+                  ? expectOneOf(step.actor, [...actors, "owner", "treasury"], `${where}.actor`)
+                  : "";
+        return {
+            at,
+            actor,
+            action,
+            expect: parseExpectation(step.expect, `${where}.expect`, { contract, actors }),
+            label: labelOf(action),
+            where
+        };
+    });
+    return { name: expectString(raw.name, "name"), contract, version, actors, steps };
+}
+
+interface World {
+    contractName: ContractName;
+    staking?: AIXCBStaking;
+    lpStaking?: AIXCBLPStaking;
+    address: string;
+    /** The deployed version's ABI, so events only v1 emits are named too */
+    iface: Interface;
+    stakeParamsMinRate: boolean;
+    signers: Map<string, SignerWithAddress>;
+    tokens: Map<string, MockERC20>;
+}
+
+async function deployWorld(scenario: Scenario): Promise<World> {
+    const signers = new Map<string, SignerWithAddress>();
+    const tokens = new Map<string, MockERC20>();
+    const addSigners = (owner: SignerWithAddress, treasury: SignerWithAddress, users: SignerWithAddress[]) => {
+        if (scenario.actors.length > users.length) throw new PlanError(`The fixture has ${users.length} users`);
+        signers.set("owner", owner).set("treasury", treasury);
+        scenario.actors.forEach((actor, i) => signers.set(actor, users[i]));
+    };
+
+    if (scenario.contract === "staking") {
+        const spec = STAKING_VERSIONS.find((candidate) => candidate.version === scenario.version)!;
+        const fixture = await deployStakingFixture(spec.contract);
+        addSigners(fixture.owner, fixture.treasury, fixture.users);
+        for (const token of [fixture.stakingToken, fixture.rewardTokenB, fixture.rewardTokenC]) tokens.set(await token.symbol(), token);
+        return {
+            contractName: "AIXCBStaking",
+            staking: fixture.staking,
+            address: await fixture.staking.getAddress(),
+            iface: spec.version === "v1" ? AIXCBStakingV1__factory.createInterface() : fixture.staking.interface,
+            stakeParamsMinRate: spec.stakeParamsMinRate,
+            signers,
+            tokens
+        };
+    }
+
+    const spec = LP_STAKING_VERSIONS.find((candidate) => candidate.version === scenario.version)!;
+    const fixture = await deployLPStakingFixture(spec.contract);
+    addSigners(fixture.owner, fixture.treasury, fixture.users);
+    for (const token of [fixture.lpToken, fixture.rewardTokenA, fixture.rewardTokenB, fixture.rewardTokenC]) {
+        tokens.set(await token.symbol(), token);
+    }
+    return {
+        contractName: "AIXCBLPStaking",
+        lpStaking: fixture.staking,
+        address: await fixture.staking.getAddress(),
+        iface: spec.version === "v1" ? AIXCBLPStakingV1__factory.createInterface() : fixture.staking.interface,
+        stakeParamsMinRate: false,
+        signers,
+        tokens
+    };
+}
+
+function tokenOf(world: World, symbol: string): MockERC20 {
+    const token = world.tokens.get(symbol);
+    if (!token) throw new PlanError(`Unknown token ${symbol}; the fixture has ${[...world.tokens.keys()].join(", ")}`);
+    return token;
+}
+
+function addressOf(world: World, holder: string): string {
+    return holder === "contract" ? world.address : world.signers.get(holder)!.address;
+}
+
+async function send(world: World, step: ScenarioStep, timestamp: number): Promise<ContractTransactionResponse> {
+    const action = step.action!;
+    const signer = world.signers.get(step.actor)!;
+    const token = action.token === undefined ? undefined : await tokenOf(world, action.token).getAddress();
+
+    if (world.staking) {
+        const staking = world.staking.connect(signer);
+        const period = action.period!;
+        switch (action.type) {
+            case "stake": {
+                const params = { amount: action.amount!, periodIndex: period, deadline: timestamp + 3600 };
+                if (!world.stakeParamsMinRate) return staking.stake(params);
+                return AIXCBStakingV1__factory.connect(world.address, signer).stake({ ...params, minRate: 0 });
+            }
+            case "withdraw":
+                return staking.withdraw(period);
+            case "claim":
+                return staking.claimRewards(period);
+            case "upgrade":
+                return staking.upgradeStakePeriod(period, action.to!);
+            case "emergency-withdraw":
+                return staking.emergencyWithdraw(period);
+            case "fund":
+                return staking.fundRewardPool(period, token!, action.amount!);
+        }
+    } else {
+        const lpStaking = world.lpStaking!.connect(signer);
+        switch (action.type) {
+            case "stake":
+                return lpStaking.stake(action.amount!);
+            case "withdraw":
+                return lpStaking.withdraw(action.amount!);
+            case "claim":
+                return lpStaking.claimRewards();
+            case "emergency-withdraw":
+                return lpStaking.emergencyWithdraw();
+            case "fund":
+                return lpStaking.fundRewardPool(token!, action.amount!);
+        }
+    }
+
+    const contract = (world.staking ?? world.lpStaking!).connect(signer);
+    switch (action.type) {
+        case "pause":
+            return contract.pause();
+        case "unpause":
+            return contract.unpause();
+        case "enable-emergency":
+            return contract.enableEmergencyMode();
+        case "disable-emergency":
+            return contract.disableEmergencyMode();
+        case "toggle-circuit":
+            return contract.toggleCircuitBreaker(resolveCircuit(world.contractName, action.circuit!).id);
+    }
+    throw new PlanError(`${step.where}: ${action.type} does not apply to ${world.contractName}`);
+}
+
+function describeMatcher(matcher: AmountMatcher): string {
+    const bounds: string[] = [];
+    if (matcher.equals !== undefined) bounds.push(formatEther(matcher.equals));
+    if (matcher.approx !== undefined) bounds.push(`${formatEther(matcher.approx)} ± ${formatEther(matcher.within!)}`);
+    if (matcher.min !== undefined) bounds.push(`>= ${formatEther(matcher.min)}`);
+    if (matcher.max !== undefined) bounds.push(`<= ${formatEther(matcher.max)}`);
+    return bounds.join(" and ");
+}
+
+function matches(value: bigint, matcher: AmountMatcher): boolean {
+    const distance = matcher.approx === undefined ? 0n : value > matcher.approx ? value - matcher.approx : matcher.approx - value;
+    return (
+        (matcher.equals === undefined || value === matcher.equals) &&
+        (matcher.approx === undefined || distance <= matcher.within!) &&
+        (matcher.min === undefined || value >= matcher.min) &&
+        (matcher.max === undefined || value <= matcher.max)
+    );
+}
+
+async function balancesOf(world: World, checks: AmountCheck[]): Promise<bigint[]> {
+    return Promise.all(checks.map((check) => tokenOf(world, check.token!).balanceOf(addressOf(world, check.of))));
+}
+
+async function pendingOf(world: World, check: AmountCheck): Promise<bigint> {
+    const token = await tokenOf(world, check.token!).getAddress();
+    const user = addressOf(world, check.of);
+    return world.staking
+        ? world.staking.pendingRewards(user, check.period!, token)
+        : world.lpStaking!.getPendingRewards(user, token);
+}
+
+async function stakedOf(world: World, check: AmountCheck): Promise<bigint> {
+    if (world.staking) {
+        if (check.of === "total") return world.staking.totalStakedForPeriod(check.period!);
+        return (await world.staking.getUserStake(addressOf(world, check.of), check.period!)).amount;
+    }
+    if (check.of === "total") return world.lpStaking!.totalStakedAmount();
+    return (await world.lpStaking!.userStakes(addressOf(world, check.of))).stakedAmount;
+}
+
+function eventsOf(world: World, receipt: TransactionReceipt | null): string[] {
+    if (!receipt) return [];
+    return receipt.logs
+        .filter((log) => log.address.toLowerCase() === world.address.toLowerCase())
+        .map((log) => world.iface.parseLog(log)?.name)
+        .filter((name): name is string => name !== undefined);
+}
+
+/** Deploys a fresh fixture, runs every step and checks its expectations; throws a `ScenarioError` at the first failing step */
+export async function runScenario(scenario: Scenario): Promise<ScenarioTrace> {
+    const world = await deployWorld(scenario);
+    const trace: ScenarioTrace = { scenario, rows: [] };
+    const start = await time.latest();
+
+    for (const [index, step] of scenario.steps.entries()) {
+        const target = start + step.at;
+        const latest = await time.latest();
+        const { expect } = step;
+        const failures: string[] = [];
+        const describe = (check: AmountCheck, what: string) =>
+            `${what}${check.token ? ` ${check.token}` : ""}${check.period !== undefined ? ` in ${PERIOD_LABELS[check.period]}` : ""} of ${check.of}`;
+
+        const before = await balancesOf(world, expect.changes);
+        let outcome = "ok";
+        let events: string[] = [];
+        let minedAt = Math.max(target, latest);
+
+        if (step.action) {
+            if (target > latest) await time.setNextBlockTimestamp(target);
+            try {
+                const receipt = await (await send(world, step, Math.max(target, latest + 1))).wait();
+                events = eventsOf(world, receipt);
+                minedAt = (await ethers.provider.getBlock(receipt!.blockNumber))!.timestamp;
+            } catch (error: unknown) {
+                const revert = decodeRevert(error, world.contractName);
+                if (!revert) throw error;
+                outcome = `reverted ${revert.name || revert.code}`;
+                minedAt = await time.latest();
+                if (expect.revert === undefined) failures.push(`unexpected revert: ${revert.message} (${revert.name || revert.code})`);
+                else if (revert.name !== expect.revert && revert.code !== expect.revert) {
+                    failures.push(`reverted with ${revert.name || revert.code}, expected ${expect.revert}`);
+                }
+            }
+            if (expect.revert !== undefined && outcome === "ok") failures.push(`expected a revert with ${expect.revert}`);
+        } else if (target > latest) {
+            await time.increaseTo(target);
+        }
+
+        for (const event of expect.events) {
+            if (!events.includes(event)) failures.push(`expected event ${event}, got ${events.length > 0 ? events.join(", ") : "none"}`);
+        }
+        const after = await balancesOf(world, expect.changes);
+        expect.changes.forEach((check, i) => {
+            const change = after[i] - before[i];
+            if (!matches(change, check)) {
+                failures.push(`${describe(check, "change in")} is ${formatEther(change)}, expected ${describeMatcher(check)}`);
+            }
+        });
+        const balances = await balancesOf(world, expect.balances);
+        expect.balances.forEach((check, i) => {
+            if (!matches(balances[i], check)) {
+                failures.push(`${describe(check, "balance")} is ${formatEther(balances[i])}, expected ${describeMatcher(check)}`);
+            }
+        });
+        for (const check of expect.pending) {
+            const pending = await pendingOf(world, check);
+            if (!matches(pending, check)) {
+                failures.push(`${describe(check, "pending")} is ${formatEther(pending)}, expected ${describeMatcher(check)}`);
+            }
+        }
+        for (const check of expect.staked) {
+            const staked = await stakedOf(world, check);
+            if (!matches(staked, check)) {
+                failures.push(`${describe(check, "stake")} is ${formatEther(staked)}, expected ${describeMatcher(check)}`);
+            }
+        }
+
+        const checks =
+            (expect.revert === undefined ? 0 : 1) +
+            expect.events.length +
+            expect.changes.length +
+            expect.balances.length +
+            expect.pending.length +
+            expect.staked.length;
+        trace.rows.push({ step: index, at: minedAt - start, actor: step.actor, label: step.label, outcome, events, checks, failures });
+        if (failures.length > 0) {
+            throw new ScenarioError(`${scenario.name}: ${step.where} (${step.label}) failed:\n  ${failures.join("\n  ")}`, trace);
+        }
+    }
+    return trace;
+}
+
+function formatOffset(seconds: number): string {
+    const days = Math.floor(seconds / 86400);
+    const clock = new Date((seconds % 86400) * 1000).toISOString().slice(11, 19);
+    return `${days}d ${clock}`;
+}
+
+/** Markdown table of the steps run so far */
+export function formatTrace(trace: ScenarioTrace): string {
+    const { scenario } = trace;
+    const lines = [
+        `${scenario.name} (${scenario.contract} ${scenario.version})`,
+        "",
+        "| # | Time | Actor | Action | Outcome | Events | Checks |",
+        "|---|------|-------|--------|---------|--------|--------|"
+    ];
+    for (const row of trace.rows) {
+        const checks = row.failures.length > 0 ? `FAILED ${row.failures.length}` : row.checks > 0 ? `${row.checks} ok` : "";
+        lines.push(
+            `| ${row.step} | ${formatOffset(row.at)} | ${row.actor} | ${row.label} | ${row.outcome} | ${row.events.join(", ")} | ${checks} |`
+        );
+    }
+    return lines.join("\n");
+}
@@ -0,0 +1,77 @@
+import { expect } from "chai";
+import { readFileSync, readdirSync } from "fs";
+import path from "path";
+import { PlanError } from "../sdk/safeBatch";
+import { ScenarioError, formatTrace, parseScenario, runScenario } from "./scenario";
+
+// SCENARIO=<substring> runs only the matching files under test/scenarios
+const SCENARIO_DIR = path.join(__dirname, "scenarios");
+const SCENARIO_FILES = readdirSync(SCENARIO_DIR)
+    .filter((file) => /\.(ya?ml|json)$/.test(file))
+    .filter((file) => !process.env.SCENARIO || file.includes(process.env.SCENARIO))
+    .sort();
+
+describe("Scenarios", () => {
+    for (const file of SCENARIO_FILES) {
+        it(file, async () => {
+            const scenario = parseScenario(readFileSync(path.join(SCENARIO_DIR, file), "utf8"));
+            console.log(formatTrace(await runScenario(scenario)));
+        });
+    }
+
+    describe("runner", () => {
+        it("should name the step and field of a malformed scenario", () => {
+            const text = `
+name: Broken
+contract: staking
+actors: [alice]
+steps:
+  - { at: 0d, actor: alice, action: stake, amount: "10", period: 90d }
+`;
+            expect(() => parseScenario(text.replace(", period: 90d", ""))).to.throw(PlanError, "steps[0].period");
+            expect(() => parseScenario(text.replace("at: 0d", "at: tomorrow"))).to.throw(PlanError, "steps[0].at");
+            expect(() => parseScenario(text.replace("actor: alice", "actor: carol"))).to.throw(PlanError, "steps[0].actor");
+        });
+
+        it("should stop at the first failing step and report its checks with the trace", async () => {
+            const scenario = parseScenario(`
+name: Wrong expectation
+contract: lp
+actors: [alice]
+steps:
+  - { at: 0d, actor: alice, action: stake, amount: "100" }
+  - at: 1d
+    actor: alice
+    action: withdraw
+    amount: "100"
+    expect:
+      changes: [{ of: alice, token: aLP, equals: "99" }]
+  - { at: 2d, actor: alice, action: stake, amount: "100" }
+`);
+            const error: unknown = await runScenario(scenario).catch((caught: unknown) => caught);
+
+            expect(error).to.be.instanceOf(ScenarioError);
+            const { message, trace } = error as ScenarioError;
+            expect(message).to.contain("steps[1] (withdraw 100.0) failed");
+            expect(message).to.contain("change in aLP of alice is 100.0, expected 99.0");
+            expect(message).to.contain("| 1 | 1d 00:00:00 | alice | withdraw 100.0 | ok |");
+            expect(message).to.contain("StakeWithdrawn | FAILED 1 |");
+            expect(trace.rows).to.have.length(2);
+        });
+
+        it("should fail a step that reverts unexpectedly", async () => {
+            const scenario = parseScenario(`
+name: Early withdrawal
+contract: staking
+actors: [alice]
+steps:
+  - { at: 0d, actor: alice, action: stake, amount: "100", period: 360d }
+  - { at: 1d, actor: alice, action: withdraw, period: 360d }
+`);
+            const error: unknown = await runScenario(scenario).catch((caught: unknown) => caught);
+
+            expect(error).to.be.instanceOf(ScenarioError);
+            expect((error as ScenarioError).message).to.contain("unexpected revert").and.to.contain("StakeLocked");
+        });
+    });
+});
@@ -0,0 +1,115 @@
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import { time } from "@nomicfoundation/hardhat-network-helpers";
+import { StandardMerkleTree } from "@openzeppelin/merkle-tree";
+import {
+    MERKLE_LEAF_ENCODING,
+    StakerSnapshot,
+    buildMerkleAllocation,
+    eligibleAmounts,
+    formatSnapshotCsv,
+    parseEligibilityRules,
+    takeSnapshot
+} from "../sdk/snapshot";
+import { LPStakingFixture, StakingFixture, deployLPStakingFixture, deployStakingFixture } from "./fixtures";
+
+describe("Staker snapshot", () => {
+    let staking: StakingFixture;
+    let lp: LPStakingFixture;
+    let snapshot: StakerSnapshot;
+    let snapshotBlock: number;
+
+    beforeEach(async () => {
+        staking = await deployStakingFixture();
+        lp = await deployLPStakingFixture();
+        const [alice, bob, carol] = staking.users;
+        const deadline = (await time.latest()) + 3600;
+        await staking.staking.connect(alice).stake({ amount: ethers.parseEther("50000"), periodIndex: 0, deadline });
+        await staking.staking.connect(bob).stake({ amount: ethers.parseEther("200000"), periodIndex: 2, deadline });
+        await staking.staking.connect(carol).stake({ amount: ethers.parseEther("500"), periodIndex: 1, deadline });
+        await lp.staking.connect(alice).stake(ethers.parseEther("1000"));
+        await lp.staking.connect(bob).stake(ethers.parseEther("500"));
+        await time.increase(7 * 24 * 60 * 60);
+        await lp.staking.connect(bob).withdraw(ethers.parseEther("500"));
+        snapshotBlock = await ethers.provider.getBlockNumber();
+
+        snapshot = await takeSnapshot(ethers.provider, {
+            staking: await staking.staking.getAddress(),
+            lp: await lp.staking.getAddress(),
+            blockNumber: snapshotBlock,
+        });
+    });
+
+    it("should list period stakes with times and pending rewards", async () => {
+        const [alice, bob, carol] = staking.users;
+        const stakes = snapshot.staking!.stakes;
+
+        expect(stakes.map((stake) => [stake.user, stake.period, stake.amount])).to.deep.equal([
+            [alice.address, "90d", ethers.parseEther("50000")],
+            [carol.address, "180d", ethers.parseEther("500")],
+            [bob.address, "360d", ethers.parseEther("200000")],
+        ]);
+        const userStake = await staking.staking.getUserStake(bob.address, 2);
+        expect(stakes[2].startTime).to.equal(Number(userStake.startTime));
+        expect(stakes[2].endTime).to.equal(Number(userStake.endTime));
+        const tokenB = await staking.rewardTokenB.getAddress();
+        expect(stakes[2].pendingRewards.find((reward) => reward.token === tokenB)!.amount).to.equal(
+            await staking.staking.pendingRewards(bob.address, 2, tokenB, { blockTag: snapshotBlock })
+        );
+    });
+
+    it("should leave out LP stakers that withdrew and read the snapshot block", async () => {
+        const [alice] = lp.users;
+        expect(snapshot.lp!.stakes.map((stake) => [stake.user, stake.stakedAmount])).to.deep.equal([[alice.address, ethers.parseEther("1000")]]);
+
+        await time.increase(24 * 60 * 60);
+        await ethers.provider.send("evm_mine", []);
+        const again = await takeSnapshot(ethers.provider, { lp: await lp.staking.getAddress(), blockNumber: snapshotBlock });
+        expect(again.lp!.stakes[0].pendingRewards).to.deep.equal(snapshot.lp!.stakes[0].pendingRewards);
+        expect(again.staking).to.be.undefined;
+    });
+
+    it("should write one CSV row per stake with a pending column per reward token", () => {
+        const lines = formatSnapshotCsv(snapshot).trim().split("\n");
+        const header = lines[0].split(",");
+
+        expect(header.slice(0, 6)).to.deep.equal(["contract", "user", "period", "amount", "startTime", "endTime"]);
+        expect(header.slice(6)).to.have.length(new Set([...snapshot.staking!.rewardTokens, ...snapshot.lp!.rewardTokens]).size);
+        expect(lines).to.have.length(5);
+        expect(lines[4]).to.match(new RegExp(`^AIXCBLPStaking,${lp.users[0].address},,1000000000000000000000,\\d+,,`));
+    });
+
+    describe("Merkle allocation", () => {
+        it("should apply the eligibility rules", () => {
+            const [alice, bob] = staking.users;
+            const rules = parseEligibilityRules("contract: staking\nperiods: [90d, 180d, 360d]\nminAmount: '1000'\n");
+            expect([...eligibleAmounts(snapshot, rules)]).to.deep.equal([
+                [alice.address, ethers.parseEther("50000")],
+                [bob.address, ethers.parseEther("200000")],
+            ]);
+
+            const locked = parseEligibilityRules(JSON.stringify({ contract: "staking", lockedUntil: snapshot.blockTimestamp + 180 * 24 * 60 * 60 }));
+            expect([...eligibleAmounts(snapshot, locked).keys()]).to.deep.equal([bob.address]);
+        });
+
+        it("should build an OpenZeppelin tree whose proofs verify", () => {
+            const allocation = buildMerkleAllocation(snapshot, parseEligibilityRules("contract: staking\nallocation: '250'\n"));
+
+            expect(Object.keys(allocation.proofs)).to.have.length(3);
+            for (const [account, { amount, proof }] of Object.entries(allocation.proofs)) {
+                expect(amount).to.equal(ethers.parseEther("250"));
+                expect(StandardMerkleTree.verify(allocation.root, MERKLE_LEAF_ENCODING, [account, amount.toString()], proof)).to.be.true;
+            }
+            const loaded = StandardMerkleTree.load(allocation.tree.dump());
+            expect(loaded.root).to.equal(allocation.root);
+        });
+
+        it("should reject rules that do not fit the contract", () => {
+            expect(() => parseEligibilityRules("contract: lp\nperiods: [90d]\n")).to.throw("no lock periods");
+            expect(() => parseEligibilityRules("contract: staking\nperiods: [30d]\n")).to.throw("periods must list");
+            expect(() => buildMerkleAllocation(snapshot, parseEligibilityRules("contract: lp\nminAmount: '5000'\n"))).to.throw(
+                "No address meets"
+            );
+        });
+    });
+});
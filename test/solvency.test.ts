@@ -0,0 +1,120 @@
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import { time } from "@nomicfoundation/hardhat-network-helpers";
+import { SECONDS_PER_YEAR } from "../sdk/constants";
+import { checkSolvency, formatSolvencyJson, formatSolvencyMarkdown } from "../sdk/solvency";
+import { MockERC20 } from "../typechain-types";
+import { LPStakingFixture, StakingFixture, deployLPStakingFixture, deployStakingFixture } from "./fixtures";
+
+describe("Solvency monitor", () => {
+    describe("AIXCBStaking", () => {
+        let fixture: StakingFixture;
+        let address: string;
+
+        beforeEach(async () => {
+            fixture = await deployStakingFixture();
+            address = await fixture.staking.getAddress();
+            const deadline = (await time.latest()) + 3600;
+            const [alice, bob] = fixture.users;
+            await fixture.staking.connect(alice).stake({ amount: ethers.parseEther("100000"), periodIndex: 0, deadline });
+            await fixture.staking.connect(bob).stake({ amount: ethers.parseEther("300000"), periodIndex: 2, deadline });
+            await time.increase(30 * 24 * 60 * 60);
+        });
+
+        async function drain(token: MockERC20, keep: bigint) {
+            const balance = await token.balanceOf(address);
+            await fixture.staking.enableEmergencyMode();
+            await fixture.staking.emergencyWithdrawRewardToken(await token.getAddress(), balance - keep, fixture.treasury.address);
+        }
+
+        it("should report principal, accrued rewards and future emissions per token", async () => {
+            const report = await checkSolvency(ethers.provider, { staking: address });
+            const [contract] = report.contracts;
+
+            expect(report.severity).to.equal("ok");
+            expect(contract.stakers).to.equal(2);
+            const aixcb = contract.tokens.find((token) => token.symbol === "AIXCB")!;
+            expect(aixcb.principal).to.equal(ethers.parseEther("400000"));
+
+            const [alice, bob] = fixture.users;
+            const tokenB = await fixture.rewardTokenB.getAddress();
+            const expected =
+                (await fixture.staking.pendingRewards(alice.address, 0, tokenB)) +
+                (await fixture.staking.pendingRewards(bob.address, 2, tokenB));
+            const b = contract.tokens.find((token) => token.symbol === "TKB")!;
+            expect(b.accruedRewards).to.equal(expected);
+            expect(b.principal).to.equal(0n);
+            expect(b.unallocatedBudget).to.be.gt(0n);
+            expect(b.surplus).to.equal(b.balance - b.accruedRewards);
+        });
+
+        it("should flag rewards that would be paid out of principal", async () => {
+            const token = await fixture.stakingToken.getAddress();
+            await drain(fixture.stakingToken, ethers.parseEther("400000"));
+
+            const report = await checkSolvency(ethers.provider, { staking: address });
+            const aixcb = report.contracts[0].tokens.find((entry) => entry.token === token)!;
+
+            expect(report.severity).to.equal("critical");
+            expect(aixcb.severity).to.equal("critical");
+            expect(aixcb.surplus).to.be.lt(0n);
+            expect(aixcb.findings[0]).to.contain("out of other stakers' principal");
+        });
+
+        it("should warn when the balance covers accrued but not future rewards", async () => {
+            const token = await fixture.rewardTokenC.getAddress();
+            await drain(fixture.rewardTokenC, ethers.parseEther("500000"));
+
+            const report = await checkSolvency(ethers.provider, { staking: address });
+            const c = report.contracts[0].tokens.find((entry) => entry.token === token)!;
+
+            expect(report.severity).to.equal("warning");
+            expect(c.severity).to.equal("warning");
+            expect(c.findings[0]).to.contain("until periodFinish");
+        });
+    });
+
+    describe("AIXCBLPStaking", () => {
+        let fixture: LPStakingFixture;
+        let address: string;
+
+        beforeEach(async () => {
+            fixture = await deployLPStakingFixture();
+            address = await fixture.staking.getAddress();
+            await fixture.staking.connect(fixture.users[0]).stake(ethers.parseEther("1000"));
+            await fixture.staking.connect(fixture.users[1]).stake(ethers.parseEther("3000"));
+            await fixture.staking.connect(fixture.users[1]).withdraw(ethers.parseEther("3000"));
+        });
+
+        it("should find stakers from StakeDeposited logs and check the LP principal", async () => {
+            const report = await checkSolvency(ethers.provider, { lp: address, logBatchSize: 5 });
+            const [contract] = report.contracts;
+
+            expect(report.severity).to.equal("ok");
+            expect(contract.stakers).to.equal(1);
+            expect(contract.tokens[0]).to.deep.include({ symbol: "aLP", principal: ethers.parseEther("1000") });
+            expect(contract.tokens).to.have.lengthOf(4);
+        });
+
+        it("should warn once accrued rewards exceed the remaining budget", async () => {
+            await time.increase(2 * SECONDS_PER_YEAR);
+            const report = await checkSolvency(ethers.provider, { lp: address });
+            const a = report.contracts[0].tokens.find((token) => token.symbol === "TKA")!;
+
+            expect(a.severity).to.equal("warning");
+            expect(a.findings[0]).to.contain("more than the remaining budget");
+            expect(a.unallocatedBudget).to.equal(0n);
+        });
+    });
+
+    it("should render Markdown and JSON reports", async () => {
+        const fixture = await deployStakingFixture();
+        const report = await checkSolvency(ethers.provider, { staking: await fixture.staking.getAddress() });
+
+        const markdown = formatSolvencyMarkdown(report);
+        expect(markdown).to.contain("# Solvency report: OK");
+        expect(markdown).to.contain("| TKB | 3000000.0 | 0.0 | 0.0 |");
+        const json = JSON.parse(formatSolvencyJson(report));
+        expect(json.contracts[0].tokens[1].balance).to.equal(ethers.parseEther("3000000").toString());
+    });
+});
@@ -0,0 +1,137 @@
+import { expect } from "chai";
+import { artifacts } from "hardhat";
+import {
+    SolcStorageLayout,
+    compareStorageLayouts,
+    formatLayoutReport,
+    readStorageLayout
+} from "../sdk/storageLayout";
+import { LP_STAKING_CONTRACT, STAKING_CONTRACT } from "./fixtures";
+
+describe("Storage layout", () => {
+    const STAKING_V1 = "src/legacy/AIXCBStaking.v1.sol:AIXCBStaking";
+    const LP_STAKING_V1 = "src/legacy/AIXCBLPStaking.v1.sol:AIXCBLPStaking";
+
+    let stakingV1: SolcStorageLayout;
+    let stakingV2: SolcStorageLayout;
+
+    before(async () => {
+        stakingV1 = await readStorageLayout(artifacts, STAKING_V1);
+        stakingV2 = await readStorageLayout(artifacts, STAKING_CONTRACT);
+    });
+
+    function clone(layout: SolcStorageLayout): SolcStorageLayout {
+        return JSON.parse(JSON.stringify(layout));
+    }
+
+    function typeOf(layout: SolcStorageLayout, label: string): string {
+        return layout.storage.find((item) => item.label === label)!.type;
+    }
+
+    /** The `UserStake` struct behind `userStakes[user][periodIndex]` */
+    function userStakeType(layout: SolcStorageLayout) {
+        const outer = layout.types![typeOf(layout, "userStakes")];
+        const inner = layout.types![outer.value!];
+        return layout.types![inner.value!];
+    }
+
+    describe("deployed upgrade paths", () => {
+        it("should accept AIXCBStaking v1 -> v2", () => {
+            const report = compareStorageLayouts(stakingV1, stakingV2, { oldName: STAKING_V1, newName: STAKING_CONTRACT });
+            expect(report.issues, formatLayoutReport(report)).to.deep.equal([]);
+            expect(report.compatible).to.be.true;
+        });
+
+        it("should accept AIXCBLPStaking v1 -> v2", async () => {
+            const report = compareStorageLayouts(
+                await readStorageLayout(artifacts, LP_STAKING_V1),
+                await readStorageLayout(artifacts, LP_STAKING_CONTRACT)
+            );
+            expect(report.issues, formatLayoutReport(report)).to.deep.equal([]);
+        });
+
+        it("should keep the fields v2 only retains for layout compatibility", () => {
+            for (const label of ["PERIOD_RATES", "loyaltyStats", "isVIP"]) {
+                const v1 = stakingV1.storage.find((item) => item.label === label)!;
+                const v2 = stakingV2.storage.find((item) => item.label === label)!;
+                expect([v2.slot, v2.offset], label).to.deep.equal([v1.slot, v1.offset]);
+            }
+        });
+    });
+
+    describe("incompatible changes", () => {
+        it("should flag a variable inserted in the middle", () => {
+            const next = clone(stakingV2);
+            const index = next.storage.findIndex((item) => item.label === "treasury");
+            next.storage.splice(index, 0, { ...next.storage[index], label: "feeRecipient" });
+            next.storage.slice(index + 1).forEach((item) => (item.slot = String(Number(item.slot) + 1)));
+
+            const report = compareStorageLayouts(stakingV2, next);
+
+            expect(report.compatible).to.be.false;
+            // The new variable takes treasury's slot with the same type, which alone looks like a rename
+            const treasury = report.issues.find((issue) => issue.path === "treasury")!;
+            expect(treasury.severity).to.equal("warning");
+            expect(treasury.message).to.equal("renamed to feeRecipient");
+            const userStakes = report.issues.filter((issue) => issue.path === "userStakes");
+            expect(userStakes.map((issue) => issue.message)).to.deep.equal([
+                "renamed to treasury",
+                "encoding changed from mapping to inplace"
+            ]);
+        });
+
+        it("should flag a widened member of the packed UserStake struct", () => {
+            const next = clone(stakingV2);
+            const members = userStakeType(next).members!;
+            members[0].type = "t_uint256";
+            members.slice(1).forEach((member) => (member.slot = String(Number(member.slot) + 1)));
+
+            const report = compareStorageLayouts(stakingV2, next);
+
+            expect(report.compatible).to.be.false;
+            const paths = report.issues.filter((issue) => issue.severity === "error").map((issue) => issue.path);
+            expect(paths).to.include("userStakes.value.value.amount");
+            expect(paths).to.include("userStakes.value.value.startTime");
+        });
+
+        it("should allow appending a member to a struct held in a mapping", () => {
+            const next = clone(stakingV2);
+            const userStake = userStakeType(next);
+            // amount, startTime, endTime and periodIndex pack into slot 0, initialized takes slot 1
+            userStake.members!.push({ label: "boost", slot: "2", offset: 0, type: "t_uint256" });
+            userStake.numberOfBytes = "96";
+
+            expect(compareStorageLayouts(stakingV2, next).issues).to.deep.equal([]);
+        });
+
+        it("should require the gap to shrink by the slots a new variable takes", () => {
+            const next = clone(stakingV2);
+            const gap = next.storage.find((item) => item.label === "__gap")!;
+            next.storage.splice(next.storage.indexOf(gap), 0, { ...gap, label: "newField", type: "t_uint256" });
+            gap.slot = String(Number(gap.slot) + 1);
+
+            const unchanged = compareStorageLayouts(stakingV2, next);
+            expect(unchanged.compatible).to.be.false;
+            expect(unchanged.issues[0].message).to.contain("storage gap now ends at slot 69 instead of 68");
+
+            next.types!["t_array(t_uint256)49_storage"] = {
+                ...next.types![gap.type],
+                label: "uint256[49]",
+                numberOfBytes: String(49 * 32)
+            };
+            gap.type = "t_array(t_uint256)49_storage";
+            expect(compareStorageLayouts(stakingV2, next).issues).to.deep.equal([]);
+        });
+
+        it("should treat a same-size type change as a warning", () => {
+            const next = clone(stakingV2);
+            next.storage.find((item) => item.label === "emergencyMode")!.type = "t_uint8";
+            next.types!["t_uint8"] = { label: "uint8", encoding: "inplace", numberOfBytes: "1" };
+
+            const report = compareStorageLayouts(stakingV2, next);
+
+            expect(report.compatible).to.be.true;
+            expect(report.issues.map((issue) => issue.severity)).to.deep.equal(["warning"]);
+        });
+    });
+});
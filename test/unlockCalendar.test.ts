@@ -0,0 +1,168 @@
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import { time } from "@nomicfoundation/hardhat-network-helpers";
+import { AddressInfo } from "net";
+import { Server, createServer } from "http";
+import {
+    MaturityNotification,
+    MaturityNotifier,
+    MaturityScheduler,
+    formatICalendar,
+    formatICalendarsByUser,
+} from "../sdk/unlockCalendar";
+import { StakingFixture, deployStakingFixture } from "./fixtures";
+
+const DAY = 24 * 60 * 60;
+
+describe("Unlock calendar", () => {
+    let fixture: StakingFixture;
+    let scheduler: MaturityScheduler;
+    /** Bob's 90d unlock before he upgraded to 180d */
+    let bobFirstEnd: number;
+
+    /** Stands in for the webhook receiver; answers `status` and keeps every body */
+    let server: Server;
+    let webhookUrl: string;
+    let status: number;
+    let received: MaturityNotification[];
+
+    before(async () => {
+        server = createServer((request, response) => {
+            let body = "";
+            request.on("data", (chunk) => (body += chunk));
+            request.on("end", () => {
+                if (status < 300) received.push(JSON.parse(body));
+                response.writeHead(status).end();
+            });
+        });
+        await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+        webhookUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}/unlocks`;
+    });
+
+    after(async () => {
+        await new Promise((resolve) => server.close(resolve));
+    });
+
+    async function endTime(user: string, periodIndex: number): Promise<number> {
+        return Number((await fixture.staking.getUserStake(user, periodIndex)).endTime);
+    }
+
+    beforeEach(async () => {
+        status = 200;
+        received = [];
+        const fromBlock = (await ethers.provider.getBlockNumber()) + 1;
+        fixture = await deployStakingFixture();
+        scheduler = new MaturityScheduler(ethers.provider, { staking: await fixture.staking.getAddress(), fromBlock });
+
+        const [alice, bob, carol] = fixture.users;
+        let deadline = (await time.latest()) + 3600;
+        await fixture.staking.connect(alice).stake({ amount: ethers.parseEther("1000"), periodIndex: 0, deadline });
+        await fixture.staking.connect(bob).stake({ amount: ethers.parseEther("2500.5"), periodIndex: 0, deadline });
+        bobFirstEnd = await endTime(bob.address, 0);
+        await time.increase(30 * DAY);
+        await fixture.staking.connect(bob).upgradeStakePeriod(0, 1);
+        deadline = (await time.latest()) + 3600;
+        await fixture.staking.connect(carol).stake({ amount: ethers.parseEther("500"), periodIndex: 2, deadline });
+    });
+
+    it("should read every position and explain a lock reset by an upgrade", async () => {
+        const [alice, bob, carol] = fixture.users;
+        const bobUpgraded = (await ethers.provider.getBlock("latest"))!.number - 1;
+        const schedule = await scheduler.schedule();
+
+        expect(schedule.maturities.map((maturity) => [maturity.user, maturity.period, maturity.endTime])).to.deep.equal([
+            [alice.address, "90d", await endTime(alice.address, 0)],
+            [bob.address, "180d", await endTime(bob.address, 1)],
+            [carol.address, "360d", await endTime(carol.address, 2)],
+        ]);
+        const bobs = schedule.maturities[1];
+        expect(bobs.lastChange!.kind).to.equal("upgrade");
+        expect(bobs.lastChange!.blockNumber).to.equal(bobUpgraded);
+        expect(bobs.lastChange!.upgradedFrom).to.deep.equal({ period: "90d", endTime: bobFirstEnd });
+        expect(bobs.endTime - bobFirstEnd).to.be.greaterThan(100 * DAY);
+        expect(schedule.maturities[0].lastChange!.kind).to.equal("stake");
+        expect(schedule.token.symbol).to.equal("AIXCB");
+    });
+
+    it("should export valid, folded iCalendar files", async () => {
+        const [alice, bob] = fixture.users;
+        const schedule = await scheduler.schedule();
+        const ics = formatICalendar(schedule, { alarmDays: [7, 1] });
+
+        const lines = ics.split("\r\n");
+        expect(lines[0]).to.equal("BEGIN:VCALENDAR");
+        expect(lines[lines.length - 1]).to.equal("");
+        expect(lines.every((line) => Buffer.byteLength(line) <= 75)).to.be.true;
+        expect(ics.replace(/\r\n/g, "")).not.to.contain("\n");
+
+        const unfolded = ics.replace(/\r\n /g, "");
+        expect(unfolded.match(/BEGIN:VEVENT/g)).to.have.length(3);
+        expect(unfolded.match(/TRIGGER:-P7D/g)).to.have.length(3);
+        const aliceEnd = new Date((await endTime(alice.address, 0)) * 1000).toISOString().replace(/[-:]/g, "").replace(".000", "");
+        expect(unfolded).to.contain(`DTSTART:${aliceEnd}`);
+        expect(unfolded).to.contain("SUMMARY:2500.5 AIXCB 180d stake unlocks");
+        expect(unfolded).to.contain("upgradeStakePeriod from 90d reset the lock");
+        // Commas in TEXT values are escaped
+        expect(unfolded).to.match(/ on chain \d+\\, locked since /);
+
+        const calendars = formatICalendarsByUser(schedule);
+        expect([...calendars.keys()]).to.have.length(3);
+        expect(calendars.get(bob.address)!.match(/BEGIN:VEVENT/g)).to.have.length(1);
+    });
+
+    it("should post each reminder once, the narrowest window only", async () => {
+        const [alice] = fixture.users;
+        const notifier = new MaturityNotifier({ webhookUrl, daysBefore: [7, 1] });
+        const sent = new Set<string>();
+        const aliceEnd = await endTime(alice.address, 0);
+
+        await time.increaseTo(aliceEnd - 5 * DAY);
+        const first = await notifier.notify(await scheduler.schedule(), sent);
+        expect(first.failed).to.deep.equal([]);
+        expect(received.map((body) => [body.kind, body.user, body.period, body.daysBefore])).to.deep.equal([
+            ["unlock_upcoming", alice.address, "90d", 7],
+        ]);
+        expect(received[0].amount).to.equal(ethers.parseEther("1000").toString());
+        expect(received[0].unlockAt).to.equal(new Date(aliceEnd * 1000).toISOString());
+
+        expect((await notifier.notify(await scheduler.schedule(), sent)).sent).to.have.length(0);
+
+        await time.increaseTo(aliceEnd - DAY / 2);
+        await notifier.notify(await scheduler.schedule(), sent);
+        expect(received.map((body) => body.daysBefore)).to.deep.equal([7, 1]);
+
+        // Started late, a fresh notifier skips the seven-day reminder
+        const late = await new MaturityNotifier({ webhookUrl, daysBefore: [7, 1] }).notify(await scheduler.schedule(), new Set());
+        expect(late.sent.map((notification) => notification.daysBefore)).to.deep.equal([1]);
+    });
+
+    it("should notify an early unlock once every reward pool finished", async () => {
+        const [, , carol] = fixture.users;
+        const carolEnd = await endTime(carol.address, 2);
+        // Pools were funded for a year, 30 days before carol locked for 360 days
+        await time.increaseTo(carolEnd - 20 * DAY);
+
+        const schedule = await scheduler.schedule();
+        expect(schedule.maturities.filter((maturity) => maturity.earlyUnlock).map((maturity) => maturity.user)).to.deep.equal([carol.address]);
+        await new MaturityNotifier({ webhookUrl, daysBefore: [7] }).notify(schedule, new Set());
+        expect(received.map((body) => [body.kind, body.user])).to.deep.equal([["early_unlock", carol.address]]);
+        expect(formatICalendar(schedule).replace(/\r\n /g, "")).to.contain("withdraw is already allowed");
+    });
+
+    it("should retry notifications the webhook rejected", async () => {
+        const [alice] = fixture.users;
+        const notifier = new MaturityNotifier({ webhookUrl, daysBefore: [7] });
+        const sent = new Set<string>();
+        await time.increaseTo((await endTime(alice.address, 0)) - 3 * DAY);
+
+        status = 503;
+        const failed = await notifier.notify(await scheduler.schedule(), sent);
+        expect(failed.failed.map((failure) => failure.error)).to.deep.equal(["HTTP 503 Service Unavailable"]);
+        expect(sent.size).to.equal(0);
+
+        status = 204;
+        const retried = await notifier.notify(await scheduler.schedule(), sent);
+        expect(retried.sent.map((notification) => notification.id)).to.deep.equal([...sent]);
+        expect(received).to.have.length(1);
+    });
+});
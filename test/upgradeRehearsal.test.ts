@@ -0,0 +1,486 @@
+import { expect } from "chai";
+import { artifacts, ethers } from "hardhat";
+import { time } from "@nomicfoundation/hardhat-network-helpers";
+import { AbiCoder, BaseContract, ContractTransactionResponse, keccak256 } from "ethers";
+import { SignerWithAddress } from "@nomicfoundation/hardhat-ethers/signers";
+import {
+    AIXCBLPStaking,
+    AIXCBLPStaking__factory,
+    AIXCBStaking,
+    AIXCBStaking__factory,
+    MockERC20,
+    UUPSUpgradeable__factory
+} from "../typechain-types";
+import { AIXCBStaking as AIXCBStakingV1 } from "../typechain-types/src/legacy/AIXCBStaking.v1.sol";
+import { AIXCBLPStaking as AIXCBLPStakingV1 } from "../typechain-types/src/legacy/AIXCBLPStaking.v1.sol";
+import { AIXCBStaking__factory as AIXCBStakingV1__factory } from "../typechain-types/factories/src/legacy/AIXCBStaking.v1.sol";
+import { AIXCBLPStaking__factory as AIXCBLPStakingV1__factory } from "../typechain-types/factories/src/legacy/AIXCBLPStaking.v1.sol";
+import { LPStakingRewardModel, StakingRewardModel, TokenAmount } from "../sdk/rewardModel";
+import { LP_STAKING_CIRCUITS, STAKING_CIRCUITS } from "../sdk/constants";
+import { readStorageLayout } from "../sdk/storageLayout";
+import {
+    INITIAL_REWARD_AMOUNT,
+    LP_STAKING_CONTRACT,
+    LP_STAKING_V1_CONTRACT,
+    OWNER_TOKEN_BALANCE,
+    STAKING_CONTRACT,
+    STAKING_V1_CONTRACT,
+    USER_TOKEN_BALANCE
+} from "./fixtures";
+
+/**
+ * Rehearses the upgrade of the live v1 proxies: v1 is deployed behind an
+ * ERC1967 proxy, used the way mainnet users did, upgraded to v2 through
+ * UUPS `upgradeToAndCall`, and then checked slot by slot and by running v2
+ * against the migrated state. A reward model follows every v1 action so the
+ * first payouts on v2 can be compared to the wei.
+ */
+describe("v1 -> v2 upgrade rehearsal", () => {
+    const IMPLEMENTATION_SLOT = "0x360894a13ba1a3210667c828492db98dca3e2076cc3735a920a3ca505d382bbc";
+    const ONE_DAY = 24 * 60 * 60;
+    const PERIODS = [0, 1, 2];
+
+    let owner: SignerWithAddress;
+    let users: SignerWithAddress[];
+    let treasury: SignerWithAddress;
+    let proxyAddress: string;
+
+    beforeEach(async () => {
+        const signers = await ethers.getSigners();
+        [owner] = signers;
+        treasury = signers[signers.length - 1];
+        users = signers.slice(1, 6);
+    });
+
+    async function deployTokens(...symbols: string[]): Promise<MockERC20[]> {
+        const MockToken = await ethers.getContractFactory("MockERC20");
+        const tokens: MockERC20[] = [];
+        for (const symbol of symbols) tokens.push(await MockToken.deploy(`Token ${symbol}`, symbol));
+        return tokens;
+    }
+
+    /** Deploys `contractName` behind an ERC1967 proxy, the way v1 went live */
+    async function deployUUPSProxy(contractName: string, initArgs: unknown[]): Promise<string> {
+        const Implementation = await ethers.getContractFactory(contractName);
+        const implementation = await Implementation.deploy();
+        const initData = Implementation.interface.encodeFunctionData("initialize", initArgs);
+
+        const Proxy = await ethers.getContractFactory("ERC1967Proxy");
+        const proxy = await Proxy.deploy(await implementation.getAddress(), initData);
+        return proxy.getAddress();
+    }
+
+    async function implementationOf(proxy: string): Promise<string> {
+        const slot = await ethers.provider.getStorage(proxy, IMPLEMENTATION_SLOT);
+        return ethers.getAddress(ethers.dataSlice(slot, 12));
+    }
+
+    /** Deploys the v2 implementation and points the proxy at it */
+    async function upgradeTo(contractName: string, signer = owner): Promise<string> {
+        const implementation = await (await ethers.getContractFactory(contractName)).deploy();
+        const proxy = UUPSUpgradeable__factory.connect(proxyAddress, owner);
+        await proxy.connect(signer).upgradeToAndCall(await implementation.getAddress(), "0x");
+        return implementation.getAddress();
+    }
+
+    /** Sends a transaction and returns the timestamp of the block it was mined in */
+    async function minedAt(tx: Promise<ContractTransactionResponse>): Promise<number> {
+        const receipt = await (await tx).wait();
+        return (await ethers.provider.getBlock(receipt!.blockNumber))!.timestamp;
+    }
+
+    /** Sends a transaction and returns its reward transfers, read from `eventName` logs */
+    async function paidBy(
+        tx: Promise<ContractTransactionResponse>,
+        contract: BaseContract,
+        eventName: string
+    ): Promise<{ timestamp: number; paid: TokenAmount[] }> {
+        const receipt = await (await tx).wait();
+        const paid = receipt!.logs
+            .map((log) => contract.interface.parseLog(log))
+            .filter((event) => event?.name === eventName)
+            .map((event) => ({ token: event!.args.token as string, amount: event!.args.amount as bigint }));
+        const timestamp = (await ethers.provider.getBlock(receipt!.blockNumber))!.timestamp;
+        return { timestamp, paid };
+    }
+
+    async function mintAndApprove(token: MockERC20, account: SignerWithAddress, amount: bigint) {
+        await token.mint(account.address, amount);
+        await token.connect(account).approve(proxyAddress, amount);
+    }
+
+    describe("AIXCBStaking", () => {
+        let v1: AIXCBStakingV1;
+        let staking: AIXCBStaking;
+        let model: StakingRewardModel;
+        let tokens: MockERC20[];
+        /** Reward token added by v1's `addRewardToken` after launch */
+        let lateToken: MockERC20;
+        let rewardTokens: string[];
+
+        async function stake(user: SignerWithAddress, periodIndex: number, amount: string) {
+            const value = ethers.parseEther(amount);
+            const timestamp = await minedAt(
+                v1.connect(user).stake({
+                    amount: value,
+                    periodIndex,
+                    deadline: (await time.latest()) + 3600,
+                    minRate: 0
+                })
+            );
+            model.stake(user.address, periodIndex, value, timestamp);
+        }
+
+        async function claim(user: SignerWithAddress, periodIndex: number) {
+            model.claimRewards(user.address, periodIndex, await minedAt(v1.connect(user).claimRewards(periodIndex)));
+        }
+
+        async function fund(periodIndex: number, token: string) {
+            const timestamp = await minedAt(v1.fundRewardPool(periodIndex, token, INITIAL_REWARD_AMOUNT));
+            model.fundRewardPool(periodIndex, token, INITIAL_REWARD_AMOUNT, timestamp);
+        }
+
+        /**
+         * Launches v1 and runs it for five weeks: two VIP stakers, a staker in
+         * all three periods, top-ups, claims on some positions only, and a
+         * fourth reward token funded for two of the periods
+         */
+        beforeEach(async () => {
+            [lateToken, ...tokens] = await deployTokens("TKD", "AIXCB", "TKB", "TKC");
+            rewardTokens = await Promise.all(tokens.map((token) => token.getAddress()));
+            proxyAddress = await deployUUPSProxy(STAKING_V1_CONTRACT, [rewardTokens[0], rewardTokens, treasury.address]);
+            v1 = AIXCBStakingV1__factory.connect(proxyAddress, owner);
+            staking = AIXCBStaking__factory.connect(proxyAddress, owner);
+            model = new StakingRewardModel(rewardTokens[0], rewardTokens);
+
+            for (const token of [...tokens, lateToken]) await mintAndApprove(token, owner, OWNER_TOKEN_BALANCE);
+            for (const periodIndex of PERIODS) {
+                for (const token of rewardTokens) await fund(periodIndex, token);
+            }
+            await v1.startStaking();
+            for (const user of users) await mintAndApprove(tokens[0], user, 2n * USER_TOKEN_BALANCE);
+
+            const [vip, vipAcrossPeriods, regular, longLock, late] = users;
+            await stake(vip, 2, "1200000");
+            await stake(vipAcrossPeriods, 0, "600000");
+            await stake(vipAcrossPeriods, 1, "500000");
+            await stake(regular, 0, "1000");
+            await stake(regular, 1, "300");
+            await stake(regular, 2, "200");
+            await stake(longLock, 1, "2500");
+
+            await time.increase(5 * ONE_DAY);
+            await stake(regular, 0, "500");
+            await stake(late, 0, "750");
+
+            await time.increase(20 * ONE_DAY);
+            await claim(regular, 0);
+            await claim(longLock, 1);
+
+            const lateAddress = await lateToken.getAddress();
+            await v1.addRewardToken(lateAddress);
+            model.addRewardToken(lateAddress);
+            rewardTokens.push(lateAddress);
+            await fund(0, lateAddress);
+            await fund(2, lateAddress);
+
+            await time.increase(10 * ONE_DAY);
+            // A top-up settles rewards into `userRewards` without paying them
+            await stake(late, 0, "250");
+            await claim(vipAcrossPeriods, 1);
+            await claim(vip, 2);
+            await time.increase(3 * ONE_DAY);
+
+            expect(await v1.isVIP(vip.address)).to.be.true;
+            expect(await v1.isVIP(vipAcrossPeriods.address)).to.be.true;
+        });
+
+        /**
+         * Everything v1 stored, read through the v2 ABI (v1's getters are the
+         * same) so the snapshots before and after the upgrade compare directly
+         */
+        async function readState(): Promise<Record<string, unknown>> {
+            const state: Record<string, unknown> = {
+                stakingToken: await staking.stakingToken(),
+                treasury: await staking.treasury(),
+                emergencyMode: await staking.emergencyMode(),
+                paused: await staking.paused(),
+                admin: await staking.hasRole(await staking.ADMIN_ROLE(), owner.address)
+            };
+            for (const [name, circuit] of Object.entries(STAKING_CIRCUITS)) {
+                state[`circuitBreakers(${name})`] = await staking.circuitBreakers(circuit);
+            }
+            for (const [i, token] of rewardTokens.entries()) {
+                state[`rewardTokens(${i})`] = await staking.rewardTokens(i);
+                state[`isRewardToken(${token})`] = await staking.isRewardToken(token);
+            }
+
+            for (const periodIndex of PERIODS) {
+                state[`lockPeriods(${periodIndex})`] = await staking.lockPeriods(periodIndex);
+                state[`PERIOD_RATES(${periodIndex})`] = await staking.PERIOD_RATES(periodIndex);
+                state[`totalStakedForPeriod(${periodIndex})`] = await staking.totalStakedForPeriod(periodIndex);
+                state[`getStakersForPeriod(${periodIndex})`] = await staking.getStakersForPeriod(periodIndex);
+                for (const token of rewardTokens) {
+                    state[`rewardPools(${periodIndex}, ${token})`] = Array.from(await staking.rewardPools(periodIndex, token));
+                }
+            }
+
+            for (const { address: user } of users) {
+                state[`getUserTotalStake(${user})`] = await staking.getUserTotalStake(user);
+                state[`isVIP(${user})`] = await staking.isVIP(user);
+                state[`loyaltyStats(${user})`] = Array.from(await staking.loyaltyStats(user));
+                for (const periodIndex of PERIODS) {
+                    state[`userStakes(${user}, ${periodIndex})`] = Array.from(await staking.userStakes(user, periodIndex));
+                    for (const token of rewardTokens) {
+                        const index = `${user}, ${periodIndex}, ${token}`;
+                        state[`userRewards(${index})`] = await staking.userRewards(user, periodIndex, token);
+                        state[`userRewardPerSharePaid(${index})`] = await staking.userRewardPerSharePaid(
+                            user,
+                            periodIndex,
+                            token
+                        );
+                    }
+                }
+            }
+            return state;
+        }
+
+        it("should preserve every stake, reward pool and reward balance", async () => {
+            const before = await readState();
+            const userRewards = Object.entries(before).filter(([name]) => name.startsWith("userRewards("));
+            expect(userRewards.some(([, amount]) => (amount as bigint) > 0n), "seeded unclaimed rewards").to.be.true;
+
+            const implementation = await upgradeTo(STAKING_CONTRACT);
+
+            expect(await implementationOf(proxyAddress)).to.equal(implementation);
+            expect(await readState()).to.deep.equal(before);
+        });
+
+        it("should only let ADMIN_ROLE upgrade the proxy", async () => {
+            const v1Implementation = await implementationOf(proxyAddress);
+
+            await expect(upgradeTo(STAKING_CONTRACT, users[0]))
+                .to.be.revertedWithCustomError(v1, "AccessControlUnauthorizedAccount")
+                .withArgs(users[0].address, await v1.ADMIN_ROLE());
+            expect(await implementationOf(proxyAddress)).to.equal(v1Implementation);
+        });
+
+        it("should pay the rewards accrued under v1 after the upgrade", async () => {
+            await upgradeTo(STAKING_CONTRACT);
+
+            for (const user of users) {
+                for (const periodIndex of PERIODS) {
+                    if (!model.getUserStake(user.address, periodIndex).initialized) continue;
+                    const { timestamp, paid } = await paidBy(
+                        staking.connect(user).claimRewards(periodIndex),
+                        staking,
+                        "RewardPaid"
+                    );
+                    expect(paid, `${user.address} period ${periodIndex}`).to.deep.equal(
+                        model.claimRewards(user.address, periodIndex, timestamp)
+                    );
+                    expect(paid).to.not.be.empty;
+                }
+            }
+        });
+
+        it("should upgrade the lock period of a migrated stake", async () => {
+            const regular = users[2];
+            const target = await staking.getUserStake(regular.address, 1);
+            await upgradeTo(STAKING_CONTRACT);
+
+            const { timestamp, paid } = await paidBy(
+                staking.connect(regular).upgradeStakePeriod(0, 1),
+                staking,
+                "RewardPaid"
+            );
+
+            expect(paid).to.deep.equal(model.upgradeStakePeriod(regular.address, 0, 1, timestamp));
+            expect((await staking.getUserStake(regular.address, 0)).initialized).to.be.false;
+            const upgraded = await staking.getUserStake(regular.address, 1);
+            expect(upgraded.amount).to.equal(ethers.parseEther("1800"));
+            expect(upgraded.endTime).to.equal(target.endTime);
+            for (const periodIndex of [0, 1]) {
+                expect(await staking.totalStakedForPeriod(periodIndex)).to.equal(model.totalStakedForPeriod(periodIndex));
+            }
+        });
+
+        it("should let migrated stakes leave through the fee-free emergencyWithdraw", async () => {
+            const [vip, vipAcrossPeriods] = users;
+            await upgradeTo(STAKING_CONTRACT);
+            await staking.enableEmergencyMode();
+            const treasuryBalance = await tokens[0].balanceOf(treasury.address);
+
+            for (const [user, periodIndex, amount] of [
+                [vip, 2, "1200000"],
+                [vipAcrossPeriods, 0, "600000"]
+            ] as const) {
+                const expected = ethers.parseEther(amount);
+                const tx = staking.connect(user).emergencyWithdraw(periodIndex);
+                await expect(tx)
+                    .to.emit(staking, "EmergencyWithdraw")
+                    .withArgs(user.address, expected, 0, (value: bigint) => value > 0n);
+                await expect(tx).to.changeTokenBalance(tokens[0], user, expected);
+                expect(model.emergencyWithdraw(user.address, periodIndex)).to.equal(expected);
+            }
+
+            expect(await tokens[0].balanceOf(treasury.address)).to.equal(treasuryBalance);
+            expect(await staking.getUserTotalStake(vipAcrossPeriods.address)).to.equal(ethers.parseEther("500000"));
+            expect(await staking.totalStakedForPeriod(2)).to.equal(model.totalStakedForPeriod(2));
+        });
+
+        it("should withdraw a migrated stake once its v1 lock ends", async () => {
+            const late = users[4];
+            const { endTime } = await staking.getUserStake(late.address, 0);
+            await upgradeTo(STAKING_CONTRACT);
+            await time.increaseTo(endTime);
+
+            const { timestamp, paid } = await paidBy(staking.connect(late).withdraw(0), staking, "RewardPaid");
+
+            const expected = model.withdraw(late.address, 0, timestamp);
+            expect(paid).to.deep.equal(expected.rewards);
+            expect(expected.amount).to.equal(ethers.parseEther("1000"));
+            expect(await staking.totalStakedForPeriod(0)).to.equal(model.totalStakedForPeriod(0));
+        });
+    });
+
+    describe("AIXCBLPStaking", () => {
+        let v1: AIXCBLPStakingV1;
+        let staking: AIXCBLPStaking;
+        let model: LPStakingRewardModel;
+        let lpToken: MockERC20;
+        let tokens: MockERC20[];
+        let lateToken: MockERC20;
+        let rewardTokens: string[];
+
+        async function stake(user: SignerWithAddress, amount: string) {
+            const value = ethers.parseEther(amount);
+            model.stake(user.address, value, await minedAt(v1.connect(user).stake(value)));
+        }
+
+        async function fund(token: string) {
+            model.fundRewardPool(token, INITIAL_REWARD_AMOUNT, await minedAt(v1.fundRewardPool(token, INITIAL_REWARD_AMOUNT)));
+        }
+
+        /** Launches v1 with three reward tokens and runs it for two weeks, adding a fourth on the way */
+        beforeEach(async () => {
+            [lpToken, lateToken, ...tokens] = await deployTokens("aLP", "TKD", "TKA", "TKB", "TKC");
+            rewardTokens = await Promise.all(tokens.map((token) => token.getAddress()));
+
+            proxyAddress = await deployUUPSProxy(LP_STAKING_V1_CONTRACT, [await lpToken.getAddress(), rewardTokens, treasury.address]);
+            v1 = AIXCBLPStakingV1__factory.connect(proxyAddress, owner);
+            staking = AIXCBLPStaking__factory.connect(proxyAddress, owner);
+            model = new LPStakingRewardModel(rewardTokens);
+
+            for (const token of [...tokens, lateToken]) await mintAndApprove(token, owner, OWNER_TOKEN_BALANCE);
+            await v1.unpause();
+            for (const token of rewardTokens) await fund(token);
+            for (const user of users) await mintAndApprove(lpToken, user, USER_TOKEN_BALANCE);
+
+            const [alice, bob, carol, dave] = users;
+            await stake(alice, "1000");
+            await stake(bob, "3000");
+            await stake(carol, "500");
+
+            await time.increase(7 * ONE_DAY);
+            const withdrawal = ethers.parseEther("400");
+            model.withdraw(alice.address, withdrawal, await minedAt(v1.connect(alice).withdraw(withdrawal)));
+            model.claimRewards(bob.address, await minedAt(v1.connect(bob).claimRewards()));
+            await stake(carol, "250");
+
+            const lateAddress = await lateToken.getAddress();
+            await v1.addRewardToken(lateAddress);
+            model.addRewardToken(lateAddress);
+            rewardTokens.push(lateAddress);
+            await fund(lateAddress);
+
+            await time.increase(5 * ONE_DAY);
+            await stake(dave, "10000");
+            await time.increase(2 * ONE_DAY);
+        });
+
+        let userStakesSlot: bigint;
+        let rewardDebtMember: bigint;
+
+        before(async () => {
+            const layout = await readStorageLayout(artifacts, LP_STAKING_V1_CONTRACT);
+            const userStakes = layout.storage.find((item) => item.label === "userStakes")!;
+            const userStake = layout.types![layout.types![userStakes.type].value!];
+            userStakesSlot = BigInt(userStakes.slot);
+            rewardDebtMember = BigInt(userStake.members!.find((item) => item.label === "rewardDebt")!.slot);
+        });
+
+        /** `userStakes[user].rewardDebt[token]`, which has no getter, read from its slot in the v1 layout */
+        async function rewardDebt(user: string, token: string): Promise<bigint> {
+            const coder = AbiCoder.defaultAbiCoder();
+            const stakeSlot = BigInt(keccak256(coder.encode(["address", "uint256"], [user, userStakesSlot])));
+            const debtSlot = keccak256(coder.encode(["address", "uint256"], [token, stakeSlot + rewardDebtMember]));
+            return BigInt(await ethers.provider.getStorage(proxyAddress, debtSlot));
+        }
+
+        async function readState(): Promise<Record<string, unknown>> {
+            const state: Record<string, unknown> = {
+                lpToken: await staking.lpToken(),
+                treasury: await staking.treasury(),
+                emergencyMode: await staking.emergencyMode(),
+                paused: await staking.paused(),
+                admin: await staking.hasRole(await staking.ADMIN_ROLE(), owner.address),
+                totalStakedAmount: await staking.totalStakedAmount(),
+                rewardTokens: await staking.getRewardTokens()
+            };
+            for (const [name, circuit] of Object.entries(LP_STAKING_CIRCUITS)) {
+                state[`circuitBreakers(${name})`] = await staking.circuitBreakers(circuit);
+            }
+            for (const token of rewardTokens) {
+                state[`rewardPools(${token})`] = Array.from(await staking.rewardPools(token));
+            }
+            for (const { address: user } of users) {
+                state[`userStakes(${user})`] = Array.from(await staking.userStakes(user));
+                state[`loyaltyStats(${user})`] = Array.from(await staking.loyaltyStats(user));
+                for (const token of rewardTokens) {
+                    state[`rewardDebt(${user}, ${token})`] = await rewardDebt(user, token);
+                }
+            }
+            return state;
+        }
+
+        it("should preserve every stake, reward pool and reward debt", async () => {
+            const before = await readState();
+            expect(before[`rewardDebt(${users[1].address}, ${rewardTokens[0]})`]).to.not.equal(0n);
+
+            const implementation = await upgradeTo(LP_STAKING_CONTRACT);
+
+            expect(await implementationOf(proxyAddress)).to.equal(implementation);
+            expect(await readState()).to.deep.equal(before);
+        });
+
+        it("should only let ADMIN_ROLE upgrade the proxy", async () => {
+            await expect(upgradeTo(LP_STAKING_CONTRACT, users[0]))
+                .to.be.revertedWithCustomError(v1, "AccessControlUnauthorizedAccount")
+                .withArgs(users[0].address, await v1.ADMIN_ROLE());
+        });
+
+        it("should pay the rewards accrued under v1 after the upgrade", async () => {
+            await upgradeTo(LP_STAKING_CONTRACT);
+
+            for (const user of users.slice(0, 4)) {
+                const { timestamp, paid } = await paidBy(staking.connect(user).claimRewards(), staking, "RewardsClaimed");
+                expect(paid, user.address).to.deep.equal(model.claimRewards(user.address, timestamp));
+                expect(paid).to.have.lengthOf(rewardTokens.length);
+            }
+        });
+
+        it("should withdraw and restake migrated positions", async () => {
+            const [alice, bob] = users;
+            await upgradeTo(LP_STAKING_CONTRACT);
+
+            const withdrawal = await paidBy(staking.connect(alice).withdraw(ethers.parseEther("600")), staking, "RewardsClaimed");
+            expect(withdrawal.paid).to.deep.equal(model.withdraw(alice.address, ethers.parseEther("600"), withdrawal.timestamp));
+            expect((await staking.userStakes(alice.address)).stakedAmount).to.equal(0n);
+
+            const topUp = await paidBy(staking.connect(bob).stake(ethers.parseEther("1000")), staking, "RewardsClaimed");
+            expect(topUp.paid).to.deep.equal(model.stake(bob.address, ethers.parseEther("1000"), topUp.timestamp));
+            expect(await staking.totalStakedAmount()).to.equal(model.totalStakedAmount);
+        });
+    });
+});
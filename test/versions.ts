@@ -0,0 +1,98 @@
+import { ContractVersion } from "../sdk/errors";
+import { LP_STAKING_CONTRACT, LP_STAKING_V1_CONTRACT, STAKING_CONTRACT, STAKING_V1_CONTRACT } from "./fixtures";
+
+/**
+ * Every behavioural difference between the v1 and v2 implementations, one
+ * row per version. The comprehensive suites run once per row and check each
+ * field, so a difference that is not listed here fails one of the versions.
+ */
+
+export interface StakingVersionSpec {
+    version: ContractVersion;
+    contract: string;
+    /** `StakeParams` carries a `minRate` field (never enforced) */
+    stakeParamsMinRate: boolean;
+    /** Share of an emergency withdrawal sent to the treasury */
+    emergencyWithdrawFeeBps: bigint;
+    /** `isVIP` is set once a user's total stake reaches `VIP_THRESHOLD` */
+    tracksVIP: boolean;
+    /** `loyaltyStats` is updated on stake and withdrawal */
+    tracksLoyalty: boolean;
+    /** `StakingActivity` is emitted on stake and withdrawal */
+    emitsStakingActivity: boolean;
+    /** `upgradeStakePeriod` exists */
+    upgradeStakePeriod: boolean;
+    /** `withdraw` is allowed before `endTime` once every reward pool of the period has finished */
+    withdrawAfterPoolsFinish: boolean;
+    /** Funding a running pool blends into its rate until `periodFinish` instead of restarting it for a year */
+    fundingBlendsRunningPool: boolean;
+    /** Claims pay `min(reward, balance)` instead of reverting with "Insufficient reward balance" */
+    claimsCappedAtBalance: boolean;
+    /** `addRewardToken` rejects tokens without 18 decimals, and emits `RewardTokenAdded` */
+    rewardTokenChecks: boolean;
+    /** `fundRewardPool` validates with custom errors rather than revert strings */
+    fundingCustomErrors: boolean;
+}
+
+export interface LPStakingVersionSpec {
+    version: ContractVersion;
+    contract: string;
+    /** Share of an emergency withdrawal sent to the treasury */
+    emergencyWithdrawFeeBps: bigint;
+    /** `loyaltyStats` is updated on stake and withdrawal, and `getLoyaltyStats` exists */
+    tracksLoyalty: boolean;
+    /** `addRewardToken` rejects tokens without 18 decimals */
+    rewardTokenDecimalsChecked: boolean;
+}
+
+export const VIP_THRESHOLD = 1_000_000n * 10n ** 18n;
+
+export const STAKING_VERSIONS: StakingVersionSpec[] = [
+    {
+        version: "v1",
+        contract: STAKING_V1_CONTRACT,
+        stakeParamsMinRate: true,
+        emergencyWithdrawFeeBps: 2000n,
+        tracksVIP: true,
+        tracksLoyalty: true,
+        emitsStakingActivity: true,
+        upgradeStakePeriod: false,
+        withdrawAfterPoolsFinish: false,
+        fundingBlendsRunningPool: false,
+        claimsCappedAtBalance: false,
+        rewardTokenChecks: false,
+        fundingCustomErrors: false
+    },
+    {
+        version: "v2",
+        contract: STAKING_CONTRACT,
+        stakeParamsMinRate: false,
+        emergencyWithdrawFeeBps: 0n,
+        tracksVIP: false,
+        tracksLoyalty: false,
+        emitsStakingActivity: false,
+        upgradeStakePeriod: true,
+        withdrawAfterPoolsFinish: true,
+        fundingBlendsRunningPool: true,
+        claimsCappedAtBalance: true,
+        rewardTokenChecks: true,
+        fundingCustomErrors: true
+    }
+];
+
+export const LP_STAKING_VERSIONS: LPStakingVersionSpec[] = [
+    {
+        version: "v1",
+        contract: LP_STAKING_V1_CONTRACT,
+        emergencyWithdrawFeeBps: 2000n,
+        tracksLoyalty: true,
+        rewardTokenDecimalsChecked: false
+    },
+    {
+        version: "v2",
+        contract: LP_STAKING_CONTRACT,
+        emergencyWithdrawFeeBps: 2000n,
+        tracksLoyalty: false,
+        rewardTokenDecimalsChecked: true
+    }
+];
@@ -0,0 +1,145 @@
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import { time } from "@nomicfoundation/hardhat-network-helpers";
+import { LOCK_PERIOD_SECONDS } from "../sdk/constants";
+import {
+    DEFAULT_VOTING_POWER_CONFIG,
+    LockPosition,
+    VotingPowerEngine,
+    lockWeight,
+    parseVotingPowerConfig,
+    strategy
+} from "../sdk/votingPower";
+import { LPStakingFixture, StakingFixture, deployLPStakingFixture, deployStakingFixture } from "./fixtures";
+
+describe("Voting power", () => {
+    const ONE_DAY = 24 * 60 * 60;
+    const FLAT = { ...DEFAULT_VOTING_POWER_CONFIG, decay: "none" as const };
+
+    let fromBlock: number;
+    let staking: StakingFixture;
+    let lp: LPStakingFixture;
+    let engine: VotingPowerEngine;
+
+    async function stake(userIndex: number, periodIndex: number, amount: string) {
+        await staking.staking.connect(staking.users[userIndex]).stake({
+            amount: ethers.parseEther(amount),
+            periodIndex,
+            deadline: (await time.latest()) + 3600,
+        });
+    }
+
+    beforeEach(async () => {
+        fromBlock = (await ethers.provider.getBlockNumber()) + 1;
+        staking = await deployStakingFixture();
+        lp = await deployLPStakingFixture();
+        engine = new VotingPowerEngine(ethers.provider, {
+            staking: await staking.staking.getAddress(),
+            lp: await lp.staking.getAddress(),
+            fromBlock,
+            logBatchSize: 5,
+        });
+
+        await stake(0, 0, "1000");
+        await stake(1, 2, "1000");
+        await stake(2, 0, "600");
+        await stake(2, 0, "400");
+        await staking.staking.connect(staking.users[2]).upgradeStakePeriod(0, 1);
+        await lp.staking.connect(lp.users[0]).stake(ethers.parseEther("1000"));
+        await lp.staking.connect(lp.users[1]).stake(ethers.parseEther("500"));
+        await lp.staking.connect(lp.users[1]).withdraw(ethers.parseEther("200"));
+    });
+
+    it("should rebuild the same locks as getUserStake", async () => {
+        const history = await engine.history();
+
+        expect(history.lockPeriods).to.deep.equal(LOCK_PERIOD_SECONDS);
+        expect(history.decimals).to.deep.equal({ staking: 18, lp: 18 });
+        expect(history.locks.map((lock) => [lock.user, lock.period, lock.amount])).to.deep.equal([
+            [staking.users[0].address, "90d", ethers.parseEther("1000")],
+            [staking.users[1].address, "360d", ethers.parseEther("1000")],
+            [staking.users[2].address, "180d", ethers.parseEther("1000")],
+        ]);
+        for (const lock of history.locks) {
+            const onChain = await staking.staking.getUserStake(lock.user, ["90d", "180d", "360d"].indexOf(lock.period));
+            expect([lock.startTime, lock.endTime]).to.deep.equal([Number(onChain.startTime), Number(onChain.endTime)]);
+        }
+        expect([...history.lp]).to.deep.equal([
+            [lp.users[0].address, ethers.parseEther("1000")],
+            [lp.users[1].address, ethers.parseEther("300")],
+        ]);
+    });
+
+    it("should apply lock and LP multipliers", async () => {
+        const config = { ...FLAT, lpMultiplier: 0.5 };
+        const powers = await engine.scores(config);
+        const byAddress = Object.fromEntries(powers.map((power) => [power.address, [power.staking, power.lp, power.total]]));
+
+        expect(powers[0].address).to.equal(staking.users[1].address);
+        expect(byAddress).to.deep.equal({
+            [staking.users[0].address]: [ethers.parseEther("1000"), ethers.parseEther("500"), ethers.parseEther("1500")],
+            [staking.users[1].address]: [ethers.parseEther("2000"), 0n, ethers.parseEther("2000")],
+            [staking.users[2].address]: [ethers.parseEther("1500"), 0n, ethers.parseEther("1500")],
+        });
+    });
+
+    it("should decay the boost with the remaining lock", async () => {
+        await time.increase(180 * ONE_DAY);
+        const history = await engine.history();
+        const [, bob, carol] = history.locks;
+
+        const remaining = bob.endTime - history.blockTimestamp;
+        expect(lockWeight(bob, LOCK_PERIOD_SECONDS["360d"], history.blockTimestamp, DEFAULT_VOTING_POWER_CONFIG)).to.equal(
+            ethers.parseEther("1000") + (ethers.parseEther("1000") * BigInt(remaining)) / BigInt(LOCK_PERIOD_SECONDS["360d"])
+        );
+        // Expired locks still count once, without a boost
+        expect(lockWeight(carol, LOCK_PERIOD_SECONDS["180d"], history.blockTimestamp, DEFAULT_VOTING_POWER_CONFIG)).to.equal(
+            ethers.parseEther("1000")
+        );
+        const fresh: LockPosition = { ...bob, endTime: history.blockTimestamp + LOCK_PERIOD_SECONDS["360d"] };
+        expect(lockWeight(fresh, LOCK_PERIOD_SECONDS["360d"], history.blockTimestamp, DEFAULT_VOTING_POWER_CONFIG)).to.equal(
+            ethers.parseEther("2000")
+        );
+    });
+
+    it("should drop withdrawn and emergency-withdrawn stakes at later blocks only", async () => {
+        await stake(3, 1, "500");
+        await stake(3, 2, "500");
+        const before = await ethers.provider.getBlockNumber();
+        await staking.staking.connect(staking.owner).enableEmergencyMode();
+        await staking.staking.connect(staking.users[3]).emergencyWithdraw(2);
+        await staking.staking.connect(staking.owner).disableEmergencyMode();
+        await lp.staking.connect(lp.owner).enableEmergencyMode();
+        await lp.staking.connect(lp.users[0]).emergencyWithdraw();
+        await time.increase(91 * ONE_DAY);
+        await staking.staking.connect(staking.users[0]).withdraw(0);
+
+        const history = await engine.history();
+        expect(history.locks.map((lock) => [lock.user, lock.period])).to.deep.equal([
+            [staking.users[1].address, "360d"],
+            [staking.users[2].address, "180d"],
+            [staking.users[3].address, "180d"],
+        ]);
+        expect([...history.lp.keys()]).to.deep.equal([lp.users[1].address]);
+
+        const earlier = await engine.history(before);
+        expect(earlier.locks).to.have.length(5);
+        expect(earlier.lp.size).to.equal(2);
+    });
+
+    it("should score the requested addresses as a Snapshot strategy", async () => {
+        const block = await ethers.provider.getBlockNumber();
+        const outsider = ethers.Wallet.createRandom().address;
+        const options = { staking: await staking.staking.getAddress(), fromBlock, decay: "none" as const, lockMultipliers: { "180d": 3 } };
+        const scores = await strategy("aixcb.eth", "8453", ethers.provider, [staking.users[2].address, outsider], options, block);
+
+        expect(scores).to.deep.equal({ [staking.users[2].address]: 3000, [outsider]: 0 });
+    });
+
+    it("should reject weights it cannot apply", () => {
+        expect(parseVotingPowerConfig("lpMultiplier: 2\n")).to.deep.equal({ ...DEFAULT_VOTING_POWER_CONFIG, lpMultiplier: 2 });
+        expect(() => parseVotingPowerConfig("lockMultipliers: { 30d: 1 }\n")).to.throw("unknown period 30d");
+        expect(() => parseVotingPowerConfig("decay: exponential\n")).to.throw("decay must be");
+        expect(() => parseVotingPowerConfig("lpMultiplier: -1\n")).to.throw("non-negative");
+    });
+});